@@ -3,12 +3,15 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { BlockchainProvider } from "@/hooks/use-blockchain";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import Dashboard from "@/pages/dashboard";
 import RegisterDrug from "@/pages/register-drug";
 import VerifyDrug from "@/pages/verify-drug";
 import TrackSupplyChain from "@/pages/track-supply-chain";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -21,7 +24,10 @@ function Router() {
           <Route path="/dashboard" component={Dashboard} />
           <Route path="/register" component={RegisterDrug} />
           <Route path="/verify" component={VerifyDrug} />
+          {/* GS1 Digital Link codes printed on packs */}
+          <Route path="/01/*" component={VerifyDrug} />
           <Route path="/track" component={TrackSupplyChain} />
+          <Route path="/auth" component={AuthPage} />
           <Route component={NotFound} />
         </Switch>
       </main>
@@ -33,10 +39,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <BlockchainProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </BlockchainProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
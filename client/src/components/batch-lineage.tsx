@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useBlockchain } from "@/hooks/use-blockchain";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatQuantity } from "@/lib/utils";
+
+interface LineageNode {
+  batchId: string;
+  status: string;
+  quantity: number | null;
+  unit: string;
+  currentOwner: string;
+  operation: string | null;
+  movedQuantity: number | null;
+  children: LineageNode[];
+}
+
+interface BatchLineageProps {
+  batchId: string;
+  tokenId: number | null;
+  quantity: number | null;
+  unit: string;
+  // Whether the connected wallet holds the batch and it can be split or merged
+  canEdit: boolean;
+  onSelect: (batchId: string) => void;
+  onChanged: () => void;
+}
+
+type Mode = "split" | "merge" | null;
+
+// The split/merge lineage of a batch, from the original lots down, with forms
+// to split sub-lots off it or merge other lots into a new one. Both run on the
+// holder's wallet first and are then recorded by the API.
+export function BatchLineage({ batchId, tokenId, quantity, unit, canEdit, onSelect, onChanged }: BatchLineageProps) {
+  const { contract } = useBlockchain();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode>(null);
+  const [lots, setLots] = useState([{ batchId: "", quantity: "" }]);
+  const [mergeWith, setMergeWith] = useState("");
+  const [newBatchId, setNewBatchId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const lineageQuery = `/api/drug-batches/lineage/${encodeURIComponent(batchId)}`;
+  const { data: lineage } = useQuery<{ tree: LineageNode[] }>({
+    queryKey: [lineageQuery],
+  });
+
+  const reset = () => {
+    setMode(null);
+    setLots([{ batchId: "", quantity: "" }]);
+    setMergeWith("");
+    setNewBatchId("");
+  };
+
+  const submit = async () => {
+    if (!contract) return;
+    if (tokenId == null) {
+      toast({ title: "Not On-Chain", description: "This batch is not registered on-chain", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (mode === "split") {
+        const request = lots.map((lot) => ({ batchId: lot.batchId.trim(), quantity: Number(lot.quantity) }));
+        const tx = await contract.splitDrug(tokenId, request.map((lot) => lot.batchId), request.map((lot) => lot.quantity));
+        const receipt = await tx.wait();
+        const minted = new Map(
+          receipt!.logs
+            .map((log) => contract.interface.parseLog(log))
+            .filter((event) => event?.name === "DrugSplit")
+            .map((event) => [event!.args.childBatchId as string, Number(event!.args.childTokenId)]),
+        );
+
+        // The server checks this transaction's DrugSplit events before accepting it
+        await apiRequest("POST", "/api/drug-batches/split", {
+          batchId,
+          lots: request.map((lot) => ({ ...lot, tokenId: minted.get(lot.batchId) })),
+          transactionHash: receipt!.hash,
+        });
+      } else {
+        const others = mergeWith.split(",").map((id) => id.trim()).filter(Boolean);
+        const tokenIds = [BigInt(tokenId)];
+        for (const other of others) {
+          tokenIds.push(await contract.batchIdToTokenId(other));
+        }
+
+        const tx = await contract.mergeDrugs(tokenIds, newBatchId.trim());
+        const receipt = await tx.wait();
+        const merged = receipt!.logs
+          .map((log) => contract.interface.parseLog(log))
+          .find((event) => event?.name === "DrugsMerged");
+
+        await apiRequest("POST", "/api/drug-batches/merge", {
+          batchIds: [batchId, ...others],
+          newBatchId: newBatchId.trim(),
+          tokenId: merged ? Number(merged.args.tokenId) : undefined,
+          transactionHash: receipt!.hash,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/drug-batches"] });
+      queryClient.invalidateQueries({ queryKey: [lineageQuery] });
+      toast({
+        title: mode === "split" ? "Batch Split" : "Lots Merged",
+        description: mode === "split" ? `${lots.length} sub-lot${lots.length === 1 ? "" : "s"} created` : `Merged into ${newBatchId.trim()}`,
+      });
+      reset();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: mode === "split" ? "Split Failed" : "Merge Failed",
+        description: error instanceof Error ? error.message : "Failed to update the batch",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const splitTotal = lots.reduce((total, lot) => total + (Number(lot.quantity) || 0), 0);
+  const splitValid = lots.every((lot) => lot.batchId.trim() && Number(lot.quantity) > 0) &&
+    quantity != null && splitTotal <= quantity;
+  const mergeValid = mergeWith.trim().length > 0 && newBatchId.trim().length > 0;
+
+  const renderNode = (node: LineageNode, depth: number) => (
+    <div key={`${depth}-${node.batchId}`} style={{ marginLeft: depth * 16 }}>
+      <div className="flex items-center space-x-2 py-1">
+        {node.operation && (
+          <i className={`fas ${node.operation === "split" ? "fa-code-branch" : "fa-object-group"} text-xs text-gray-400`}></i>
+        )}
+        <button
+          type="button"
+          onClick={() => onSelect(node.batchId)}
+          className={`font-mono text-sm hover:underline ${node.batchId === batchId ? "font-bold text-primary" : "text-neutral"}`}
+        >
+          {node.batchId}
+        </button>
+        <Badge variant="outline" className="text-xs capitalize">{node.status.replace("_", " ")}</Badge>
+        <span className="text-xs text-gray-500">
+          {node.quantity == null ? "No quantity" : formatQuantity(node.quantity, node.unit)}
+          {node.movedQuantity != null && ` · ${node.movedQuantity} ${node.operation === "split" ? "split off" : "merged in"}`}
+        </span>
+      </div>
+      {node.children.map((child) => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  const hasLineage = lineage?.tree.some((node) => node.children.length > 0);
+  if (!hasLineage && !canEdit) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <i className="fas fa-sitemap text-primary"></i>
+            <span>Lot Lineage</span>
+          </span>
+          {canEdit && (
+            <div className="flex items-center space-x-2">
+              <Button size="sm" variant={mode === "split" ? "default" : "outline"} onClick={() => setMode(mode === "split" ? null : "split")}>
+                <i className="fas fa-code-branch mr-1"></i>
+                Split
+              </Button>
+              <Button size="sm" variant={mode === "merge" ? "default" : "outline"} onClick={() => setMode(mode === "merge" ? null : "merge")}>
+                <i className="fas fa-object-group mr-1"></i>
+                Merge
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hasLineage ? (
+          <div>{lineage!.tree.map((node) => renderNode(node, 0))}</div>
+        ) : (
+          <p className="text-sm text-gray-500">This batch has not been split or merged.</p>
+        )}
+
+        {mode === "split" && (
+          <div className="border-t pt-4 space-y-2">
+            <p className="text-sm text-gray-600">
+              {quantity == null ? "This batch has no recorded quantity to split." : `${quantity - splitTotal} of ${formatQuantity(quantity, unit)} left after the split`}
+            </p>
+            {lots.map((lot, i) => (
+              <div key={i} className="flex items-center space-x-2">
+                <Input
+                  value={lot.batchId}
+                  onChange={(e) => setLots(lots.map((other, j) => (j === i ? { ...other, batchId: e.target.value } : other)))}
+                  placeholder={`${batchId}-${String.fromCharCode(65 + i)}`}
+                  className="h-8 text-sm font-mono"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={lot.quantity}
+                  onChange={(e) => setLots(lots.map((other, j) => (j === i ? { ...other, quantity: e.target.value } : other)))}
+                  placeholder="Quantity"
+                  className="h-8 text-sm w-28"
+                />
+                {lots.length > 1 && (
+                  <Button size="sm" variant="ghost" onClick={() => setLots(lots.filter((_, j) => j !== i))}>
+                    <i className="fas fa-times"></i>
+                  </Button>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button size="sm" variant="ghost" onClick={() => setLots([...lots, { batchId: "", quantity: "" }])}>
+                <i className="fas fa-plus mr-1"></i>
+                Add Sub-lot
+              </Button>
+              <Button size="sm" onClick={submit} disabled={!splitValid || isSubmitting}>
+                {isSubmitting ? <i className="fas fa-spinner fa-spin mr-2"></i> : null}
+                Split Batch
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === "merge" && (
+          <div className="border-t pt-4 space-y-2">
+            <Input
+              value={mergeWith}
+              onChange={(e) => setMergeWith(e.target.value)}
+              placeholder="Other lots to merge, comma separated"
+              className="h-8 text-sm font-mono"
+            />
+            <Input
+              value={newBatchId}
+              onChange={(e) => setNewBatchId(e.target.value)}
+              placeholder="Batch ID of the merged lot"
+              className="h-8 text-sm font-mono"
+            />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={submit} disabled={!mergeValid || isSubmitting}>
+                {isSubmitting ? <i className="fas fa-spinner fa-spin mr-2"></i> : null}
+                Merge Lots
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+interface StorageCondition {
+  drugName: string;
+  minTemperature: number;
+  maxTemperature: number;
+  minHumidity: number | null;
+  maxHumidity: number | null;
+}
+
+interface TelemetryReading {
+  id: string;
+  deviceId: string;
+  temperature: number;
+  humidity: number | null;
+  excursion: boolean;
+  recordedAt: string;
+}
+
+interface Excursion {
+  id: string;
+  deviceId: string;
+  kind: string;
+  threshold: number;
+  peakValue: number;
+  readingCount: number;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+interface ColdChainChartProps {
+  batchId: string;
+}
+
+const chartConfig = {
+  temperature: { label: "Temperature (°C)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const EXCURSION_LABELS: Record<string, string> = {
+  temperature_high: "Too warm",
+  temperature_low: "Too cold",
+  humidity_high: "Too humid",
+  humidity_low: "Too dry",
+};
+
+// Temperature readings of a batch's data loggers against the drug's allowed
+// range, with the excursions they caused. Hidden for batches without readings.
+export function ColdChainChart({ batchId }: ColdChainChartProps) {
+  const { data: telemetry } = useQuery<{
+    storageCondition: StorageCondition | null;
+    readings: TelemetryReading[];
+    excursions: Excursion[];
+  }>({
+    queryKey: [`/api/drug-batches/telemetry/${encodeURIComponent(batchId)}`],
+  });
+
+  if (!telemetry || telemetry.readings.length === 0) {
+    return null;
+  }
+
+  const { storageCondition, readings, excursions } = telemetry;
+  const data = readings.map((reading) => ({
+    recordedAt: new Date(reading.recordedAt).getTime(),
+    temperature: reading.temperature,
+  }));
+  const unit = (kind: string) => (kind.startsWith("humidity") ? "%" : "°C");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <i className="fas fa-temperature-half text-primary"></i>
+            <span>Cold Chain</span>
+          </span>
+          {storageCondition && (
+            <span className="text-sm font-normal text-gray-500">
+              {storageCondition.minTemperature}–{storageCondition.maxTemperature} °C
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="h-56 w-full">
+          <LineChart data={data} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="recordedAt"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => new Date(value).toLocaleDateString()}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis width={36} tickLine={false} axisLine={false} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => new Date(payload[0]?.payload.recordedAt).toLocaleString()}
+                />
+              }
+            />
+            {storageCondition && (
+              <>
+                <ReferenceLine y={storageCondition.maxTemperature} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                <ReferenceLine y={storageCondition.minTemperature} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+              </>
+            )}
+            <Line dataKey="temperature" type="monotone" stroke="var(--color-temperature)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+
+        {!storageCondition && (
+          <p className="text-sm text-gray-500">No storage conditions are set for this drug, so readings are not checked.</p>
+        )}
+
+        {excursions.length > 0 && (
+          <div className="space-y-2">
+            {excursions.map((excursion) => (
+              <div key={excursion.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <p className="font-medium text-neutral">
+                    {EXCURSION_LABELS[excursion.kind] ?? excursion.kind}: peak {excursion.peakValue}
+                    {unit(excursion.kind)} (limit {excursion.threshold}{unit(excursion.kind)})
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(excursion.startedAt).toLocaleString()}
+                    {excursion.endedAt && ` – ${new Date(excursion.endedAt).toLocaleString()}`}
+                    {" · "}
+                    {excursion.readingCount} reading{excursion.readingCount === 1 ? "" : "s"} from {excursion.deviceId}
+                  </p>
+                </div>
+                <Badge variant={excursion.endedAt ? "secondary" : "destructive"}>
+                  {excursion.endedAt ? "Ended" : "Ongoing"}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
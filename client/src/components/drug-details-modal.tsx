@@ -5,9 +5,12 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useQuery } from "@tanstack/react-query";
 import { useIPFS } from "@/hooks/use-ipfs";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { downloadQRCode, createDrugQRData, generateQRCode } from "@/utils/qr-code";
+import { isPinningConfigured, pinToIPFS } from "@/utils/ipfs";
 import { apiRequest } from "@/lib/queryClient";
+import { getEventColor, getEventIcon, getStatusBadgeVariant } from "@shared/supply-chain";
 
 interface DrugBatch {
   id: string;
@@ -44,6 +47,7 @@ interface DrugDetailsModalProps {
 
 export function DrugDetailsModal({ drug, isOpen, onClose }: DrugDetailsModalProps) {
   const { retrieveFile } = useIPFS();
+  const { user } = useAuth();
   const { toast } = useToast();
   const [qrCode, setQrCode] = useState<string>("");
   const [certificateUrl, setCertificateUrl] = useState<string | null>(null);
@@ -94,57 +98,54 @@ export function DrugDetailsModal({ drug, isOpen, onClose }: DrugDetailsModalProp
     }
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "delivered":
-        return "default";
-      case "in_transit":
-        return "secondary";
-      case "manufactured":
-        return "outline";
-      case "expired":
-        return "destructive";
-      default:
-        return "outline";
+  // Transfers come with a DSCSA T3 document for the seller and buyer
+  const canSeeT3 = (event: SupplyChainEvent) => {
+    if (!event.fromOwnerAddress || event.fromOwnerAddress.toLowerCase() === event.toOwnerAddress.toLowerCase()) {
+      return false;
     }
+    const walletAddress = user?.walletAddress?.toLowerCase();
+    return user?.role === "admin" ||
+      (!!walletAddress && [event.fromOwnerAddress, event.toOwnerAddress].some((address) => address.toLowerCase() === walletAddress));
   };
 
-  const formatStatus = (status: string) => {
-    return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
+  const handleDownloadT3 = async (event: SupplyChainEvent) => {
+    try {
+      const response = await apiRequest("GET", `/api/drug-batches/t3/${event.id}`);
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(await response.blob());
+      link.download = `T3-${drug.batchId}-${event.id}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download T3 document",
+        variant: "destructive",
+      });
+    }
   };
 
-  const getEventIcon = (eventType: string) => {
-    switch (eventType.toLowerCase()) {
-      case "manufacture":
-        return "fas fa-industry";
-      case "transfer":
-        return "fas fa-truck";
-      case "distribute":
-        return "fas fa-warehouse";
-      case "deliver":
-        return "fas fa-store";
-      case "verify":
-        return "fas fa-shield-check";
-      default:
-        return "fas fa-arrow-right";
+  const handlePinT3 = async (event: SupplyChainEvent) => {
+    try {
+      // Pinned byte for byte as downloaded; the server checks the CID against it
+      const t3 = await (await apiRequest("GET", `/api/drug-batches/t3/${event.id}`)).text();
+      const ipfsHash = await pinToIPFS(t3, `T3-${drug.batchId}-${event.id}.json`);
+      await apiRequest("POST", `/api/drug-batches/t3/${event.id}/ipfs`, { ipfsHash });
+      toast({
+        title: "T3 Document Pinned",
+        description: `Pinned to IPFS: ${ipfsHash}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Pinning Failed",
+        description: error instanceof Error ? error.message : "Failed to pin T3 document to IPFS",
+        variant: "destructive",
+      });
     }
   };
 
-  const getEventColor = (eventType: string) => {
-    switch (eventType.toLowerCase()) {
-      case "manufacture":
-        return "bg-green-500";
-      case "transfer":
-        return "bg-amber-500";
-      case "distribute":
-        return "bg-blue-500";
-      case "deliver":
-        return "bg-purple-500";
-      case "verify":
-        return "bg-secondary";
-      default:
-        return "bg-gray-500";
-    }
+  const formatStatus = (status: string) => {
+    return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
   return (
@@ -285,6 +286,20 @@ export function DrugDetailsModal({ drug, isOpen, onClose }: DrugDetailsModalProp
                               </a>
                             </div>
                           )}
+                          {canSeeT3(event) && (
+                            <div className="flex items-center space-x-2 mt-2">
+                              <Button variant="outline" size="sm" onClick={() => handleDownloadT3(event)}>
+                                <i className="fas fa-file-download mr-2"></i>
+                                T3 Document
+                              </Button>
+                              {isPinningConfigured() && (
+                                <Button variant="ghost" size="sm" onClick={() => handlePinT3(event)}>
+                                  <i className="fas fa-thumbtack mr-2"></i>
+                                  Pin to IPFS
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -6,18 +6,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useBlockchain } from "@/hooks/use-blockchain";
 import { useIPFS } from "@/hooks/use-ipfs";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { isValidGtin } from "@shared/gs1";
+import { dosageForms, quantityUnits } from "@shared/schema";
 
 const drugRegistrationSchema = z.object({
   drugName: z.string().min(1, "Drug name is required"),
   batchId: z.string().min(1, "Batch ID is required"),
+  gtin: z.string().refine((value) => !value || isValidGtin(value), "GTIN must be 14 digits with a valid check digit").optional(),
+  strength: z.string().max(50, "Strength must be at most 50 characters").optional(),
+  dosageForm: z.enum(dosageForms).optional(),
   manufacturer: z.string().min(1, "Manufacturer is required"),
   manufacturingDate: z.string().min(1, "Manufacturing date is required"),
   expiryDate: z.string().min(1, "Expiry date is required"),
+  quantity: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  unit: z.enum(quantityUnits),
+  unitCount: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
   certificate: z.instanceof(FileList).optional(),
 });
 
@@ -35,9 +44,14 @@ export function DrugRegistrationForm() {
     defaultValues: {
       drugName: "",
       batchId: "",
+      gtin: "",
+      strength: "",
       manufacturer: "",
       manufacturingDate: "",
       expiryDate: "",
+      quantity: "",
+      unit: "pack",
+      unitCount: "",
     },
   });
 
@@ -46,12 +60,14 @@ export function DrugRegistrationForm() {
       const response = await apiRequest("POST", "/api/drug-batches", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/drug-batches"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       toast({
         title: "Drug Registered",
-        description: "Drug batch has been successfully registered on the blockchain",
+        description: data.serialRange
+          ? `Drug batch registered with ${data.serialRange.count} serialized units`
+          : "Drug batch has been successfully registered on the blockchain",
       });
       form.reset();
     },
@@ -92,22 +108,33 @@ export function DrugRegistrationForm() {
       const manufacturingTimestamp = new Date(data.manufacturingDate).getTime() / 1000;
       const expiryTimestamp = new Date(data.expiryDate).getTime() / 1000;
 
+      // Units in the lot, which sub-lots are split from; defaults to the
+      // serialized unit count
+      const quantity = Number(data.quantity || data.unitCount || 0);
+
       // Register on smart contract
       const tx = await contract.registerDrug(
         data.batchId,
         data.drugName,
         data.manufacturer,
         expiryTimestamp,
-        ipfsHash
+        ipfsHash,
+        quantity
       );
 
       const receipt = await tx.wait();
-      const tokenId = receipt.logs[0]?.args?.tokenId;
+      const registered = receipt?.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((event) => event?.name === "DrugRegistered");
+      const tokenId = registered?.args.tokenId;
 
       // Save to database
       await registerDrugMutation.mutateAsync({
         batchId: data.batchId,
         drugName: data.drugName,
+        gtin: data.gtin || undefined,
+        strength: data.strength || undefined,
+        dosageForm: data.dosageForm,
         manufacturer: data.manufacturer,
         manufacturingDate: data.manufacturingDate,
         expiryDate: data.expiryDate,
@@ -116,7 +143,10 @@ export function DrugRegistrationForm() {
         status: "manufactured",
         ipfsHash,
         contractAddress: contract.target,
-        tokenId: tokenId?.toString(),
+        tokenId: tokenId !== undefined ? Number(tokenId) : undefined,
+        quantity: quantity || undefined,
+        unit: data.unit,
+        unitCount: data.unitCount ? Number(data.unitCount) : undefined,
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -171,6 +201,61 @@ export function DrugRegistrationForm() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="gtin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>GTIN (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="14-digit GS1 GTIN, e.g. 09506000134352" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="strength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Strength (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 500 mg" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dosageForm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dosage Form (optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a form" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {dosageForms.map((dosageForm) => (
+                          <SelectItem key={dosageForm} value={dosageForm} className="capitalize">
+                            {dosageForm}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="manufacturer"
@@ -215,6 +300,61 @@ export function DrugRegistrationForm() {
               />
             </div>
 
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lot Quantity (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="e.g. 5000" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {quantityUnits.map((unit) => (
+                          <SelectItem key={unit} value={unit} className="capitalize">
+                            {unit}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unitCount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serialized Units (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={10000} placeholder="Number of packs, e.g. 500" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="certificate"
@@ -10,6 +10,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { QRScanner } from "@/components/qr-scanner";
+import type { DrugQRData } from "@/utils/qr-code";
 
 const verificationSchema = z.object({
   batchId: z.string().min(1, "Batch ID is required"),
@@ -25,6 +27,7 @@ interface VerificationResult {
     manufacturer: string;
     status: string;
     expiryDate: string;
+    recallReason?: string | null;
   };
   message: string;
 }
@@ -32,6 +35,7 @@ interface VerificationResult {
 export function DrugVerification() {
   const { toast } = useToast();
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
 
   const form = useForm<VerificationData>({
     resolver: zodResolver(verificationSchema),
@@ -46,6 +50,20 @@ export function DrugVerification() {
       return response.json();
     },
     onSuccess: (data) => {
+      if (data.drug.status === "recalled") {
+        setVerificationResult({
+          isValid: false,
+          drug: data.drug,
+          message: `This batch has been recalled: ${data.drug.recallReason || "no reason given"}. Do not dispense or use it.`,
+        });
+        toast({
+          title: "Drug Recalled",
+          description: "This batch has been recalled by its manufacturer.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       setVerificationResult({
         isValid: true,
         drug: data.drug,
@@ -75,10 +93,14 @@ export function DrugVerification() {
   };
 
   const handleScanQR = () => {
-    toast({
-      title: "QR Scanner",
-      description: "QR code scanning would require camera permissions in a production app",
-    });
+    setIsScannerOpen(true);
+  };
+
+  // Verify straight away once a code is read
+  const handleScanned = ({ batchId }: DrugQRData) => {
+    form.setValue("batchId", batchId);
+    setVerificationResult(null);
+    verifyDrugMutation.mutate(batchId);
   };
 
   return (
@@ -149,7 +171,7 @@ export function DrugVerification() {
               <div className="flex-1">
                 <AlertDescription>
                   <p className={`font-medium ${verificationResult.isValid ? "text-green-800" : "text-red-800"}`}>
-                    {verificationResult.isValid ? "Drug Verified ✓" : "Verification Failed ✗"}
+                    {verificationResult.isValid ? "Drug Verified ✓" : verificationResult.drug ? "Drug Recalled ✗" : "Verification Failed ✗"}
                   </p>
                   {verificationResult.isValid && verificationResult.drug && (
                     <div className="mt-2 space-y-1 text-sm">
@@ -173,6 +195,12 @@ export function DrugVerification() {
           </Alert>
         )}
       </CardContent>
+
+      <QRScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleScanned}
+      />
     </Card>
   );
 }
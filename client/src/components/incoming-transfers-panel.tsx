@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useBlockchain } from "@/hooks/use-blockchain";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Transfer {
+  id: string;
+  batchId: string;
+  fromOwner: string;
+  eventType: string;
+  quantity: number | null;
+  deadline: string;
+}
+
+const TRANSFERS_QUERY = "/api/drug-batches/transfers?direction=incoming&status=pending";
+
+// Shipments waiting for the signed-in wallet to confirm receipt or reject.
+// Both are sent from the recipient's wallet first, then recorded by the API.
+export function IncomingTransfersPanel() {
+  const { user } = useAuth();
+  const { contract } = useBlockchain();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: transfers } = useQuery<Transfer[]>({
+    queryKey: [TRANSFERS_QUERY],
+    enabled: !!user?.walletAddress,
+    refetchInterval: 60000,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ transfer, reason }: { transfer: Transfer; reason?: string }) => {
+      if (!contract) {
+        throw new Error("Connect your wallet first");
+      }
+
+      const tokenId = await contract.batchIdToTokenId(transfer.batchId);
+      const tx = reason === undefined
+        ? await contract.acceptTransfer(tokenId)
+        : await contract.rejectTransfer(tokenId, reason);
+      const receipt = await tx.wait();
+
+      const action = reason === undefined ? "accept" : "reject";
+      const response = await apiRequest("POST", `/api/drug-batches/transfers/${transfer.id}/${action}`, {
+        reason,
+        transactionHash: receipt!.hash,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { reason }) => {
+      queryClient.invalidateQueries({ queryKey: [TRANSFERS_QUERY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drug-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drug-batches/inventory"] });
+      setRejecting(null);
+      setReason("");
+      toast({
+        title: reason === undefined ? "Receipt Confirmed" : "Shipment Rejected",
+        description: reason === undefined
+          ? "The batch is now registered to your wallet"
+          : "The batch stays with the sender",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Respond to Shipment",
+        description: error instanceof Error ? error.message : "Failed to respond to shipment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!transfers || transfers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <i className="fas fa-truck-loading text-blue-600"></i>
+          <span>Incoming Shipments</span>
+          <Badge variant="secondary">{transfers.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {transfers.map((transfer) => (
+            <div key={transfer.id} className="border border-blue-100 rounded-md p-3">
+              <div className="flex items-center justify-between">
+                <p className="font-mono text-sm text-neutral">{transfer.batchId}</p>
+                <span className="text-xs font-medium text-blue-600 capitalize">{transfer.eventType}</span>
+              </div>
+              <p className="text-xs text-gray-600 mt-1">
+                From {transfer.fromOwner}
+                {transfer.quantity != null && ` · qty ${transfer.quantity}`} · respond by {new Date(transfer.deadline).toLocaleDateString()}
+              </p>
+              {rejecting === transfer.id ? (
+                <div className="flex items-center space-x-2 mt-2">
+                  <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason, e.g. damaged in transit"
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => respondMutation.mutate({ transfer, reason })}
+                    disabled={respondMutation.isPending || reason.trim().length < 3}
+                  >
+                    Reject
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRejecting(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-end space-x-2 mt-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRejecting(transfer.id)}
+                    disabled={respondMutation.isPending}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => respondMutation.mutate({ transfer })}
+                    disabled={respondMutation.isPending}
+                  >
+                    Confirm Receipt
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
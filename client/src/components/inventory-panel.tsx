@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useBlockchain } from "@/hooks/use-blockchain";
+import { formatQuantity } from "@/lib/utils";
+
+interface InventoryLine {
+  drugName: string;
+  strength: string | null;
+  dosageForm: string | null;
+  unit: string;
+  quantity: number;
+  inTransit: number;
+  batchIds: string[];
+  untrackedBatches: number;
+}
+
+// Stock held by the connected wallet, one line per product and unit
+export function InventoryPanel() {
+  const { account, isConnected } = useBlockchain();
+
+  const { data: inventory } = useQuery<InventoryLine[]>({
+    queryKey: ["/api/drug-batches/inventory", account],
+    enabled: isConnected && !!account,
+  });
+
+  if (!inventory || inventory.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <i className="fas fa-boxes text-primary"></i>
+          <span>My Inventory</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {inventory.map((line) => (
+            <div key={[line.drugName, line.strength, line.dosageForm, line.unit].join("|")} className="flex items-start justify-between">
+              <div className="min-w-0">
+                <p className="font-medium text-sm text-neutral truncate">{line.drugName}</p>
+                <p className="text-xs text-gray-500 capitalize">
+                  {[line.strength, line.dosageForm].filter(Boolean).join(" · ") || "—"}
+                  {" · "}
+                  {line.batchIds.length} batch{line.batchIds.length === 1 ? "" : "es"}
+                </p>
+              </div>
+              <div className="text-right shrink-0 ml-2">
+                <p className="text-sm font-semibold text-neutral">{formatQuantity(line.quantity, line.unit)}</p>
+                {line.inTransit > 0 && (
+                  <p className="text-xs text-blue-600">{formatQuantity(line.inTransit, line.unit)} in transit</p>
+                )}
+                {line.untrackedBatches > 0 && (
+                  <p className="text-xs text-gray-400">+{line.untrackedBatches} untracked</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
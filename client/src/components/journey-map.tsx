@@ -0,0 +1,201 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface JourneyStop {
+  facilityId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  country: string | null;
+  owner: string;
+  eventTypes: string[];
+  arrivedAt: string;
+  lastEventAt: string;
+}
+
+interface JourneyHop {
+  from: number;
+  to: number;
+  durationMs: number;
+  distanceKm: number | null;
+}
+
+interface JourneyMapProps {
+  batchId: string;
+}
+
+// Slippy-map tiles, e.g. a local tile server for offline use. Empty draws
+// the route without a base map.
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL ?? "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_ATTRIBUTION ?? "© OpenStreetMap contributors";
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 10;
+// The map is drawn at this size and scaled to the card's width
+const WIDTH = 640;
+const HEIGHT = 320;
+const PADDING = 40;
+
+// Web Mercator pixel coordinates of a point at `zoom`
+function project(latitude: number, longitude: number, zoom: number) {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const lat = (Math.max(-85.05, Math.min(85.05, latitude)) * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * worldSize,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * worldSize,
+  };
+}
+
+// The closest zoom that fits every point, and the pixel offset of the map's
+// top-left corner at that zoom
+function fitView(points: { latitude: number; longitude: number }[]) {
+  for (let zoom = MAX_ZOOM; zoom >= 0; zoom--) {
+    const projected = points.map((point) => project(point.latitude, point.longitude, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (zoom === 0 || (maxX - minX <= WIDTH - 2 * PADDING && maxY - minY <= HEIGHT - 2 * PADDING)) {
+      return { zoom, left: (minX + maxX) / 2 - WIDTH / 2, top: (minY + maxY) / 2 - HEIGHT / 2 };
+    }
+  }
+  return { zoom: 0, left: 0, top: 0 };
+}
+
+// e.g. "3d 4h", "45m"
+function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+const stopLabel = (stop: JourneyStop) =>
+  [stop.facilityId ?? stop.owner, stop.country].filter(Boolean).join(", ");
+
+// The facilities a batch passed through, on a map where they have
+// coordinates, and the time each hop between them took
+export function JourneyMap({ batchId }: JourneyMapProps) {
+  const { data: journey } = useQuery<{ stops: JourneyStop[]; hops: JourneyHop[] }>({
+    queryKey: [`/api/drug-batches/journey/${encodeURIComponent(batchId)}`],
+  });
+
+  if (!journey || journey.stops.length === 0) {
+    return null;
+  }
+
+  const { stops, hops } = journey;
+  const located = stops
+    .map((stop, index) => ({ ...stop, index }))
+    .filter((stop): stop is JourneyStop & { index: number; latitude: number; longitude: number } =>
+      stop.latitude != null && stop.longitude != null);
+
+  const view = located.length > 0 ? fitView(located) : null;
+  const points = view
+    ? located.map((stop) => {
+      const { x, y } = project(stop.latitude, stop.longitude, view.zoom);
+      return { ...stop, x: x - view.left, y: y - view.top };
+    })
+    : [];
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (view && TILE_URL) {
+    const count = 2 ** view.zoom;
+    for (let ty = Math.floor(view.top / TILE_SIZE); ty * TILE_SIZE < view.top + HEIGHT; ty++) {
+      if (ty < 0 || ty >= count) continue;
+      for (let tx = Math.floor(view.left / TILE_SIZE); tx * TILE_SIZE < view.left + WIDTH; tx++) {
+        const wrapped = ((tx % count) + count) % count;
+        tiles.push({
+          key: `${tx}/${ty}`,
+          url: TILE_URL.replace("{z}", String(view.zoom)).replace("{x}", String(wrapped)).replace("{y}", String(ty)),
+          x: tx * TILE_SIZE - view.left,
+          y: ty * TILE_SIZE - view.top,
+        });
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <i className="fas fa-route text-primary"></i>
+          <span>Journey</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {view && (
+          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-lg border border-gray-200 bg-slate-100">
+            {tiles.map((tile) => (
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none select-none"
+                style={{
+                  left: `${(tile.x / WIDTH) * 100}%`,
+                  top: `${(tile.y / HEIGHT) * 100}%`,
+                  width: `${(TILE_SIZE / WIDTH) * 100}%`,
+                  height: `${(TILE_SIZE / HEIGHT) * 100}%`,
+                }}
+                // Offline without a tile server: keep the route on a blank map
+                onError={(event) => { event.currentTarget.style.visibility = "hidden"; }}
+              />
+            ))}
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="absolute inset-0 h-full w-full">
+              <polyline
+                points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+                fill="none"
+                stroke="hsl(var(--primary))"
+                strokeWidth={3}
+                strokeDasharray="8 6"
+                strokeLinejoin="round"
+              />
+              {points.map((point) => (
+                <g key={point.index}>
+                  <circle cx={point.x} cy={point.y} r={11} fill="hsl(var(--primary))" stroke="white" strokeWidth={2} />
+                  <text x={point.x} y={point.y + 4} textAnchor="middle" fontSize={11} fontWeight={600} fill="white">
+                    {point.index + 1}
+                  </text>
+                  <title>{stopLabel(point)}</title>
+                </g>
+              ))}
+            </svg>
+            {tiles.length > 0 && TILE_ATTRIBUTION && (
+              <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-600">{TILE_ATTRIBUTION}</span>
+            )}
+          </div>
+        )}
+
+        <ol className="space-y-3">
+          {stops.map((stop, index) => {
+            const hop = hops.find((candidate) => candidate.to === index);
+            return (
+              <li key={index} className="text-sm">
+                {hop && (
+                  <p className="mb-2 ml-8 text-xs text-gray-500">
+                    <i className="fas fa-truck mr-1"></i>
+                    {formatDuration(hop.durationMs)}
+                    {hop.distanceKm != null && ` · ${Math.round(hop.distanceKm).toLocaleString()} km`}
+                  </p>
+                )}
+                <div className="flex items-start space-x-3">
+                  <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-primary text-[10px] font-semibold text-white">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0">
+                    <p className="font-medium text-neutral">{stopLabel(stop)}</p>
+                    <p className="text-xs text-gray-500 capitalize">
+                      {stop.owner} · {stop.eventTypes.join(", ")} · {new Date(stop.arrivedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,10 +4,12 @@ import { WalletConnection } from "../wallet-connection";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useBlockchain } from "@/hooks/use-blockchain";
+import { useAuth } from "@/hooks/use-auth";
 
 export function Header() {
   const [location] = useLocation();
   const { userRole } = useBlockchain();
+  const { user, logoutMutation } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const navigation = [
@@ -54,6 +56,25 @@ export function Header() {
           </div>
 
           <div className="flex items-center space-x-4">
+            {user ? (
+              <div className="hidden sm:flex items-center space-x-2">
+                <span className="text-sm text-gray-700 font-medium">{user.username}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  className="text-xs"
+                >
+                  Sign Out
+                </Button>
+              </div>
+            ) : (
+              <Link href="/auth" className="hidden sm:block text-sm text-gray-600 hover:text-primary">
+                Sign In
+              </Link>
+            )}
+
             <WalletConnection />
             
             {userRole && (
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Notification {
+  id: string;
+  kind: string;
+  message: string;
+  createdAt: string;
+}
+
+const kindIcons: Record<string, string> = {
+  license_expiring: "fa-id-card",
+};
+
+// Unread notices for the signed-in user, such as a trading partner's license
+// about to lapse
+export function NotificationsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+    refetchInterval: 60000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/notifications/${id}/read`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Dismiss Notification",
+        description: error instanceof Error ? error.message : "Failed to dismiss notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || !notifications || notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <i className="fas fa-bell text-amber-500"></i>
+          <span>Notifications</span>
+          <Badge variant="secondary">{notifications.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {notifications.slice(0, 5).map((notification) => (
+            <div key={notification.id} className="flex items-start justify-between space-x-3 border border-amber-100 rounded-md p-3">
+              <div className="flex items-start space-x-2 min-w-0">
+                <i className={`fas ${kindIcons[notification.kind] ?? "fa-info-circle"} text-amber-500 mt-0.5`}></i>
+                <div className="min-w-0">
+                  <p className="text-sm text-neutral">{notification.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => readMutation.mutate(notification.id)}
+                disabled={readMutation.isPending}
+              >
+                Dismiss
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { decodeQRCode, decodeQRCodeFromFile, parseDrugQRData, type DrugQRData } from "@/utils/qr-code";
+
+interface QRScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (data: DrugQRData) => void;
+}
+
+export function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDecodingFile, setIsDecodingFile] = useState(false);
+
+  // Reports a decoded code, or explains why it isn't a DrugAuth code
+  const handleDecoded = (text: string) => {
+    const data = parseDrugQRData(text);
+    if (!data) {
+      setError("This QR code is not a DrugAuth batch code");
+      return false;
+    }
+    onScan(data);
+    onClose();
+    return true;
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const scanFrame = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && context && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const text = decodeQRCode(context.getImageData(0, 0, canvas.width, canvas.height));
+        // Keep scanning past codes that aren't ours
+        if (text && handleDecoded(text)) return;
+      }
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError("Camera access is not available in this browser. Upload a photo of the QR code instead.");
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error("Failed to start camera:", err);
+        setError("Could not access the camera. Allow camera permissions or upload a photo of the QR code.");
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isOpen]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsDecodingFile(true);
+    setError(null);
+    try {
+      const text = await decodeQRCodeFromFile(file);
+      if (!text) {
+        setError("No QR code found in that image");
+        return;
+      }
+      handleDecoded(text);
+    } catch (err) {
+      console.error("Failed to decode QR image:", err);
+      setError("Could not read that image");
+    } finally {
+      setIsDecodingFile(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan QR Code</DialogTitle>
+          <DialogDescription>Point your camera at the QR code on the drug package</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-black">
+          <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+          <div className="pointer-events-none absolute inset-8 rounded-lg border-2 border-white/70"></div>
+        </div>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-sm text-red-700">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDecodingFile}
+        >
+          {isDecodingFile ? (
+            <>
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+              Reading image...
+            </>
+          ) : (
+            <>
+              <i className="fas fa-image mr-2"></i>
+              Upload QR Photo
+            </>
+          )}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBlockchain } from "@/hooks/use-blockchain";
+import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+const recallSchema = z.object({
+  reason: z.string().min(3, "Recall reason must be at least 3 characters"),
+  scope: z.enum(["batch", "drug"]),
+  fromBatchId: z.string().optional(),
+  toBatchId: z.string().optional(),
+});
+
+type RecallData = z.infer<typeof recallSchema>;
+
+interface RecallBatchFormProps {
+  batchId: string;
+  drugName: string;
+  onRecalled: () => void;
+  onCancel: () => void;
+}
+
+export function RecallBatchForm({ batchId, drugName, onRecalled, onCancel }: RecallBatchFormProps) {
+  const { contract } = useBlockchain();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRecalling, setIsRecalling] = useState(false);
+
+  const form = useForm<RecallData>({
+    resolver: zodResolver(recallSchema),
+    defaultValues: { reason: "", scope: "batch", fromBatchId: "", toBatchId: "" },
+  });
+  const scope = form.watch("scope");
+
+  const onSubmit = async (data: RecallData) => {
+    if (!contract) return;
+
+    setIsRecalling(true);
+    try {
+      const request = {
+        batchId,
+        reason: data.reason,
+        scope: data.scope,
+        fromBatchId: data.fromBatchId || undefined,
+        toBatchId: data.toBatchId || undefined,
+      };
+
+      // The server works out which batches the recall covers
+      const preview = await apiRequest("POST", "/api/drug-batches/recall/preview", request);
+      const { batches } = (await preview.json()) as { batches: { batchId: string; tokenId: number | null }[] };
+
+      const offChain = batches.filter((batch) => batch.tokenId == null);
+      if (offChain.length > 0) {
+        throw new Error(`Not registered on-chain: ${offChain.map((batch) => batch.batchId).join(", ")}`);
+      }
+
+      const tx = await contract.recallDrugs(batches.map((batch) => batch.tokenId!), data.reason);
+      const receipt = await tx.wait();
+
+      // The server checks this transaction's DrugRecalled events before accepting it
+      await apiRequest("POST", "/api/drug-batches/recall", { ...request, transactionHash: receipt!.hash });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/drug-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Recall Issued",
+        description: `${batches.length} batch${batches.length === 1 ? "" : "es"} recalled`,
+      });
+      onRecalled();
+    } catch (error) {
+      toast({
+        title: "Recall Failed",
+        description: error instanceof Error ? error.message : "Failed to recall drug batch",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecalling(false);
+    }
+  };
+
+  return (
+    <Card className="border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-destructive">
+          <i className="fas fa-exclamation-triangle"></i>
+          <span>Recall Drug Batch</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Contamination found in quality testing" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scope</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="batch">This batch only ({batchId})</SelectItem>
+                      <SelectItem value="drug">All my batches of {drugName}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {scope === "drug" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="fromBatchId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From Batch ID (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="BTC-2024-001" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="toBatchId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>To Batch ID (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="BTC-2024-099" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button type="submit" variant="destructive" disabled={isRecalling || !contract}>
+                {isRecalling ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Recalling...
+                  </>
+                ) : (
+                  <>
+                    <i className="fas fa-ban mr-2"></i>
+                    Confirm Recall
+                  </>
+                )}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
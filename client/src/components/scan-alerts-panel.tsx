@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ScanAlert {
+  id: string;
+  batchId: string;
+  rule: string;
+  message: string;
+  occurrences: number;
+  lastDetectedAt: string;
+}
+
+const ruleLabels: Record<string, string> = {
+  impossible_travel: "Impossible travel",
+  excessive_scans: "Excessive scans",
+  scan_after_recall: "Scanned after recall",
+};
+
+// Open counterfeit-suspicion alerts, for admins and manufacturers
+export function ScanAlertsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canSeeAlerts = user?.role === "admin" || user?.role === "manufacturer";
+
+  const { data: alerts } = useQuery<ScanAlert[]>({
+    queryKey: ["/api/scan-alerts"],
+    enabled: canSeeAlerts,
+    refetchInterval: 60000,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/scan-alerts/${id}/resolve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scan-alerts"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Resolve Alert",
+        description: error instanceof Error ? error.message : "Failed to resolve alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canSeeAlerts || !alerts || alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <i className="fas fa-user-secret text-red-600"></i>
+          <span>Scan Alerts</span>
+          <Badge variant="destructive">{alerts.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {alerts.slice(0, 5).map((alert) => (
+            <div key={alert.id} className="border border-red-100 rounded-md p-3">
+              <div className="flex items-center justify-between">
+                <p className="font-mono text-sm text-neutral">{alert.batchId}</p>
+                <span className="text-xs font-medium text-red-600">{ruleLabels[alert.rule] ?? alert.rule}</span>
+              </div>
+              <p className="text-xs text-gray-600 mt-1">{alert.message}</p>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">
+                  {alert.occurrences}× · last {new Date(alert.lastDetectedAt).toLocaleString()}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveMutation.mutate(alert.id)}
+                  disabled={resolveMutation.isPending}
+                >
+                  Resolve
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
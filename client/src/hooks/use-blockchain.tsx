@@ -1,11 +1,13 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import { ethers } from "ethers";
-import { contractABI, contractAddress } from "@/utils/ethereum";
+import { DrugAuth__factory, type DrugAuth } from "@shared/contracts";
+import { contractAddress } from "@/utils/ethereum";
+import { signInWithEthereum } from "@/utils/siwe";
 
 interface BlockchainContextType {
   provider: ethers.BrowserProvider | null;
   signer: ethers.Signer | null;
-  contract: ethers.Contract | null;
+  contract: DrugAuth | null;
   account: string | null;
   isConnected: boolean;
   userRole: string | null;
@@ -33,7 +35,7 @@ interface BlockchainProviderProps {
 export function BlockchainProvider({ children }: BlockchainProviderProps) {
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [contract, setContract] = useState<DrugAuth | null>(null);
   const [account, setAccount] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [userRole, setUserRole] = useState<string | null>(null);
@@ -52,17 +54,19 @@ export function BlockchainProvider({ children }: BlockchainProviderProps) {
           await switchToGoerli();
         }
 
-        const contract = new ethers.Contract(contractAddress, contractABI, signer);
+        // Prove wallet ownership to the server; this signs in (or links the
+        // wallet to the signed-in account) and gives us the account's role
+        const { chainId } = await provider.getNetwork();
+        const user = await signInWithEthereum(signer, address, chainId);
+
+        const contract = DrugAuth__factory.connect(contractAddress, signer);
 
         setProvider(provider);
         setSigner(signer);
         setContract(contract);
         setAccount(address);
         setIsConnected(true);
-
-        // Try to get user role from contract or localStorage
-        const storedRole = localStorage.getItem(`userRole_${address}`);
-        setUserRole(storedRole || "customer");
+        setUserRole(user.role);
 
         // Listen for account changes
         window.ethereum.on("accountsChanged", (accounts: string[]) => {
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// e.g. "30 boxes", "1 vial"
+export function formatQuantity(quantity: number, unit: string) {
+  if (quantity === 1) return `${quantity} ${unit}`
+  return `${quantity} ${unit === "box" ? "boxes" : `${unit}s`}`
+}
@@ -9,9 +9,14 @@ import { DrugDetailsModal } from "@/components/drug-details-modal";
 import { DrugRegistrationForm } from "@/components/drug-registration-form";
 import { DrugVerification } from "@/components/drug-verification";
 import { SupplyChainTimeline } from "@/components/supply-chain-timeline";
+import { ScanAlertsPanel } from "@/components/scan-alerts-panel";
+import { NotificationsPanel } from "@/components/notifications-panel";
+import { IncomingTransfersPanel } from "@/components/incoming-transfers-panel";
+import { InventoryPanel } from "@/components/inventory-panel";
 import { useBlockchain } from "@/hooks/use-blockchain";
 import { downloadQRCode, createDrugQRData } from "@/utils/qr-code";
 import { useToast } from "@/hooks/use-toast";
+import { getStatusBadgeVariant } from "@shared/supply-chain";
 
 interface DrugBatch {
   id: string;
@@ -43,6 +48,12 @@ export default function Dashboard() {
     enabled: isConnected && !!account,
   });
 
+  // Batches expiring in the next 30 days
+  const { data: expiringBatches } = useQuery<DrugBatch[]>({
+    queryKey: ["/api/drug-batches/expiring?days=30"],
+    enabled: isConnected && !!account,
+  });
+
   // Fetch recent drug batches
   const { data: recentBatches, isLoading: batchesLoading } = useQuery<DrugBatch[]>({
     queryKey: ["/api/drug-batches", currentPage],
@@ -66,21 +77,6 @@ export default function Dashboard() {
     }
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "delivered":
-        return "default";
-      case "in_transit":
-        return "secondary";
-      case "pending":
-        return "outline";
-      case "expired":
-        return "destructive";
-      default:
-        return "outline";
-    }
-  };
-
   const formatStatus = (status: string) => {
     return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
@@ -336,6 +332,35 @@ export default function Dashboard() {
 
         {/* Quick Actions Sidebar */}
         <div className="space-y-6">
+          <NotificationsPanel />
+          <IncomingTransfersPanel />
+          <InventoryPanel />
+          <ScanAlertsPanel />
+          {expiringBatches && expiringBatches.length > 0 && (
+            <Card className="border-amber-200">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-lg">
+                  <i className="fas fa-hourglass-half text-amber-500"></i>
+                  <span>Expiring Within 30 Days</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {expiringBatches.slice(0, 5).map((batch) => (
+                    <div key={batch.id} className="flex items-center justify-between">
+                      <div>
+                        <p className="font-mono text-sm text-neutral">{batch.batchId}</p>
+                        <p className="text-xs text-gray-600">{batch.drugName}</p>
+                      </div>
+                      <span className="text-sm text-amber-600">
+                        {new Date(batch.expiryDate).toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
           <DrugRegistrationForm />
           <DrugVerification />
           <SupplyChainTimeline />
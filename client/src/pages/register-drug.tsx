@@ -37,8 +37,8 @@ export default function RegisterDrug() {
         <Alert className="mb-6">
           <i className="fas fa-info-circle"></i>
           <AlertDescription>
-            You are currently registered as a "{userRole}". Typically, only manufacturers 
-            register new drug batches. Please ensure you have the proper authorization.
+            You are currently registered as a "{userRole}". Only manufacturer accounts
+            can register new drug batches, so this registration will be rejected.
           </AlertDescription>
         </Alert>
       )}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { ZeroAddress } from "ethers";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,9 +11,16 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { RecallBatchForm } from "@/components/recall-batch-form";
+import { BatchLineage } from "@/components/batch-lineage";
+import { ColdChainChart } from "@/components/cold-chain-chart";
+import { JourneyMap } from "@/components/journey-map";
+import { useAuth } from "@/hooks/use-auth";
 import { useBlockchain } from "@/hooks/use-blockchain";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatQuantity } from "@/lib/utils";
+import { getEventColor, getEventIcon, getStatusBadgeVariant, shipmentEventTypesFrom, shipmentTransitions } from "@shared/supply-chain";
 
 const trackingSchema = z.object({
   batchId: z.string().min(1, "Batch ID is required"),
@@ -20,9 +28,21 @@ const trackingSchema = z.object({
 
 const transferSchema = z.object({
   batchId: z.string().min(1, "Batch ID is required"),
-  newOwner: z.string().min(1, "New owner is required"),
-  newOwnerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+  // A verified trading partner, and which of its wallets to ship to
+  partnerId: z.string().min(1, "Choose a trading partner"),
+  newOwnerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Choose the partner's wallet"),
   eventType: z.string().min(1, "Event type is required"),
+  // Left empty to ship the whole batch
+  quantity: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  lotBatchId: z.string().optional(),
+  // Where the shipment is going, all optional
+  facilityId: z.string().max(100).optional(),
+  latitude: z.string().regex(/^-?\d{1,2}(\.\d+)?$/, "Enter a latitude, e.g. 51.5072").optional(),
+  longitude: z.string().regex(/^-?\d{1,3}(\.\d+)?$/, "Enter a longitude, e.g. -0.1276").optional(),
+  country: z.string().regex(/^[A-Za-z]{2}$/, "Enter a two-letter country code").optional(),
+}).refine((data) => !data.latitude === !data.longitude, {
+  message: "Enter both latitude and longitude",
+  path: ["longitude"],
 });
 
 type TrackingData = z.infer<typeof trackingSchema>;
@@ -36,10 +56,25 @@ interface DrugBatch {
   currentOwner: string;
   currentOwnerAddress: string;
   status: string;
+  recallReason: string | null;
   expiryDate: string;
+  tokenId: number | null;
+  quantity: number | null;
+  unit: string;
+  strength: string | null;
+  dosageForm: string | null;
   createdAt: string;
 }
 
+interface TradingPartner {
+  id: string;
+  legalName: string;
+  role: string;
+  gln: string | null;
+  walletAddresses: string[];
+  facilities: { facilityId: string; name: string; latitude?: number; longitude?: number; country?: string }[];
+}
+
 interface SupplyChainEvent {
   id: string;
   fromOwner?: string;
@@ -47,17 +82,21 @@ interface SupplyChainEvent {
   fromOwnerAddress?: string;
   toOwnerAddress: string;
   eventType: string;
+  facilityId: string | null;
+  country: string | null;
   transactionHash?: string;
   timestamp: string;
 }
 
 export default function TrackSupplyChain() {
+  const { user } = useAuth();
   const { account, contract, isConnected } = useBlockchain();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedDrug, setSelectedDrug] = useState<DrugBatch | null>(null);
   const [supplyChainEvents, setSupplyChainEvents] = useState<SupplyChainEvent[]>([]);
   const [showTransferForm, setShowTransferForm] = useState(false);
+  const [showRecallForm, setShowRecallForm] = useState(false);
 
   const trackingForm = useForm<TrackingData>({
     resolver: zodResolver(trackingSchema),
@@ -68,12 +107,24 @@ export default function TrackSupplyChain() {
     resolver: zodResolver(transferSchema),
     defaultValues: {
       batchId: "",
-      newOwner: "",
+      partnerId: "",
       newOwnerAddress: "",
       eventType: "transfer",
+      quantity: "",
+      lotBatchId: "",
+      facilityId: "",
+      latitude: "",
+      longitude: "",
+      country: "",
     },
   });
 
+  // Only verified partners with a license in force can be shipped to
+  const { data: partners } = useQuery<TradingPartner[]>({
+    queryKey: ["/api/partners?status=verified&licensed=true"],
+    enabled: !!user && showTransferForm,
+  });
+
   // Fetch drug batches owned by current user
   const { data: ownedDrugs, isLoading: drugsLoading } = useQuery<DrugBatch[]>({
     queryKey: ["/api/drug-batches/owned", account],
@@ -89,6 +140,11 @@ export default function TrackSupplyChain() {
       setSelectedDrug(data.drug);
       setSupplyChainEvents(data.events || []);
       transferForm.setValue("batchId", data.drug.batchId);
+      transferForm.setValue("eventType", shipmentEventTypesFrom(data.drug.status)[0] ?? "");
+      // The journey and telemetry panels load separately; refresh them too
+      for (const path of ["journey", "telemetry"]) {
+        queryClient.invalidateQueries({ queryKey: [`/api/drug-batches/${path}/${encodeURIComponent(data.drug.batchId)}`] });
+      }
       toast({
         title: "Drug Tracked",
         description: "Supply chain history loaded successfully",
@@ -104,12 +160,18 @@ export default function TrackSupplyChain() {
   });
 
   const transferOwnershipMutation = useMutation({
-    mutationFn: async (data: TransferData) => {
+    mutationFn: async (data: Omit<TransferData, "quantity" | "latitude" | "longitude"> & {
+      quantity?: number;
+      latitude?: number;
+      longitude?: number;
+      transactionHash: string;
+    }) => {
       const response = await apiRequest("POST", "/api/drug-batches/transfer", data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/drug-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drug-batches/inventory"] });
       setShowTransferForm(false);
       transferForm.reset();
       // Refresh tracking data
@@ -117,8 +179,8 @@ export default function TrackSupplyChain() {
         trackDrugMutation.mutate(selectedDrug.batchId);
       }
       toast({
-        title: "Ownership Transferred",
-        description: "Drug ownership has been successfully transferred",
+        title: "Shipment Sent",
+        description: "The batch is in transit until the recipient confirms receipt",
       });
     },
     onError: (error) => {
@@ -138,22 +200,51 @@ export default function TrackSupplyChain() {
     if (!contract || !selectedDrug) return;
 
     try {
-      // Call smart contract to transfer ownership - tokenId is optional, use 0 as default
-      const tx = await contract.transferOwnership(
-        selectedDrug.tokenId || 0,
-        data.newOwnerAddress,
-        data.eventType
-      );
+      if (selectedDrug.tokenId == null) {
+        throw new Error("This batch has not been registered on-chain");
+      }
+
+      // A shipment the last recipient never acknowledged has to be taken
+      // back before the batch can be sent again
+      const pending = await contract.pendingTransfers(selectedDrug.tokenId);
+      if (pending.to !== ZeroAddress && pending.deadline * 1000n < BigInt(Date.now())) {
+        await (await contract.cancelTransfer(selectedDrug.tokenId)).wait();
+      }
+
+      // Shipping part of the batch splits it off into a sub-lot and ships
+      // that in the same transaction
+      const quantity = data.quantity ? Number(data.quantity) : undefined;
+      const partial = quantity !== undefined && quantity !== selectedDrug.quantity;
+      const tx = partial
+        ? await contract.initiatePartialTransfer(
+          selectedDrug.tokenId,
+          data.lotBatchId!.trim(),
+          quantity,
+          data.newOwnerAddress,
+          data.eventType
+        )
+        : await contract.initiateTransfer(
+          selectedDrug.tokenId,
+          data.newOwnerAddress,
+          data.eventType
+        );
       
       const receipt = await tx.wait();
       
-      // Update backend with transaction details
+      // Update backend with transaction details; the server checks this
+      // transaction's TransferInitiated (and DrugSplit) events before accepting it
       await transferOwnershipMutation.mutateAsync({
         batchId: selectedDrug.batchId,
-        newOwner: data.newOwner,
+        partnerId: data.partnerId,
         newOwnerAddress: data.newOwnerAddress,
         eventType: data.eventType,
-        transactionHash: receipt.transactionHash,
+        quantity,
+        lotBatchId: partial ? data.lotBatchId!.trim() : undefined,
+        facilityId: data.facilityId?.trim() || undefined,
+        latitude: data.latitude ? Number(data.latitude) : undefined,
+        longitude: data.longitude ? Number(data.longitude) : undefined,
+        country: data.country ? data.country.toUpperCase() : undefined,
+        transactionHash: receipt!.hash,
       });
     } catch (error) {
       toast({
@@ -164,60 +255,28 @@ export default function TrackSupplyChain() {
     }
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "delivered":
-        return "default";
-      case "in_transit":
-        return "secondary";
-      case "manufactured":
-        return "outline";
-      case "expired":
-        return "destructive";
-      default:
-        return "outline";
-    }
-  };
-
   const formatStatus = (status: string) => {
     return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
-  const getEventIcon = (eventType: string) => {
-    switch (eventType.toLowerCase()) {
-      case "manufacture":
-        return "fas fa-industry";
-      case "transfer":
-        return "fas fa-truck";
-      case "distribute":
-        return "fas fa-warehouse";
-      case "deliver":
-        return "fas fa-store";
-      case "verify":
-        return "fas fa-shield-check";
-      default:
-        return "fas fa-arrow-right";
-    }
-  };
-
-  const getEventColor = (eventType: string) => {
-    switch (eventType.toLowerCase()) {
-      case "manufacture":
-        return "bg-green-500";
-      case "transfer":
-        return "bg-amber-500";
-      case "distribute":
-        return "bg-blue-500";
-      case "deliver":
-        return "bg-purple-500";
-      case "verify":
-        return "bg-secondary";
-      default:
-        return "bg-gray-500";
-    }
-  };
-
-  const canTransfer = selectedDrug && account && selectedDrug.currentOwnerAddress.toLowerCase() === account.toLowerCase();
+  // The ways the batch can be shipped from its current status
+  const shipmentTypes = selectedDrug ? shipmentEventTypesFrom(selectedDrug.status) : [];
+  const canTransfer = selectedDrug && account && shipmentTypes.length > 0 &&
+    selectedDrug.currentOwnerAddress.toLowerCase() === account.toLowerCase();
+  // Lots that can't be shipped, e.g. ones already being shipped, can't be
+  // split or merged either
+  const canSplit = !!canTransfer;
+
+  const transferQuantity = transferForm.watch("quantity");
+  const transferLotBatchId = transferForm.watch("lotBatchId");
+  const transferFacilityId = transferForm.watch("facilityId");
+  const selectedPartner = partners?.find((partner) => partner.id === transferForm.watch("partnerId"));
+  const isPartialTransfer = !!transferQuantity && Number(transferQuantity) !== selectedDrug?.quantity;
+
+  // Only the wallet that registered a batch can recall it, wherever it is now
+  const manufacturerAddress = supplyChainEvents.find((event) => event.eventType === "manufacture")?.toOwnerAddress;
+  const canRecall = selectedDrug && account && user?.role === "manufacturer" && selectedDrug.status !== "recalled" &&
+    manufacturerAddress?.toLowerCase() === account.toLowerCase();
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -300,6 +359,16 @@ export default function TrackSupplyChain() {
                         Transfer
                       </Button>
                     )}
+                    {canRecall && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setShowRecallForm(!showRecallForm)}
+                      >
+                        <i className="fas fa-ban mr-1"></i>
+                        Recall
+                      </Button>
+                    )}
                   </div>
                 </CardTitle>
               </CardHeader>
@@ -315,6 +384,11 @@ export default function TrackSupplyChain() {
                     <div>
                       <label className="block text-sm font-medium text-gray-600">Drug Name</label>
                       <p className="text-neutral font-medium">{selectedDrug.drugName}</p>
+                      {(selectedDrug.strength || selectedDrug.dosageForm) && (
+                        <p className="text-sm text-gray-500 capitalize">
+                          {[selectedDrug.strength, selectedDrug.dosageForm].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-600">Manufacturer</label>
@@ -332,6 +406,12 @@ export default function TrackSupplyChain() {
                         {selectedDrug.currentOwnerAddress}
                       </p>
                     </div>
+                    {selectedDrug.quantity != null && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-600">Quantity</label>
+                        <p className="text-neutral">{formatQuantity(selectedDrug.quantity, selectedDrug.unit)}</p>
+                      </div>
+                    )}
                     <div>
                       <label className="block text-sm font-medium text-gray-600">Expiry Date</label>
                       <p className="text-neutral">
@@ -340,10 +420,47 @@ export default function TrackSupplyChain() {
                     </div>
                   </div>
                 </div>
+                {selectedDrug.status === "recalled" && selectedDrug.recallReason && (
+                  <p className="mt-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-md">
+                    <strong>Recall reason:</strong> {selectedDrug.recallReason}
+                  </p>
+                )}
               </CardContent>
             </Card>
           )}
 
+          {/* Recall Form */}
+          {showRecallForm && selectedDrug && canRecall && (
+            <RecallBatchForm
+              batchId={selectedDrug.batchId}
+              drugName={selectedDrug.drugName}
+              onRecalled={() => {
+                setShowRecallForm(false);
+                trackDrugMutation.mutate(selectedDrug.batchId);
+              }}
+              onCancel={() => setShowRecallForm(false)}
+            />
+          )}
+
+          {/* Split/Merge Lineage */}
+          {selectedDrug && (
+            <BatchLineage
+              batchId={selectedDrug.batchId}
+              tokenId={selectedDrug.tokenId}
+              quantity={selectedDrug.quantity}
+              unit={selectedDrug.unit}
+              canEdit={canSplit}
+              onSelect={(batchId) => trackDrugMutation.mutate(batchId)}
+              onChanged={() => trackDrugMutation.mutate(selectedDrug.batchId)}
+            />
+          )}
+
+          {/* Cold-chain Telemetry */}
+          {selectedDrug && <ColdChainChart batchId={selectedDrug.batchId} />}
+
+          {/* Journey Map */}
+          {selectedDrug && <JourneyMap batchId={selectedDrug.batchId} />}
+
           {/* Transfer Ownership Form */}
           {showTransferForm && selectedDrug && canTransfer && (
             <Card className="border-accent">
@@ -358,31 +475,61 @@ export default function TrackSupplyChain() {
                   <form onSubmit={transferForm.handleSubmit(onTransferSubmit)} className="space-y-4">
                     <FormField
                       control={transferForm.control}
-                      name="newOwner"
+                      name="partnerId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>New Owner Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Central Distributor" {...field} />
-                          </FormControl>
+                          <FormLabel>New Owner</FormLabel>
+                          <Select
+                            onValueChange={(partnerId) => {
+                              field.onChange(partnerId);
+                              const partner = partners?.find((candidate) => candidate.id === partnerId);
+                              transferForm.setValue("newOwnerAddress", partner?.walletAddresses[0] ?? "");
+                              transferForm.setValue("facilityId", "");
+                            }}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={partners?.length === 0 ? "No verified trading partners yet" : "Select a verified trading partner"} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {partners?.map((partner) => (
+                                <SelectItem key={partner.id} value={partner.id}>
+                                  {partner.legalName} <span className="text-gray-500 capitalize">· {partner.role}</span>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
-                    <FormField
-                      control={transferForm.control}
-                      name="newOwnerAddress"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>New Owner Ethereum Address</FormLabel>
-                          <FormControl>
-                            <Input placeholder="0x..." {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {selectedPartner && selectedPartner.walletAddresses.length > 1 && (
+                      <FormField
+                        control={transferForm.control}
+                        name="newOwnerAddress"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Wallet</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger className="font-mono">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {selectedPartner.walletAddresses.map((address) => (
+                                  <SelectItem key={address} value={address} className="font-mono">{address}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
 
                     <FormField
                       control={transferForm.control}
@@ -390,17 +537,16 @@ export default function TrackSupplyChain() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Transfer Type</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select transfer type" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="transfer">Transfer</SelectItem>
-                              <SelectItem value="distribute">Distribute</SelectItem>
-                              <SelectItem value="deliver">Deliver</SelectItem>
-                              <SelectItem value="sell">Sell</SelectItem>
+                              {shipmentTypes.map((eventType) => (
+                                <SelectItem key={eventType} value={eventType}>{shipmentTransitions[eventType].label}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -408,10 +554,135 @@ export default function TrackSupplyChain() {
                       )}
                     />
 
+                    {selectedDrug.quantity != null && selectedDrug.status !== "in_transit" && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={transferForm.control}
+                          name="quantity"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Quantity (optional)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  max={selectedDrug.quantity!}
+                                  placeholder={`All ${formatQuantity(selectedDrug.quantity!, selectedDrug.unit)}`}
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        {isPartialTransfer && (
+                          <FormField
+                            control={transferForm.control}
+                            name="lotBatchId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Sub-lot Batch ID</FormLabel>
+                                <FormControl>
+                                  <Input placeholder={`${selectedDrug.batchId}-A`} className="font-mono" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+                    )}
+
+                    {selectedPartner && selectedPartner.facilities.length > 0 && (
+                      <FormItem>
+                        <FormLabel>Destination Facility</FormLabel>
+                        <Select
+                          onValueChange={(facilityId) => {
+                            const facility = selectedPartner.facilities.find((candidate) => candidate.facilityId === facilityId);
+                            transferForm.setValue("facilityId", facilityId);
+                            transferForm.setValue("latitude", facility?.latitude?.toString() ?? "");
+                            transferForm.setValue("longitude", facility?.longitude?.toString() ?? "");
+                            transferForm.setValue("country", facility?.country ?? "");
+                          }}
+                          value={transferFacilityId || undefined}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select one of the partner's facilities" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {selectedPartner.facilities.map((facility) => (
+                              <SelectItem key={facility.facilityId} value={facility.facilityId}>
+                                {facility.name} <span className="text-gray-500 font-mono">· {facility.facilityId}</span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={transferForm.control}
+                        name="facilityId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Destination Facility (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., GLN 0614141000005" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={transferForm.control}
+                        name="country"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Country (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., GB" maxLength={2} className="uppercase" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={transferForm.control}
+                        name="latitude"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Latitude (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="51.5072" inputMode="decimal" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={transferForm.control}
+                        name="longitude"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Longitude (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="-0.1276" inputMode="decimal" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <div className="flex space-x-2">
                       <Button
                         type="submit"
-                        disabled={transferOwnershipMutation.isPending}
+                        disabled={transferOwnershipMutation.isPending || (isPartialTransfer && !transferLotBatchId?.trim())}
                         className="bg-accent text-white hover:bg-accent/90"
                       >
                         {transferOwnershipMutation.isPending ? (
@@ -475,6 +746,12 @@ export default function TrackSupplyChain() {
                               </p>
                             )}
                           </div>
+                          {(event.facilityId || event.country) && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              <i className="fas fa-location-dot mr-1"></i>
+                              {[event.facilityId, event.country].filter(Boolean).join(", ")}
+                            </p>
+                          )}
                           {event.transactionHash && (
                             <div className="mt-2">
                               <a
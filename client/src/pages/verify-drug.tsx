@@ -13,8 +13,12 @@ import { useBlockchain } from "@/hooks/use-blockchain";
 import { useIPFS } from "@/hooks/use-ipfs";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { downloadQRCode, createDrugQRData } from "@/utils/qr-code";
+import { useAuth } from "@/hooks/use-auth";
+import { downloadQRCode, createDrugQRData, createGS1QRData, createSignedDrugQRData, createUnitQRData, parseDrugQRData, type DrugQRData } from "@/utils/qr-code";
 import { apiRequest } from "@/lib/queryClient";
+import { formatGS1HumanReadable, isGS1ElementString, toGS1Date, type GS1Data } from "@shared/gs1";
+import { QRScanner } from "@/components/qr-scanner";
+import { getEventIcon, getStatusBadgeVariant } from "@shared/supply-chain";
 
 const verificationSchema = z.object({
   batchId: z.string().min(1, "Batch ID is required"),
@@ -26,12 +30,15 @@ interface DrugDetails {
   id: string;
   batchId: string;
   drugName: string;
+  gtin?: string | null;
   manufacturer: string;
   manufacturingDate: string;
   expiryDate: string;
   currentOwner: string;
   currentOwnerAddress: string;
   status: string;
+  recallReason?: string | null;
+  recalledAt?: string | null;
   ipfsHash?: string;
   contractAddress?: string;
   tokenId?: string;
@@ -49,14 +56,41 @@ interface SupplyChainEvent {
   timestamp: string;
 }
 
+interface SerializedUnit {
+  id: string;
+  serialNumber: string;
+  scanCount: number;
+  firstScannedAt?: string | null;
+  lastScannedAt?: string | null;
+}
+
+// Server's answer for one scanned pack
+interface UnitCheck {
+  serialNumber: string;
+  alreadyScanned: boolean;
+  scannedElsewhere: boolean;
+  previousScan: { scannedAt: string; location: string | null } | null;
+}
+
+// Server's check of a signed label against the manufacturer's registered key
+interface LabelCheck {
+  status: "valid" | "forged" | "unknown";
+  reason: string;
+}
+
 export default function VerifyDrug() {
-  const { contract, isConnected } = useBlockchain();
+  const { contract, isConnected, signer, account } = useBlockchain();
+  const { user } = useAuth();
   const { retrieveFile } = useIPFS();
   const { toast } = useToast();
   const [verifiedDrug, setVerifiedDrug] = useState<DrugDetails | null>(null);
   const [supplyChainEvents, setSupplyChainEvents] = useState<SupplyChainEvent[]>([]);
   const [certificateUrl, setCertificateUrl] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [labelCheck, setLabelCheck] = useState<LabelCheck | null>(null);
+  const [unitCheck, setUnitCheck] = useState<UnitCheck | null>(null);
+  const [gs1ExpiryMismatch, setGs1ExpiryMismatch] = useState(false);
 
   const form = useForm<VerificationData>({
     resolver: zodResolver(verificationSchema),
@@ -76,6 +110,60 @@ export default function VerifyDrug() {
     }
   }, [urlBatchId, form]);
 
+  // Signed labels and pack codes open this page directly; check them straight away
+  React.useEffect(() => {
+    const scanned = parseDrugQRData(window.location.href);
+    if (scanned?.signed || scanned?.serialNumber) {
+      handleScanned(scanned);
+    }
+  }, []);
+
+  const checkLabelMutation = useMutation({
+    mutationFn: async (payload: NonNullable<DrugQRData["signed"]>) => {
+      const response = await apiRequest("POST", "/api/drug-batches/qr-payload/verify", payload);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setLabelCheck({ status: data.status, reason: data.reason });
+      if (data.unit) {
+        setUnitCheck({
+          serialNumber: data.unit.serialNumber,
+          alreadyScanned: data.alreadyScanned,
+          scannedElsewhere: data.scannedElsewhere,
+          previousScan: data.previousScan,
+        });
+      }
+    },
+    onError: (error) => {
+      setLabelCheck({
+        status: "unknown",
+        reason: error instanceof Error ? error.message : "Label could not be checked",
+      });
+    },
+  });
+
+  const checkUnitMutation = useMutation({
+    mutationFn: async (serialNumber: string) => {
+      const response = await apiRequest("GET", `/api/drug-batches/verify-unit/${encodeURIComponent(serialNumber)}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setUnitCheck({
+        serialNumber: data.unit.serialNumber,
+        alreadyScanned: data.alreadyScanned,
+        scannedElsewhere: data.scannedElsewhere,
+        previousScan: data.previousScan,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Pack Not Found",
+        description: error instanceof Error ? error.message : "This serial number is not registered",
+        variant: "destructive",
+      });
+    },
+  });
+
   const verifyDrugMutation = useMutation({
     mutationFn: async (batchId: string) => {
       const response = await apiRequest("GET", `/api/drug-batches/verify/${encodeURIComponent(batchId)}`);
@@ -113,6 +201,15 @@ export default function VerifyDrug() {
   });
 
   const onSubmit = async (data: VerificationData) => {
+    // Handheld scanners type GS1 DataMatrix contents straight into the input
+    if (isGS1ElementString(data.batchId)) {
+      await handleScanned({ batchId: data.batchId, gs1: data.batchId });
+      return;
+    }
+
+    setLabelCheck(null);
+    setUnitCheck(null);
+    setGs1ExpiryMismatch(false);
     setIsVerifying(true);
     try {
       await verifyDrugMutation.mutateAsync(data.batchId);
@@ -121,10 +218,64 @@ export default function VerifyDrug() {
     }
   };
 
+  // Verify straight away once a code is read
+  const handleScanned = async ({ batchId, serialNumber, signed, gs1 }: DrugQRData) => {
+    setGs1ExpiryMismatch(false);
+    if (gs1) {
+      // The server maps the GTIN and lot to a batch, and the serial to a pack
+      try {
+        const response = await apiRequest("GET", `/api/drug-batches/resolve-gs1?code=${encodeURIComponent(gs1)}`);
+        const resolved = await response.json();
+        batchId = resolved.batchId;
+        serialNumber = resolved.serialNumber;
+        setGs1ExpiryMismatch(resolved.expiryMatches === false);
+      } catch (error) {
+        toast({
+          title: "Unknown GS1 Code",
+          description: error instanceof Error ? error.message : "This code does not match a registered batch",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    form.setValue("batchId", batchId);
+    setLabelCheck(null);
+    setUnitCheck(null);
+    verifyDrugMutation.mutate(batchId);
+    if (serialNumber) {
+      checkUnitMutation.mutate(serialNumber);
+    }
+    if (signed) {
+      checkLabelMutation.mutate(signed);
+    }
+  };
+
+  // Batches with a GTIN get GS1 Digital Link codes, which retail scanners read too
+  const gs1DataFor = (drug: DrugDetails, serial?: string): GS1Data | null => {
+    if (!drug.gtin) return null;
+    return {
+      gtin: drug.gtin,
+      expiry: toGS1Date(new Date(drug.expiryDate)),
+      lot: drug.batchId,
+      ...(serial ? { serial } : {}),
+    };
+  };
+
+  // Falls back to the GTIN alone when the batch ID isn't a valid GS1 lot
+  const formatGS1Label = (drug: DrugDetails): string => {
+    try {
+      return formatGS1HumanReadable(gs1DataFor(drug)!);
+    } catch {
+      return `(01)${drug.gtin}`;
+    }
+  };
+
   const handleGenerateQR = async () => {
     if (verifiedDrug) {
       try {
-        const qrData = createDrugQRData(verifiedDrug.batchId, verifiedDrug.tokenId);
+        const gs1 = gs1DataFor(verifiedDrug);
+        const qrData = gs1 ? createGS1QRData(gs1) : createDrugQRData(verifiedDrug.batchId, verifiedDrug.tokenId);
         await downloadQRCode(qrData, `DrugAuth-${verifiedDrug.batchId}`);
         toast({
           title: "QR Code Generated",
@@ -140,42 +291,63 @@ export default function VerifyDrug() {
     }
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "delivered":
-        return "default";
-      case "in_transit":
-        return "secondary";
-      case "manufactured":
-        return "outline";
-      case "expired":
-        return "destructive";
-      default:
-        return "outline";
+  // The server serializes a new pack; the manufacturer's wallet signs its label
+  const handleGenerateSignedQR = async () => {
+    if (!verifiedDrug || !signer) return;
+
+    try {
+      const response = await apiRequest("POST", "/api/drug-batches/qr-payload", { batchId: verifiedDrug.batchId });
+      const { payload, message } = await response.json();
+      const signature = await signer.signMessage(message);
+      await downloadQRCode(
+        createSignedDrugQRData({ ...payload, signature }),
+        `DrugAuth-${payload.serial}`,
+      );
+      toast({
+        title: "Signed QR Code Generated",
+        description: `Signed label ${payload.serial} for batch ${verifiedDrug.batchId} has been downloaded`,
+      });
+    } catch (error) {
+      toast({
+        title: "QR Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate signed QR code",
+        variant: "destructive",
+      });
     }
   };
 
-  const formatStatus = (status: string) => {
-    return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
-  };
+  // Only the wallet that registered a batch can sign labels for it
+  const manufacturerAddress = supplyChainEvents.find((event) => event.eventType === "manufacture")?.toOwnerAddress;
+  const canSignLabels = verifiedDrug && signer && account && user?.role === "manufacturer" &&
+    manufacturerAddress?.toLowerCase() === account.toLowerCase();
+
+  // First page of the batch's serialized packs, for printing their codes
+  const { data: unitPage } = useQuery<{ units: SerializedUnit[]; total: number }>({
+    queryKey: [`/api/drug-batches/units/${encodeURIComponent(verifiedDrug?.batchId ?? "")}`],
+    enabled: !!canSignLabels,
+  });
 
-  const getEventIcon = (eventType: string) => {
-    switch (eventType.toLowerCase()) {
-      case "manufacture":
-        return "fas fa-industry";
-      case "transfer":
-        return "fas fa-truck";
-      case "distribute":
-        return "fas fa-warehouse";
-      case "deliver":
-        return "fas fa-store";
-      case "verify":
-        return "fas fa-shield-check";
-      default:
-        return "fas fa-arrow-right";
+  const handleDownloadUnitQR = async (serialNumber: string) => {
+    if (!verifiedDrug) return;
+
+    try {
+      // AI 21 holds only the random suffix, as the lot already names the batch
+      const gs1 = gs1DataFor(verifiedDrug, serialNumber.slice(verifiedDrug.batchId.length + 1));
+      const qrData = gs1 ? createGS1QRData(gs1) : createUnitQRData(verifiedDrug.batchId, serialNumber);
+      await downloadQRCode(qrData, `DrugAuth-${serialNumber}`);
+    } catch (error) {
+      toast({
+        title: "QR Generation Failed",
+        description: "Failed to generate QR code",
+        variant: "destructive",
+      });
     }
   };
 
+  const formatStatus = (status: string) => {
+    return status.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
@@ -218,7 +390,7 @@ export default function VerifyDrug() {
                             size="sm"
                             className="px-3"
                             title="Scan QR Code"
-                            disabled={true} // QR scanning would need camera API
+                            onClick={() => setIsScannerOpen(true)}
                           >
                             <i className="fas fa-qrcode"></i>
                           </Button>
@@ -247,6 +419,52 @@ export default function VerifyDrug() {
                   </Button>
                 </form>
               </Form>
+
+              {gs1ExpiryMismatch && (
+                <Alert variant="destructive" className="mt-4">
+                  <AlertDescription>
+                    <i className="fas fa-exclamation-triangle mr-2"></i>
+                    The expiry date in this barcode does not match the registered batch. The pack may be counterfeit.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {unitCheck && (
+                <Alert className={`mt-4 ${unitCheck.scannedElsewhere ? "border-red-200 bg-red-50" : unitCheck.alreadyScanned ? "border-amber-200 bg-amber-50" : "border-green-200 bg-green-50"}`}>
+                  <AlertDescription>
+                    <p className={`font-medium ${unitCheck.scannedElsewhere ? "text-red-800" : unitCheck.alreadyScanned ? "text-amber-800" : "text-green-800"}`}>
+                      <i className={`${unitCheck.scannedElsewhere ? "fas fa-exclamation-triangle" : "fas fa-box"} mr-2`}></i>
+                      {unitCheck.scannedElsewhere
+                        ? "Pack already scanned elsewhere"
+                        : unitCheck.alreadyScanned
+                          ? "Pack scanned before"
+                          : "First scan of this pack"}
+                    </p>
+                    <p className="text-sm mt-1 font-mono">{unitCheck.serialNumber}</p>
+                    {unitCheck.previousScan && (
+                      <p className="text-sm mt-1">
+                        Last scanned {new Date(unitCheck.previousScan.scannedAt).toLocaleString()}
+                        {unitCheck.previousScan.location ? ` from ${unitCheck.previousScan.location}` : ""}.
+                        {unitCheck.scannedElsewhere && " A genuine pack is normally scanned in one place; this code may have been copied."}
+                      </p>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {labelCheck && (
+                <Alert className={`mt-4 ${labelCheck.status === "valid" ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}`}>
+                  <AlertDescription>
+                    <p className={`font-medium ${labelCheck.status === "valid" ? "text-green-800" : "text-red-800"}`}>
+                      <i className={`${labelCheck.status === "valid" ? "fas fa-signature" : "fas fa-exclamation-triangle"} mr-2`}></i>
+                      {labelCheck.status === "valid" ? "Signature valid" : "Unknown or forged label"}
+                    </p>
+                    <p className={`text-sm mt-1 ${labelCheck.status === "valid" ? "text-green-700" : "text-red-700"}`}>
+                      {labelCheck.reason}
+                    </p>
+                  </AlertDescription>
+                </Alert>
+              )}
             </CardContent>
           </Card>
 
@@ -265,6 +483,26 @@ export default function VerifyDrug() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
+                {verifiedDrug.status === "recalled" && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      <p className="font-medium">
+                        <i className="fas fa-exclamation-triangle mr-2"></i>
+                        This batch has been recalled by its manufacturer. Do not dispense or use it.
+                      </p>
+                      {verifiedDrug.recallReason && (
+                        <p className="text-sm mt-1">
+                          <strong>Reason:</strong> {verifiedDrug.recallReason}
+                        </p>
+                      )}
+                      {verifiedDrug.recalledAt && (
+                        <p className="text-sm">
+                          <strong>Recalled on:</strong> {new Date(verifiedDrug.recalledAt).toLocaleDateString()}
+                        </p>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-4">
                     <div>
@@ -281,6 +519,14 @@ export default function VerifyDrug() {
                       <label className="block text-sm font-medium text-gray-600 mb-1">Manufacturer</label>
                       <p className="text-neutral">{verifiedDrug.manufacturer}</p>
                     </div>
+                    {verifiedDrug.gtin && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-600 mb-1">GS1</label>
+                        <p className="font-mono text-sm text-neutral break-all">
+                          {formatGS1Label(verifiedDrug)}
+                        </p>
+                      </div>
+                    )}
                   </div>
                   <div className="space-y-4">
                     <div>
@@ -328,6 +574,45 @@ export default function VerifyDrug() {
                     <i className="fas fa-qrcode"></i>
                     <span>Generate QR Code</span>
                   </Button>
+                  {canSignLabels && (
+                    <Button
+                      onClick={handleGenerateSignedQR}
+                      variant="outline"
+                      className="flex items-center space-x-2"
+                    >
+                      <i className="fas fa-signature"></i>
+                      <span>Generate Signed QR Code</span>
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Serialized Units */}
+          {canSignLabels && unitPage && unitPage.total > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Serialized Units</span>
+                  <span className="text-sm font-normal text-gray-600">{unitPage.total} packs</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {unitPage.units.map((unit) => (
+                    <div key={unit.id} className="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2">
+                      <div>
+                        <p className="font-mono text-sm text-neutral">{unit.serialNumber}</p>
+                        <p className="text-xs text-gray-600">
+                          {unit.scanCount === 0 ? "Not scanned yet" : `Scanned ${unit.scanCount} time${unit.scanCount === 1 ? "" : "s"}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => handleDownloadUnitQR(unit.serialNumber)}>
+                        <i className="fas fa-qrcode"></i>
+                      </Button>
+                    </div>
+                  ))}
                 </div>
               </CardContent>
             </Card>
@@ -455,6 +740,12 @@ export default function VerifyDrug() {
           </Card>
         </div>
       </div>
+
+      <QRScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleScanned}
+      />
     </div>
   );
 }
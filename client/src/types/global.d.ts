@@ -5,4 +5,12 @@ interface Window {
     removeListener: (event: string, callback: (...args: any[]) => void) => void;
     isMetaMask?: boolean;
   };
-}
\ No newline at end of file
+}
+// web3.storage's package exports have no "types" condition, so its own
+// declarations don't resolve with moduleResolution "bundler"
+declare module "web3.storage" {
+  export class Web3Storage {
+    constructor(options: { token: string; endpoint?: URL });
+    put(files: Iterable<File>, options?: { name?: string; wrapWithDirectory?: boolean }): Promise<string>;
+  }
+}
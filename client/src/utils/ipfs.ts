@@ -1,3 +1,5 @@
+import { Web3Storage } from "web3.storage";
+
 // IPFS utilities using Pinata as the service provider
 // For production, you would need to add VITE_PINATA_API_KEY and VITE_PINATA_SECRET_KEY
 
@@ -28,17 +30,21 @@ export const retrieveFromIPFS = async (cid: string): Promise<string> => {
   }
 };
 
-export const uploadJSONToIPFS = async (data: any): Promise<string> => {
-  try {
-    const jsonBlob = new Blob([JSON.stringify(data, null, 2)], {
-      type: "application/json",
-    });
-    const file = new File([jsonBlob], "metadata.json");
-    return await uploadToIPFS(file);
-  } catch (error) {
-    console.error("Error uploading JSON to IPFS:", error);
-    throw new Error("Failed to upload JSON to IPFS");
+// Documents are pinned for real through web3.storage, with VITE_WEB3_STORAGE_TOKEN
+const web3StorageToken: string | undefined = import.meta.env.VITE_WEB3_STORAGE_TOKEN;
+
+export const isPinningConfigured = (): boolean => !!web3StorageToken;
+
+// Pins `content` as a single file, without a wrapping directory, so the CID
+// is that of the content itself
+export const pinToIPFS = async (content: string, name: string): Promise<string> => {
+  if (!web3StorageToken) {
+    throw new Error("IPFS pinning is not configured");
   }
+
+  const client = new Web3Storage({ token: web3StorageToken });
+  const file = new File([content], name, { type: "application/json" });
+  return client.put([file], { name, wrapWithDirectory: false });
 };
 
 export const retrieveJSONFromIPFS = async (cid: string): Promise<any> => {
@@ -1,4 +1,18 @@
 import QRCode from "qrcode";
+import jsQR from "jsqr";
+import type { SignedQRPayload } from "@shared/schema";
+import { createGS1DigitalLink, parseGS1DigitalLink, type GS1Data } from "@shared/gs1";
+
+export interface DrugQRData {
+  batchId: string;
+  tokenId?: string;
+  // Present on per-pack codes
+  serialNumber?: string;
+  // Present on labels signed by the manufacturer
+  signed?: SignedQRPayload;
+  // GS1 Digital Link codes are resolved by the server, which checks the GTIN
+  gs1?: string;
+}
 
 export const generateQRCode = async (data: string): Promise<string> => {
   try {
@@ -56,3 +70,87 @@ export const createDrugQRData = (batchId: string, tokenId?: string): string => {
   
   return verifyUrl;
 };
+
+// Verify URL for one serialized pack of a batch
+export const createUnitQRData = (batchId: string, serialNumber: string): string => {
+  const params = new URLSearchParams({ batchId, unit: serialNumber });
+  return `${window.location.origin}/verify?${params.toString()}`;
+};
+
+// GS1 Digital Link resolved by this app, for batches with a GTIN
+export const createGS1QRData = (data: GS1Data): string => {
+  return createGS1DigitalLink(data, window.location.origin);
+};
+
+// Verify URL carrying a manufacturer-signed label, checked on `/verify`
+export const createSignedDrugQRData = (payload: SignedQRPayload): string => {
+  const params = new URLSearchParams({ batchId: payload.batchId });
+  if (payload.tokenId) {
+    params.set("tokenId", payload.tokenId);
+  }
+  params.set("serial", payload.serial);
+  params.set("kid", payload.keyId);
+  params.set("sig", payload.signature);
+  return `${window.location.origin}/verify?${params.toString()}`;
+};
+
+// Reads back what `createDrugQRData`, `createUnitQRData`, `createSignedDrugQRData`
+// and `createGS1QRData` encode. Codes from another origin are accepted, since
+// the batch is looked up on this server either way.
+export const parseDrugQRData = (text: string): DrugQRData | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return null;
+  }
+
+  const batchId = url.searchParams.get("batchId");
+  if (!batchId) {
+    let gs1: GS1Data | null = null;
+    try {
+      gs1 = parseGS1DigitalLink(url.href);
+    } catch {
+      return null;
+    }
+    return gs1?.lot ? { batchId: gs1.lot, gs1: url.href } : null;
+  }
+
+  const tokenId = url.searchParams.get("tokenId") || undefined;
+  const data: DrugQRData = tokenId ? { batchId, tokenId } : { batchId };
+
+  const serialNumber = url.searchParams.get("unit");
+  if (serialNumber) {
+    data.serialNumber = serialNumber;
+  }
+
+  const serial = url.searchParams.get("serial");
+  const keyId = url.searchParams.get("kid");
+  const signature = url.searchParams.get("sig");
+  if (serial && keyId && signature) {
+    data.signed = { batchId, ...(tokenId ? { tokenId } : {}), serial, keyId, signature };
+  }
+  return data;
+};
+
+export const decodeQRCode = (image: Pick<ImageData, "data" | "width" | "height">): string | null => {
+  const code = jsQR(image.data, image.width, image.height);
+  return code ? code.data : null;
+};
+
+export const decodeQRCodeFromFile = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not supported");
+    }
+    context.drawImage(bitmap, 0, 0);
+    return decodeQRCode(context.getImageData(0, 0, canvas.width, canvas.height));
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,44 @@
+import { SiweMessage } from "siwe";
+import type { Signer } from "ethers";
+import type { PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+// Sign-In with Ethereum: sign a server-issued nonce to prove control of
+// `address`, which creates or links the account and starts a session.
+// Skipped when the current session already belongs to this wallet.
+export const signInWithEthereum = async (
+  signer: Signer,
+  address: string,
+  chainId: bigint,
+): Promise<PublicUser> => {
+  const currentUser = await queryClient.fetchQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  if (currentUser?.walletAddress?.toLowerCase() === address.toLowerCase()) {
+    return currentUser;
+  }
+
+  const nonceResponse = await apiRequest("GET", "/api/auth/siwe/nonce");
+  const { nonce } = await nonceResponse.json();
+
+  const message = new SiweMessage({
+    domain: window.location.host,
+    address,
+    statement: "Sign in to DrugAuth with your wallet.",
+    uri: window.location.origin,
+    version: "1",
+    chainId: Number(chainId),
+    nonce,
+    issuedAt: new Date().toISOString(),
+  }).prepareMessage();
+
+  const signature = await signer.signMessage(message);
+
+  const verifyResponse = await apiRequest("POST", "/api/auth/siwe/verify", { message, signature });
+  const user: PublicUser = await verifyResponse.json();
+
+  queryClient.setQueryData(["/api/auth/me"], user);
+  return user;
+};
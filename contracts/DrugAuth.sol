@@ -1,14 +1,12 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
+pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/Counters.sol";
 
 contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
-    using Counters for Counters.Counter;
-    Counters.Counter private _tokenIdCounter;
+    uint256 private _tokenIdCounter;
 
     struct Drug {
         string batchId;
@@ -19,6 +17,7 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
         address currentOwner;
         uint256 timestamp;
         bool isActive;
+        uint256 quantity; // packs in the lot; 0 when not tracked
     }
 
     struct TransferEvent {
@@ -32,6 +31,35 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
     mapping(string => uint256) public batchIdToTokenId;
     mapping(uint256 => TransferEvent[]) public drugHistory;
     mapping(address => string) public userRoles;
+    mapping(uint256 => address) public tokenManufacturer;
+    mapping(uint256 => string) public recallReasons;
+    // Lot lineage: a sub-lot has the lot it was split from as its parent, a
+    // merged lot every lot that went into it
+    mapping(uint256 => uint256[]) private parentTokens;
+    mapping(uint256 => uint256[]) private childTokens;
+
+    // A shipment awaiting the recipient. Ownership only moves when they accept.
+    struct PendingTransfer {
+        address from;
+        address to;
+        string eventType;
+        uint256 deadline;
+    }
+
+    mapping(uint256 => PendingTransfer) public pendingTransfers;
+    // How long a recipient has to accept or reject a shipment
+    uint256 public transferTimeout = 14 days;
+    // Set while acceptTransfer moves a token, the only way one changes hands
+    bool private _acceptingTransfer;
+
+    // A wholesale, pharmacy or manufacturing license issued to an address.
+    // Only holders of one that has not expired can be shipped drugs.
+    struct License {
+        string licenseNumber;
+        uint256 expiresAt;
+    }
+
+    mapping(address => License) public licenses;
 
     event DrugRegistered(
         uint256 indexed tokenId,
@@ -48,8 +76,30 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
         string eventType
     );
 
+    event TransferInitiated(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to,
+        string eventType,
+        uint256 deadline
+    );
+
+    event TransferRejected(uint256 indexed tokenId, address indexed from, address indexed to, string reason);
+
+    event TransferCancelled(uint256 indexed tokenId, address indexed from, address indexed to);
+
     event RoleAssigned(address indexed user, string role);
 
+    event LicenseIssued(address indexed holder, string licenseNumber, uint256 expiresAt);
+
+    event LicenseRevoked(address indexed holder, string licenseNumber);
+
+    event DrugRecalled(uint256 indexed tokenId, address indexed recalledBy, string reason);
+
+    event DrugSplit(uint256 indexed parentTokenId, uint256 indexed childTokenId, string childBatchId, uint256 quantity);
+
+    event DrugsMerged(uint256 indexed tokenId, uint256[] sourceTokenIds, string batchId, uint256 quantity);
+
     modifier onlyAuthorizedRole(string memory role) {
         require(
             keccak256(abi.encodePacked(userRoles[msg.sender])) == keccak256(abi.encodePacked(role)) ||
@@ -64,7 +114,7 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
         _;
     }
 
-    constructor() ERC721("DrugAuth", "DRUG") {
+    constructor() ERC721("DrugAuth", "DRUG") Ownable(msg.sender) {
         // Assign owner as manufacturer by default
         userRoles[msg.sender] = "manufacturer";
     }
@@ -74,20 +124,14 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
         string memory drugName,
         string memory manufacturer,
         uint256 expiryDate,
-        string memory ipfsHash
+        string memory ipfsHash,
+        uint256 quantity
     ) public returns (uint256) {
-        require(bytes(batchId).length > 0, "Batch ID cannot be empty");
         require(bytes(drugName).length > 0, "Drug name cannot be empty");
         require(bytes(manufacturer).length > 0, "Manufacturer cannot be empty");
         require(expiryDate > block.timestamp, "Expiry date must be in the future");
-        require(batchIdToTokenId[batchId] == 0, "Batch ID already exists");
-
-        _tokenIdCounter.increment();
-        uint256 tokenId = _tokenIdCounter.current();
-
-        _safeMint(msg.sender, tokenId);
 
-        drugs[tokenId] = Drug({
+        uint256 tokenId = _mintDrug(Drug({
             batchId: batchId,
             drugName: drugName,
             manufacturer: manufacturer,
@@ -95,52 +139,224 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
             ipfsHash: ipfsHash,
             currentOwner: msg.sender,
             timestamp: block.timestamp,
-            isActive: true
-        });
+            isActive: true,
+            quantity: quantity
+        }), msg.sender, "manufacture");
 
-        batchIdToTokenId[batchId] = tokenId;
+        emit DrugRegistered(tokenId, batchId, msg.sender, drugName, manufacturer);
 
-        // Record the initial manufacturing event
-        drugHistory[tokenId].push(TransferEvent({
-            from: address(0),
-            to: msg.sender,
-            timestamp: block.timestamp,
-            eventType: "manufacture"
-        }));
+        return tokenId;
+    }
 
-        emit DrugRegistered(tokenId, batchId, msg.sender, drugName, manufacturer);
+    // Splits sub-lots off a lot the caller holds, each taking its quantity
+    // from the parent. A lot split down to nothing is deactivated.
+    function splitDrug(
+        uint256 tokenId,
+        string[] memory childBatchIds,
+        uint256[] memory childQuantities
+    ) public onlyTokenOwner(tokenId) returns (uint256[] memory) {
+        return _splitDrug(tokenId, childBatchIds, childQuantities);
+    }
+
+    function _splitDrug(
+        uint256 tokenId,
+        string[] memory childBatchIds,
+        uint256[] memory childQuantities
+    ) internal returns (uint256[] memory) {
+        require(childBatchIds.length > 0, "No sub-lots given");
+        require(childBatchIds.length == childQuantities.length, "Sub-lot quantities do not match");
+        _requireMovable(tokenId);
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < childQuantities.length; i++) {
+            require(childQuantities[i] > 0, "Quantity cannot be zero");
+            total += childQuantities[i];
+        }
+        Drug storage parent = drugs[tokenId];
+        require(total <= parent.quantity, "Not enough quantity");
+        parent.quantity -= total;
+
+        uint256[] memory childIds = new uint256[](childBatchIds.length);
+        for (uint256 i = 0; i < childBatchIds.length; i++) {
+            Drug memory child = parent;
+            child.batchId = childBatchIds[i];
+            child.currentOwner = msg.sender;
+            child.timestamp = block.timestamp;
+            child.quantity = childQuantities[i];
+
+            childIds[i] = _mintDrug(child, tokenManufacturer[tokenId], "split");
+            parentTokens[childIds[i]].push(tokenId);
+            childTokens[tokenId].push(childIds[i]);
+
+            emit DrugSplit(tokenId, childIds[i], childBatchIds[i], childQuantities[i]);
+        }
+
+        if (parent.quantity == 0) {
+            parent.isActive = false;
+        }
+
+        return childIds;
+    }
+
+    // Merges lots of the same drug and manufacturer held by the caller into a
+    // new lot with their combined quantity and the earliest expiry date. The
+    // merged lots are deactivated.
+    function mergeDrugs(uint256[] memory tokenIds, string memory batchId) public returns (uint256) {
+        require(tokenIds.length > 1, "Need at least two lots to merge");
+
+        Drug memory merged = drugs[tokenIds[0]];
+        address manufacturerAddress = tokenManufacturer[tokenIds[0]];
+        merged.quantity = 0;
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            require(ownerOf(tokenIds[i]) == msg.sender, "Not the token owner");
+            _requireMovable(tokenIds[i]);
+
+            Drug storage lot = drugs[tokenIds[i]];
+            require(
+                tokenManufacturer[tokenIds[i]] == manufacturerAddress &&
+                keccak256(bytes(lot.drugName)) == keccak256(bytes(merged.drugName)),
+                "Lots are not the same drug"
+            );
+
+            merged.quantity += lot.quantity;
+            if (lot.expiryDate < merged.expiryDate) {
+                merged.expiryDate = lot.expiryDate;
+            }
+            // Also stops the same lot being listed twice
+            lot.isActive = false;
+            lot.quantity = 0;
+        }
+
+        merged.batchId = batchId;
+        merged.currentOwner = msg.sender;
+        merged.timestamp = block.timestamp;
+        merged.isActive = true;
+
+        uint256 tokenId = _mintDrug(merged, manufacturerAddress, "merge");
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            parentTokens[tokenId].push(tokenIds[i]);
+            childTokens[tokenIds[i]].push(tokenId);
+        }
+
+        emit DrugsMerged(tokenId, tokenIds, batchId, merged.quantity);
 
         return tokenId;
     }
 
-    function transferOwnership(
+    // Ships the drug to `to`, who must accept it before ownership moves
+    function initiateTransfer(
         uint256 tokenId,
         address to,
         string memory eventType
     ) public onlyTokenOwner(tokenId) {
+        _initiateTransfer(tokenId, to, eventType);
+    }
+
+    // Splits `quantity` off the caller's lot into a sub-lot and ships that to
+    // `to` in one transaction; the rest of the lot stays with the caller
+    function initiatePartialTransfer(
+        uint256 tokenId,
+        string memory childBatchId,
+        uint256 quantity,
+        address to,
+        string memory eventType
+    ) public onlyTokenOwner(tokenId) returns (uint256) {
+        string[] memory childBatchIds = new string[](1);
+        childBatchIds[0] = childBatchId;
+        uint256[] memory childQuantities = new uint256[](1);
+        childQuantities[0] = quantity;
+
+        uint256 childId = _splitDrug(tokenId, childBatchIds, childQuantities)[0];
+        _initiateTransfer(childId, to, eventType);
+        return childId;
+    }
+
+    function _initiateTransfer(uint256 tokenId, address to, string memory eventType) internal {
         require(to != address(0), "Cannot transfer to zero address");
         require(to != ownerOf(tokenId), "Cannot transfer to current owner");
+        if (_isSale(eventType)) {
+            // Patients hold no license; the dispensing pharmacy must
+            require(hasValidLicense(msg.sender), "Seller is not licensed");
+        } else {
+            require(hasValidLicense(to), "Recipient is not licensed");
+        }
+        require(pendingTransfers[tokenId].to == address(0), "Transfer already pending");
+        _requireMovable(tokenId);
+
+        uint256 deadline = block.timestamp + transferTimeout;
+        pendingTransfers[tokenId] = PendingTransfer({
+            from: msg.sender,
+            to: to,
+            eventType: eventType,
+            deadline: deadline
+        });
+
+        emit TransferInitiated(tokenId, msg.sender, to, eventType, deadline);
+    }
+
+    // The recipient confirms receipt and becomes the owner
+    function acceptTransfer(uint256 tokenId) public {
+        PendingTransfer memory pending = pendingTransfers[tokenId];
+        require(pending.to != address(0), "No pending transfer");
+        require(pending.to == msg.sender, "Not the transfer recipient");
+        require(block.timestamp <= pending.deadline, "Transfer has timed out");
+        bool sale = _isSale(pending.eventType);
+        // The license may have lapsed while the shipment was on its way
+        require(sale || hasValidLicense(msg.sender), "Recipient is not licensed");
         require(drugs[tokenId].isActive, "Drug is not active");
         require(drugs[tokenId].expiryDate > block.timestamp, "Drug has expired");
 
-        address from = ownerOf(tokenId);
-        
-        _transfer(from, to, tokenId);
-        drugs[tokenId].currentOwner = to;
+        delete pendingTransfers[tokenId];
+        _acceptingTransfer = true;
+        _transfer(pending.from, pending.to, tokenId);
+        _acceptingTransfer = false;
+        drugs[tokenId].currentOwner = pending.to;
+        if (sale) {
+            // Dispensed to a patient, it leaves the supply chain
+            drugs[tokenId].isActive = false;
+        }
 
         // Record the transfer event
         drugHistory[tokenId].push(TransferEvent({
-            from: from,
-            to: to,
+            from: pending.from,
+            to: pending.to,
             timestamp: block.timestamp,
-            eventType: eventType
+            eventType: pending.eventType
         }));
 
-        emit OwnershipTransferred(tokenId, from, to, eventType);
+        emit OwnershipTransferred(tokenId, pending.from, pending.to, pending.eventType);
+    }
+
+    // The recipient refuses the shipment; the sender keeps the drug
+    function rejectTransfer(uint256 tokenId, string memory reason) public {
+        PendingTransfer memory pending = pendingTransfers[tokenId];
+        require(pending.to != address(0), "No pending transfer");
+        require(pending.to == msg.sender, "Not the transfer recipient");
+        require(bytes(reason).length > 0, "Rejection reason cannot be empty");
+
+        delete pendingTransfers[tokenId];
+        emit TransferRejected(tokenId, pending.from, pending.to, reason);
+    }
+
+    // The sender takes back a shipment the recipient never acknowledged
+    function cancelTransfer(uint256 tokenId) public {
+        PendingTransfer memory pending = pendingTransfers[tokenId];
+        require(pending.to != address(0), "No pending transfer");
+        require(pending.from == msg.sender, "Not the transfer sender");
+        require(block.timestamp > pending.deadline, "Transfer has not timed out");
+
+        delete pendingTransfers[tokenId];
+        emit TransferCancelled(tokenId, pending.from, pending.to);
+    }
+
+    function setTransferTimeout(uint256 timeout) public onlyOwner {
+        require(timeout > 0, "Timeout cannot be zero");
+        transferTimeout = timeout;
     }
 
     function verifyDrug(uint256 tokenId) public view returns (Drug memory) {
-        require(_exists(tokenId), "Drug does not exist");
+        require(_ownerOf(tokenId) != address(0), "Drug does not exist");
         return drugs[tokenId];
     }
 
@@ -151,14 +367,55 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
     }
 
     function getDrugHistory(uint256 tokenId) public view returns (TransferEvent[] memory) {
-        require(_exists(tokenId), "Drug does not exist");
+        require(_ownerOf(tokenId) != address(0), "Drug does not exist");
         return drugHistory[tokenId];
     }
 
+    function getParentTokens(uint256 tokenId) public view returns (uint256[] memory) {
+        require(_ownerOf(tokenId) != address(0), "Drug does not exist");
+        return parentTokens[tokenId];
+    }
+
+    function getChildTokens(uint256 tokenId) public view returns (uint256[] memory) {
+        require(_ownerOf(tokenId) != address(0), "Drug does not exist");
+        return childTokens[tokenId];
+    }
+
     function deactivateDrug(uint256 tokenId) public onlyTokenOwner(tokenId) {
         drugs[tokenId].isActive = false;
     }
 
+    // Recalls can come from the manufacturer that registered the drug (or the
+    // contract owner), wherever the token currently is
+    function recallDrug(uint256 tokenId, string memory reason) public {
+        require(_ownerOf(tokenId) != address(0), "Drug does not exist");
+        require(
+            msg.sender == tokenManufacturer[tokenId] || msg.sender == owner(),
+            "Only the manufacturer can recall"
+        );
+        require(bytes(reason).length > 0, "Recall reason cannot be empty");
+        require(bytes(recallReasons[tokenId]).length == 0, "Drug already recalled");
+
+        drugs[tokenId].isActive = false;
+        recallReasons[tokenId] = reason;
+
+        address holder = ownerOf(tokenId);
+        drugHistory[tokenId].push(TransferEvent({
+            from: holder,
+            to: holder,
+            timestamp: block.timestamp,
+            eventType: "recall"
+        }));
+
+        emit DrugRecalled(tokenId, msg.sender, reason);
+    }
+
+    function recallDrugs(uint256[] memory tokenIds, string memory reason) public {
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            recallDrug(tokenIds[i], reason);
+        }
+    }
+
     function assignRole(address user, string memory role) public onlyOwner {
         userRoles[user] = role;
         emit RoleAssigned(user, role);
@@ -168,6 +425,28 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
         return userRoles[user];
     }
 
+    // Records the license `holder` trades under, replacing any earlier one
+    function issueLicense(address holder, string memory licenseNumber, uint256 expiresAt) public onlyOwner {
+        require(holder != address(0), "Cannot license zero address");
+        require(bytes(licenseNumber).length > 0, "License number cannot be empty");
+        require(expiresAt > block.timestamp, "License has already expired");
+
+        licenses[holder] = License({ licenseNumber: licenseNumber, expiresAt: expiresAt });
+        emit LicenseIssued(holder, licenseNumber, expiresAt);
+    }
+
+    function revokeLicense(address holder) public onlyOwner {
+        require(licenses[holder].expiresAt != 0, "No license to revoke");
+
+        string memory licenseNumber = licenses[holder].licenseNumber;
+        delete licenses[holder];
+        emit LicenseRevoked(holder, licenseNumber);
+    }
+
+    function hasValidLicense(address holder) public view returns (bool) {
+        return licenses[holder].expiresAt > block.timestamp;
+    }
+
     function getDrugsByOwner(address owner) public view returns (uint256[] memory) {
         uint256 balance = balanceOf(owner);
         uint256[] memory tokenIds = new uint256[](balance);
@@ -180,17 +459,70 @@ contract DrugAuth is ERC721, ERC721Enumerable, Ownable {
     }
 
     function totalDrugs() public view returns (uint256) {
-        return _tokenIdCounter.current();
+        return _tokenIdCounter;
+    }
+
+    // Mints `drug` to the caller and records its first history entry
+    function _mintDrug(
+        Drug memory drug,
+        address manufacturerAddress,
+        string memory eventType
+    ) internal returns (uint256) {
+        require(bytes(drug.batchId).length > 0, "Batch ID cannot be empty");
+        require(batchIdToTokenId[drug.batchId] == 0, "Batch ID already exists");
+
+        _tokenIdCounter += 1;
+        uint256 tokenId = _tokenIdCounter;
+
+        _safeMint(msg.sender, tokenId);
+
+        drugs[tokenId] = drug;
+        batchIdToTokenId[drug.batchId] = tokenId;
+        tokenManufacturer[tokenId] = manufacturerAddress;
+
+        drugHistory[tokenId].push(TransferEvent({
+            from: address(0),
+            to: msg.sender,
+            timestamp: block.timestamp,
+            eventType: eventType
+        }));
+
+        return tokenId;
+    }
+
+    // A sale dispenses the drug to a patient rather than shipping it on
+    function _isSale(string memory eventType) internal pure returns (bool) {
+        return keccak256(bytes(eventType)) == keccak256(bytes("sell"));
+    }
+
+    // Shipping, splitting and merging need an active, unexpired lot that is
+    // not already on its way somewhere
+    function _requireMovable(uint256 tokenId) internal view {
+        require(drugs[tokenId].isActive, "Drug is not active");
+        require(drugs[tokenId].expiryDate > block.timestamp, "Drug has expired");
+        require(pendingTransfers[tokenId].to == address(0), "Transfer is pending");
     }
 
     // Override required functions
-    function _beforeTokenTransfer(
-        address from,
+    function _update(
         address to,
         uint256 tokenId,
-        uint256 batchSize
-    ) internal override(ERC721, ERC721Enumerable) {
-        super._beforeTokenTransfer(from, to, tokenId, batchSize);
+        address auth
+    ) internal override(ERC721, ERC721Enumerable) returns (address) {
+        // A shipped drug can only move by the recipient accepting it
+        require(pendingTransfers[tokenId].to == address(0), "Transfer is pending");
+        // Besides minting, drugs change hands through the transfer handshake,
+        // never the inherited transferFrom/safeTransferFrom
+        address from = _ownerOf(tokenId);
+        require(
+            from == address(0) || to == address(0) || _acceptingTransfer,
+            "Use initiateTransfer and acceptTransfer"
+        );
+        return super._update(to, tokenId, auth);
+    }
+
+    function _increaseBalance(address account, uint128 value) internal override(ERC721, ERC721Enumerable) {
+        super._increaseBalance(account, value);
     }
 
     function supportsInterface(bytes4 interfaceId)
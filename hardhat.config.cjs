@@ -8,7 +8,7 @@ const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "";
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
   solidity: {
-    version: "0.8.19",
+    version: "0.8.26",
     settings: {
       optimizer: {
         enabled: true,
@@ -36,6 +36,12 @@ module.exports = {
     cache: "./cache",
     artifacts: "./artifacts",
   },
+  // Typed ethers bindings shared by the client and server
+  typechain: {
+    outDir: "shared/contracts",
+    target: "ethers-v6",
+    dontOverrideCompile: false,
+  },
   mocha: {
     timeout: 20000,
   },
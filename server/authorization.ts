@@ -0,0 +1,171 @@
+import type { Request, Response, NextFunction } from "express";
+import type { DrugBatch, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { getBatchManufacturerAddress } from "./recall";
+
+declare global {
+  namespace Express {
+    interface Request {
+      drugBatch?: DrugBatch;
+    }
+  }
+}
+
+export type AuthorizationErrorCode =
+  | "unauthenticated"
+  | "forbidden_role"
+  | "wallet_not_linked"
+  | "not_batch_owner"
+  | "not_batch_manufacturer"
+  | "not_drug_manufacturer"
+  | "not_batch_party"
+  | "not_transaction_party"
+  | "not_transfer_recipient"
+  | "not_shipment_party"
+  | "not_partner_creator"
+  | "not_wallet_holder"
+  | "not_notification_recipient";
+
+// Every 401/403 from the API has this shape so the client can tell why
+export function sendAuthorizationError(
+  res: Response,
+  status: 401 | 403,
+  code: AuthorizationErrorCode,
+  message: string,
+  details?: Record<string, unknown>,
+) {
+  return res.status(status).json({ message, code, ...(details ? { details } : {}) });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return sendAuthorizationError(res, 401, "unauthenticated", "Authentication required");
+  }
+  next();
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return sendAuthorizationError(res, 401, "unauthenticated", "Authentication required");
+    }
+
+    if (!roles.includes(req.user.role as UserRole)) {
+      return sendAuthorizationError(res, 403, "forbidden_role", `Requires role: ${roles.join(", ")}`, {
+        requiredRoles: roles,
+        role: req.user.role,
+      });
+    }
+
+    next();
+  };
+}
+
+// The signed-in user's linked wallet must currently own the batch named by
+// `req.body.batchId`. The loaded batch is left on `req.drugBatch`.
+export async function requireBatchOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.isAuthenticated()) {
+      return sendAuthorizationError(res, 401, "unauthenticated", "Authentication required");
+    }
+
+    const { batchId } = req.body;
+    if (!batchId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const drugBatch = await storage.getDrugBatchByBatchId(batchId);
+    if (!drugBatch) {
+      return res.status(404).json({ message: "Drug batch not found" });
+    }
+
+    const walletAddress = req.user.walletAddress;
+    if (!walletAddress) {
+      return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+    }
+
+    if (drugBatch.currentOwnerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+      return sendAuthorizationError(res, 403, "not_batch_owner", "Only the current owner can transfer this batch", {
+        batchId,
+        currentOwnerAddress: drugBatch.currentOwnerAddress,
+      });
+    }
+
+    req.drugBatch = drugBatch;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+  }
+}
+
+// The signed-in user's linked wallet must be the one that registered the batch
+// named by `req.body.batchId`. The loaded batch is left on `req.drugBatch`.
+export async function requireBatchManufacturer(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.isAuthenticated()) {
+      return sendAuthorizationError(res, 401, "unauthenticated", "Authentication required");
+    }
+
+    const { batchId } = req.body;
+    if (!batchId) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const drugBatch = await storage.getDrugBatchByBatchId(batchId);
+    if (!drugBatch) {
+      return res.status(404).json({ message: "Drug batch not found" });
+    }
+
+    const walletAddress = req.user.walletAddress;
+    if (!walletAddress) {
+      return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+    }
+
+    const manufacturerAddress = await getBatchManufacturerAddress(drugBatch);
+    if (manufacturerAddress?.toLowerCase() !== walletAddress.toLowerCase()) {
+      return sendAuthorizationError(res, 403, "not_batch_manufacturer", "Only the batch manufacturer can do this", {
+        batchId,
+      });
+    }
+
+    req.drugBatch = drugBatch;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+  }
+}
+
+// Admins, or users whose linked wallet holds or registered the batch named by
+// `req.params.batchId`. Guards pack-level data such as serial numbers. The
+// loaded batch is left on `req.drugBatch`.
+export async function requireBatchParty(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.isAuthenticated()) {
+      return sendAuthorizationError(res, 401, "unauthenticated", "Authentication required");
+    }
+
+    const drugBatch = await storage.getDrugBatchByBatchId(req.params.batchId);
+    if (!drugBatch) {
+      return res.status(404).json({ message: "Drug batch not found" });
+    }
+
+    if (req.user.role !== "admin") {
+      const walletAddress = req.user.walletAddress?.toLowerCase();
+      if (!walletAddress) {
+        return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      }
+
+      const manufacturerAddress = await getBatchManufacturerAddress(drugBatch);
+      if (walletAddress !== drugBatch.currentOwnerAddress.toLowerCase() && walletAddress !== manufacturerAddress?.toLowerCase()) {
+        return sendAuthorizationError(res, 403, "not_batch_party", "Only the batch's holder or manufacturer can do this", {
+          batchId: drugBatch.batchId,
+        });
+      }
+    }
+
+    req.drugBatch = drugBatch;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+  }
+}
@@ -0,0 +1,207 @@
+import { ethers } from "ethers";
+import { DrugAuth__factory } from "@shared/contracts";
+
+// Generated from the compiled DrugAuth artifact (`npx hardhat compile`)
+export const drugAuthInterface = DrugAuth__factory.createInterface();
+
+// DrugAuth's own transfer event; Ownable also emits an `OwnershipTransferred`
+export const TOKEN_TRANSFER_EVENT = "OwnershipTransferred(uint256,address,address,string)";
+// The other steps of the transfer handshake
+export const TRANSFER_INITIATED_EVENT = "TransferInitiated(uint256,address,address,string,uint256)";
+export const TRANSFER_REJECTED_EVENT = "TransferRejected(uint256,address,address,string)";
+export const TRANSFER_CANCELLED_EVENT = "TransferCancelled(uint256,address,address)";
+
+let cachedProvider: { url: string; provider: ethers.JsonRpcProvider } | undefined;
+
+// JSON-RPC provider for RPC_URL, or null when on-chain checks are disabled
+export function getRpcProvider(): ethers.JsonRpcProvider | null {
+  const url = process.env.RPC_URL;
+  if (!url) {
+    return null;
+  }
+
+  if (cachedProvider?.url !== url) {
+    cachedProvider = { url, provider: new ethers.JsonRpcProvider(url) };
+  }
+  return cachedProvider.provider;
+}
+
+export interface ExpectedTransfer {
+  transactionHash: string;
+  contractAddress: string;
+  tokenId: number | bigint;
+  from: string;
+  to: string;
+  // Which handshake event to look for; OwnershipTransferred by default
+  event?: string;
+}
+
+export type TransactionVerification =
+  | { verified: true; blockNumber: number }
+  | { verified: false; reason: string };
+
+// Parses the DrugAuth events emitted by a successful transaction
+async function getDrugAuthEvents(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  transactionHash: string,
+  contractAddress: string,
+): Promise<{ events: ethers.LogDescription[]; blockNumber: number } | { reason: string }> {
+  if (!ethers.isHexString(transactionHash, 32)) {
+    return { reason: "Invalid transaction hash" };
+  }
+
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+  if (!receipt) {
+    return { reason: "Transaction not found or not yet mined" };
+  }
+
+  if (receipt.status !== 1) {
+    return { reason: "Transaction reverted" };
+  }
+
+  const events = receipt.logs
+    .filter((log) => log.address.toLowerCase() === contractAddress.toLowerCase())
+    .map((log) => {
+      try {
+        return drugAuthInterface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .filter((event): event is ethers.LogDescription => event !== null);
+
+  return { events, blockNumber: receipt.blockNumber };
+}
+
+// Checks that `transactionHash` is a successful DrugAuth transaction whose
+// OwnershipTransferred event (or `expected.event`) moved `tokenId` from
+// `from` to `to`
+export async function verifyTransferTransaction(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  expected: ExpectedTransfer,
+): Promise<TransactionVerification> {
+  const result = await getDrugAuthEvents(provider, expected.transactionHash, expected.contractAddress);
+  if ("reason" in result) {
+    return { verified: false, reason: result.reason };
+  }
+
+  const tokenId = BigInt(expected.tokenId);
+  const signature = expected.event ?? TOKEN_TRANSFER_EVENT;
+  const transfer = result.events
+    .find((event) => event.signature === signature && event.args.tokenId === tokenId);
+
+  if (!transfer) {
+    return { verified: false, reason: `No ${signature.split("(")[0]} event for token ${tokenId} in transaction` };
+  }
+
+  if (transfer.args.from.toLowerCase() !== expected.from.toLowerCase()) {
+    return { verified: false, reason: `On-chain transfer is from ${transfer.args.from}, expected ${expected.from}` };
+  }
+
+  if (transfer.args.to.toLowerCase() !== expected.to.toLowerCase()) {
+    return { verified: false, reason: `On-chain transfer is to ${transfer.args.to}, expected ${expected.to}` };
+  }
+
+  return { verified: true, blockNumber: result.blockNumber };
+}
+
+export interface ExpectedRecall {
+  transactionHash: string;
+  contractAddress: string;
+  tokenIds: (number | bigint)[];
+}
+
+// Checks that `transactionHash` emitted DrugRecalled for every token in
+// `tokenIds` (one `recallDrugs` call or a single `recallDrug`)
+export async function verifyRecallTransaction(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  expected: ExpectedRecall,
+): Promise<TransactionVerification> {
+  const result = await getDrugAuthEvents(provider, expected.transactionHash, expected.contractAddress);
+  if ("reason" in result) {
+    return { verified: false, reason: result.reason };
+  }
+
+  const recalled = new Set(
+    result.events.filter((event) => event.name === "DrugRecalled").map((event) => event.args.tokenId as bigint),
+  );
+  const missing = expected.tokenIds.map(BigInt).filter((tokenId) => !recalled.has(tokenId));
+  if (missing.length > 0) {
+    return { verified: false, reason: `No DrugRecalled event for token ${missing.join(", ")} in transaction` };
+  }
+
+  return { verified: true, blockNumber: result.blockNumber };
+}
+
+export interface ExpectedSplit {
+  transactionHash: string;
+  contractAddress: string;
+  parentTokenId: number | bigint;
+  lots: { batchId: string; quantity: number }[];
+}
+
+// Checks that `transactionHash` split every lot in `lots` off `parentTokenId`
+// and returns the sub-lots' token IDs in the same order
+export async function verifySplitTransaction(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  expected: ExpectedSplit,
+): Promise<{ verified: true; blockNumber: number; tokenIds: number[] } | { verified: false; reason: string }> {
+  const result = await getDrugAuthEvents(provider, expected.transactionHash, expected.contractAddress);
+  if ("reason" in result) {
+    return { verified: false, reason: result.reason };
+  }
+
+  const parentTokenId = BigInt(expected.parentTokenId);
+  const splits = result.events.filter((event) => event.name === "DrugSplit" && event.args.parentTokenId === parentTokenId);
+
+  const tokenIds: number[] = [];
+  for (const lot of expected.lots) {
+    const split = splits.find((event) => event.args.childBatchId === lot.batchId);
+    if (!split) {
+      return { verified: false, reason: `No DrugSplit event for ${lot.batchId} from token ${parentTokenId} in transaction` };
+    }
+    if (split.args.quantity !== BigInt(lot.quantity)) {
+      return { verified: false, reason: `On-chain split of ${lot.batchId} is ${split.args.quantity}, expected ${lot.quantity}` };
+    }
+    tokenIds.push(Number(split.args.childTokenId));
+  }
+
+  return { verified: true, blockNumber: result.blockNumber, tokenIds };
+}
+
+export interface ExpectedMerge {
+  transactionHash: string;
+  contractAddress: string;
+  sourceTokenIds: (number | bigint)[];
+  batchId: string;
+}
+
+// Checks that `transactionHash` merged exactly `sourceTokenIds` into a lot
+// named `batchId` and returns the new lot's token ID and quantity
+export async function verifyMergeTransaction(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  expected: ExpectedMerge,
+): Promise<{ verified: true; blockNumber: number; tokenId: number; quantity: number } | { verified: false; reason: string }> {
+  const result = await getDrugAuthEvents(provider, expected.transactionHash, expected.contractAddress);
+  if ("reason" in result) {
+    return { verified: false, reason: result.reason };
+  }
+
+  const merge = result.events.find((event) => event.name === "DrugsMerged" && event.args.batchId === expected.batchId);
+  if (!merge) {
+    return { verified: false, reason: `No DrugsMerged event for ${expected.batchId} in transaction` };
+  }
+
+  const merged = (merge.args.sourceTokenIds as bigint[]).map(String).sort();
+  const sources = expected.sourceTokenIds.map(String).sort();
+  if (merged.join(",") !== sources.join(",")) {
+    return { verified: false, reason: `On-chain merge is of tokens ${merged.join(", ")}, expected ${sources.join(", ")}` };
+  }
+
+  return {
+    verified: true,
+    blockNumber: result.blockNumber,
+    tokenId: Number(merge.args.tokenId),
+    quantity: Number(merge.args.quantity),
+  };
+}
@@ -0,0 +1,114 @@
+import { excursionKinds, type DrugBatch, type Excursion, type ExcursionKind, type StorageCondition, type TelemetryReading, type TelemetryUpload } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+export interface Breach {
+  kind: ExcursionKind;
+  threshold: number;
+  value: number;
+}
+
+// The limits of `condition` a reading is past. Humidity is only checked when
+// both the reading and the condition have it.
+export function checkReading(
+  reading: { temperature: number; humidity?: number | null },
+  condition: StorageCondition,
+): Breach[] {
+  const breaches: Breach[] = [];
+  if (reading.temperature > condition.maxTemperature) {
+    breaches.push({ kind: "temperature_high", threshold: condition.maxTemperature, value: reading.temperature });
+  }
+  if (reading.temperature < condition.minTemperature) {
+    breaches.push({ kind: "temperature_low", threshold: condition.minTemperature, value: reading.temperature });
+  }
+  if (reading.humidity != null) {
+    if (condition.maxHumidity != null && reading.humidity > condition.maxHumidity) {
+      breaches.push({ kind: "humidity_high", threshold: condition.maxHumidity, value: reading.humidity });
+    }
+    if (condition.minHumidity != null && reading.humidity < condition.minHumidity) {
+      breaches.push({ kind: "humidity_low", threshold: condition.minHumidity, value: reading.humidity });
+    }
+  }
+  return breaches;
+}
+
+// Whether `value` is further past the limit than the excursion's peak so far
+function isNewPeak(kind: ExcursionKind, value: number, peak: number): boolean {
+  return kind.endsWith("_high") ? value > peak : value < peak;
+}
+
+// Stores data-logger readings for `batch`, oldest first, and checks them
+// against the drug's storage conditions. The first reading past a limit opens
+// an excursion and records an "excursion" supply chain event; later readings
+// past it extend the excursion until one comes back within the limit.
+// Readings of a drug without storage conditions are stored unchecked.
+export async function recordTelemetry(
+  batch: DrugBatch,
+  upload: Pick<TelemetryUpload, "transferId" | "readings">,
+  storage: IStorage = defaultStorage,
+): Promise<{ readings: TelemetryReading[]; excursions: Excursion[] }> {
+  const transferId = upload.transferId ?? (await storage.getPendingTransferByBatchId(batch.batchId))?.id ?? null;
+  const condition = await storage.getStorageCondition(batch.drugName);
+  const sorted = [...upload.readings].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const breachesByReading = sorted.map((reading) => (condition ? checkReading(reading, condition) : []));
+
+  const readings = await storage.createTelemetryReadings(sorted.map((reading, i) => ({
+    batchId: batch.batchId,
+    transferId,
+    deviceId: reading.deviceId,
+    temperature: reading.temperature,
+    humidity: reading.humidity ?? null,
+    excursion: breachesByReading[i].length > 0,
+    recordedAt: reading.recordedAt,
+  })));
+
+  if (!condition) {
+    return { readings, excursions: [] };
+  }
+
+  const touched = new Map<string, Excursion>();
+  for (const [i, reading] of sorted.entries()) {
+    const breaches = breachesByReading[i];
+
+    for (const kind of excursionKinds) {
+      const breach = breaches.find((candidate) => candidate.kind === kind);
+      const open = await storage.getOpenExcursion(batch.batchId, kind);
+
+      if (breach && open) {
+        const updated = await storage.updateExcursion(open.id, {
+          peakValue: isNewPeak(kind, breach.value, open.peakValue) ? breach.value : open.peakValue,
+          readingCount: open.readingCount + 1,
+          lastReadingAt: reading.recordedAt > open.lastReadingAt ? reading.recordedAt : open.lastReadingAt,
+        });
+        touched.set(updated.id, updated);
+      } else if (breach) {
+        const event = await storage.createSupplyChainEvent({
+          batchId: batch.batchId,
+          fromOwner: batch.currentOwner,
+          toOwner: batch.currentOwner,
+          fromOwnerAddress: batch.currentOwnerAddress,
+          toOwnerAddress: batch.currentOwnerAddress,
+          eventType: "excursion",
+          timestamp: reading.recordedAt,
+        });
+        const created = await storage.createExcursion({
+          batchId: batch.batchId,
+          transferId,
+          deviceId: reading.deviceId,
+          kind,
+          threshold: breach.threshold,
+          peakValue: breach.value,
+          eventId: event.id,
+          startedAt: reading.recordedAt,
+          lastReadingAt: reading.recordedAt,
+        });
+        touched.set(created.id, created);
+      } else if (open && reading.recordedAt > open.lastReadingAt && !(kind.startsWith("humidity") && reading.humidity == null)) {
+        // A reading without humidity says nothing about a humidity excursion
+        const ended = await storage.updateExcursion(open.id, { endedAt: reading.recordedAt });
+        touched.set(ended.id, ended);
+      }
+    }
+  }
+
+  return { readings, excursions: Array.from(touched.values()) };
+}
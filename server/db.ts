@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built from the shared schema (Neon in
+// production, PGlite in tests)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): Pool {
+  return new Pool({ connectionString });
+}
+
+export function createDb(pool: Pool): Database {
+  return drizzle({ client: pool, schema });
+}
@@ -0,0 +1,28 @@
+import type { DrugBatch, SupplyChainEvent } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Marks a batch destroyed by its holder and adds a "destroy" event. DrugAuth
+// has no history entry for this; the holder deactivates the token instead.
+export async function recordDestruction(
+  batch: DrugBatch,
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; event: SupplyChainEvent }> {
+  const destroyedAt = new Date();
+
+  const drugBatch = await storage.updateDrugBatch(batch.id, {
+    status: "destroyed",
+    updatedAt: destroyedAt,
+  });
+
+  const event = await storage.createSupplyChainEvent({
+    batchId: batch.batchId,
+    fromOwner: batch.currentOwner,
+    toOwner: batch.currentOwner,
+    fromOwnerAddress: batch.currentOwnerAddress,
+    toOwnerAddress: batch.currentOwnerAddress,
+    eventType: "destroy",
+    timestamp: destroyedAt,
+  });
+
+  return { drugBatch, event };
+}
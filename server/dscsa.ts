@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import type { DrugBatch, SupplyChainEvent, T3Document, TransactionDocument, TransactionInformation } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getAncestorEvents } from "./lineage";
+
+// The seller's attestations in a DSCSA Transaction Statement (FD&C Act
+// section 581(27)). The second and third only apply to sellers who bought
+// the product, so a manufacturer's first sale leaves them out.
+export const TRANSACTION_STATEMENTS = [
+  "is authorized as required under the Drug Supply Chain Security Act",
+  "received the product from a person that is authorized as required under the Drug Supply Chain Security Act",
+  "received transaction information and a transaction statement from the prior owner of the product, as required under section 582 of the Act",
+  "did not knowingly ship a suspect or illegitimate product",
+  "had systems and processes in place to comply with verification requirements under section 582 of the Act",
+  "did not knowingly provide false transaction information",
+  "did not knowingly alter the transaction history",
+];
+const PURCHASE_STATEMENTS = TRANSACTION_STATEMENTS.slice(1, 3);
+
+// US GTINs embed the 10-digit NDC after the "003" prefix
+export function ndcFromGtin(gtin: string | null): string | null {
+  return gtin?.startsWith("003") ? gtin.slice(3, 13) : null;
+}
+
+// Recall and expiry events name the same owner on both sides
+export function isOwnershipChange(event: SupplyChainEvent): boolean {
+  return !!event.fromOwnerAddress && event.fromOwnerAddress.toLowerCase() !== event.toOwnerAddress.toLowerCase();
+}
+
+export function toTransactionInformation(batch: DrugBatch, event: SupplyChainEvent): TransactionInformation {
+  return {
+    productName: batch.drugName,
+    gtin: batch.gtin,
+    ndc: ndcFromGtin(batch.gtin),
+    // Earlier transactions of a sub-lot took place under its parent's lot number
+    lotNumber: event.batchId,
+    strength: batch.strength,
+    dosageForm: batch.dosageForm,
+    // Events recorded before quantities were tracked leave the amount unknown
+    quantity: event.quantity,
+    unit: batch.unit,
+    expiryDate: batch.expiryDate.toISOString().slice(0, 10),
+    transactionDate: event.timestamp!.toISOString(),
+    seller: { name: event.fromOwner ?? event.fromOwnerAddress!, walletAddress: event.fromOwnerAddress! },
+    buyer: { name: event.toOwner, walletAddress: event.toOwnerAddress },
+    transactionHash: event.transactionHash,
+  };
+}
+
+// The T3 for `event`, with every earlier change of ownership in `history` as
+// its Transaction History
+export function createT3Document(
+  batch: DrugBatch,
+  event: SupplyChainEvent,
+  history: SupplyChainEvent[],
+  generatedAt = new Date(),
+): T3Document {
+  const earlier = history.filter((other) =>
+    other.id !== event.id && isOwnershipChange(other) && other.timestamp! <= event.timestamp!);
+
+  return {
+    documentType: "DSCSA-T3",
+    batchId: batch.batchId,
+    eventId: event.id,
+    transactionInformation: toTransactionInformation(batch, event),
+    transactionHistory: earlier.map((other) => toTransactionInformation(batch, other)),
+    transactionStatement: {
+      seller: event.fromOwner ?? event.fromOwnerAddress!,
+      statements: earlier.length > 0
+        ? TRANSACTION_STATEMENTS
+        : TRANSACTION_STATEMENTS.filter((statement) => !PURCHASE_STATEMENTS.includes(statement)),
+    },
+    generatedAt: generatedAt.toISOString(),
+  };
+}
+
+// Generates and stores the T3 for a transfer already recorded in storage. The
+// history of a split or merged lot includes the lots it came from.
+export async function recordT3Document(
+  batch: DrugBatch,
+  event: SupplyChainEvent,
+  storage: IStorage = defaultStorage,
+): Promise<TransactionDocument> {
+  const history = [
+    ...await getAncestorEvents(batch.batchId, storage),
+    ...await storage.getSupplyChainEventsByBatchId(batch.batchId),
+  ];
+  return storage.createTransactionDocument({
+    eventId: event.id,
+    batchId: batch.batchId,
+    document: createT3Document(batch, event, history),
+  });
+}
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// The CID web3.storage gives a T3 document uploaded as a single file, without
+// a wrapping directory, exactly as GET /api/drug-batches/t3/:eventId serves it.
+// Files up to 1 MiB, far more than a T3 takes, are stored as one raw block, so
+// this is a CIDv1 with the raw codec over the SHA-256 of the JSON.
+export function t3DocumentCid(document: T3Document): string {
+  const digest = createHash("sha256").update(JSON.stringify(document)).digest();
+  // version 1, raw (0x55), sha2-256 (0x12) of 32 bytes
+  const cid = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]);
+
+  const bits = Array.from(cid, (byte) => byte.toString(2).padStart(8, "0")).join("");
+  const base32 = bits.match(/.{1,5}/g)!.map((chunk) => BASE32_ALPHABET[parseInt(chunk.padEnd(5, "0"), 2)]).join("");
+  return `b${base32}`;
+}
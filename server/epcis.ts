@@ -0,0 +1,465 @@
+import { z } from "zod";
+import type { DrugBatch, ImportedEvent, InsertImportedEvent, SupplyChainEvent } from "@shared/schema";
+import { createGS1DigitalLink, gtinCheckDigit, parseGS1DigitalLink } from "@shared/gs1";
+import { shipmentEventTypes } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// GS1 EPCIS 2.0 documents for exchanging supply chain events with trading
+// partners. A batch is identified by its GS1 Digital Link (GTIN + lot) when it
+// has a GTIN and by a DrugAuth URN otherwise; parties by their wallet address.
+
+export const EPCIS_CONTEXT = "https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld";
+// Namespace of the extension fields carrying what EPCIS has no place for
+export const DRUGAUTH_EPCIS_NAMESPACE = "urn:drugauth:epcis:";
+export const MAX_EPCIS_IMPORT_EVENTS = 1000;
+
+const BATCH_URN = "urn:drugauth:batch:";
+const PARTY_URN = "urn:drugauth:party:";
+const TRANSACTION_URN = "urn:drugauth:tx:";
+const CBV_MDA = "urn:epcglobal:cbv:mda#";
+
+const CBV_BY_EVENT_TYPE: Record<string, { bizStep: string; disposition: string }> = {
+  manufacture: { bizStep: "commissioning", disposition: "active" },
+  transfer: { bizStep: "shipping", disposition: "in_transit" },
+  distribute: { bizStep: "shipping", disposition: "in_transit" },
+  deliver: { bizStep: "receiving", disposition: "in_progress" },
+  sell: { bizStep: "retail_selling", disposition: "retail_sold" },
+  verify: { bizStep: "inspecting", disposition: "active" },
+  recall: { bizStep: "holding", disposition: "recalled" },
+  expire: { bizStep: "holding", disposition: "expired" },
+  destroy: { bizStep: "destroying", disposition: "destroyed" },
+  excursion: { bizStep: "sensor_reporting", disposition: "non_conformant" },
+};
+
+// How partner events without a drugauth:eventType map onto ours
+const EVENT_TYPE_BY_DISPOSITION: Record<string, string> = { recalled: "recall", expired: "expire", destroyed: "destroy" };
+const EVENT_TYPE_BY_BIZ_STEP: Record<string, string> = {
+  commissioning: "manufacture",
+  shipping: "transfer",
+  receiving: "deliver",
+  retail_selling: "sell",
+  dispensing: "sell",
+  inspecting: "verify",
+};
+
+const OWNERSHIP_EVENT_TYPES: string[] = shipmentEventTypes;
+// Manufacture, recall, expiry and destruction change a batch's status, so
+// only this app records them
+export const importableEventTypes = [...OWNERSHIP_EVENT_TYPES, "verify"];
+
+const epcisEventSchema = z.object({
+  type: z.enum(["ObjectEvent", "TransactionEvent"]),
+  eventTime: z.string().datetime({ offset: true }),
+  eventTimeZoneOffset: z.string().regex(/^[+-]\d{2}:\d{2}$/, "Expected an offset like +01:00"),
+  eventID: z.string().optional(),
+  action: z.enum(["ADD", "OBSERVE", "DELETE"]),
+  bizStep: z.string().optional(),
+  disposition: z.string().optional(),
+  epcList: z.array(z.string()).optional(),
+  quantityList: z.array(z.object({
+    epcClass: z.string(),
+    quantity: z.number().optional(),
+    uom: z.string().optional(),
+  })).optional(),
+  bizTransactionList: z.array(z.object({ type: z.string().optional(), bizTransaction: z.string() })).optional(),
+  sourceList: z.array(z.object({ type: z.string(), source: z.string() })).optional(),
+  destinationList: z.array(z.object({ type: z.string(), destination: z.string() })).optional(),
+}).passthrough().refine(
+  (event) => event.type !== "TransactionEvent" || (event.bizTransactionList?.length ?? 0) > 0,
+  { message: "A TransactionEvent needs a bizTransactionList", path: ["bizTransactionList"] },
+);
+
+export const epcisDocumentSchema = z.object({
+  type: z.literal("EPCISDocument"),
+  schemaVersion: z.literal("2.0"),
+  creationDate: z.string().datetime({ offset: true }),
+  epcisBody: z.object({
+    eventList: z.array(epcisEventSchema).max(MAX_EPCIS_IMPORT_EVENTS, `At most ${MAX_EPCIS_IMPORT_EVENTS} events per document`),
+  }),
+}).passthrough();
+
+export type EPCISEvent = z.infer<typeof epcisEventSchema>;
+
+export interface EPCISVocabularyElement {
+  id: string;
+  attributes: { id: string; attribute: string }[];
+}
+
+export interface EPCISDocument {
+  "@context": (string | Record<string, string>)[];
+  type: "EPCISDocument";
+  schemaVersion: "2.0";
+  creationDate: string;
+  epcisHeader: {
+    epcisMasterData: {
+      vocabularyList: { type: string; vocabularyElementList: EPCISVocabularyElement[] }[];
+    };
+  };
+  epcisBody: { eventList: EPCISEvent[] };
+}
+
+export interface EPCISImportResult {
+  imported: ImportedEvent[];
+  // Events already recorded or imported, e.g. from re-importing an export
+  skipped: number;
+  errors: { index: number; message: string }[];
+}
+
+// The EPC class naming a batch: its Digital Link, or a DrugAuth URN when it
+// has no GTIN or its batch ID can't be a GS1 lot number
+export function batchEpcClass(batch: Pick<DrugBatch, "batchId" | "gtin">): string {
+  if (batch.gtin) {
+    try {
+      return createGS1DigitalLink({ gtin: batch.gtin, lot: batch.batchId });
+    } catch {
+      // Fall through to the URN
+    }
+  }
+  return `${BATCH_URN}${encodeURIComponent(batch.batchId)}`;
+}
+
+// The batch an EPC or EPC class refers to: a DrugAuth batch URN, an LGTIN URN
+// or a Digital Link with a lot. Null for anything else, e.g. a bare SGTIN.
+export function parseBatchReference(epc: string): { batchId: string; gtin?: string } | null {
+  if (epc.startsWith(BATCH_URN)) {
+    return { batchId: decodeURIComponent(epc.slice(BATCH_URN.length)) };
+  }
+
+  const lgtin = /^urn:epc:class:lgtin:(\d+)\.(\d+)\.(.+)$/.exec(epc);
+  if (lgtin) {
+    const [, companyPrefix, itemReference, lot] = lgtin;
+    const digits = itemReference[0] + companyPrefix + itemReference.slice(1);
+    return digits.length === 13
+      ? { batchId: decodeURIComponent(lot), gtin: digits + gtinCheckDigit(digits) }
+      : null;
+  }
+
+  try {
+    const data = parseGS1DigitalLink(epc);
+    return data?.lot ? { batchId: data.lot, gtin: data.gtin } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function toEPCISEvent(event: SupplyChainEvent, batch: Pick<DrugBatch, "batchId" | "gtin">): EPCISEvent {
+  const cbv = CBV_BY_EVENT_TYPE[event.eventType];
+  const isTransaction = OWNERSHIP_EVENT_TYPES.includes(event.eventType) && !!event.transactionHash;
+
+  return {
+    type: isTransaction ? "TransactionEvent" : "ObjectEvent",
+    eventTime: event.timestamp!.toISOString(),
+    eventTimeZoneOffset: "+00:00",
+    eventID: `urn:uuid:${event.id}`,
+    action: isTransaction || event.eventType === "manufacture" ? "ADD" : "OBSERVE",
+    ...cbv,
+    quantityList: [{ epcClass: batchEpcClass(batch) }],
+    ...(event.transactionHash
+      ? { bizTransactionList: [{ bizTransaction: `${TRANSACTION_URN}${event.transactionHash}` }] }
+      : {}),
+    ...(event.fromOwnerAddress
+      ? { sourceList: [{ type: "owning_party", source: `${PARTY_URN}${event.fromOwnerAddress}` }] }
+      : {}),
+    destinationList: [{ type: "owning_party", destination: `${PARTY_URN}${event.toOwnerAddress}` }],
+    "drugauth:eventType": event.eventType,
+    ...(event.fromOwner ? { "drugauth:fromOwner": event.fromOwner } : {}),
+    "drugauth:toOwner": event.toOwner,
+    ...(event.blockNumber != null ? { "drugauth:blockNumber": event.blockNumber } : {}),
+  };
+}
+
+export function createEPCISDocument(
+  events: SupplyChainEvent[],
+  batches: DrugBatch[],
+  creationDate = new Date(),
+): EPCISDocument {
+  const batchesById = new Map(batches.map((batch) => [batch.batchId, batch]));
+
+  return {
+    "@context": [EPCIS_CONTEXT, { drugauth: DRUGAUTH_EPCIS_NAMESPACE }],
+    type: "EPCISDocument",
+    schemaVersion: "2.0",
+    creationDate: creationDate.toISOString(),
+    epcisHeader: {
+      epcisMasterData: {
+        vocabularyList: [{
+          type: "urn:epcglobal:epcis:vtype:EPCClass",
+          vocabularyElementList: batches.map((batch) => ({
+            id: batchEpcClass(batch),
+            attributes: [
+              { id: `${CBV_MDA}regulatedProductName`, attribute: batch.drugName },
+              { id: `${CBV_MDA}manufacturerOfTradeItemPartyName`, attribute: batch.manufacturer },
+              { id: `${CBV_MDA}lotNumber`, attribute: batch.batchId },
+              { id: `${CBV_MDA}itemExpirationDate`, attribute: batch.expiryDate.toISOString().slice(0, 10) },
+            ],
+          })),
+        }],
+      },
+    },
+    epcisBody: {
+      eventList: events.map((event) =>
+        toEPCISEvent(event, batchesById.get(event.batchId) ?? { batchId: event.batchId, gtin: null })),
+    },
+  };
+}
+
+// Supply chain events in [from, to], optionally of one batch, with the master
+// data of the batches they cover
+export async function exportEPCISDocument(
+  filter: { batchId?: string; from?: Date; to?: Date },
+  storage: IStorage = defaultStorage,
+): Promise<EPCISDocument> {
+  const events = await storage.getSupplyChainEvents(filter);
+
+  const batches: DrugBatch[] = [];
+  for (const batchId of new Set(events.map((event) => event.batchId))) {
+    const batch = await storage.getDrugBatchByBatchId(batchId);
+    if (batch) batches.push(batch);
+  }
+
+  return createEPCISDocument(events, batches);
+}
+
+type XmlNode = { name: string; attributes?: Record<string, string>; children?: XmlNode[]; text?: string };
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderXml(node: XmlNode, depth = 0): string {
+  const indent = "  ".repeat(depth);
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+
+  if (node.children?.length) {
+    const children = node.children.map((child) => renderXml(child, depth + 1)).join("\n");
+    return `${indent}<${node.name}${attributes}>\n${children}\n${indent}</${node.name}>`;
+  }
+  return node.text === undefined
+    ? `${indent}<${node.name}${attributes}/>`
+    : `${indent}<${node.name}${attributes}>${escapeXml(node.text)}</${node.name}>`;
+}
+
+// XML uses CBV URNs where JSON-LD uses bare values
+function cbvUrn(kind: "bizstep" | "disp" | "sdt", value: string): string {
+  return value.includes(":") ? value : `urn:epcglobal:cbv:${kind}:${value}`;
+}
+
+function xmlEvent(event: EPCISEvent): XmlNode {
+  const text = (name: string, value: string | undefined): XmlNode[] => (value === undefined ? [] : [{ name, text: value }]);
+  const list = <T>(name: string, items: T[] | undefined, toNode: (item: T) => XmlNode): XmlNode[] =>
+    items ? [{ name, children: items.map(toNode) }] : [];
+
+  const epcList: XmlNode = { name: "epcList", children: (event.epcList ?? []).map((epc) => ({ name: "epc", text: epc })) };
+  const bizTransactionList = list("bizTransactionList", event.bizTransactionList, ({ type, bizTransaction }) => ({
+    name: "bizTransaction",
+    attributes: type ? { type } : undefined,
+    text: bizTransaction,
+  }));
+  const classification = [
+    ...text("action", event.action),
+    ...text("bizStep", event.bizStep && cbvUrn("bizstep", event.bizStep)),
+    ...text("disposition", event.disposition && cbvUrn("disp", event.disposition)),
+  ];
+
+  const children: XmlNode[] = [
+    ...text("eventTime", event.eventTime),
+    ...text("eventTimeZoneOffset", event.eventTimeZoneOffset),
+    ...text("eventID", event.eventID),
+    // TransactionEvent puts its transactions first, ObjectEvent after the action
+    ...(event.type === "TransactionEvent"
+      ? [...bizTransactionList, epcList, ...classification]
+      : [epcList, ...classification, ...bizTransactionList]),
+    ...list("quantityList", event.quantityList, ({ epcClass, quantity, uom }) => ({
+      name: "quantityElement",
+      children: [...text("epcClass", epcClass), ...text("quantity", quantity?.toString()), ...text("uom", uom)],
+    })),
+    ...list("sourceList", event.sourceList, ({ type, source }) => ({
+      name: "source",
+      attributes: { type: cbvUrn("sdt", type) },
+      text: source,
+    })),
+    ...list("destinationList", event.destinationList, ({ type, destination }) => ({
+      name: "destination",
+      attributes: { type: cbvUrn("sdt", type) },
+      text: destination,
+    })),
+    ...Object.entries(event)
+      .filter(([key]) => key.startsWith("drugauth:"))
+      .map(([key, value]) => ({ name: key, text: String(value) })),
+  ];
+
+  return { name: event.type, children };
+}
+
+// The same document as EPCIS 2.0 XML
+export function formatEPCISXml(document: EPCISDocument): string {
+  const root: XmlNode = {
+    name: "epcis:EPCISDocument",
+    attributes: {
+      "xmlns:epcis": "urn:epcglobal:epcis:xsd:2",
+      "xmlns:drugauth": DRUGAUTH_EPCIS_NAMESPACE,
+      schemaVersion: document.schemaVersion,
+      creationDate: document.creationDate,
+    },
+    children: [
+      {
+        name: "EPCISHeader",
+        children: [{
+          name: "EPCISMasterData",
+          children: [{
+            name: "VocabularyList",
+            children: document.epcisHeader.epcisMasterData.vocabularyList.map((vocabulary) => ({
+              name: "Vocabulary",
+              attributes: { type: vocabulary.type },
+              children: [{
+                name: "VocabularyElementList",
+                children: vocabulary.vocabularyElementList.map((element) => ({
+                  name: "VocabularyElement",
+                  attributes: { id: element.id },
+                  children: element.attributes.map(({ id, attribute }) => ({ name: "attribute", attributes: { id }, text: attribute })),
+                })),
+              }],
+            })),
+          }],
+        }],
+      },
+      {
+        name: "EPCISBody",
+        children: [{ name: "EventList", children: document.epcisBody.eventList.map(xmlEvent) }],
+      },
+    ],
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(root)}\n`;
+}
+
+// Strips the URN or URL prefix partners may put on CBV values
+function cbvValue(value: string | undefined): string | undefined {
+  return value
+    ?.replace(/^urn:epcglobal:cbv:(bizstep|disp|sdt|btt):/, "")
+    .replace(/^https:\/\/ref\.gs1\.org\/cbv\/(BizStep|Disp|SDT|BTT)-/, "");
+}
+
+function eventTypeOf(event: EPCISEvent): string | undefined {
+  const declared = event["drugauth:eventType"];
+  if (typeof declared === "string" && CBV_BY_EVENT_TYPE[declared]) {
+    return declared;
+  }
+
+  const disposition = cbvValue(event.disposition);
+  const bizStep = cbvValue(event.bizStep);
+  return (disposition && EVENT_TYPE_BY_DISPOSITION[disposition]) || (bizStep && EVENT_TYPE_BY_BIZ_STEP[bizStep]) || undefined;
+}
+
+function owningParty<T extends { type: string }>(parties: T[] | undefined): T | undefined {
+  return parties?.find((party) => cbvValue(party.type) === "owning_party") ?? parties?.[0];
+}
+
+// Our party URNs wrap a wallet address; other party IDs (e.g. a PGLN) are kept as-is
+function partyAddress(party: string): string {
+  return party.startsWith(PARTY_URN) ? party.slice(PARTY_URN.length) : party;
+}
+
+function extensionString(event: EPCISEvent, key: string): string | undefined {
+  const value = event[`drugauth:${key}`];
+  return typeof value === "string" ? value : undefined;
+}
+
+// Validates every event of a partner document and, only if all of them are
+// acceptable, stores them as imported events of the batches they name, on
+// behalf of the user `importedBy`. One EPCIS event naming several batches
+// becomes one imported event per batch. Imported events are kept out of the
+// supply chain history, so they never change a batch's owner or status.
+export async function importEPCISDocument(
+  document: { epcisBody: { eventList: EPCISEvent[] } },
+  importedBy: string,
+  canImport: (batch: DrugBatch) => boolean | Promise<boolean>,
+  storage: IStorage = defaultStorage,
+): Promise<EPCISImportResult> {
+  const result: EPCISImportResult = { imported: [], skipped: 0, errors: [] };
+  const pending: InsertImportedEvent[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, event] of document.epcisBody.eventList.entries()) {
+    const fail = (message: string) => result.errors.push({ index, message });
+
+    const eventType = eventTypeOf(event);
+    if (!eventType) {
+      fail(`Unsupported bizStep ${event.bizStep ?? "(none)"}`);
+      continue;
+    }
+
+    const references = [...(event.epcList ?? []), ...(event.quantityList ?? []).map((quantity) => quantity.epcClass)];
+    if (references.length === 0) {
+      fail("Event names no batch");
+      continue;
+    }
+
+    const source = owningParty(event.sourceList)?.source;
+    const fromOwnerAddress = source && partyAddress(source);
+    const destination = owningParty(event.destinationList)?.destination;
+    const transactionHash = event.bizTransactionList
+      ?.map((transaction) => transaction.bizTransaction)
+      .find((id) => id.startsWith(TRANSACTION_URN))
+      ?.slice(TRANSACTION_URN.length);
+    const timestamp = new Date(event.eventTime);
+
+    for (const reference of new Set(references)) {
+      const parsed = parseBatchReference(reference);
+      const batch = parsed && await storage.getDrugBatchByBatchId(parsed.batchId);
+      if (!batch || (parsed.gtin && batch.gtin !== parsed.gtin)) {
+        fail(`No drug batch matches ${reference}`);
+        continue;
+      }
+
+      const key = `${batch.batchId}|${eventType}|${timestamp.getTime()}`;
+      const existing = [
+        ...await storage.getSupplyChainEventsByBatchId(batch.batchId),
+        ...await storage.getImportedEventsByBatchId(batch.batchId),
+      ];
+      const duplicate = seen.has(key) || existing.some((other) =>
+        (other.eventType === eventType && other.timestamp?.getTime() === timestamp.getTime()) ||
+        (!!transactionHash && other.transactionHash?.toLowerCase() === transactionHash.toLowerCase()));
+      if (duplicate) {
+        result.skipped++;
+        continue;
+      }
+
+      if (!importableEventTypes.includes(eventType)) {
+        fail(`${eventType} events can't be imported`);
+        continue;
+      }
+      if (!(await canImport(batch))) {
+        fail(`Not allowed to add events to batch ${batch.batchId}`);
+        continue;
+      }
+
+      seen.add(key);
+      const toOwnerAddress = destination ? partyAddress(destination) : batch.currentOwnerAddress;
+      pending.push({
+        batchId: batch.batchId,
+        fromOwner: extensionString(event, "fromOwner") ?? fromOwnerAddress,
+        fromOwnerAddress,
+        toOwner: extensionString(event, "toOwner") ?? (destination ? toOwnerAddress : batch.currentOwner),
+        toOwnerAddress,
+        eventType,
+        transactionHash,
+        timestamp,
+        importedBy,
+      });
+    }
+  }
+
+  if (result.errors.length === 0) {
+    result.imported = await storage.transaction(async (storage) => {
+      const imported: ImportedEvent[] = [];
+      for (const event of pending) {
+        imported.push(await storage.createImportedEvent(event));
+      }
+      return imported;
+    });
+  }
+  return result;
+}
@@ -0,0 +1,66 @@
+import type { DrugBatch } from "@shared/schema";
+import { canBranch } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same rule as DrugAuth's "Drug has expired" check on transfers
+export function isExpired(batch: Pick<DrugBatch, "expiryDate">, now = new Date()): boolean {
+  return batch.expiryDate.getTime() <= now.getTime();
+}
+
+// Marks every batch past its expiry date as expired and records an "expire"
+// event that leaves it with its current holder. Batches whose status can't
+// expire, such as recalled ones, keep it.
+export async function expireDrugBatches(now = new Date(), storage: IStorage = defaultStorage): Promise<DrugBatch[]> {
+  const expired: DrugBatch[] = [];
+
+  for (const batch of await storage.getDrugBatchesExpiringBefore(now)) {
+    if (!canBranch(batch.status, "expire")) continue;
+    expired.push(await storage.updateDrugBatch(batch.id, { status: "expired", updatedAt: now }));
+    await storage.createSupplyChainEvent({
+      batchId: batch.batchId,
+      fromOwner: batch.currentOwner,
+      toOwner: batch.currentOwner,
+      fromOwnerAddress: batch.currentOwnerAddress,
+      toOwnerAddress: batch.currentOwnerAddress,
+      eventType: "expire",
+      timestamp: now,
+    });
+  }
+
+  return expired;
+}
+
+// Batches that will expire within `days` and have not yet, soonest first
+export async function getDrugBatchesExpiringWithin(
+  days: number,
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<DrugBatch[]> {
+  const batches = await storage.getDrugBatchesExpiringBefore(new Date(now.getTime() + days * DAY_MS));
+  return batches.filter((batch) => !isExpired(batch, now));
+}
+
+// Runs `expireDrugBatches` at startup and every EXPIRY_CHECK_INTERVAL_MINUTES
+// (default 60; 0 turns it off)
+export function startExpiryJobFromEnv(log: (message: string) => void): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.EXPIRY_CHECK_INTERVAL_MINUTES || "60", 10);
+  if (!minutes) {
+    return null;
+  }
+
+  const run = async () => {
+    try {
+      const expired = await expireDrugBatches();
+      if (expired.length > 0) {
+        log(`marked ${expired.length} batches expired`);
+      }
+    } catch (error) {
+      log(`expiry check failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  run();
+  return setInterval(run, minutes * 60 * 1000);
+}
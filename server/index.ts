@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startIndexerFromEnv } from "./indexer";
+import { startReconciliationFromEnv } from "./reconciliation";
+import { startExpiryJobFromEnv } from "./expiry";
+import { startLicenseJobFromEnv } from "./licenses";
+import { startTransferTimeoutJobFromEnv } from "./transfers";
 
 const app = express();
 app.use(express.json());
@@ -37,7 +42,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const server = await registerRoutes(app, log);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -68,4 +73,11 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Mirror on-chain DrugAuth events into storage when a node is configured
+  startIndexerFromEnv((message) => log(message, "indexer"));
+  startReconciliationFromEnv((message) => log(message, "reconciliation"));
+  startExpiryJobFromEnv((message) => log(message, "expiry"));
+  startTransferTimeoutJobFromEnv((message) => log(message, "transfers"));
+  startLicenseJobFromEnv((message) => log(message, "licenses"));
 })();
@@ -0,0 +1,566 @@
+import { ethers } from "ethers";
+import { supplyChainRoles, type DrugBatch } from "@shared/schema";
+import { statusAfterEvent } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { DrugAuth__factory } from "@shared/contracts";
+import { drugAuthInterface, getRpcProvider, TOKEN_TRANSFER_EVENT } from "./blockchain";
+import { recordRecall } from "./recall";
+import { acceptTransfer, closeTransfer, initiateTransfer, receivedStatus } from "./transfers";
+import { mergeBatches, splitBatch } from "./lineage";
+
+export interface IndexerLog {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+  topics: readonly string[];
+  data: string;
+}
+
+export interface OnChainDrug {
+  expiryDate: bigint;
+  ipfsHash: string;
+  quantity: bigint;
+}
+
+// The slice of the chain the indexer reads, so tests can supply a fake one
+export interface IndexerChain {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{ hash: string | null; timestamp: number } | null>;
+  getLogs(filter: { address: string; fromBlock: number; toBlock: number }): Promise<IndexerLog[]>;
+  getDrug(tokenId: bigint): Promise<OnChainDrug>;
+}
+
+export interface IndexerOptions {
+  contractAddress: string;
+  // First block to scan when there is no stored cursor (the deployment block)
+  startBlock?: number;
+  // Blocks behind the head before a block is indexed
+  confirmations?: number;
+  // How far to rewind when the last processed block has been reorged out
+  reorgDepth?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+export function createEthersChain(provider: ethers.Provider, contractAddress: string): IndexerChain {
+  const contract = DrugAuth__factory.connect(contractAddress, provider);
+
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    getBlock: (blockNumber) => provider.getBlock(blockNumber),
+    getLogs: (filter) => provider.getLogs(filter),
+    getDrug: async (tokenId) => {
+      const drug = await contract.verifyDrug(tokenId);
+      return { expiryDate: drug.expiryDate, ipfsHash: drug.ipfsHash, quantity: drug.quantity };
+    },
+  };
+}
+
+function statusForEventType(eventType: string): string {
+  return statusAfterEvent(eventType) ?? receivedStatus(eventType);
+}
+
+// Mirrors DrugRegistered, the transfer handshake events, DrugSplit,
+// DrugsMerged, DrugRecalled and RoleAssigned events into storage. Progress is kept in `indexer_state` so a restart
+// back-fills from the last processed block instead of rescanning the chain.
+export class DrugAuthIndexer {
+  readonly contractAddress: string;
+  private readonly stateId: string;
+  private readonly startBlock: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private readonly batchSize: number;
+  private readonly log: (message: string) => void;
+  private syncing: Promise<void> | null = null;
+  private pendingSync = false;
+
+  constructor(
+    private chain: IndexerChain,
+    options: IndexerOptions,
+    private storage: IStorage = defaultStorage,
+  ) {
+    this.contractAddress = options.contractAddress;
+    this.stateId = options.contractAddress.toLowerCase();
+    this.startBlock = options.startBlock ?? 0;
+    this.confirmations = options.confirmations ?? 6;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.batchSize = options.batchSize ?? 2000;
+    this.log = options.log ?? ((message) => console.log(`[indexer] ${message}`));
+  }
+
+  // Indexes every confirmed block up to the current head. Calls made while a
+  // sync is running are coalesced into one follow-up run.
+  sync(): Promise<void> {
+    if (this.syncing) {
+      this.pendingSync = true;
+      return this.syncing;
+    }
+
+    this.syncing = (async () => {
+      try {
+        do {
+          this.pendingSync = false;
+          await this.syncOnce();
+        } while (this.pendingSync);
+      } finally {
+        this.syncing = null;
+      }
+    })();
+    return this.syncing;
+  }
+
+  private async syncOnce() {
+    const head = await this.chain.getBlockNumber();
+    const safeHead = head - this.confirmations;
+
+    let fromBlock = await this.resumeBlock();
+    while (fromBlock <= safeHead) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, safeHead);
+      await this.processRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  // Next block to index, rewinding first if the cursor block was reorged out
+  private async resumeBlock(): Promise<number> {
+    const state = await this.storage.getIndexerState(this.stateId);
+    if (!state) {
+      return this.startBlock;
+    }
+
+    const block = await this.chain.getBlock(state.lastProcessedBlock);
+    if (block?.hash === state.lastProcessedBlockHash) {
+      return state.lastProcessedBlock + 1;
+    }
+
+    const rewindTo = Math.max(state.lastProcessedBlock - this.reorgDepth, this.startBlock - 1);
+    this.log(`reorg detected at block ${state.lastProcessedBlock}, rewinding to ${rewindTo}`);
+    await this.rollbackAfter(rewindTo);
+    return rewindTo + 1;
+  }
+
+  // Drops events, lineage and transfers from orphaned blocks and restores
+  // each affected batch to the owner of its latest remaining event. Lots split
+  // or merged in orphaned blocks get back the quantity and status they had
+  // before. Shipments initiated in orphaned blocks are undone and those
+  // resolved in them are pending again. Role changes are not reverted; the
+  // replayed RoleAssigned events overwrite them.
+  private async rollbackAfter(blockNumber: number) {
+    // Most recent first, so a lot ends up with its status from before the
+    // earliest orphaned split or merge
+    for (const edge of await this.storage.deleteBatchLineageAfterBlock(blockNumber)) {
+      const parent = await this.storage.getDrugBatchByBatchId(edge.parentBatchId);
+      if (!parent) continue;
+
+      const quantity = edge.operation === "split"
+        ? (parent.quantity == null ? null : parent.quantity + edge.quantity)
+        : edge.quantity;
+      await this.storage.updateDrugBatch(parent.id, {
+        quantity,
+        status: edge.previousStatus ?? parent.status,
+        updatedAt: new Date(),
+      });
+    }
+
+    const removed = await this.storage.deleteSupplyChainEventsAfterBlock(blockNumber);
+    const batchIds = Array.from(new Set(removed.map((event) => event.batchId)));
+
+    for (const batchId of batchIds) {
+      const batch = await this.storage.getDrugBatchByBatchId(batchId);
+      if (!batch) continue;
+
+      const events = await this.storage.getSupplyChainEventsByBatchId(batchId);
+      const latest = events[events.length - 1];
+      if (!latest) {
+        await this.storage.deleteDrugBatch(batch.id);
+        continue;
+      }
+
+      const status = statusForEventType(latest.eventType);
+      await this.storage.updateDrugBatch(batch.id, {
+        currentOwner: latest.toOwner,
+        currentOwnerAddress: latest.toOwnerAddress,
+        status,
+        ...(status === "recalled" ? {} : { recallReason: null, recalledAt: null }),
+        updatedAt: new Date(),
+      });
+    }
+
+    for (const transfer of await this.storage.deleteTransfersAfterBlock(blockNumber)) {
+      const batch = await this.storage.getDrugBatchByBatchId(transfer.batchId);
+      if (batch?.status === "in_transit" && !(await this.storage.getPendingTransferByBatchId(batch.batchId))) {
+        await this.storage.updateDrugBatch(batch.id, { status: transfer.previousStatus, updatedAt: new Date() });
+      }
+    }
+
+    for (const transfer of await this.storage.reopenTransfersResolvedAfterBlock(blockNumber)) {
+      const batch = await this.storage.getDrugBatchByBatchId(transfer.batchId);
+      if (batch) {
+        await this.storage.updateDrugBatch(batch.id, { status: "in_transit", updatedAt: new Date() });
+      }
+    }
+  }
+
+  private async processRange(fromBlock: number, toBlock: number) {
+    const logs = await this.chain.getLogs({ address: this.contractAddress, fromBlock, toBlock });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const blockTimes = new Map<number, Date>();
+    for (const log of logs) {
+      if (!blockTimes.has(log.blockNumber)) {
+        const block = await this.chain.getBlock(log.blockNumber);
+        blockTimes.set(log.blockNumber, block ? new Date(block.timestamp * 1000) : new Date());
+      }
+      await this.handleLog(log, blockTimes.get(log.blockNumber)!);
+    }
+
+    const lastBlock = await this.chain.getBlock(toBlock);
+    if (!lastBlock?.hash) {
+      throw new Error(`Block ${toBlock} not found`);
+    }
+
+    await this.storage.saveIndexerState({
+      id: this.stateId,
+      lastProcessedBlock: toBlock,
+      lastProcessedBlockHash: lastBlock.hash,
+    });
+  }
+
+  private async handleLog(log: IndexerLog, timestamp: Date) {
+    let event: ethers.LogDescription | null;
+    try {
+      event = drugAuthInterface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      return;
+    }
+
+    switch (event?.name) {
+      case "DrugRegistered":
+        return this.handleDrugRegistered(event, log, timestamp);
+      case "OwnershipTransferred":
+        // Skip Ownable's contract-ownership event of the same name
+        if (event.signature !== TOKEN_TRANSFER_EVENT) return;
+        return this.handleOwnershipTransferred(event, log, timestamp);
+      case "TransferInitiated":
+        return this.handleTransferInitiated(event, log, timestamp);
+      case "TransferRejected":
+        return this.handleTransferClosed(event, log, timestamp, "rejected");
+      case "TransferCancelled":
+        return this.handleTransferClosed(event, log, timestamp, "expired");
+      case "DrugSplit":
+        return this.handleDrugSplit(event, log, timestamp);
+      case "DrugsMerged":
+        return this.handleDrugsMerged(event, log, timestamp);
+      case "DrugRecalled":
+        return this.handleDrugRecalled(event, log, timestamp);
+      case "RoleAssigned":
+        return this.handleRoleAssigned(event);
+    }
+  }
+
+  private async handleDrugRegistered(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { tokenId, batchId, owner, drugName, manufacturer } = event.args;
+
+    let batch = await this.storage.getDrugBatchByBatchId(batchId);
+    if (batch) {
+      // Registered through the API first; fill in what only the chain knows
+      if (batch.tokenId == null || !batch.contractAddress) {
+        // Anyone can register a batch ID on-chain; only its owner's token is this batch
+        if (owner.toLowerCase() !== batch.currentOwnerAddress.toLowerCase()) {
+          this.log(`skipping registration of ${batchId} as token ${tokenId} in ${log.transactionHash}: registered by ${owner}, not its owner ${batch.currentOwnerAddress}`);
+          return;
+        }
+        batch = await this.storage.updateDrugBatch(batch.id, {
+          tokenId: Number(tokenId),
+          contractAddress: batch.contractAddress || this.contractAddress,
+        });
+      }
+    } else {
+      const drug = await this.chain.getDrug(tokenId);
+      batch = await this.storage.createDrugBatch({
+        batchId,
+        drugName,
+        manufacturer,
+        manufacturingDate: timestamp,
+        expiryDate: new Date(Number(drug.expiryDate) * 1000),
+        currentOwner: await this.ownerName(owner),
+        currentOwnerAddress: owner,
+        status: "manufactured",
+        quantity: Number(drug.quantity) || null,
+        ipfsHash: drug.ipfsHash || null,
+        contractAddress: this.contractAddress,
+        tokenId: Number(tokenId),
+      });
+    }
+
+    const events = await this.storage.getSupplyChainEventsByBatchId(batchId);
+    const manufactureEvent = events.find(
+      (existing) => existing.eventType === "manufacture" &&
+        (!existing.transactionHash || existing.transactionHash.toLowerCase() === log.transactionHash.toLowerCase()),
+    );
+
+    if (manufactureEvent) {
+      await this.storage.updateSupplyChainEvent(manufactureEvent.id, {
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      });
+    } else {
+      await this.storage.createSupplyChainEvent({
+        batchId,
+        toOwner: batch.currentOwner,
+        toOwnerAddress: owner,
+        eventType: "manufacture",
+        quantity: batch.quantity,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp,
+      });
+    }
+  }
+
+  private async handleOwnershipTransferred(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { tokenId, from, to, eventType } = event.args;
+
+    const batch = await this.storage.getDrugBatchByTokenId(Number(tokenId));
+    if (!batch) {
+      this.log(`skipping transfer of unknown token ${tokenId} in ${log.transactionHash}`);
+      return;
+    }
+
+    // Already recorded by POST /api/drug-batches/transfer
+    const existing = await this.storage.getSupplyChainEventByTransactionHash(batch.batchId, log.transactionHash);
+    if (existing) {
+      if (existing.blockNumber == null) {
+        await this.storage.updateSupplyChainEvent(existing.id, { blockNumber: log.blockNumber });
+      }
+      return;
+    }
+
+    // Accepted on-chain without going through the API
+    const pending = await this.storage.getPendingTransferByBatchId(batch.batchId);
+    if (pending && pending.toOwnerAddress.toLowerCase() === to.toLowerCase()) {
+      await acceptTransfer(pending, batch, {
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp,
+      }, this.storage);
+      return;
+    }
+
+    const toOwner = await this.ownerName(to);
+    await this.storage.createSupplyChainEvent({
+      batchId: batch.batchId,
+      fromOwner: await this.ownerName(from, batch),
+      toOwner,
+      fromOwnerAddress: from,
+      toOwnerAddress: to,
+      eventType,
+      quantity: batch.quantity,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp,
+    });
+
+    await this.storage.updateDrugBatch(batch.id, {
+      currentOwner: toOwner,
+      currentOwnerAddress: to,
+      status: statusForEventType(eventType),
+      updatedAt: new Date(),
+    });
+  }
+
+  private async handleTransferInitiated(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { tokenId, to, eventType, deadline } = event.args;
+
+    const batch = await this.storage.getDrugBatchByTokenId(Number(tokenId));
+    if (!batch) {
+      this.log(`skipping shipment of unknown token ${tokenId} in ${log.transactionHash}`);
+      return;
+    }
+
+    // Already recorded by POST /api/drug-batches/transfer
+    const pending = await this.storage.getPendingTransferByBatchId(batch.batchId);
+    if (pending) {
+      if (pending.transactionHash?.toLowerCase() !== log.transactionHash.toLowerCase()) {
+        this.log(`skipping shipment of ${batch.batchId} in ${log.transactionHash}: another transfer is pending`);
+      }
+      return;
+    }
+
+    await initiateTransfer(batch, {
+      toOwner: await this.ownerName(to),
+      toOwnerAddress: to,
+      eventType,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      deadline: new Date(Number(deadline) * 1000),
+      initiatedAt: timestamp,
+    }, this.storage);
+  }
+
+  // TransferRejected and TransferCancelled: the batch stays with the sender
+  private async handleTransferClosed(
+    event: ethers.LogDescription,
+    log: IndexerLog,
+    timestamp: Date,
+    status: "rejected" | "expired",
+  ) {
+    const { tokenId, to } = event.args;
+
+    const batch = await this.storage.getDrugBatchByTokenId(Number(tokenId));
+    if (!batch) return;
+
+    // Already closed through the API or by the timeout job
+    const pending = await this.storage.getPendingTransferByBatchId(batch.batchId);
+    if (!pending || pending.toOwnerAddress.toLowerCase() !== to.toLowerCase()) return;
+
+    await closeTransfer(pending, batch, {
+      status,
+      reason: status === "rejected" ? event.args.reason : undefined,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp,
+    }, this.storage);
+  }
+
+  private async handleDrugSplit(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { parentTokenId, childTokenId, childBatchId, quantity } = event.args;
+
+    // Already recorded by POST /api/drug-batches/split
+    const existing = await this.storage.getDrugBatchByBatchId(childBatchId);
+    if (existing) {
+      await this.fillInLot(existing, childTokenId, log);
+      return;
+    }
+
+    const parent = await this.storage.getDrugBatchByTokenId(Number(parentTokenId));
+    if (!parent) {
+      this.log(`skipping split of unknown token ${parentTokenId} in ${log.transactionHash}`);
+      return;
+    }
+
+    await splitBatch(parent, [{ batchId: childBatchId, quantity: Number(quantity), tokenId: Number(childTokenId) }], {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp,
+    }, this.storage);
+  }
+
+  private async handleDrugsMerged(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { tokenId, sourceTokenIds, batchId } = event.args;
+
+    // Already recorded by POST /api/drug-batches/merge
+    const existing = await this.storage.getDrugBatchByBatchId(batchId);
+    if (existing) {
+      await this.fillInLot(existing, tokenId, log);
+      return;
+    }
+
+    const sources: DrugBatch[] = [];
+    for (const sourceTokenId of sourceTokenIds as bigint[]) {
+      const source = await this.storage.getDrugBatchByTokenId(Number(sourceTokenId));
+      if (!source) {
+        this.log(`skipping merge of unknown token ${sourceTokenId} in ${log.transactionHash}`);
+        return;
+      }
+      sources.push(source);
+    }
+
+    await mergeBatches(sources, { batchId, tokenId: Number(tokenId) }, {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp,
+    }, this.storage);
+  }
+
+  // Fills in the token and block of a sub-lot or merged lot the API recorded
+  private async fillInLot(batch: DrugBatch, tokenId: bigint, log: IndexerLog) {
+    if (batch.tokenId == null || !batch.contractAddress) {
+      await this.storage.updateDrugBatch(batch.id, {
+        tokenId: Number(tokenId),
+        contractAddress: batch.contractAddress || this.contractAddress,
+      });
+    }
+
+    const existing = await this.storage.getSupplyChainEventByTransactionHash(batch.batchId, log.transactionHash);
+    if (existing && existing.blockNumber == null) {
+      await this.storage.updateSupplyChainEvent(existing.id, { blockNumber: log.blockNumber });
+    }
+  }
+
+  private async handleDrugRecalled(event: ethers.LogDescription, log: IndexerLog, timestamp: Date) {
+    const { tokenId, reason } = event.args;
+
+    const batch = await this.storage.getDrugBatchByTokenId(Number(tokenId));
+    if (!batch) {
+      this.log(`skipping recall of unknown token ${tokenId} in ${log.transactionHash}`);
+      return;
+    }
+
+    // Already recorded by POST /api/drug-batches/recall
+    const existing = await this.storage.getSupplyChainEventByTransactionHash(batch.batchId, log.transactionHash);
+    if (existing) {
+      if (existing.blockNumber == null) {
+        await this.storage.updateSupplyChainEvent(existing.id, { blockNumber: log.blockNumber });
+      }
+      return;
+    }
+
+    await recordRecall(batch, {
+      reason,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp,
+    }, this.storage);
+  }
+
+  private async handleRoleAssigned(event: ethers.LogDescription) {
+    const { user: address, role } = event.args;
+    if (!(supplyChainRoles as readonly string[]).includes(role)) return;
+
+    const user = await this.storage.getUserByWalletAddress(address);
+    if (user && user.role !== role) {
+      await this.storage.updateUser(user.id, { role });
+    }
+  }
+
+  // Display name for an address: the linked account, the batch's current
+  // owner name, or the address itself
+  private async ownerName(address: string, batch?: DrugBatch): Promise<string> {
+    const user = await this.storage.getUserByWalletAddress(address);
+    if (user) return user.username;
+    if (batch && batch.currentOwnerAddress.toLowerCase() === address.toLowerCase()) {
+      return batch.currentOwner;
+    }
+    return address;
+  }
+}
+
+// Starts indexing when RPC_URL and CONTRACT_ADDRESS are set, re-syncing on
+// every new block. Set INDEXER_ENABLED=false to turn it off.
+export function startIndexerFromEnv(log: (message: string) => void): DrugAuthIndexer | null {
+  const provider = getRpcProvider();
+  const contractAddress = process.env.CONTRACT_ADDRESS;
+  if (!provider || !contractAddress || process.env.INDEXER_ENABLED === "false") {
+    return null;
+  }
+
+  const indexer = new DrugAuthIndexer(createEthersChain(provider, contractAddress), {
+    contractAddress,
+    startBlock: parseInt(process.env.INDEXER_START_BLOCK || "0", 10),
+    confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || "6", 10),
+    log,
+  });
+
+  const run = () => {
+    indexer.sync().catch((error) => {
+      log(`sync failed: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  run();
+  provider.on("block", run);
+  return indexer;
+}
@@ -0,0 +1,61 @@
+import type { DrugBatch } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { isInStock } from "@shared/supply-chain";
+import { isExpired } from "./expiry";
+
+type Product = Pick<DrugBatch, "drugName" | "strength" | "dosageForm" | "unit">;
+
+export interface InventoryLine extends Product {
+  // On hand, and shipped but not yet accepted by the recipient
+  quantity: number;
+  inTransit: number;
+  batchIds: string[];
+  // Batches without a recorded quantity, which the totals leave out
+  untrackedBatches: number;
+}
+
+// What `ownerAddress` holds, one line per product and unit, sorted by drug
+// name. Recalled, expired, dispensed, destroyed and retired batches are left out.
+export async function getOwnerInventory(
+  ownerAddress: string,
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<InventoryLine[]> {
+  const lines = new Map<string, InventoryLine>();
+
+  const batches = await storage.getDrugBatchesByOwner(ownerAddress);
+  for (const batch of batches.sort((a, b) => a.batchId.localeCompare(b.batchId))) {
+    if (!isInStock(batch.status) || isExpired(batch, now)) continue;
+
+    const key = productKey(batch);
+    let line = lines.get(key);
+    if (!line) {
+      line = {
+        drugName: batch.drugName,
+        strength: batch.strength,
+        dosageForm: batch.dosageForm,
+        unit: batch.unit,
+        quantity: 0,
+        inTransit: 0,
+        batchIds: [],
+        untrackedBatches: 0,
+      };
+      lines.set(key, line);
+    }
+
+    line.batchIds.push(batch.batchId);
+    if (batch.quantity == null) {
+      line.untrackedBatches++;
+    } else if (batch.status === "in_transit") {
+      line.inTransit += batch.quantity;
+    } else {
+      line.quantity += batch.quantity;
+    }
+  }
+
+  return Array.from(lines.values()).sort((a, b) => productKey(a).localeCompare(productKey(b)));
+}
+
+function productKey(product: Product): string {
+  return [product.drugName, product.strength ?? "", product.dosageForm ?? "", product.unit].join("|");
+}
@@ -0,0 +1,95 @@
+import type { SupplyChainEvent } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface JourneyStop {
+  facilityId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  country: string | null;
+  // Who held the batch there, and what happened, oldest first
+  owner: string;
+  eventTypes: string[];
+  arrivedAt: Date;
+  // The last event at the facility
+  lastEventAt: Date;
+}
+
+export interface JourneyHop {
+  // Indexes into the journey's stops
+  from: number;
+  to: number;
+  // From the last event at one facility to the first at the next
+  durationMs: number;
+  // Great-circle distance, when both facilities have coordinates
+  distanceKm: number | null;
+}
+
+// The facilities a batch passed through, in order, from the events that
+// recorded a location. Consecutive events at the same facility make one stop.
+export async function getBatchJourney(
+  batchId: string,
+  storage: IStorage = defaultStorage,
+): Promise<{ stops: JourneyStop[]; hops: JourneyHop[] }> {
+  const stops: JourneyStop[] = [];
+
+  for (const event of await storage.getSupplyChainEventsByBatchId(batchId)) {
+    if (!hasLocation(event) || !event.timestamp) continue;
+
+    const last = stops[stops.length - 1];
+    if (last && isSameFacility(last, event)) {
+      last.eventTypes.push(event.eventType);
+      last.lastEventAt = event.timestamp;
+      continue;
+    }
+
+    stops.push({
+      facilityId: event.facilityId,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      country: event.country,
+      owner: event.toOwner,
+      eventTypes: [event.eventType],
+      arrivedAt: event.timestamp,
+      lastEventAt: event.timestamp,
+    });
+  }
+
+  const hops = stops.slice(1).map((stop, i): JourneyHop => ({
+    from: i,
+    to: i + 1,
+    durationMs: stop.arrivedAt.getTime() - stops[i].lastEventAt.getTime(),
+    distanceKm: distanceKm(stops[i], stop),
+  }));
+
+  return { stops, hops };
+}
+
+function hasLocation(event: SupplyChainEvent): boolean {
+  return !!event.facilityId || (event.latitude != null && event.longitude != null);
+}
+
+// Facilities are matched by ID, or by coordinates when either has none
+function isSameFacility(stop: JourneyStop, event: SupplyChainEvent): boolean {
+  if (stop.facilityId && event.facilityId) {
+    return stop.facilityId === event.facilityId;
+  }
+  return stop.latitude === event.latitude && stop.longitude === event.longitude;
+}
+
+// Haversine distance between two points, in kilometres
+export function distanceKm(
+  a: { latitude: number | null; longitude: number | null },
+  b: { latitude: number | null; longitude: number | null },
+): number | null {
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) {
+    return null;
+  }
+
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.latitude - a.latitude);
+  const dLng = radians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
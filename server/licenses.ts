@@ -0,0 +1,181 @@
+import { ethers } from "ethers";
+import type { Notification, PartnerLicense, TradingPartner } from "@shared/schema";
+import { DrugAuth__factory } from "@shared/contracts";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getRpcProvider } from "./blockchain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead owners are warned, LICENSE_EXPIRY_WARNING_DAYS (default 30)
+export function licenseWarningDays(): number {
+  return parseInt(process.env.LICENSE_EXPIRY_WARNING_DAYS || "30", 10);
+}
+
+// Same rule as DrugAuth's hasValidLicense, plus a start date and revocation
+export function isLicenseInForce(license: PartnerLicense, now = new Date()): boolean {
+  return !license.revokedAt
+    && license.expiresAt.getTime() > now.getTime()
+    && (!license.validFrom || license.validFrom.getTime() <= now.getTime());
+}
+
+// The partner's license in force that runs longest, if any
+export async function getLicenseInForce(
+  partnerId: string,
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<PartnerLicense | undefined> {
+  const licenses = await storage.getPartnerLicenses(partnerId);
+  return licenses.find((license) => isLicenseInForce(license, now));
+}
+
+// The license in force of the verified partner a wallet is registered to.
+// Shipments can only go to wallets that have one, as DrugAuth only lets them
+// go to wallets with an on-chain license. Licenses of pending or suspended
+// partners haven't been checked by an admin, so they don't count.
+export async function getLicenseForAddress(
+  address: string,
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<PartnerLicense | undefined> {
+  const partner = await storage.getTradingPartnerByWalletAddress(address);
+  return partner?.verificationStatus === "verified" ? getLicenseInForce(partner.id, now, storage) : undefined;
+}
+
+// DrugAuth's license views and the owner-only calls that change them; a
+// DrugAuth contract connected with the owner's key satisfies this
+export interface LicenseRegistry {
+  licenses(holder: string): Promise<{ licenseNumber: string; expiresAt: bigint }>;
+  issueLicense(holder: string, licenseNumber: string, expiresAt: bigint): Promise<{ wait(): Promise<unknown> }>;
+  revokeLicense(holder: string): Promise<{ wait(): Promise<unknown> }>;
+}
+
+// Writes the partner licenses of `addresses` to DrugAuth, so the contract
+// lets through the same recipients the API does: a wallet's license in force
+// is issued on-chain, and a wallet without one (or whose partner isn't
+// verified) has its on-chain license revoked. Only wallets whose on-chain license differs are written. Returns
+// the addresses that were.
+export async function syncLicensesOnChain(
+  addresses: string[],
+  registry: LicenseRegistry,
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const address of Array.from(new Set(addresses.map((entry) => entry.toLowerCase())))) {
+    const license = await getLicenseForAddress(address, now, storage);
+    const onChain = await registry.licenses(address);
+
+    if (license) {
+      const expiresAt = BigInt(Math.floor(license.expiresAt.getTime() / 1000));
+      if (onChain.licenseNumber === license.licenseNumber && onChain.expiresAt === expiresAt) continue;
+      await (await registry.issueLicense(address, license.licenseNumber, expiresAt)).wait();
+    } else {
+      if (onChain.expiresAt === 0n) continue;
+      await (await registry.revokeLicense(address)).wait();
+    }
+    written.push(address);
+  }
+
+  return written;
+}
+
+// Every partner wallet, for syncing them all
+export async function getPartnerWalletAddresses(storage: IStorage = defaultStorage): Promise<string[]> {
+  return (await storage.getTradingPartners()).flatMap((partner) => partner.walletAddresses);
+}
+
+// DrugAuth on RPC_URL and CONTRACT_ADDRESS signed by LICENSE_ISSUER_PRIVATE_KEY,
+// the contract owner's key, or null when any of them is unset
+export function getLicenseRegistryFromEnv(): LicenseRegistry | null {
+  const provider = getRpcProvider();
+  const contractAddress = process.env.CONTRACT_ADDRESS;
+  const privateKey = process.env.LICENSE_ISSUER_PRIVATE_KEY;
+  if (!provider || !contractAddress || !privateKey) {
+    return null;
+  }
+  return DrugAuth__factory.connect(contractAddress, new ethers.Wallet(privateKey, provider));
+}
+
+// The users a partner's notices go to: whoever registered it and the
+// accounts linked to its wallets
+async function getPartnerOwnerIds(partner: TradingPartner, storage: IStorage): Promise<string[]> {
+  const ownerIds = new Set<string>();
+  if (partner.createdBy) {
+    ownerIds.add(partner.createdBy);
+  }
+  for (const address of partner.walletAddresses) {
+    const user = await storage.getUserByWalletAddress(address);
+    if (user) {
+      ownerIds.add(user.id);
+    }
+  }
+  return Array.from(ownerIds);
+}
+
+// Warns the owners of every partner whose license lapses within the warning
+// window, once per license. Renewing a license (a new expiry date) re-arms it.
+export async function notifyExpiringLicenses(
+  now = new Date(),
+  storage: IStorage = defaultStorage,
+): Promise<Notification[]> {
+  const sent: Notification[] = [];
+  const cutoff = new Date(now.getTime() + licenseWarningDays() * DAY_MS);
+
+  for (const license of await storage.getPartnerLicensesExpiringBefore(cutoff)) {
+    const partner = await storage.getTradingPartner(license.partnerId);
+    if (partner) {
+      const lapse = license.expiresAt.getTime() > now.getTime() ? "lapses" : "lapsed";
+      const message = `${partner.legalName}'s ${license.licenseType} license ${license.licenseNumber} ${lapse} on ${license.expiresAt.toISOString().slice(0, 10)}`;
+      for (const userId of await getPartnerOwnerIds(partner, storage)) {
+        sent.push(await storage.createNotification({
+          userId,
+          kind: "license_expiring",
+          message,
+          partnerId: partner.id,
+          licenseId: license.id,
+        }));
+      }
+    }
+    await storage.updatePartnerLicense(license.id, { expiryNotifiedAt: now });
+  }
+
+  return sent;
+}
+
+// Runs `notifyExpiringLicenses` at startup and every
+// LICENSE_CHECK_INTERVAL_MINUTES (default 60; 0 turns it off). With a license
+// issuer key configured, it also syncs every partner wallet's license
+// on-chain, which issues licenses that have come into force since and
+// retries syncs that failed.
+export function startLicenseJobFromEnv(log: (message: string) => void): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.LICENSE_CHECK_INTERVAL_MINUTES || "60", 10);
+  if (!minutes) {
+    return null;
+  }
+
+  const run = async () => {
+    try {
+      const sent = await notifyExpiringLicenses();
+      if (sent.length > 0) {
+        log(`sent ${sent.length} license expiry notifications`);
+      }
+    } catch (error) {
+      log(`license expiry check failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const registry = getLicenseRegistryFromEnv();
+    if (!registry) return;
+    try {
+      const written = await syncLicensesOnChain(await getPartnerWalletAddresses(), registry);
+      if (written.length > 0) {
+        log(`synced ${written.length} licenses on-chain`);
+      }
+    } catch (error) {
+      log(`on-chain license sync failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  run();
+  return setInterval(run, minutes * 60 * 1000);
+}
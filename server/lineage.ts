@@ -0,0 +1,279 @@
+import type { BatchLineage, DrugBatch, SupplyChainEvent } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Lineage trees deeper than this are cut off
+export const MAX_LINEAGE_DEPTH = 20;
+
+export interface LotReceipt {
+  transactionHash?: string;
+  blockNumber?: number;
+  timestamp?: Date;
+}
+
+export interface LineageNode {
+  batchId: string;
+  status: string;
+  quantity: number | null;
+  unit: string;
+  currentOwner: string;
+  // How the lot was made from its parent in the tree, and how much moved
+  operation: string | null;
+  movedQuantity: number | null;
+  children: LineageNode[];
+}
+
+// Splits sub-lots off `parent`. Each sub-lot copies the parent's product
+// details, holder and status and takes its quantity from the parent; a parent
+// split down to nothing gets the status "split". Throws, before creating any
+// sub-lot, if they add up to more than the parent holds. The writes happen in
+// one transaction.
+export async function splitBatch(
+  parent: DrugBatch,
+  lots: { batchId: string; quantity: number; tokenId?: number }[],
+  receipt: LotReceipt = {},
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; lots: DrugBatch[]; events: SupplyChainEvent[] }> {
+  const splitAt = receipt.timestamp ?? new Date();
+  const remaining = parent.quantity == null ? null : parent.quantity - lots.reduce((total, lot) => total + lot.quantity, 0);
+  if (remaining != null && remaining < 0) {
+    throw new Error("Not enough quantity");
+  }
+
+  return storage.transaction(async (storage) => {
+    const children: DrugBatch[] = [];
+    const events: SupplyChainEvent[] = [];
+
+    for (const lot of lots) {
+      const child = await storage.createDrugBatch({
+        batchId: lot.batchId,
+        drugName: parent.drugName,
+        gtin: parent.gtin,
+        strength: parent.strength,
+        dosageForm: parent.dosageForm,
+        manufacturer: parent.manufacturer,
+        manufacturingDate: parent.manufacturingDate,
+        expiryDate: parent.expiryDate,
+        currentOwner: parent.currentOwner,
+        currentOwnerAddress: parent.currentOwnerAddress,
+        status: parent.status,
+        quantity: lot.quantity,
+        unit: parent.unit,
+        ipfsHash: parent.ipfsHash,
+        contractAddress: parent.contractAddress,
+        tokenId: lot.tokenId ?? null,
+      });
+      children.push(child);
+
+      events.push(await storage.createSupplyChainEvent({
+        batchId: child.batchId,
+        fromOwner: parent.currentOwner,
+        toOwner: parent.currentOwner,
+        fromOwnerAddress: parent.currentOwnerAddress,
+        toOwnerAddress: parent.currentOwnerAddress,
+        eventType: "split",
+        quantity: lot.quantity,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        timestamp: splitAt,
+      }));
+
+      await storage.createBatchLineage({
+        parentBatchId: parent.batchId,
+        childBatchId: child.batchId,
+        quantity: lot.quantity,
+        operation: "split",
+        previousStatus: parent.status,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        createdAt: splitAt,
+      });
+    }
+
+    const drugBatch = await storage.updateDrugBatch(parent.id, {
+      quantity: remaining,
+      ...(remaining === 0 ? { status: "split" } : {}),
+      updatedAt: new Date(),
+    });
+
+    return { drugBatch, lots: children, events };
+  });
+}
+
+// Merges `sources` into a new lot holding their combined quantity. The new
+// lot takes the earliest expiry date of the merged lots, which get the status
+// "merged". The writes happen in one transaction.
+export async function mergeBatches(
+  sources: DrugBatch[],
+  merged: { batchId: string; tokenId?: number },
+  receipt: LotReceipt = {},
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; sources: DrugBatch[]; event: SupplyChainEvent }> {
+  const mergedAt = receipt.timestamp ?? new Date();
+  const [first] = sources;
+  const earliest = (dates: Date[]) => new Date(Math.min(...dates.map((date) => date.getTime())));
+  const quantity = sources.reduce((total, source) => total + (source.quantity ?? 0), 0);
+
+  return storage.transaction(async (storage) => {
+    const drugBatch = await storage.createDrugBatch({
+      batchId: merged.batchId,
+      drugName: first.drugName,
+      gtin: first.gtin,
+      strength: first.strength,
+      dosageForm: first.dosageForm,
+      manufacturer: first.manufacturer,
+      manufacturingDate: earliest(sources.map((source) => source.manufacturingDate)),
+      expiryDate: earliest(sources.map((source) => source.expiryDate)),
+      currentOwner: first.currentOwner,
+      currentOwnerAddress: first.currentOwnerAddress,
+      status: first.status,
+      quantity,
+      unit: first.unit,
+      ipfsHash: first.ipfsHash,
+      contractAddress: first.contractAddress,
+      tokenId: merged.tokenId ?? null,
+    });
+
+    const event = await storage.createSupplyChainEvent({
+      batchId: drugBatch.batchId,
+      fromOwner: first.currentOwner,
+      toOwner: first.currentOwner,
+      fromOwnerAddress: first.currentOwnerAddress,
+      toOwnerAddress: first.currentOwnerAddress,
+      eventType: "merge",
+      quantity,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      timestamp: mergedAt,
+    });
+
+    const updated: DrugBatch[] = [];
+    for (const source of sources) {
+      await storage.createBatchLineage({
+        parentBatchId: source.batchId,
+        childBatchId: drugBatch.batchId,
+        quantity: source.quantity ?? 0,
+        operation: "merge",
+        previousStatus: source.status,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        createdAt: mergedAt,
+      });
+      updated.push(await storage.updateDrugBatch(source.id, { status: "merged", quantity: 0, updatedAt: new Date() }));
+    }
+
+    return { drugBatch, sources: updated, event };
+  });
+}
+
+// Every lot split or merged out of `batch`, directly or not
+export async function getDescendantBatches(
+  batch: DrugBatch,
+  storage: IStorage = defaultStorage,
+): Promise<DrugBatch[]> {
+  const descendants = new Map<string, DrugBatch>();
+  let frontier = [batch.batchId];
+
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const batchId of frontier) {
+      for (const edge of await storage.getBatchLineageByParent(batchId)) {
+        if (descendants.has(edge.childBatchId)) continue;
+        const child = await storage.getDrugBatchByBatchId(edge.childBatchId);
+        if (!child) continue;
+        descendants.set(child.batchId, child);
+        next.push(child.batchId);
+      }
+    }
+    frontier = next;
+  }
+
+  return Array.from(descendants.values());
+}
+
+// The events of every lot `batchId` was split or merged out of, directly or
+// not, each cut off at the split or merge, oldest first
+export async function getAncestorEvents(
+  batchId: string,
+  storage: IStorage = defaultStorage,
+): Promise<SupplyChainEvent[]> {
+  const events = new Map<string, SupplyChainEvent>();
+  let frontier = [{ batchId, until: null as Date | null }];
+
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const { batchId: childId, until } of frontier) {
+      for (const edge of await storage.getBatchLineageByChild(childId)) {
+        // A parent's later events happened after the product left it
+        const cutoff = until && until < edge.createdAt ? until : edge.createdAt;
+        for (const event of await storage.getSupplyChainEventsByBatchId(edge.parentBatchId)) {
+          if (event.timestamp! <= cutoff) events.set(event.id, event);
+        }
+        next.push({ batchId: edge.parentBatchId, until: cutoff });
+      }
+    }
+    frontier = next;
+  }
+
+  return Array.from(events.values()).sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+}
+
+// The lineage graph around `batchId` as trees grown down from the original
+// lots it came from. A merged lot appears under each lot that went into it.
+export async function getBatchLineageTree(
+  batchId: string,
+  storage: IStorage = defaultStorage,
+): Promise<LineageNode[]> {
+  // Walk up to the lots that have no parents
+  const roots = new Set<string>();
+  const seen = new Set<string>();
+  let frontier = [batchId];
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const parents = await storage.getBatchLineageByChild(id);
+      if (parents.length === 0) {
+        roots.add(id);
+      }
+      next.push(...parents.map((edge) => edge.parentBatchId));
+    }
+    frontier = next;
+  }
+
+  const nodes: LineageNode[] = [];
+  for (const root of Array.from(roots).sort()) {
+    const node = await buildNode(root, null, 0, storage);
+    if (node) nodes.push(node);
+  }
+  return nodes;
+}
+
+async function buildNode(
+  batchId: string,
+  edge: BatchLineage | null,
+  depth: number,
+  storage: IStorage,
+): Promise<LineageNode | null> {
+  const batch = await storage.getDrugBatchByBatchId(batchId);
+  if (!batch) return null;
+
+  const children: LineageNode[] = [];
+  if (depth < MAX_LINEAGE_DEPTH) {
+    for (const childEdge of await storage.getBatchLineageByParent(batchId)) {
+      const child = await buildNode(childEdge.childBatchId, childEdge, depth + 1, storage);
+      if (child) children.push(child);
+    }
+  }
+
+  return {
+    batchId: batch.batchId,
+    status: batch.status,
+    quantity: batch.quantity,
+    unit: batch.unit,
+    currentOwner: batch.currentOwner,
+    operation: edge?.operation ?? null,
+    movedQuantity: edge?.quantity ?? null,
+    children,
+  };
+}
@@ -0,0 +1,65 @@
+import type { EventLocation, TradingPartner, UpdateTradingPartner } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Fields that identify a partner; changing any of them needs verifying again
+const IDENTITY_FIELDS = ["legalName", "role", "gln", "walletAddresses"] as const;
+
+// With REQUIRE_VERIFIED_PARTNERS=true, batches can only be shipped to wallets
+// of verified trading partners
+export function verifiedPartnersRequired(): boolean {
+  return process.env.REQUIRE_VERIFIED_PARTNERS === "true";
+}
+
+// The addresses among `walletAddresses` registered to a partner other than
+// `partnerId`
+export async function findWalletConflicts(
+  walletAddresses: string[],
+  partnerId: string | null,
+  storage: IStorage = defaultStorage,
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  for (const address of walletAddresses) {
+    const owner = await storage.getTradingPartnerByWalletAddress(address);
+    if (owner && owner.id !== partnerId) {
+      conflicts.push(address);
+    }
+  }
+  return conflicts;
+}
+
+// The addresses among `walletAddresses` that a non-admin can't put on a
+// partner: those not linked to their account through Sign-In with Ethereum,
+// unless `partner` already has them
+export function unprovenWallets(
+  walletAddresses: string[],
+  user: { walletAddress: string | null },
+  partner?: TradingPartner,
+): string[] {
+  const proven = [user.walletAddress, ...(partner?.walletAddresses ?? [])]
+    .filter((address): address is string => !!address)
+    .map((address) => address.toLowerCase());
+  return walletAddresses.filter((address) => !proven.includes(address.toLowerCase()));
+}
+
+// Whether `updates` change who `partner` is, rather than e.g. its facilities
+export function changesIdentity(partner: TradingPartner, updates: UpdateTradingPartner): boolean {
+  return IDENTITY_FIELDS.some((field) =>
+    updates[field] !== undefined && JSON.stringify(updates[field]) !== JSON.stringify(partner[field]));
+}
+
+// `location` with the coordinates and country of the partner's facility it
+// names filled in where missing
+export function withFacilityLocation(partner: TradingPartner, location: EventLocation): EventLocation {
+  const facility = partner.facilities.find((candidate) => candidate.facilityId === location.facilityId);
+  if (!facility) {
+    return location;
+  }
+
+  const hasCoordinates = location.latitude != null;
+  return {
+    facilityId: facility.facilityId,
+    latitude: hasCoordinates ? location.latitude : facility.latitude,
+    longitude: hasCoordinates ? location.longitude : facility.longitude,
+    country: location.country ?? facility.country,
+  };
+}
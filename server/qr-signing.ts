@@ -0,0 +1,94 @@
+import { verifyMessage } from "ethers";
+import type { DrugBatch, QRPayload, SignedQRPayload } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getBatchManufacturerAddress } from "./recall";
+import { generateSerialRange, verifySerializedUnit, type UnitVerification } from "./serialization";
+
+// "valid": signed by the batch manufacturer's registered key. "forged": the
+// key or signature doesn't match the batch, or the pack was already
+// dispensed. "unknown": no such batch, key or pack.
+export type QRSignatureStatus = "valid" | "forged" | "unknown";
+
+export interface QRSignatureResult {
+  status: QRSignatureStatus;
+  reason: string;
+  drugBatch?: DrugBatch;
+  // The pack's scan, recorded once the signature checks out
+  unit?: UnitVerification;
+}
+
+// The exact text the manufacturer's wallet signs for a label
+export function formatQRPayloadMessage(payload: QRPayload): string {
+  return [
+    "DrugAuth label",
+    `Batch: ${payload.batchId}`,
+    `Token: ${payload.tokenId ?? "none"}`,
+    `Serial: ${payload.serial}`,
+    `Key: ${payload.keyId}`,
+  ].join("\n");
+}
+
+// A fresh label for `batch`, for `keyId` to sign. Its serial is that of a new
+// serialized pack of the batch.
+export async function issueQRPayload(
+  batch: DrugBatch,
+  keyId: string,
+  storage: IStorage = defaultStorage,
+): Promise<QRPayload> {
+  const { serialNumbers: [serial] } = await generateSerialRange(batch.batchId, 1, storage);
+  return {
+    batchId: batch.batchId,
+    ...(batch.tokenId != null ? { tokenId: String(batch.tokenId) } : {}),
+    serial,
+    keyId,
+  };
+}
+
+// Checks the label's signature and then its serial, recording a scan of the
+// pack at `location` when both belong to the batch
+export async function verifyQRPayload(
+  payload: SignedQRPayload,
+  location: string,
+  storage: IStorage = defaultStorage,
+): Promise<QRSignatureResult> {
+  const drugBatch = await storage.getDrugBatchByBatchId(payload.batchId);
+  if (!drugBatch) {
+    return { status: "unknown", reason: "Drug batch not found" };
+  }
+
+  const issuer = await storage.getUserByWalletAddress(payload.keyId);
+  if (issuer?.role !== "manufacturer") {
+    return { status: "unknown", reason: "Signing key is not registered to a manufacturer", drugBatch };
+  }
+
+  const manufacturerAddress = await getBatchManufacturerAddress(drugBatch, storage);
+  if (manufacturerAddress?.toLowerCase() !== payload.keyId.toLowerCase()) {
+    return { status: "forged", reason: "Signing key does not belong to this batch's manufacturer", drugBatch };
+  }
+
+  if ((payload.tokenId ?? null) !== (drugBatch.tokenId != null ? String(drugBatch.tokenId) : null)) {
+    return { status: "forged", reason: "Token ID does not match the batch", drugBatch };
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(formatQRPayloadMessage(payload), payload.signature);
+  } catch {
+    return { status: "forged", reason: "Malformed signature", drugBatch };
+  }
+  if (signer.toLowerCase() !== payload.keyId.toLowerCase()) {
+    return { status: "forged", reason: "Signature does not match the signing key", drugBatch };
+  }
+
+  const existing = await storage.getSerializedUnit(payload.serial);
+  if (existing?.batchId !== drugBatch.batchId) {
+    return { status: "unknown", reason: "Serial number is not a pack of this batch", drugBatch };
+  }
+
+  const unit = await verifySerializedUnit(payload.serial, location, storage);
+  if (drugBatch.status === "dispensed") {
+    return { status: "forged", reason: "Pack has already been dispensed", drugBatch, unit };
+  }
+
+  return { status: "valid", reason: "Signed by the batch manufacturer", drugBatch, unit };
+}
@@ -0,0 +1,87 @@
+import type { DrugBatch, RecallRequest, SupplyChainEvent } from "@shared/schema";
+import { canBranch } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getDescendantBatches, MAX_LINEAGE_DEPTH } from "./lineage";
+
+// The wallet a batch was registered to, taken from its manufacture event or,
+// for a sub-lot or merged lot, from the lot it came from
+export async function getBatchManufacturerAddress(
+  batch: DrugBatch,
+  storage: IStorage = defaultStorage,
+): Promise<string | undefined> {
+  let batchId = batch.batchId;
+  for (let depth = 0; depth <= MAX_LINEAGE_DEPTH; depth++) {
+    const events = await storage.getSupplyChainEventsByBatchId(batchId);
+    const manufactured = events.find((event) => event.eventType === "manufacture");
+    if (manufactured) {
+      return manufactured.toOwnerAddress;
+    }
+
+    const [parent] = await storage.getBatchLineageByChild(batchId);
+    if (!parent) {
+      return undefined;
+    }
+    batchId = parent.parentBatchId;
+  }
+  return undefined;
+}
+
+// Batches a recall request covers: `batch` and every lot split or merged out
+// of it, or for scope "drug" every unrecalled batch of the same drug
+// registered to `manufacturerAddress`, limited to batch IDs between
+// `fromBatchId` and `toBatchId` when given
+export async function findRecallBatches(
+  batch: DrugBatch,
+  request: Pick<RecallRequest, "scope" | "fromBatchId" | "toBatchId">,
+  manufacturerAddress: string,
+  storage: IStorage = defaultStorage,
+): Promise<DrugBatch[]> {
+  if (request.scope !== "drug") {
+    return [batch, ...await getDescendantBatches(batch, storage)].filter((lot) => canBranch(lot.status, "recall"));
+  }
+
+  const { fromBatchId, toBatchId } = request;
+  const recalled: DrugBatch[] = [];
+  for (const candidate of await storage.getDrugBatchesByDrugName(batch.drugName)) {
+    if (!canBranch(candidate.status, "recall")) continue;
+    if (fromBatchId && candidate.batchId.localeCompare(fromBatchId) < 0) continue;
+    if (toBatchId && candidate.batchId.localeCompare(toBatchId) > 0) continue;
+
+    const address = await getBatchManufacturerAddress(candidate, storage);
+    if (address?.toLowerCase() === manufacturerAddress.toLowerCase()) {
+      recalled.push(candidate);
+    }
+  }
+  return recalled;
+}
+
+// Marks a batch recalled and adds a "recall" event. The batch stays with its
+// current holder, matching the contract's history entry.
+export async function recordRecall(
+  batch: DrugBatch,
+  recall: { reason: string; transactionHash?: string; blockNumber?: number; timestamp?: Date },
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; event: SupplyChainEvent }> {
+  const recalledAt = recall.timestamp ?? new Date();
+
+  const drugBatch = await storage.updateDrugBatch(batch.id, {
+    status: "recalled",
+    recallReason: recall.reason,
+    recalledAt,
+    updatedAt: new Date(),
+  });
+
+  const event = await storage.createSupplyChainEvent({
+    batchId: batch.batchId,
+    fromOwner: batch.currentOwner,
+    toOwner: batch.currentOwner,
+    fromOwnerAddress: batch.currentOwnerAddress,
+    toOwnerAddress: batch.currentOwnerAddress,
+    eventType: "recall",
+    transactionHash: recall.transactionHash,
+    blockNumber: recall.blockNumber,
+    timestamp: recalledAt,
+  });
+
+  return { drugBatch, event };
+}
@@ -0,0 +1,179 @@
+import type { DrugBatch } from "@shared/schema";
+import { DrugAuth__factory } from "@shared/contracts";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getRpcProvider } from "./blockchain";
+
+// The DrugAuth views reconciliation reads; a connected `DrugAuth` contract
+// satisfies this directly
+export interface ReconciliationChain {
+  ownerOf(tokenId: bigint): Promise<string>;
+  verifyDrug(tokenId: bigint): Promise<{ isActive: boolean; expiryDate: bigint }>;
+  getDrugHistory(tokenId: bigint): Promise<readonly unknown[]>;
+}
+
+export type DiscrepancyField = "token" | "owner" | "isActive" | "expiryDate" | "historyLength";
+
+export interface Discrepancy {
+  batchId: string;
+  tokenId: number;
+  field: DiscrepancyField;
+  database: string | number | boolean;
+  chain: string | number | boolean | null;
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  batchesChecked: number;
+  discrepancies: Discrepancy[];
+  repaired: number;
+}
+
+// Statuses for batches that are no longer active on-chain
+export const inactiveStatuses = ["deactivated", "recalled", "destroyed", "split", "merged", "dispensed"];
+
+const PAGE_SIZE = 100;
+
+// Compares every batch that has a `tokenId` against DrugAuth. With `repair`,
+// owner, active flag and expiry are copied from the chain into storage;
+// history differences are only reported (the event indexer backfills them).
+export async function reconcileDrugBatches(
+  chainFor: (contractAddress: string) => ReconciliationChain,
+  options: { repair?: boolean; defaultContractAddress?: string } = {},
+  storage: IStorage = defaultStorage,
+): Promise<ReconciliationReport> {
+  const report: ReconciliationReport = { checkedAt: new Date(), batchesChecked: 0, discrepancies: [], repaired: 0 };
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const batches = await storage.getDrugBatches(PAGE_SIZE, offset);
+
+    for (const batch of batches) {
+      const contractAddress = batch.contractAddress || options.defaultContractAddress;
+      if (batch.tokenId == null || !contractAddress) continue;
+
+      report.batchesChecked++;
+      const discrepancies = await compareBatch(chainFor(contractAddress), batch, storage);
+      if (options.repair) {
+        await repairBatch(batch, discrepancies, storage);
+      }
+      report.discrepancies.push(...discrepancies);
+    }
+
+    if (batches.length < PAGE_SIZE) break;
+  }
+
+  report.repaired = report.discrepancies.filter((discrepancy) => discrepancy.repaired).length;
+  return report;
+}
+
+async function compareBatch(chain: ReconciliationChain, batch: DrugBatch, storage: IStorage): Promise<Discrepancy[]> {
+  const tokenId = BigInt(batch.tokenId!);
+  const found = (field: DiscrepancyField, database: Discrepancy["database"], onChain: Discrepancy["chain"]): Discrepancy =>
+    ({ batchId: batch.batchId, tokenId: batch.tokenId!, field, database, chain: onChain, repaired: false });
+
+  let owner: string;
+  let drug: { isActive: boolean; expiryDate: bigint };
+  let history: readonly unknown[];
+  try {
+    [owner, drug, history] = await Promise.all([
+      chain.ownerOf(tokenId),
+      chain.verifyDrug(tokenId),
+      chain.getDrugHistory(tokenId),
+    ]);
+  } catch {
+    // ownerOf and verifyDrug revert for tokens that were never minted
+    return [found("token", batch.tokenId!, null)];
+  }
+
+  const discrepancies: Discrepancy[] = [];
+
+  if (owner.toLowerCase() !== batch.currentOwnerAddress.toLowerCase()) {
+    discrepancies.push(found("owner", batch.currentOwnerAddress, owner));
+  }
+
+  const active = !inactiveStatuses.includes(batch.status);
+  if (active !== drug.isActive) {
+    discrepancies.push(found("isActive", active, drug.isActive));
+  }
+
+  const expirySeconds = Math.floor(batch.expiryDate.getTime() / 1000);
+  if (BigInt(expirySeconds) !== drug.expiryDate) {
+    discrepancies.push(found("expiryDate", batch.expiryDate.toISOString(), new Date(Number(drug.expiryDate) * 1000).toISOString()));
+  }
+
+  // Only events recorded by a transaction have an entry in the contract history
+  const events = (await storage.getSupplyChainEventsByBatchId(batch.batchId))
+    .filter((event) => event.transactionHash != null || event.blockNumber != null);
+  if (events.length !== history.length) {
+    discrepancies.push(found("historyLength", events.length, history.length));
+  }
+
+  return discrepancies;
+}
+
+async function repairBatch(batch: DrugBatch, discrepancies: Discrepancy[], storage: IStorage) {
+  const updates: Partial<DrugBatch> = {};
+
+  for (const discrepancy of discrepancies) {
+    switch (discrepancy.field) {
+      case "owner": {
+        const address = discrepancy.chain as string;
+        const user = await storage.getUserByWalletAddress(address);
+        updates.currentOwnerAddress = address;
+        updates.currentOwner = user?.username ?? address;
+        break;
+      }
+      case "isActive":
+        // Reactivation has no status to return to; leave it for a person
+        if (discrepancy.chain !== false) continue;
+        updates.status = "deactivated";
+        break;
+      case "expiryDate":
+        updates.expiryDate = new Date(discrepancy.chain as string);
+        break;
+      default:
+        continue;
+    }
+
+    discrepancy.repaired = true;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await storage.updateDrugBatch(batch.id, { ...updates, updatedAt: new Date() });
+  }
+}
+
+// Reads from the contracts on RPC_URL, or null when no node is configured
+export function getReconciliationChainFactory(): ((contractAddress: string) => ReconciliationChain) | null {
+  const provider = getRpcProvider();
+  if (!provider) {
+    return null;
+  }
+  return (contractAddress) => DrugAuth__factory.connect(contractAddress, provider);
+}
+
+// Runs reconciliation every RECONCILIATION_INTERVAL_MINUTES (off when unset),
+// repairing when RECONCILIATION_AUTO_REPAIR=true
+export function startReconciliationFromEnv(log: (message: string) => void): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || "0", 10);
+  const chainFor = getReconciliationChainFactory();
+  if (!minutes || !chainFor) {
+    return null;
+  }
+
+  const run = async () => {
+    try {
+      const report = await reconcileDrugBatches(chainFor, {
+        repair: process.env.RECONCILIATION_AUTO_REPAIR === "true",
+        defaultContractAddress: process.env.CONTRACT_ADDRESS,
+      });
+      if (report.discrepancies.length > 0) {
+        log(`${report.discrepancies.length} discrepancies in ${report.batchesChecked} batches, ${report.repaired} repaired`);
+      }
+    } catch (error) {
+      log(`reconciliation failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return setInterval(run, minutes * 60 * 1000);
+}
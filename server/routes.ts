@@ -1,9 +1,37 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertDrugBatchSchema, insertSupplyChainEventSchema } from "@shared/schema";
+import { setupAuth, toPublicUser } from "./auth";
+import { setupSiwe } from "./siwe";
+import { requireAuth, requireRole, requireBatchOwner, requireBatchManufacturer, requireBatchParty, sendAuthorizationError } from "./authorization";
+import { getRpcProvider, TRANSFER_INITIATED_EVENT, TRANSFER_REJECTED_EVENT, verifyMergeTransaction, verifyRecallTransaction, verifySplitTransaction, verifyTransferTransaction } from "./blockchain";
+import { getReconciliationChainFactory, reconcileDrugBatches } from "./reconciliation";
+import { getDrugBatchesExpiringWithin, isExpired } from "./expiry";
+import { findRecallBatches, getBatchManufacturerAddress, recordRecall } from "./recall";
+import { recordDestruction } from "./destruction";
+import { formatQRPayloadMessage, issueQRPayload, verifyQRPayload } from "./qr-signing";
+import { generateSerialRange, resolveGS1Code, verifySerializedUnit } from "./serialization";
+import { anonymizeIp, recordVerificationScan, scanClientFromRequest } from "./scan-monitoring";
+import { acceptTransfer, closeTransfer, initiateTransfer } from "./transfers";
+import { t3DocumentCid } from "./dscsa";
+import { getBatchLineageTree, mergeBatches, splitBatch } from "./lineage";
+import { getOwnerInventory } from "./inventory";
+import { getBatchJourney } from "./journey";
+import { recordTelemetry } from "./cold-chain";
+import { changesIdentity, findWalletConflicts, unprovenWallets, verifiedPartnersRequired, withFacilityLocation } from "./partners";
+import { getLicenseForAddress, getLicenseInForce, getLicenseRegistryFromEnv, syncLicensesOnChain } from "./licenses";
+import { epcisDocumentSchema, exportEPCISDocument, formatEPCISXml, importEPCISDocument } from "./epcis";
+import { parseGS1 } from "@shared/gs1";
+import { canBranch, canShip, isInStock, isShipmentEventType, shipmentEventTypes, shipmentEventTypesFrom } from "@shared/supply-chain";
+import { eventLocationSchema, insertStorageConditionSchema, insertPartnerLicenseSchema, insertTradingPartnerSchema, partnerVerificationSchema, partnerVerificationStatuses, updatePartnerLicenseSchema, updateTradingPartnerSchema, insertSupplyChainEventSchema, mergeRequestSchema, recallRequestSchema, registerDrugBatchSchema, roleAssignmentSchema, serialRangeRequestSchema, signedQRPayloadSchema, splitRequestSchema, telemetryUploadSchema, transferRejectionSchema, transferStatuses, type DrugBatch, type EventLocation, type PartnerVerificationStatus, type RecallRequest, type ScanAlert, type TradingPartner, type TransactionDocument, type Transfer, type TransferStatus } from "@shared/schema";
+
+// `log` reports failures of background work the routes start, such as
+// on-chain license syncs, as the server's jobs do
+export async function registerRoutes(app: Express, log: (message: string, source?: string) => void): Promise<Server> {
+  // Session, login and account routes
+  setupAuth(app);
+  setupSiwe(app);
 
-export async function registerRoutes(app: Express): Promise<Server> {
   // Drug batch routes
   app.get("/api/drug-batches", async (req, res) => {
     try {
@@ -28,6 +56,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stock held by a wallet, totalled per product and unit
+  app.get("/api/drug-batches/inventory/:address", async (req, res) => {
+    try {
+      res.json(await getOwnerInventory(req.params.address));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Batches expiring in the next `days` (default 30), soonest first
+  app.get("/api/drug-batches/expiring", async (req, res) => {
+    try {
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > 3650) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 3650" });
+      }
+
+      const batches = await getDrugBatchesExpiringWithin(days);
+      res.json(batches);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
   app.get("/api/drug-batches/verify/:batchId", async (req, res) => {
     try {
       const { batchId } = req.params;
@@ -38,6 +90,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Drug batch not found" });
       }
 
+      await recordVerificationScan(drug, scanClientFromRequest(req));
+
       const events = await storage.getSupplyChainEventsByBatchId(decodedBatchId);
       res.json({ drug, events });
     } catch (error) {
@@ -45,6 +99,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Answers for a single pack and records the scan. The client's network stands
+  // in for where it was scanned so reused serials can be spotted; callers
+  // can't name it, or a cloner could pass every scan off as the same place.
+  app.get("/api/drug-batches/verify-unit/:serialNumber", async (req, res) => {
+    try {
+      const verification = await verifySerializedUnit(req.params.serialNumber, anonymizeIp(req.ip) || "unknown");
+      if (!verification) {
+        return res.status(404).json({ message: "Serial number not found" });
+      }
+
+      const { unit, drugBatch, previousScan, scannedElsewhere } = verification;
+      await recordVerificationScan(drugBatch, { ...scanClientFromRequest(req), serialNumber: unit.serialNumber });
+      res.json({ unit, drug: drugBatch, alreadyScanned: previousScan !== null, previousScan, scannedElsewhere });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Resolves a scanned GS1 element string or Digital Link to its batch and pack
+  app.get("/api/drug-batches/resolve-gs1", async (req, res) => {
+    try {
+      const code = req.query.code;
+      if (typeof code !== "string" || !code) {
+        return res.status(400).json({ message: "Missing code" });
+      }
+
+      let data;
+      try {
+        data = parseGS1(code);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid GS1 code" });
+      }
+
+      const resolved = await resolveGS1Code(data);
+      if ("error" in resolved) {
+        return res.status(404).json({ message: resolved.error });
+      }
+
+      res.json({
+        gs1: data,
+        batchId: resolved.drugBatch.batchId,
+        serialNumber: resolved.unit?.serialNumber,
+        expiryMatches: resolved.expiryMatches,
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // A batch's serial numbers, for printing pack labels. Only its holder,
+  // manufacturer and admins can list them, so they can't be harvested.
+  app.get("/api/drug-batches/units/:batchId", requireBatchParty, async (req, res) => {
+    try {
+      const { batchId } = req.drugBatch!;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = 50;
+      const offset = (page - 1) * limit;
+
+      const [units, total] = await Promise.all([
+        storage.getSerializedUnitsByBatchId(batchId, limit, offset),
+        storage.countSerializedUnits(batchId),
+      ]);
+      res.json({ units, total });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Generates another range of serial numbers for a batch
+  app.post("/api/drug-batches/units", requireRole("manufacturer"), requireBatchManufacturer, async (req, res) => {
+    try {
+      const parsed = serialRangeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      const serialRange = await generateSerialRange(parsed.data.batchId, parsed.data.count);
+      res.status(201).json(serialRange);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
   app.get("/api/drug-batches/track/:batchId", async (req, res) => {
     try {
       const { batchId } = req.params;
@@ -74,10 +211,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/drug-batches", async (req, res) => {
+  // Events trading partners reported for a batch through EPCIS imports, kept
+  // apart from its history
+  app.get("/api/drug-batches/imported-events/:batchId", async (req, res) => {
+    try {
+      res.json(await storage.getImportedEventsByBatchId(req.params.batchId));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/drug-batches", requireRole("manufacturer"), async (req, res) => {
     try {
-      const validatedData = insertDrugBatchSchema.parse(req.body);
-      const drugBatch = await storage.createDrugBatch(validatedData);
+      const validatedData = registerDrugBatchSchema.parse(req.body);
+      // Where the batch was made, recorded on its manufacture event
+      const location = eventLocationSchema.parse(req.body);
+      const unitCount = serialRangeRequestSchema.shape.count.optional().parse(req.body.unitCount);
+
+      // Manufacturers can only register batches into their own wallet
+      const walletAddress = req.user!.walletAddress;
+      if (!walletAddress) {
+        return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      }
+      if (validatedData.currentOwnerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        return sendAuthorizationError(res, 403, "not_batch_owner", "Batches must be registered to your own wallet", {
+          currentOwnerAddress: validatedData.currentOwnerAddress,
+          walletAddress,
+        });
+      }
+
+      // Packs in the lot, for splitting later; the serialized unit count by default
+      const drugBatch = await storage.createDrugBatch({ ...validatedData, quantity: validatedData.quantity ?? unitCount });
       
       // Create initial manufacturing event
       const manufacturingEvent = await storage.createSupplyChainEvent({
@@ -85,9 +249,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         toOwner: drugBatch.currentOwner,
         toOwnerAddress: drugBatch.currentOwnerAddress,
         eventType: "manufacture",
+        quantity: drugBatch.quantity,
+        ...location,
       });
 
-      res.status(201).json({ drugBatch, event: manufacturingEvent });
+      // Optionally serialize the batch's packs right away
+      const serialRange = unitCount ? await generateSerialRange(drugBatch.batchId, unitCount) : undefined;
+
+      res.status(201).json({ drugBatch, event: manufacturingEvent, serialRange });
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({ message: "Validation error", details: error });
@@ -96,55 +265,1488 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/drug-batches/transfer", async (req, res) => {
+  // Sends a 422 and returns false unless `address` is a wallet of a trading
+  // partner with a license in force, the API's side of DrugAuth's
+  // hasValidLicense check on recipients
+  const checkRecipientLicensed = async (res: Response, address: string): Promise<boolean> => {
+    if (await getLicenseForAddress(address)) {
+      return true;
+    }
+    const partner = await storage.getTradingPartnerByWalletAddress(address);
+    res.status(422).json({
+      message: partner ? "Trading partner has no license in force" : "Recipient is not a licensed trading partner",
+      code: "partner_unlicensed",
+      details: { partnerId: partner?.id ?? null, address },
+    });
+    return false;
+  };
+
+  // Who a shipment goes to, or sends the error response and returns null.
+  // Every recipient needs a license in force, except a patient a sale
+  // dispenses to. A `partnerId` must name a verified partner; a bare address
+  // of a verified partner is shipped to under its legal name. With
+  // REQUIRE_VERIFIED_PARTNERS every recipient but a patient must be one.
+  const resolveRecipient = async (
+    req: Request,
+    res: Response,
+    location: EventLocation,
+  ): Promise<{ newOwner: string; newOwnerAddress: string; partnerId: string | null; location: EventLocation } | null> => {
+    const { partnerId, newOwner, newOwnerAddress, eventType } = req.body;
+    if (eventType === "sell" && !partnerId) {
+      return { newOwner, newOwnerAddress, partnerId: null, location };
+    }
+
+    const partner = partnerId
+      ? await storage.getTradingPartner(partnerId)
+      : await storage.getTradingPartnerByWalletAddress(newOwnerAddress);
+    if (partnerId && !partner) {
+      res.status(404).json({ message: "Trading partner not found" });
+      return null;
+    }
+
+    if (!partner || partner.verificationStatus !== "verified") {
+      if (partnerId || verifiedPartnersRequired()) {
+        res.status(422).json({
+          message: "Recipient is not a verified trading partner",
+          code: "partner_not_verified",
+          details: { partnerId: partner?.id ?? null, verificationStatus: partner?.verificationStatus ?? null },
+        });
+        return null;
+      }
+      if (!(await checkRecipientLicensed(res, newOwnerAddress))) {
+        return null;
+      }
+      return { newOwner, newOwnerAddress, partnerId: null, location };
+    }
+
+    const address = newOwnerAddress ?? partner.walletAddresses[0];
+    if (!partner.walletAddresses.includes(address.toLowerCase())) {
+      res.status(400).json({ message: "Address is not registered to this trading partner" });
+      return null;
+    }
+    if (!(await checkRecipientLicensed(res, address))) {
+      return null;
+    }
+
+    return {
+      newOwner: partner.legalName,
+      newOwnerAddress: address,
+      partnerId: partner.id,
+      location: withFacilityLocation(partner, location),
+    };
+  };
+
+  // Ships a batch to a new owner. Ownership only changes once the recipient
+  // accepts it through /api/drug-batches/transfers/:id/accept. The event type
+  // must be one the batch's status allows (shared/supply-chain.ts). Shipping less
+  // than the whole batch splits `quantity` off into the sub-lot `lotBatchId`
+  // and ships that. The location fields name the facility it is going to.
+  // The recipient is a registered trading partner (`partnerId`) or a name and
+  // address.
+  app.post("/api/drug-batches/transfer", requireBatchOwner, async (req, res) => {
     try {
-      const { batchId, newOwner, newOwnerAddress, eventType, transactionHash } = req.body;
+      const { batchId, partnerId, eventType, transactionHash, quantity, lotBatchId } = req.body;
       
-      if (!batchId || !newOwner || !newOwnerAddress || !eventType) {
+      if (!batchId || !eventType || (!partnerId && (!req.body.newOwner || !req.body.newOwnerAddress))) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+      if (!isShipmentEventType(eventType)) {
+        return res.status(400).json({ message: `eventType must be one of ${shipmentEventTypes.join(", ")}` });
+      }
+      if (quantity !== undefined && (!Number.isInteger(quantity) || quantity <= 0)) {
+        return res.status(400).json({ message: "Quantity must be a positive whole number" });
+      }
+      const location = eventLocationSchema.safeParse(req.body);
+      if (!location.success) {
+        return res.status(400).json({ message: "Validation error", details: location.error });
+      }
+      const recipient = await resolveRecipient(req, res, location.data);
+      if (!recipient) return;
+      const { newOwner, newOwnerAddress } = recipient;
 
-      // Get current drug batch
-      const currentDrug = await storage.getDrugBatchByBatchId(batchId);
-      if (!currentDrug) {
-        return res.status(404).json({ message: "Drug batch not found" });
+      // Loaded and ownership-checked by requireBatchOwner
+      const currentDrug = req.drugBatch!;
+      if (currentDrug.status === "recalled") {
+        return res.status(409).json({ message: "Recalled batches cannot be transferred" });
+      }
+      if (currentDrug.status === "split" || currentDrug.status === "merged") {
+        return res.status(409).json({ message: `Batch has been ${currentDrug.status} into other lots` });
+      }
+      // The contract rejects these too; checked here so the expiry job's lag
+      // can't let one through
+      if (currentDrug.status === "expired" || isExpired(currentDrug)) {
+        return res.status(409).json({ message: "Drug has expired" });
+      }
+      if (newOwnerAddress.toLowerCase() === currentDrug.currentOwnerAddress.toLowerCase()) {
+        return res.status(400).json({ message: "Cannot transfer to current owner" });
       }
 
-      // Update drug batch ownership
-      const updatedDrug = await storage.updateDrugBatch(currentDrug.id, {
-        currentOwner: newOwner,
-        currentOwnerAddress: newOwnerAddress,
-        status: eventType === "deliver" ? "delivered" : "in_transit",
-        updatedAt: new Date(),
+      const pending = await storage.getPendingTransferByBatchId(batchId);
+      if (pending) {
+        return res.status(409).json({
+          message: "A transfer of this batch is already pending",
+          details: { transferId: pending.id, deadline: pending.deadline },
+        });
+      }
+      if (!canShip(currentDrug.status, eventType)) {
+        return res.status(409).json({
+          message: `A ${currentDrug.status} batch cannot be shipped as ${eventType}`,
+          details: { status: currentDrug.status, eventType, allowed: shipmentEventTypesFrom(currentDrug.status) },
+        });
+      }
+      // As in DrugAuth, only a licensed holder can dispense to a patient
+      if (eventType === "sell" && !(await getLicenseForAddress(currentDrug.currentOwnerAddress))) {
+        return res.status(422).json({
+          message: "Seller has no license in force",
+          code: "seller_unlicensed",
+          details: { address: currentDrug.currentOwnerAddress },
+        });
+      }
+
+      const partial = quantity !== undefined && quantity !== currentDrug.quantity;
+      if (partial) {
+        if (currentDrug.quantity == null || quantity > currentDrug.quantity) {
+          return res.status(409).json({
+            message: "Not enough quantity",
+            details: { requested: quantity, available: currentDrug.quantity },
+          });
+        }
+        if (!lotBatchId) {
+          return res.status(400).json({ message: "Missing lotBatchId for the shipped part of the batch" });
+        }
+        if (await storage.getDrugBatchByBatchId(lotBatchId)) {
+          return res.status(409).json({ message: "Batch ID already exists", details: { batchId: lotBatchId } });
+        }
+      }
+
+      // With an RPC provider configured, the shipment must already be on-chain:
+      // for part of a batch, the sub-lot minted and shipped in one transaction
+      let lotTokenId: number | undefined;
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
+
+        const contractAddress = currentDrug.contractAddress || process.env.CONTRACT_ADDRESS;
+        if (currentDrug.tokenId == null || !contractAddress) {
+          return res.status(422).json({
+            message: "Drug batch is not registered on-chain",
+            code: "transfer_not_verified",
+          });
+        }
+
+        if (partial) {
+          const split = await verifySplitTransaction(provider, {
+            transactionHash,
+            contractAddress,
+            parentTokenId: currentDrug.tokenId,
+            lots: [{ batchId: lotBatchId, quantity }],
+          });
+          if (!split.verified) {
+            return res.status(422).json({
+              message: split.reason,
+              code: "transfer_not_verified",
+              details: { transactionHash },
+            });
+          }
+          [lotTokenId] = split.tokenIds;
+          blockNumber = split.blockNumber;
+        }
+
+        const verification = await verifyTransferTransaction(provider, {
+          transactionHash,
+          contractAddress,
+          tokenId: lotTokenId ?? currentDrug.tokenId,
+          from: currentDrug.currentOwnerAddress,
+          to: newOwnerAddress,
+          event: TRANSFER_INITIATED_EVENT,
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "transfer_not_verified",
+            details: { transactionHash },
+          });
+        }
+        blockNumber = verification.blockNumber;
+      }
+
+      if (!partial) {
+        const shipped = await initiateTransfer(currentDrug, {
+          toOwner: newOwner,
+          toOwnerAddress: newOwnerAddress,
+          eventType,
+          partnerId: recipient.partnerId,
+          location: recipient.location,
+          transactionHash,
+          blockNumber,
+        });
+        // Another request shipped the batch since the check above
+        if (!shipped) {
+          return res.status(409).json({ message: "A transfer of this batch is already pending" });
+        }
+        return res.status(201).json(shipped);
+      }
+
+      // The sub-lot is only split off if it can be shipped too. It was just
+      // created, so nothing else can be shipping it.
+      const { split, shipped } = await storage.transaction(async (storage) => {
+        const split = await splitBatch(currentDrug, [{ batchId: lotBatchId, quantity, tokenId: lotTokenId }], { transactionHash, blockNumber }, storage);
+        const shipped = await initiateTransfer(split.lots[0], {
+          toOwner: newOwner,
+          toOwnerAddress: newOwnerAddress,
+          eventType,
+          partnerId: recipient.partnerId,
+          location: recipient.location,
+          transactionHash,
+          blockNumber,
+        }, storage);
+        return { split, shipped: shipped! };
+      });
+      res.status(201).json({ ...shipped, sourceBatch: split.drugBatch });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Transfers to (direction=incoming, the default) or from the signed-in
+  // user's wallet, optionally filtered by status
+  app.get("/api/drug-batches/transfers", requireAuth, async (req, res) => {
+    try {
+      const walletAddress = req.user!.walletAddress;
+      if (!walletAddress) {
+        return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      }
+
+      const direction = req.query.direction ?? "incoming";
+      if (direction !== "incoming" && direction !== "outgoing") {
+        return res.status(400).json({ message: "direction must be incoming or outgoing" });
+      }
+      const status = req.query.status as string | undefined;
+      if (status && !(transferStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `status must be one of ${transferStatuses.join(", ")}` });
+      }
+
+      res.json(await storage.getTransfersByAddress(walletAddress, direction, status as TransferStatus | undefined));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Loads the pending transfer `req.params.id` and its batch, or sends the
+  // error response and returns null. Only the recipient's wallet may accept
+  // or reject a shipment.
+  const loadIncomingTransfer = async (req: Request, res: Response): Promise<{ transfer: Transfer; batch: DrugBatch } | null> => {
+    const transfer = await storage.getTransferById(req.params.id);
+    if (!transfer) {
+      res.status(404).json({ message: "Transfer not found" });
+      return null;
+    }
+
+    const walletAddress = req.user!.walletAddress;
+    if (!walletAddress) {
+      sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      return null;
+    }
+    if (transfer.toOwnerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+      sendAuthorizationError(res, 403, "not_transfer_recipient", "Only the recipient can respond to this transfer", {
+        transferId: transfer.id,
       });
+      return null;
+    }
+
+    if (transfer.status !== "pending") {
+      res.status(409).json({ message: `Transfer is already ${transfer.status}` });
+      return null;
+    }
+
+    const batch = await storage.getDrugBatchByBatchId(transfer.batchId);
+    if (!batch) {
+      res.status(404).json({ message: "Drug batch not found" });
+      return null;
+    }
+
+    return { transfer, batch };
+  };
+
+  // Contract address and token of a batch with an RPC provider configured,
+  // or sends the 422 and returns null when it is not on-chain
+  const onChainToken = (batch: DrugBatch, res: Response): { contractAddress: string; tokenId: number } | null => {
+    const contractAddress = batch.contractAddress || process.env.CONTRACT_ADDRESS;
+    if (batch.tokenId == null || !contractAddress) {
+      res.status(422).json({ message: "Drug batch is not registered on-chain", code: "transfer_not_verified" });
+      return null;
+    }
+    return { contractAddress, tokenId: batch.tokenId };
+  };
+
+  app.post("/api/drug-batches/transfers/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const incoming = await loadIncomingTransfer(req, res);
+      if (!incoming) return;
+      const { transfer, batch } = incoming;
+      const { transactionHash } = req.body;
+
+      if (transfer.deadline <= new Date()) {
+        return res.status(409).json({ message: "Transfer has timed out" });
+      }
+      if (batch.status === "recalled") {
+        return res.status(409).json({ message: "Recalled batches cannot be transferred" });
+      }
+      if (batch.status === "expired" || isExpired(batch)) {
+        return res.status(409).json({ message: "Drug has expired" });
+      }
+      // The recipient's license may have lapsed while the shipment was on its
+      // way; patients buying from a pharmacy need none
+      if (transfer.eventType !== "sell" && !(await checkRecipientLicensed(res, transfer.toOwnerAddress))) return;
+
+      // With an RPC provider configured, the recipient must have accepted on-chain
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
+        const token = onChainToken(batch, res);
+        if (!token) return;
+
+        const verification = await verifyTransferTransaction(provider, {
+          transactionHash,
+          ...token,
+          from: transfer.fromOwnerAddress,
+          to: transfer.toOwnerAddress,
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "transfer_not_verified",
+            details: { transactionHash },
+          });
+        }
+        blockNumber = verification.blockNumber;
+      }
+
+      const accepted = await acceptTransfer(transfer, batch, { transactionHash, blockNumber });
+      if (!accepted) {
+        return res.status(409).json({ message: "Transfer is no longer pending" });
+      }
+      res.json(accepted);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/drug-batches/transfers/:id/reject", requireAuth, async (req, res) => {
+    try {
+      const parsed = transferRejectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      const { reason, transactionHash } = parsed.data;
+
+      const incoming = await loadIncomingTransfer(req, res);
+      if (!incoming) return;
+      const { transfer, batch } = incoming;
+
+      // With an RPC provider configured, the recipient must have rejected on-chain
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
+        const token = onChainToken(batch, res);
+        if (!token) return;
+
+        const verification = await verifyTransferTransaction(provider, {
+          transactionHash,
+          ...token,
+          from: transfer.fromOwnerAddress,
+          to: transfer.toOwnerAddress,
+          event: TRANSFER_REJECTED_EVENT,
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "transfer_not_verified",
+            details: { transactionHash },
+          });
+        }
+        blockNumber = verification.blockNumber;
+      }
+
+      const rejected = await closeTransfer(transfer, batch, { status: "rejected", reason, transactionHash, blockNumber });
+      if (!rejected) {
+        return res.status(409).json({ message: "Transfer is no longer pending" });
+      }
+      res.json(rejected);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Sends a 409 and returns false unless `batch` can be split or merged: it
+  // must be active, unexpired, not being shipped and have a tracked quantity
+  const checkLotAvailable = (batch: DrugBatch, res: Response): boolean => {
+    let message: string | undefined;
+    if (batch.status === "recalled") {
+      message = `${batch.batchId} has been recalled`;
+    } else if (batch.status === "expired" || isExpired(batch)) {
+      message = `${batch.batchId} has expired`;
+    } else if (batch.status === "in_transit") {
+      message = `A transfer of ${batch.batchId} is pending`;
+    } else if (!isInStock(batch.status)) {
+      message = `${batch.batchId} is no longer active`;
+    } else if (batch.quantity == null) {
+      message = `${batch.batchId} has no recorded quantity`;
+    }
+
+    if (message) {
+      res.status(409).json({ message, details: { batchId: batch.batchId } });
+      return false;
+    }
+    return true;
+  };
+
+  // Splits sub-lots off a batch the signed-in wallet holds, e.g. to ship one
+  // manufacturer batch to many pharmacies
+  app.post("/api/drug-batches/split", requireBatchOwner, async (req, res) => {
+    try {
+      const parsed = splitRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      const { lots, transactionHash } = parsed.data;
+
+      // Loaded and ownership-checked by requireBatchOwner
+      const parent = req.drugBatch!;
+      if (!checkLotAvailable(parent, res)) return;
+
+      const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      if (total > parent.quantity!) {
+        return res.status(409).json({
+          message: "Not enough quantity",
+          details: { requested: total, available: parent.quantity },
+        });
+      }
+
+      const batchIds = lots.map((lot) => lot.batchId);
+      if (new Set(batchIds).size !== batchIds.length || batchIds.includes(parent.batchId)) {
+        return res.status(400).json({ message: "Sub-lot batch IDs must be unique" });
+      }
+      for (const batchId of batchIds) {
+        if (await storage.getDrugBatchByBatchId(batchId)) {
+          return res.status(409).json({ message: "Batch ID already exists", details: { batchId } });
+        }
+      }
+
+      // With an RPC provider configured, the sub-lots must already be minted
+      let tokenIds = lots.map((lot) => lot.tokenId);
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
+
+        const contractAddress = parent.contractAddress || process.env.CONTRACT_ADDRESS;
+        if (parent.tokenId == null || !contractAddress) {
+          return res.status(422).json({ message: "Drug batch is not registered on-chain", code: "split_not_verified" });
+        }
+
+        const verification = await verifySplitTransaction(provider, {
+          transactionHash,
+          contractAddress,
+          parentTokenId: parent.tokenId,
+          lots,
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "split_not_verified",
+            details: { transactionHash },
+          });
+        }
+        tokenIds = verification.tokenIds;
+        blockNumber = verification.blockNumber;
+      }
+
+      const split = await splitBatch(
+        parent,
+        lots.map((lot, i) => ({ batchId: lot.batchId, quantity: lot.quantity, tokenId: tokenIds[i] })),
+        { transactionHash, blockNumber },
+      );
+      res.status(201).json(split);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Merges lots of the same drug and manufacturer held by the signed-in
+  // wallet into a new lot
+  app.post("/api/drug-batches/merge", requireAuth, async (req, res) => {
+    try {
+      const parsed = mergeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      const { batchIds, newBatchId, transactionHash } = parsed.data;
+
+      const walletAddress = req.user!.walletAddress;
+      if (!walletAddress) {
+        return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      }
+      if (new Set(batchIds).size !== batchIds.length) {
+        return res.status(400).json({ message: "A lot cannot be merged with itself" });
+      }
+
+      const sources: DrugBatch[] = [];
+      for (const batchId of batchIds) {
+        const batch = await storage.getDrugBatchByBatchId(batchId);
+        if (!batch) {
+          return res.status(404).json({ message: "Drug batch not found", details: { batchId } });
+        }
+        if (batch.currentOwnerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+          return sendAuthorizationError(res, 403, "not_batch_owner", "Only the current owner can merge this batch", {
+            batchId,
+            currentOwnerAddress: batch.currentOwnerAddress,
+          });
+        }
+        if (!checkLotAvailable(batch, res)) return;
+        sources.push(batch);
+      }
+
+      const manufacturerAddress = (await getBatchManufacturerAddress(sources[0]))?.toLowerCase();
+      for (const batch of sources.slice(1)) {
+        const sameProduct = batch.drugName === sources[0].drugName && batch.strength === sources[0].strength &&
+          batch.dosageForm === sources[0].dosageForm && batch.unit === sources[0].unit;
+        if (!sameProduct || (await getBatchManufacturerAddress(batch))?.toLowerCase() !== manufacturerAddress) {
+          return res.status(409).json({
+            message: "Only lots of the same product, unit and manufacturer can be merged",
+            details: { batchId: batch.batchId },
+          });
+        }
+      }
+
+      if (await storage.getDrugBatchByBatchId(newBatchId)) {
+        return res.status(409).json({ message: "Batch ID already exists", details: { batchId: newBatchId } });
+      }
+
+      // With an RPC provider configured, the merged lot must already be minted
+      let tokenId = parsed.data.tokenId;
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
 
-      // Create transfer event
-      const transferEvent = await storage.createSupplyChainEvent({
+        const contractAddress = sources[0].contractAddress || process.env.CONTRACT_ADDRESS;
+        const offChain = sources.filter(
+          (batch) => batch.tokenId == null || (batch.contractAddress || process.env.CONTRACT_ADDRESS) !== contractAddress,
+        );
+        if (!contractAddress || offChain.length > 0) {
+          return res.status(422).json({
+            message: "Drug batch is not registered on-chain",
+            code: "merge_not_verified",
+            details: { batchIds: offChain.map((batch) => batch.batchId) },
+          });
+        }
+
+        const verification = await verifyMergeTransaction(provider, {
+          transactionHash,
+          contractAddress,
+          sourceTokenIds: sources.map((batch) => batch.tokenId!),
+          batchId: newBatchId,
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "merge_not_verified",
+            details: { transactionHash },
+          });
+        }
+        tokenId = verification.tokenId;
+        blockNumber = verification.blockNumber;
+      }
+
+      const merged = await mergeBatches(sources, { batchId: newBatchId, tokenId }, { transactionHash, blockNumber });
+      res.status(201).json(merged);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // The split/merge lineage around a batch: its direct parents and children
+  // and the full tree from the original lots down
+  app.get("/api/drug-batches/lineage/:batchId", async (req, res) => {
+    try {
+      const batchId = decodeURIComponent(req.params.batchId);
+      const batch = await storage.getDrugBatchByBatchId(batchId);
+      if (!batch) {
+        return res.status(404).json({ message: "Drug batch not found" });
+      }
+
+      res.json({
         batchId,
-        fromOwner: currentDrug.currentOwner,
-        toOwner: newOwner,
-        fromOwnerAddress: currentDrug.currentOwnerAddress,
-        toOwnerAddress: newOwnerAddress,
-        eventType,
-        transactionHash,
+        parents: await storage.getBatchLineageByChild(batchId),
+        children: await storage.getBatchLineageByParent(batchId),
+        tree: await getBatchLineageTree(batchId),
       });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
 
-      res.json({ drugBatch: updatedDrug, event: transferEvent });
+  // The facilities a batch passed through and the time between them, from
+  // the events that recorded a location
+  app.get("/api/drug-batches/journey/:batchId", async (req, res) => {
+    try {
+      const batchId = decodeURIComponent(req.params.batchId);
+      if (!(await storage.getDrugBatchByBatchId(batchId))) {
+        return res.status(404).json({ message: "Drug batch not found" });
+      }
+
+      res.json({ batchId, ...(await getBatchJourney(batchId)) });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
-  // Dashboard stats
-  app.get("/api/dashboard/stats", async (req, res) => {
+  // Data-logger readings taken with a batch. Only its holder and the
+  // recipient of its pending shipment may upload them.
+  app.post("/api/drug-batches/telemetry", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const walletAddress = req.user!.walletAddress?.toLowerCase();
+      if (!walletAddress) {
+        return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      }
+
+      const parsed = telemetryUploadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      const { batchId, transferId } = parsed.data;
+
+      const batch = await storage.getDrugBatchByBatchId(batchId);
+      if (!batch) {
+        return res.status(404).json({ message: "Drug batch not found" });
+      }
+
+      const pending = await storage.getPendingTransferByBatchId(batchId);
+      const parties = [batch.currentOwnerAddress, pending?.toOwnerAddress].filter((address): address is string => !!address);
+      if (!parties.some((address) => address.toLowerCase() === walletAddress)) {
+        return sendAuthorizationError(res, 403, "not_shipment_party", "Only the holder and recipient of a batch can upload its telemetry", {
+          batchId,
+        });
+      }
+
+      if (transferId) {
+        const transfer = await storage.getTransferById(transferId);
+        if (!transfer) {
+          return res.status(404).json({ message: "Transfer not found" });
+        }
+        if (transfer.batchId !== batchId) {
+          return res.status(400).json({ message: "Transfer is not a shipment of this batch" });
+        }
+      }
+
+      res.status(201).json(await recordTelemetry(batch, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // A batch's storage conditions, its readings recorded since `since`, oldest
+  // first, and its excursions, most recent first
+  app.get("/api/drug-batches/telemetry/:batchId", async (req, res) => {
+    try {
+      const batchId = decodeURIComponent(req.params.batchId);
+      const batch = await storage.getDrugBatchByBatchId(batchId);
+      if (!batch) {
+        return res.status(404).json({ message: "Drug batch not found" });
+      }
+
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "since must be a date" });
+      }
+
+      res.json({
+        storageCondition: (await storage.getStorageCondition(batch.drugName)) ?? null,
+        readings: await storage.getTelemetryReadingsByBatchId(batchId, since),
+        excursions: await storage.getExcursionsByBatchId(batchId),
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Allowed temperature and humidity ranges, by drug name
+  app.get("/api/storage-conditions", async (req, res) => {
+    try {
+      res.json(await storage.getStorageConditions());
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Admins can set any drug's storage conditions; manufacturers only those of
+  // drugs they registered a batch of
+  app.put("/api/storage-conditions", requireRole("admin", "manufacturer"), async (req, res) => {
+    try {
+      const parsed = insertStorageConditionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      if (req.user!.role !== "admin") {
+        const walletAddress = req.user!.walletAddress?.toLowerCase();
+        if (!walletAddress) {
+          return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+        }
+
+        let registered = false;
+        for (const batch of await storage.getDrugBatchesByDrugName(parsed.data.drugName)) {
+          if ((await getBatchManufacturerAddress(batch))?.toLowerCase() === walletAddress) {
+            registered = true;
+            break;
+          }
+        }
+        if (!registered) {
+          return sendAuthorizationError(res, 403, "not_drug_manufacturer", "Only a manufacturer of this drug can set its storage conditions", {
+            drugName: parsed.data.drugName,
+          });
+        }
+      }
+
+      res.json(await storage.saveStorageCondition(parsed.data));
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
+  // Loads the T3 document of the transfer `req.params.eventId`, or sends the
+  // error response and returns null. Only the seller, the buyer and admins
+  // may see it.
+  const loadT3Document = async (req: Request, res: Response): Promise<TransactionDocument | null> => {
+    const t3Document = await storage.getTransactionDocumentByEventId(req.params.eventId);
+    if (!t3Document) {
+      res.status(404).json({ message: "Transaction document not found" });
+      return null;
+    }
+
+    const { seller, buyer } = t3Document.document.transactionInformation;
+    const walletAddress = req.user!.walletAddress?.toLowerCase();
+    const isParty = !!walletAddress &&
+      [seller.walletAddress, buyer.walletAddress].some((address) => address.toLowerCase() === walletAddress);
+    if (req.user!.role !== "admin" && !isParty) {
+      sendAuthorizationError(res, 403, "not_transaction_party", "Only the seller and buyer can see this document", {
+        eventId: t3Document.eventId,
+      });
+      return null;
+    }
+
+    return t3Document;
+  };
+
+  app.get("/api/drug-batches/t3/:eventId", requireAuth, async (req, res) => {
+    try {
+      const t3Document = await loadT3Document(req, res);
+      if (!t3Document) return;
+
+      res.attachment(`T3-${t3Document.batchId}-${t3Document.eventId}.json`);
+      res.json(t3Document.document);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Records the CID the client pinned the document under, once it is shown to
+  // be the document's own
+  app.post("/api/drug-batches/t3/:eventId/ipfs", requireAuth, async (req, res) => {
+    try {
+      const { ipfsHash } = req.body;
+      if (typeof ipfsHash !== "string" || ipfsHash.length === 0 || ipfsHash.length > 128) {
+        return res.status(400).json({ message: "Missing ipfsHash" });
+      }
+
+      const t3Document = await loadT3Document(req, res);
+      if (!t3Document) return;
+
+      const expected = t3DocumentCid(t3Document.document);
+      if (ipfsHash !== expected) {
+        return res.status(422).json({
+          message: "ipfsHash is not the CID of this document",
+          code: "ipfs_hash_mismatch",
+          details: { ipfsHash, expected },
+        });
+      }
+
+      const updated = await storage.updateTransactionDocument(t3Document.id, { ipfsHash });
+      res.json({ eventId: updated.eventId, ipfsHash: updated.ipfsHash });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Validates a recall request and loads the batches it covers, or sends the
+  // error response and returns null. Only the wallet that registered the
+  // batch may recall it, wherever it is in the supply chain.
+  const loadRecallBatches = async (req: Request, res: Response): Promise<{ request: RecallRequest; batches: DrugBatch[] } | null> => {
+    const parsed = recallRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Validation error", details: parsed.error });
+      return null;
+    }
+    const request = parsed.data;
+
+    const batch = await storage.getDrugBatchByBatchId(request.batchId);
+    if (!batch) {
+      res.status(404).json({ message: "Drug batch not found" });
+      return null;
+    }
+
+    const walletAddress = req.user!.walletAddress;
+    if (!walletAddress) {
+      sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+      return null;
+    }
+
+    const manufacturerAddress = await getBatchManufacturerAddress(batch);
+    if (manufacturerAddress?.toLowerCase() !== walletAddress.toLowerCase()) {
+      sendAuthorizationError(res, 403, "not_batch_manufacturer", "Only the manufacturer can recall this batch", {
+        batchId: batch.batchId,
+      });
+      return null;
+    }
+
+    const batches = await findRecallBatches(batch, request, walletAddress);
+    if (batches.length === 0) {
+      res.status(409).json({ message: "No unrecalled batches match this recall" });
+      return null;
+    }
+
+    return { request, batches };
+  };
+
+  // Lists the batches a recall would cover, so the client can recall their
+  // tokens on-chain before submitting it
+  app.post("/api/drug-batches/recall/preview", requireRole("manufacturer"), async (req, res) => {
+    try {
+      const recall = await loadRecallBatches(req, res);
+      if (!recall) return;
+
+      res.json({ batches: recall.batches });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/drug-batches/recall", requireRole("manufacturer"), async (req, res) => {
+    try {
+      const recall = await loadRecallBatches(req, res);
+      if (!recall) return;
+      const { request, batches } = recall;
+
+      // With an RPC provider configured, every token must be recalled on-chain
+      let blockNumber: number | undefined;
+      const provider = getRpcProvider();
+      if (provider) {
+        if (!request.transactionHash) {
+          return res.status(400).json({ message: "Missing transactionHash" });
+        }
+
+        const contractAddress = batches[0].contractAddress || process.env.CONTRACT_ADDRESS;
+        const offChain = batches.filter(
+          (batch) => batch.tokenId == null || (batch.contractAddress || process.env.CONTRACT_ADDRESS) !== contractAddress,
+        );
+        if (!contractAddress || offChain.length > 0) {
+          return res.status(422).json({
+            message: "Drug batch is not registered on-chain",
+            code: "recall_not_verified",
+            details: { batchIds: offChain.map((batch) => batch.batchId) },
+          });
+        }
+
+        const verification = await verifyRecallTransaction(provider, {
+          transactionHash: request.transactionHash,
+          contractAddress,
+          tokenIds: batches.map((batch) => batch.tokenId!),
+        });
+        if (!verification.verified) {
+          return res.status(422).json({
+            message: verification.reason,
+            code: "recall_not_verified",
+            details: { transactionHash: request.transactionHash },
+          });
+        }
+        blockNumber = verification.blockNumber;
+      }
+
+      const recalled = [];
+      for (const batch of batches) {
+        recalled.push(await recordRecall(batch, {
+          reason: request.reason,
+          transactionHash: request.transactionHash,
+          blockNumber,
+        }));
+      }
+
+      res.json({
+        drugBatches: recalled.map((result) => result.drugBatch),
+        events: recalled.map((result) => result.event),
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Records that the signed-in holder has destroyed a batch, e.g. recalled or
+  // expired stock. Batches being shipped or already dispensed can't be.
+  app.post("/api/drug-batches/destroy", requireBatchOwner, async (req, res) => {
+    try {
+      // Loaded and ownership-checked by requireBatchOwner
+      const batch = req.drugBatch!;
+      if (!canBranch(batch.status, "destroy")) {
+        return res.status(409).json({
+          message: `A ${batch.status} batch cannot be destroyed`,
+          details: { batchId: batch.batchId, status: batch.status },
+        });
+      }
+
+      res.json(await recordDestruction(batch));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Issues a label payload for the batch manufacturer's wallet to sign. The
+  // signed payload is what a tamper-evident QR code carries.
+  app.post("/api/drug-batches/qr-payload", requireRole("manufacturer"), requireBatchManufacturer, async (req, res) => {
+    try {
+      const payload = await issueQRPayload(req.drugBatch!, req.user!.walletAddress!);
+      res.json({ payload, message: formatQRPayloadMessage(payload) });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Checks a signed label and, when its serial is a pack of the batch, records
+  // the scan as the pack lookup does
+  app.post("/api/drug-batches/qr-payload/verify", async (req, res) => {
+    try {
+      const parsed = signedQRPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      const { status, reason, drugBatch, unit } = await verifyQRPayload(parsed.data, anonymizeIp(req.ip) || "unknown");
+      if (!unit) {
+        return res.json({ status, reason, drug: drugBatch });
+      }
+
+      await recordVerificationScan(unit.drugBatch, { ...scanClientFromRequest(req), serialNumber: unit.unit.serialNumber });
+      res.json({
+        status,
+        reason,
+        drug: drugBatch,
+        unit: unit.unit,
+        alreadyScanned: unit.previousScan !== null,
+        previousScan: unit.previousScan,
+        scannedElsewhere: unit.scannedElsewhere,
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Alerts raised by the scan anomaly rules. Manufacturers see alerts for the
+  // batches they registered; admins see all of them.
+  const canSeeScanAlert = (req: Request, alert: ScanAlert) => {
+    if (req.user!.role === "admin") return true;
+
+    const walletAddress = req.user!.walletAddress?.toLowerCase();
+    return !!walletAddress && alert.manufacturerAddress?.toLowerCase() === walletAddress;
+  };
+
+  app.get("/api/scan-alerts", requireRole("admin", "manufacturer"), async (req, res) => {
+    try {
+      const includeResolved = req.query.includeResolved === "true";
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = 50;
+
+      // A manufacturer without a wallet has registered no batches
+      const manufacturerAddress = req.user!.role === "admin" ? undefined : req.user!.walletAddress;
+      if (manufacturerAddress === null) {
+        return res.json([]);
+      }
+      res.json(await storage.getScanAlerts(includeResolved, limit, (page - 1) * limit, manufacturerAddress));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/scan-alerts/:id/resolve", requireRole("admin", "manufacturer"), async (req, res) => {
+    try {
+      const alert = await storage.getScanAlertById(req.params.id);
+      if (!alert || !canSeeScanAlert(req, alert)) {
+        return res.status(404).json({ message: "Scan alert not found" });
+      }
+      if (alert.resolvedAt) {
+        return res.status(409).json({ message: "Scan alert is already resolved" });
+      }
+
+      res.json(await storage.updateScanAlert(alert.id, { resolvedAt: new Date() }));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Brings the on-chain licenses of `addresses` in line with their partners'
+  // licenses when a license issuer key is configured. A failed sync is left
+  // for the license job to retry.
+  const syncLicenses = async (addresses: string[]) => {
+    const registry = getLicenseRegistryFromEnv();
+    if (!registry) return;
+    try {
+      await syncLicensesOnChain(addresses, registry);
+    } catch (error) {
+      log(`on-chain license sync failed: ${error instanceof Error ? error.message : error}`, "licenses");
+    }
+  };
+
+  // Trading partner registry. Anyone signed in can list and register
+  // partners; only admins verify them, and a partner's creator changing who it
+  // is or its licenses sends it back for verification. `licensed=true` lists
+  // only partners with a license in force.
+  app.get("/api/partners", requireAuth, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !partnerVerificationStatuses.includes(status as PartnerVerificationStatus)) {
+        return res.status(400).json({ message: `status must be one of ${partnerVerificationStatuses.join(", ")}` });
+      }
+
+      const partners = await storage.getTradingPartners({
+        verificationStatus: status as PartnerVerificationStatus | undefined,
+        role: req.query.role as string | undefined,
+      });
+      if (req.query.licensed !== "true") {
+        return res.json(partners);
+      }
+
+      const licensed: TradingPartner[] = [];
+      for (const partner of partners) {
+        if (await getLicenseInForce(partner.id)) {
+          licensed.push(partner);
+        }
+      }
+      res.json(licensed);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.get("/api/partners/:id", requireAuth, async (req, res) => {
+    try {
+      const partner = await storage.getTradingPartner(req.params.id);
+      if (!partner) {
+        return res.status(404).json({ message: "Trading partner not found" });
+      }
+      res.json(partner);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Checks that a partner's GLN and wallet addresses aren't another partner's,
+  // or sends the 409 and returns false
+  const checkPartnerUniqueness = async (
+    res: Response,
+    fields: { gln?: string | null; walletAddresses?: string[] },
+    partnerId: string | null,
+  ): Promise<boolean> => {
+    if (fields.gln && (await storage.getTradingPartners({ gln: fields.gln })).some((partner) => partner.id !== partnerId)) {
+      res.status(409).json({ message: "GLN is already registered", details: { gln: fields.gln } });
+      return false;
+    }
+
+    const conflicts = await findWalletConflicts(fields.walletAddresses ?? [], partnerId);
+    if (conflicts.length > 0) {
+      res.status(409).json({ message: "Wallet address is registered to another partner", details: { walletAddresses: conflicts } });
+      return false;
+    }
+    return true;
+  };
+
+  // Checks that a non-admin only registers wallets they have signed in with,
+  // or sends the 403 and returns false, so nobody can claim another holder's
+  // wallet and its licenses
+  const checkWalletsProven = (
+    req: Request,
+    res: Response,
+    walletAddresses: string[] | undefined,
+    partner?: TradingPartner,
+  ): boolean => {
+    const unproven = req.user!.role === "admin" ? [] : unprovenWallets(walletAddresses ?? [], req.user!, partner);
+    if (unproven.length > 0) {
+      sendAuthorizationError(res, 403, "not_wallet_holder", "Only wallets linked to your account can be registered", {
+        walletAddresses: unproven,
+      });
+      return false;
+    }
+    return true;
+  };
+
+  app.post("/api/partners", requireAuth, async (req, res) => {
+    try {
+      const parsed = insertTradingPartnerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      if (!checkWalletsProven(req, res, parsed.data.walletAddresses)) return;
+      if (!(await checkPartnerUniqueness(res, parsed.data, null))) return;
+
+      res.status(201).json(await storage.createTradingPartner({ ...parsed.data, createdBy: req.user!.id }));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Loads the partner in `:id` for an admin or its creator to edit, or sends
+  // the 404/403 and returns null
+  const loadEditablePartner = async (req: Request, res: Response): Promise<TradingPartner | null> => {
+    const partner = await storage.getTradingPartner(req.params.id);
+    if (!partner) {
+      res.status(404).json({ message: "Trading partner not found" });
+      return null;
+    }
+    if (req.user!.role !== "admin" && partner.createdBy !== req.user!.id) {
+      sendAuthorizationError(res, 403, "not_partner_creator", "Only admins and the partner's creator can edit it", {
+        partnerId: partner.id,
+      });
+      return null;
+    }
+    return partner;
+  };
+
+  // A verified partner goes back to pending when someone other than an admin
+  // changes what it was verified on
+  const reverification = (req: Request, partner: TradingPartner): Partial<TradingPartner> =>
+    req.user!.role !== "admin" && partner.verificationStatus === "verified"
+      ? { verificationStatus: "pending", verifiedBy: null, verifiedAt: null, updatedAt: new Date() }
+      : {};
+
+  app.patch("/api/partners/:id", requireAuth, async (req, res) => {
+    try {
+      const partner = await loadEditablePartner(req, res);
+      if (!partner) return;
+
+      const parsed = updateTradingPartnerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      if (!checkWalletsProven(req, res, parsed.data.walletAddresses, partner)) return;
+      if (!(await checkPartnerUniqueness(res, parsed.data, partner.id))) return;
+
+      const updated = await storage.updateTradingPartner(partner.id, {
+        ...parsed.data,
+        ...(changesIdentity(partner, parsed.data) ? reverification(req, partner) : {}),
+        updatedAt: new Date(),
+      });
+      // Added wallets get the partner's license, removed ones lose it
+      await syncLicenses([...partner.walletAddresses, ...updated.walletAddresses]);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/partners/:id/verification", requireRole("admin"), async (req, res) => {
+    try {
+      const partner = await storage.getTradingPartner(req.params.id);
+      if (!partner) {
+        return res.status(404).json({ message: "Trading partner not found" });
+      }
+
+      const parsed = partnerVerificationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      const { status } = parsed.data;
+      const updated = await storage.updateTradingPartner(partner.id, {
+        verificationStatus: status,
+        ...(status === "verified" ? { verifiedBy: req.user!.id, verifiedAt: new Date() } : {}),
+        ...(status === "pending" ? { verifiedBy: null, verifiedAt: null } : {}),
+        updatedAt: new Date(),
+      });
+      await syncLicenses(updated.walletAddresses);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.delete("/api/partners/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const partner = await storage.getTradingPartner(req.params.id);
+      if (!partner || !(await storage.deleteTradingPartner(partner.id))) {
+        return res.status(404).json({ message: "Trading partner not found" });
+      }
+      await syncLicenses(partner.walletAddresses);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Licenses a partner trades under. Its creator and admins add and amend
+  // them; only admins revoke them.
+  app.get("/api/partners/:id/licenses", requireAuth, async (req, res) => {
+    try {
+      if (!(await storage.getTradingPartner(req.params.id))) {
+        return res.status(404).json({ message: "Trading partner not found" });
+      }
+      res.json(await storage.getPartnerLicenses(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/partners/:id/licenses", requireAuth, async (req, res) => {
+    try {
+      const partner = await loadEditablePartner(req, res);
+      if (!partner) return;
+
+      const parsed = insertPartnerLicenseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      const license = await storage.createPartnerLicense({ ...parsed.data, partnerId: partner.id });
+      const changes = reverification(req, partner);
+      if (changes.verificationStatus) {
+        await storage.updateTradingPartner(partner.id, changes);
+      }
+      await syncLicenses(partner.walletAddresses);
+      res.status(201).json(license);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Loads license `:licenseId` of the partner in `:id`, or sends the 404 and
+  // returns null
+  const loadPartnerLicense = async (req: Request, res: Response, partner: TradingPartner) => {
+    const license = await storage.getPartnerLicense(req.params.licenseId);
+    if (!license || license.partnerId !== partner.id) {
+      res.status(404).json({ message: "Partner license not found" });
+      return null;
+    }
+    return license;
+  };
+
+  app.patch("/api/partners/:id/licenses/:licenseId", requireAuth, async (req, res) => {
+    try {
+      const partner = await loadEditablePartner(req, res);
+      if (!partner) return;
+      const license = await loadPartnerLicense(req, res, partner);
+      if (!license) return;
+
+      const parsed = updatePartnerLicenseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+      const validFrom = parsed.data.validFrom === undefined ? license.validFrom : parsed.data.validFrom;
+      const expiresAt = parsed.data.expiresAt ?? license.expiresAt;
+      if (validFrom && validFrom >= expiresAt) {
+        return res.status(400).json({ message: "expiresAt must be after validFrom" });
+      }
+
+      const renewed = expiresAt.getTime() !== license.expiresAt.getTime();
+      const updated = await storage.updatePartnerLicense(license.id, {
+        ...parsed.data,
+        // Warn again before the new expiry date
+        ...(renewed ? { expiryNotifiedAt: null } : {}),
+        updatedAt: new Date(),
+      });
+      const changes = reverification(req, partner);
+      if (changes.verificationStatus) {
+        await storage.updateTradingPartner(partner.id, changes);
+      }
+      await syncLicenses(partner.walletAddresses);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/partners/:id/licenses/:licenseId/revoke", requireRole("admin"), async (req, res) => {
+    try {
+      const partner = await storage.getTradingPartner(req.params.id);
+      if (!partner) {
+        return res.status(404).json({ message: "Trading partner not found" });
+      }
+      const license = await loadPartnerLicense(req, res, partner);
+      if (!license) return;
+      if (license.revokedAt) {
+        return res.status(409).json({ message: "License is already revoked" });
+      }
+
+      const revoked = await storage.updatePartnerLicense(license.id, { revokedAt: new Date(), updatedAt: new Date() });
+      await syncLicenses(partner.walletAddresses);
+      res.json(revoked);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // The signed-in user's notifications, unread only unless `all=true`
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getNotifications(req.user!.id, req.query.all === "true"));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (notification.userId !== req.user!.id) {
+        return sendAuthorizationError(res, 403, "not_notification_recipient", "Notification belongs to another user", {
+          notificationId: notification.id,
+        });
+      }
+
+      res.json(notification.readAt ? notification : await storage.updateNotification(notification.id, { readAt: new Date() }));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // EPCIS 2.0 export of supply chain events in [from, to], optionally of one
+  // batch, as JSON-LD or with format=xml as XML
+  app.get("/api/epcis/events", async (req, res) => {
+    try {
+      const format = (req.query.format as string | undefined) ?? "json";
+      if (format !== "json" && format !== "xml") {
+        return res.status(400).json({ message: "format must be json or xml" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "from and to must be ISO 8601 dates" });
+      }
+
+      const batchId = req.query.batchId as string | undefined;
+      const document = await exportEPCISDocument({ batchId, from, to });
+      if (format === "xml") {
+        return res.type("application/xml").send(formatEPCISXml(document));
+      }
+      res.type("application/ld+json").json(document);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Imports a trading partner's EPCIS 2.0 JSON-LD document as imported events,
+  // which leave a batch's history alone. Admins can add events to any batch;
+  // others only to batches their linked wallet owns or registered. Nothing is
+  // imported unless every event is accepted.
+  app.post(
+    "/api/epcis/events",
+    express.json({ type: "application/ld+json", limit: "5mb" }),
+    requireRole("admin", "manufacturer", "producer", "distributor", "pharmacist"),
+    async (req, res) => {
+      try {
+        const parsed = epcisDocumentSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Validation error", details: parsed.error });
+        }
+
+        const walletAddress = req.user!.walletAddress?.toLowerCase();
+        if (req.user!.role !== "admin" && !walletAddress) {
+          return sendAuthorizationError(res, 403, "wallet_not_linked", "Link a wallet to your account first");
+        }
+
+        const result = await importEPCISDocument(parsed.data, req.user!.id, async (batch) =>
+          req.user!.role === "admin" ||
+          batch.currentOwnerAddress.toLowerCase() === walletAddress ||
+          (await getBatchManufacturerAddress(batch))?.toLowerCase() === walletAddress);
+        if (result.errors.length > 0) {
+          return res.status(422).json({
+            message: "EPCIS document has events that can't be imported",
+            code: "epcis_import_rejected",
+            details: result.errors,
+          });
+        }
+
+        res.status(201).json({ imported: result.imported, skipped: result.skipped });
+      } catch (error) {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+      }
+    },
+  );
+
+  // Dashboard stats
+  app.get("/api/dashboard/stats", async (req, res) => {
+    try {
+      const stats = await storage.getDashboardStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Admin: give an account a role. Registration always creates customers.
+  app.put("/api/admin/users/:id/role", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = roleAssignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", details: parsed.error });
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(toPublicUser(await storage.updateUser(user.id, { role: parsed.data.role })));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Admin: compare stored batches with DrugAuth. GET only reports; POST also
+  // copies owner, active flag and expiry from the chain into storage.
+  const reconciliationHandler = (repair: boolean) => async (req: Request, res: Response) => {
+    try {
+      const chainFor = getReconciliationChainFactory();
+      if (!chainFor) {
+        return res.status(503).json({ message: "On-chain reconciliation requires RPC_URL" });
+      }
+
+      const report = await reconcileDrugBatches(chainFor, {
+        repair,
+        defaultContractAddress: process.env.CONTRACT_ADDRESS,
+      });
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  };
+
+  app.get("/api/admin/reconciliation", requireRole("admin"), reconciliationHandler(false));
+  app.post("/api/admin/reconciliation", requireRole("admin"), reconciliationHandler(true));
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,159 @@
+import { isIPv4 } from "net";
+import type { DrugBatch, ScanAlert, ScanAlertRule, ScanEvent } from "@shared/schema";
+import { shipmentEventTypes, shipmentTransitions } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { getBatchManufacturerAddress } from "./recall";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Shipments that leave a batch with a pharmacy or a patient, from when its
+// packs are expected to be scanned
+const deliveryEventTypes: string[] = shipmentEventTypes.filter((eventType) =>
+  ["delivered", "dispensed"].includes(shipmentTransitions[eventType].to));
+
+export interface ScanRuleOptions {
+  // Scans from two countries closer together than this are flagged
+  impossibleTravelHours: number;
+  // Scans allowed after a batch is delivered before it is flagged
+  maxScansAfterDelivery: number;
+}
+
+export interface ScanRuleContext {
+  batch: DrugBatch;
+  scan: ScanEvent;
+  // Scans of the batch since the earliest time any rule looks at, oldest
+  // first, including `scan`
+  scans: ScanEvent[];
+  deliveredAt: Date | null;
+  options: ScanRuleOptions;
+}
+
+// A rule returns a message describing the anomaly, or null when the scan is fine
+export interface ScanRule {
+  rule: ScanAlertRule;
+  evaluate(context: ScanRuleContext): string | null;
+}
+
+export interface ScanClient {
+  ip?: string;
+  country?: string | null;
+  userAgent?: string;
+}
+
+// The scanning client as seen by Express. The country comes from the header
+// named by SCAN_COUNTRY_HEADER (e.g. "cf-ipcountry" behind Cloudflare).
+export function scanClientFromRequest(req: { ip?: string; get(name: string): string | undefined }): ScanClient {
+  const countryHeader = process.env.SCAN_COUNTRY_HEADER;
+  return {
+    ip: req.ip,
+    country: countryHeader ? req.get(countryHeader) ?? null : null,
+    userAgent: req.get("user-agent"),
+  };
+}
+
+// IMPOSSIBLE_TRAVEL_HOURS (default 6) and MAX_SCANS_AFTER_DELIVERY (default 25)
+export function scanRuleOptionsFromEnv(): ScanRuleOptions {
+  return {
+    impossibleTravelHours: Number(process.env.IMPOSSIBLE_TRAVEL_HOURS || 6),
+    maxScansAfterDelivery: Number(process.env.MAX_SCANS_AFTER_DELIVERY || 25),
+  };
+}
+
+// Keeps the /24 of an IPv4 address or the /48 of an IPv6 address
+export function anonymizeIp(ip: string | undefined): string | null {
+  if (!ip) {
+    return null;
+  }
+
+  const address = ip.replace(/^::ffff:/, "");
+  if (isIPv4(address)) {
+    return `${address.split(".").slice(0, 3).join(".")}.0`;
+  }
+
+  const groups = address.split("::")[0].split(":").filter(Boolean);
+  return `${groups.slice(0, 3).join(":")}::`;
+}
+
+export const scanRules: ScanRule[] = [
+  {
+    rule: "scan_after_recall",
+    evaluate: ({ batch }) => (batch.status === "recalled" ? "Scanned after the batch was recalled" : null),
+  },
+  {
+    rule: "impossible_travel",
+    evaluate: ({ scan, scans, options }) => {
+      if (!scan.country) return null;
+
+      const windowStart = scan.scannedAt.getTime() - options.impossibleTravelHours * HOUR_MS;
+      const elsewhere = scans.find(
+        (other) => other.id !== scan.id && other.country && other.country !== scan.country &&
+          other.scannedAt.getTime() >= windowStart,
+      );
+      return elsewhere
+        ? `Scanned in ${elsewhere.country} and ${scan.country} within ${options.impossibleTravelHours} hours`
+        : null;
+    },
+  },
+  {
+    rule: "excessive_scans",
+    evaluate: ({ scans, deliveredAt, options }) => {
+      if (!deliveredAt) return null;
+
+      const afterDelivery = scans.filter((scan) => scan.scannedAt >= deliveredAt).length;
+      return afterDelivery > options.maxScansAfterDelivery
+        ? `Scanned ${afterDelivery} times since delivery (limit ${options.maxScansAfterDelivery})`
+        : null;
+    },
+  },
+];
+
+// Records a verification lookup of `batch` and runs every rule against it.
+// Returns the alerts this scan raised or bumped.
+export async function recordVerificationScan(
+  batch: DrugBatch,
+  client: ScanClient & { serialNumber?: string },
+  storage: IStorage = defaultStorage,
+  options: ScanRuleOptions = scanRuleOptionsFromEnv(),
+  now = new Date(),
+): Promise<ScanAlert[]> {
+  const scan = await storage.createScanEvent({
+    batchId: batch.batchId,
+    serialNumber: client.serialNumber,
+    country: client.country?.toUpperCase() || null,
+    networkPrefix: anonymizeIp(client.ip),
+    userAgent: client.userAgent?.slice(0, 256),
+    scannedAt: now,
+  });
+
+  const events = await storage.getSupplyChainEventsByBatchId(batch.batchId);
+  const deliveredAt = events.filter((event) => deliveryEventTypes.includes(event.eventType)).pop()?.timestamp ?? null;
+  const travelWindowStart = new Date(now.getTime() - options.impossibleTravelHours * HOUR_MS);
+  const since = deliveredAt && deliveredAt < travelWindowStart ? deliveredAt : travelWindowStart;
+  const context: ScanRuleContext = {
+    batch,
+    scan,
+    scans: await storage.getScanEventsByBatchId(batch.batchId, since),
+    deliveredAt,
+    options,
+  };
+
+  const alerts: ScanAlert[] = [];
+  for (const { rule, evaluate } of scanRules) {
+    const message = evaluate(context);
+    if (!message) continue;
+
+    const open = await storage.getOpenScanAlert(batch.batchId, rule);
+    alerts.push(open
+      ? await storage.updateScanAlert(open.id, { message, occurrences: open.occurrences + 1, lastDetectedAt: now })
+      : await storage.createScanAlert({
+        batchId: batch.batchId,
+        rule,
+        // Kept on the alert so manufacturers' alerts can be listed a page at a time
+        manufacturerAddress: await getBatchManufacturerAddress(batch, storage),
+        message,
+        firstDetectedAt: now,
+        lastDetectedAt: now,
+      }));
+  }
+  return alerts;
+}
@@ -0,0 +1,122 @@
+import { randomInt } from "crypto";
+import type { DrugBatch, SerializedUnit } from "@shared/schema";
+import { toGS1Date, type GS1Data } from "@shared/gs1";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+export interface SerialRange {
+  batchId: string;
+  serialNumbers: string[];
+  count: number;
+}
+
+export interface UnitVerification {
+  unit: SerializedUnit;
+  drugBatch: DrugBatch;
+  // The scan before this one, if the pack had been verified already
+  previousScan: { scannedAt: Date; location: string | null } | null;
+  // The first scan of this pack happened at a different location
+  scannedElsewhere: boolean;
+}
+
+export interface GS1Resolution {
+  drugBatch: DrugBatch;
+  unit?: SerializedUnit;
+  // Whether AI 17 matches the batch's expiry date; null when the code has none
+  expiryMatches: boolean | null;
+}
+
+// Characters of the random part of a serial number: digits and capitals,
+// without I and O, which read as 1 and 0
+const SERIAL_ALPHABET = "0123456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const SERIAL_LENGTH = 12;
+
+// Serial numbers are the batch ID plus a random suffix, which GS1 codes carry
+// as AI 21. Randomizing them, as GS1 recommends for serialized packs, keeps
+// counterfeiters from guessing valid serials from one they have seen.
+export function formatSerialNumber(batchId: string): string {
+  const suffix = Array.from({ length: SERIAL_LENGTH }, () => SERIAL_ALPHABET[randomInt(SERIAL_ALPHABET.length)]);
+  return `${batchId}-${suffix.join("")}`;
+}
+
+// Generates `count` more serial numbers for the batch
+export async function generateSerialRange(
+  batchId: string,
+  count: number,
+  storage: IStorage = defaultStorage,
+): Promise<SerialRange> {
+  const serialNumbers = new Set<string>();
+  while (serialNumbers.size < count) {
+    serialNumbers.add(formatSerialNumber(batchId));
+  }
+  const units = await storage.createSerializedUnits(
+    Array.from(serialNumbers, (serialNumber) => ({ batchId, serialNumber })),
+  );
+
+  return {
+    batchId,
+    serialNumbers: units.map((unit) => unit.serialNumber),
+    count: units.length,
+  };
+}
+
+// Looks up a pack and records this scan. Undefined when the serial number or
+// its batch is unknown.
+export async function verifySerializedUnit(
+  serialNumber: string,
+  location: string,
+  storage: IStorage = defaultStorage,
+  scannedAt = new Date(),
+): Promise<UnitVerification | undefined> {
+  const existing = await storage.getSerializedUnit(serialNumber);
+  if (!existing) {
+    return undefined;
+  }
+
+  const drugBatch = await storage.getDrugBatchByBatchId(existing.batchId);
+  if (!drugBatch) {
+    return undefined;
+  }
+
+  const unit = await storage.recordSerializedUnitScan(existing.id, location, scannedAt);
+  const previousScan = existing.lastScannedAt
+    ? { scannedAt: existing.lastScannedAt, location: existing.lastScanLocation }
+    : null;
+
+  return {
+    unit,
+    drugBatch,
+    previousScan,
+    scannedElsewhere: existing.firstScannedAt != null && existing.firstScanLocation !== location,
+  };
+}
+
+// Finds the batch a GS1 code names by GTIN and lot, and the pack when it has
+// a serial. AI 21 may hold the full serial number or just its random suffix.
+export async function resolveGS1Code(
+  data: GS1Data,
+  storage: IStorage = defaultStorage,
+): Promise<GS1Resolution | { error: string }> {
+  if (!data.lot) {
+    return { error: "GS1 code has no lot number (AI 10)" };
+  }
+
+  const drugBatch = await storage.getDrugBatchByBatchId(data.lot);
+  if (!drugBatch || drugBatch.gtin !== data.gtin) {
+    return { error: "No drug batch with this GTIN and lot" };
+  }
+
+  let unit: SerializedUnit | undefined;
+  if (data.serial) {
+    unit = (await storage.getSerializedUnit(`${drugBatch.batchId}-${data.serial}`))
+      ?? (await storage.getSerializedUnit(data.serial));
+    if (unit?.batchId !== drugBatch.batchId) {
+      return { error: "Serial number not found" };
+    }
+  }
+
+  return {
+    drugBatch,
+    unit,
+    expiryMatches: data.expiry ? data.expiry === toGS1Date(drugBatch.expiryDate) : null,
+  };
+}
@@ -0,0 +1,87 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import { getAddress } from "ethers";
+import { SiweMessage, generateNonce } from "siwe";
+import { storage } from "./storage";
+import { hashPassword, toPublicUser } from "./auth";
+
+declare module "express-session" {
+  interface SessionData {
+    siweNonce?: string;
+  }
+}
+
+// Sign-In with Ethereum (EIP-4361). The client signs a message containing a
+// single-use nonce from this server; a valid signature proves control of the
+// address, which is then linked to the signed-in user or to its own account.
+export function setupSiwe(app: Express) {
+  app.get("/api/auth/siwe/nonce", (req, res) => {
+    req.session.siweNonce = generateNonce();
+    res.json({ nonce: req.session.siweNonce });
+  });
+
+  app.post("/api/auth/siwe/verify", async (req, res, next) => {
+    try {
+      const { message, signature } = req.body;
+      if (typeof message !== "string" || typeof signature !== "string") {
+        return res.status(400).json({ message: "Missing message or signature" });
+      }
+
+      const nonce = req.session.siweNonce;
+      if (!nonce) {
+        return res.status(422).json({ message: "No pending sign-in challenge, request a new nonce" });
+      }
+      // The nonce is single-use whether or not verification succeeds
+      delete req.session.siweNonce;
+
+      let siweMessage: SiweMessage;
+      try {
+        siweMessage = new SiweMessage(message);
+      } catch {
+        return res.status(400).json({ message: "Malformed sign-in message" });
+      }
+
+      const { success, error } = await siweMessage.verify(
+        { signature, nonce, domain: req.get("host") },
+        { suppressExceptions: true },
+      );
+      if (!success) {
+        return res.status(401).json({ message: error?.type || "Invalid signature" });
+      }
+
+      const walletAddress = getAddress(siweMessage.address);
+      const walletOwner = await storage.getUserByWalletAddress(walletAddress);
+
+      let user;
+      if (req.user) {
+        // Link the wallet to the account that is already signed in
+        if (walletOwner && walletOwner.id !== req.user.id) {
+          return res.status(409).json({ message: "Wallet is already linked to another account" });
+        }
+        // Relinking would take the account's batches, licenses and transfers
+        // away from the wallet they were recorded against
+        if (req.user.walletAddress && req.user.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+          return res.status(409).json({
+            message: "Account is already linked to another wallet",
+            details: { walletAddress: req.user.walletAddress },
+          });
+        }
+        user = walletOwner ?? (await storage.updateUser(req.user.id, { walletAddress }));
+      } else {
+        // Wallet-only accounts get an unusable password
+        user = walletOwner ?? (await storage.createUser({
+          username: walletAddress,
+          password: await hashPassword(randomBytes(32).toString("hex")),
+          walletAddress,
+        }));
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.json(toPublicUser(user));
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+}
@@ -1,23 +1,163 @@
-import { type User, type InsertUser, type DrugBatch, type InsertDrugBatch, type SupplyChainEvent, type InsertSupplyChainEvent } from "@shared/schema";
+import { type User, type InsertUser, type DrugBatch, type InsertDrugBatch, type SupplyChainEvent, type InsertSupplyChainEvent, type ImportedEvent, type InsertImportedEvent, type SerializedUnit, type InsertSerializedUnit, type ScanEvent, type InsertScanEvent, type ScanAlert, type InsertScanAlert, type ScanAlertRule, type TransactionDocument, type InsertTransactionDocument, type Transfer, type InsertTransfer, type TransferStatus, type BatchLineage, type InsertBatchLineage, type StorageCondition, type InsertStorageCondition, type TelemetryReading, type InsertTelemetryReading, type Excursion, type InsertExcursion, type ExcursionKind, type TradingPartner, type InsertTradingPartner, type PartnerVerificationStatus, type PartnerLicense, type InsertPartnerLicense, type Notification, type InsertNotification, type IndexerState, users, drugBatches, supplyChainEvents, importedEvents, serializedUnits, scanEvents, scanAlerts, transactionDocuments, transfers, batchLineage, storageConditions, telemetryReadings, excursions, tradingPartners, partnerLicenses, notifications, indexerState } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, arrayContains, asc, desc, eq, gt, gte, inArray, isNull, lte, ne, sql } from "drizzle-orm";
+import { branchTransitions, canBranch } from "@shared/supply-chain";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// A transfer whose resolution was reorged out, back to awaiting the recipient
+const reopenedTransfer = {
+  status: "pending",
+  rejectionReason: null,
+  resolutionTransactionHash: null,
+  resolutionBlockNumber: null,
+  resolvedAt: null,
+} satisfies Partial<Transfer>;
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Runs `run` against a storage whose writes all take effect or, if it
+  // throws, none do
+  transaction<T>(run: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByWalletAddress(walletAddress: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
 
   // Drug batch methods
   getDrugBatches(limit?: number, offset?: number): Promise<DrugBatch[]>;
   getDrugBatchById(id: string): Promise<DrugBatch | undefined>;
   getDrugBatchByBatchId(batchId: string): Promise<DrugBatch | undefined>;
+  getDrugBatchByTokenId(tokenId: number): Promise<DrugBatch | undefined>;
   getDrugBatchesByOwner(ownerAddress: string): Promise<DrugBatch[]>;
+  getDrugBatchesByDrugName(drugName: string): Promise<DrugBatch[]>;
+  // Batches whose status can still `expire` (see shared/supply-chain.ts) and whose expiry date is at or before `date`, soonest first
+  getDrugBatchesExpiringBefore(date: Date): Promise<DrugBatch[]>;
   createDrugBatch(drugBatch: InsertDrugBatch): Promise<DrugBatch>;
   updateDrugBatch(id: string, updates: Partial<DrugBatch>): Promise<DrugBatch>;
+  deleteDrugBatch(id: string): Promise<void>;
 
   // Supply chain event methods
   getSupplyChainEventsByBatchId(batchId: string): Promise<SupplyChainEvent[]>;
+  // Events in [from, to], oldest first, optionally for one batch
+  getSupplyChainEvents(filter: { batchId?: string; from?: Date; to?: Date }): Promise<SupplyChainEvent[]>;
+  getSupplyChainEventByTransactionHash(batchId: string, transactionHash: string): Promise<SupplyChainEvent | undefined>;
   createSupplyChainEvent(event: InsertSupplyChainEvent): Promise<SupplyChainEvent>;
+  updateSupplyChainEvent(id: string, updates: Partial<SupplyChainEvent>): Promise<SupplyChainEvent>;
+  // Removes events recorded in blocks after `blockNumber` (chain reorgs)
+  deleteSupplyChainEventsAfterBlock(blockNumber: number): Promise<SupplyChainEvent[]>;
+
+  // Imported EPCIS event methods, oldest first
+  getImportedEventsByBatchId(batchId: string): Promise<ImportedEvent[]>;
+  createImportedEvent(event: InsertImportedEvent): Promise<ImportedEvent>;
+
+  // Serialized unit methods
+  getSerializedUnit(serialNumber: string): Promise<SerializedUnit | undefined>;
+  // Units of a batch in serial number order
+  getSerializedUnitsByBatchId(batchId: string, limit?: number, offset?: number): Promise<SerializedUnit[]>;
+  countSerializedUnits(batchId: string): Promise<number>;
+  createSerializedUnits(units: InsertSerializedUnit[]): Promise<SerializedUnit[]>;
+  // Counts a verification scan, keeping the first scan's time and location
+  recordSerializedUnitScan(id: string, location: string, scannedAt: Date): Promise<SerializedUnit>;
+
+  // Scan monitoring methods
+  createScanEvent(event: InsertScanEvent): Promise<ScanEvent>;
+  // Scans of a batch at or after `since`, oldest first
+  getScanEventsByBatchId(batchId: string, since?: Date): Promise<ScanEvent[]>;
+  // Most recently detected first; resolved alerts only when `includeResolved`
+  // Newest first; only alerts on batches `manufacturerAddress` registered when given
+  getScanAlerts(includeResolved?: boolean, limit?: number, offset?: number, manufacturerAddress?: string): Promise<ScanAlert[]>;
+  getScanAlertById(id: string): Promise<ScanAlert | undefined>;
+  getOpenScanAlert(batchId: string, rule: ScanAlertRule): Promise<ScanAlert | undefined>;
+  createScanAlert(alert: InsertScanAlert): Promise<ScanAlert>;
+  updateScanAlert(id: string, updates: Partial<ScanAlert>): Promise<ScanAlert>;
+
+  // DSCSA transaction document methods
+  getTransactionDocumentByEventId(eventId: string): Promise<TransactionDocument | undefined>;
+  createTransactionDocument(document: InsertTransactionDocument): Promise<TransactionDocument>;
+  updateTransactionDocument(id: string, updates: Partial<TransactionDocument>): Promise<TransactionDocument>;
+
+  // Transfer handshake methods
+  getTransferById(id: string): Promise<Transfer | undefined>;
+  getPendingTransferByBatchId(batchId: string): Promise<Transfer | undefined>;
+  // Transfers to (`incoming`) or from (`outgoing`) a wallet, most recent first
+  getTransfersByAddress(address: string, direction: "incoming" | "outgoing", status?: TransferStatus): Promise<Transfer[]>;
+  // Pending transfers whose deadline is at or before `date`, earliest first
+  getPendingTransfersDueBefore(date: Date): Promise<Transfer[]>;
+  // Undefined when the batch already has a pending transfer
+  createTransfer(transfer: InsertTransfer): Promise<Transfer | undefined>;
+  updateTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer>;
+  // Accepts, rejects or expires a transfer only while it is pending;
+  // undefined once it has been resolved
+  resolveTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer | undefined>;
+  // Removes transfers initiated in blocks after `blockNumber` (chain reorgs)
+  deleteTransfersAfterBlock(blockNumber: number): Promise<Transfer[]>;
+  // Makes transfers accepted, rejected or cancelled in blocks after
+  // `blockNumber` pending again (chain reorgs)
+  reopenTransfersResolvedAfterBlock(blockNumber: number): Promise<Transfer[]>;
+
+  // Lot lineage methods, oldest edge first
+  getBatchLineageByParent(parentBatchId: string): Promise<BatchLineage[]>;
+  getBatchLineageByChild(childBatchId: string): Promise<BatchLineage[]>;
+  createBatchLineage(edge: InsertBatchLineage): Promise<BatchLineage>;
+  // Removes edges recorded in blocks after `blockNumber`, most recent first
+  // (chain reorgs)
+  deleteBatchLineageAfterBlock(blockNumber: number): Promise<BatchLineage[]>;
+
+  // Cold-chain methods
+  getStorageCondition(drugName: string): Promise<StorageCondition | undefined>;
+  // By drug name
+  getStorageConditions(): Promise<StorageCondition[]>;
+  // Creates or replaces the drug's storage conditions
+  saveStorageCondition(condition: InsertStorageCondition): Promise<StorageCondition>;
+  createTelemetryReadings(readings: InsertTelemetryReading[]): Promise<TelemetryReading[]>;
+  // Readings of a batch recorded at or after `since`, oldest first
+  getTelemetryReadingsByBatchId(batchId: string, since?: Date): Promise<TelemetryReading[]>;
+  // Most recently started first
+  getExcursionsByBatchId(batchId: string): Promise<Excursion[]>;
+  getOpenExcursion(batchId: string, kind: ExcursionKind): Promise<Excursion | undefined>;
+  createExcursion(excursion: InsertExcursion): Promise<Excursion>;
+  updateExcursion(id: string, updates: Partial<Excursion>): Promise<Excursion>;
+
+  // Trading partner registry methods
+  getTradingPartner(id: string): Promise<TradingPartner | undefined>;
+  // By legal name, optionally only those with a verification status, role or GLN
+  getTradingPartners(filter?: { verificationStatus?: PartnerVerificationStatus; role?: string; gln?: string }): Promise<TradingPartner[]>;
+  // The partner a wallet address is registered to, case-insensitively
+  getTradingPartnerByWalletAddress(address: string): Promise<TradingPartner | undefined>;
+  createTradingPartner(partner: InsertTradingPartner & { createdBy?: string | null }): Promise<TradingPartner>;
+  updateTradingPartner(id: string, updates: Partial<TradingPartner>): Promise<TradingPartner>;
+  // False if there was no such partner. Removes its licenses too.
+  deleteTradingPartner(id: string): Promise<boolean>;
+
+  // Partner license methods
+  getPartnerLicense(id: string): Promise<PartnerLicense | undefined>;
+  // Latest expiry first
+  getPartnerLicenses(partnerId: string): Promise<PartnerLicense[]>;
+  createPartnerLicense(license: InsertPartnerLicense & { partnerId: string }): Promise<PartnerLicense>;
+  updatePartnerLicense(id: string, updates: Partial<PartnerLicense>): Promise<PartnerLicense>;
+  // Unrevoked licenses expiring at or before `date` whose owners haven't been warned yet, soonest first
+  getPartnerLicensesExpiringBefore(date: Date): Promise<PartnerLicense[]>;
+
+  // Notification methods
+  // Most recent first; read ones only when `includeRead`
+  getNotifications(userId: string, includeRead?: boolean): Promise<Notification[]>;
+  getNotification(id: string): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, updates: Partial<Notification>): Promise<Notification>;
+
+  // Indexer methods
+  getIndexerState(id: string): Promise<IndexerState | undefined>;
+  saveIndexerState(state: Omit<IndexerState, "updatedAt">): Promise<IndexerState>;
 
   // Dashboard stats
   getDashboardStats(): Promise<{
@@ -32,11 +172,59 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private drugBatches: Map<string, DrugBatch>;
   private supplyChainEvents: Map<string, SupplyChainEvent>;
+  private importedEvents: Map<string, ImportedEvent>;
+  private serializedUnits: Map<string, SerializedUnit>;
+  private scanEvents: Map<string, ScanEvent>;
+  private scanAlerts: Map<string, ScanAlert>;
+  private transactionDocuments: Map<string, TransactionDocument>;
+  private transfers: Map<string, Transfer>;
+  private batchLineage: Map<string, BatchLineage>;
+  private storageConditions: Map<string, StorageCondition>;
+  private telemetryReadings: Map<string, TelemetryReading>;
+  private excursions: Map<string, Excursion>;
+  private tradingPartners: Map<string, TradingPartner>;
+  private partnerLicenses: Map<string, PartnerLicense>;
+  private notifications: Map<string, Notification>;
+  private indexerStates: Map<string, IndexerState>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.drugBatches = new Map();
     this.supplyChainEvents = new Map();
+    this.importedEvents = new Map();
+    this.serializedUnits = new Map();
+    this.scanEvents = new Map();
+    this.scanAlerts = new Map();
+    this.transactionDocuments = new Map();
+    this.transfers = new Map();
+    this.batchLineage = new Map();
+    this.storageConditions = new Map();
+    this.telemetryReadings = new Map();
+    this.excursions = new Map();
+    this.tradingPartners = new Map();
+    this.partnerLicenses = new Map();
+    this.notifications = new Map();
+    this.indexerStates = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
+  }
+
+  // Restores every map to its state before `run` if it throws. Records are
+  // replaced rather than changed in place, so copying the maps is enough.
+  async transaction<T>(run: (storage: IStorage) => Promise<T>): Promise<T> {
+    const maps = Object.values(this).filter((value): value is Map<string, unknown> => value instanceof Map);
+    const snapshots = maps.map((map) => new Map(map));
+    try {
+      return await run(this);
+    } catch (error) {
+      maps.forEach((map, index) => {
+        map.clear();
+        snapshots[index].forEach((value, key) => map.set(key, value));
+      });
+      throw error;
+    }
   }
 
   // User methods
@@ -50,18 +238,36 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.walletAddress?.toLowerCase() === walletAddress.toLowerCase(),
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const user: User = { 
       ...insertUser, 
       id,
       role: insertUser.role || "customer",
+      walletAddress: insertUser.walletAddress || null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error("User not found");
+    }
+
+    const updated: User = { ...existing, ...updates, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   // Drug batch methods
   async getDrugBatches(limit: number = 10, offset: number = 0): Promise<DrugBatch[]> {
     const allBatches = Array.from(this.drugBatches.values())
@@ -80,13 +286,35 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getDrugBatchByTokenId(tokenId: number): Promise<DrugBatch | undefined> {
+    return Array.from(this.drugBatches.values()).find(
+      (batch) => batch.tokenId === tokenId
+    );
+  }
+
   async getDrugBatchesByOwner(ownerAddress: string): Promise<DrugBatch[]> {
     return Array.from(this.drugBatches.values())
       .filter((batch) => batch.currentOwnerAddress.toLowerCase() === ownerAddress.toLowerCase())
       .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
+  async getDrugBatchesByDrugName(drugName: string): Promise<DrugBatch[]> {
+    return Array.from(this.drugBatches.values())
+      .filter((batch) => batch.drugName === drugName)
+      .sort((a, b) => a.batchId.localeCompare(b.batchId));
+  }
+
+  async getDrugBatchesExpiringBefore(date: Date): Promise<DrugBatch[]> {
+    return Array.from(this.drugBatches.values())
+      .filter((batch) => batch.expiryDate <= date && canBranch(batch.status, "expire"))
+      .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+  }
+
   async createDrugBatch(insertDrugBatch: InsertDrugBatch): Promise<DrugBatch> {
+    if (insertDrugBatch.quantity != null && insertDrugBatch.quantity < 0) {
+      throw new Error("Quantity cannot be negative");
+    }
+
     const id = randomUUID();
     const drugBatch: DrugBatch = {
       ...insertDrugBatch,
@@ -94,6 +322,16 @@ export class MemStorage implements IStorage {
       manufacturingDate: new Date(insertDrugBatch.manufacturingDate),
       expiryDate: new Date(insertDrugBatch.expiryDate),
       status: insertDrugBatch.status || "manufactured",
+      quantity: insertDrugBatch.quantity ?? null,
+      unit: insertDrugBatch.unit ?? "pack",
+      strength: insertDrugBatch.strength ?? null,
+      dosageForm: insertDrugBatch.dosageForm ?? null,
+      ipfsHash: insertDrugBatch.ipfsHash ?? null,
+      contractAddress: insertDrugBatch.contractAddress ?? null,
+      tokenId: insertDrugBatch.tokenId ?? null,
+      gtin: insertDrugBatch.gtin ?? null,
+      recallReason: null,
+      recalledAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -106,6 +344,9 @@ export class MemStorage implements IStorage {
     if (!existing) {
       throw new Error("Drug batch not found");
     }
+    if (updates.quantity != null && updates.quantity < 0) {
+      throw new Error("Quantity cannot be negative");
+    }
 
     const updated: DrugBatch = {
       ...existing,
@@ -117,6 +358,10 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async deleteDrugBatch(id: string): Promise<void> {
+    this.drugBatches.delete(id);
+  }
+
   // Supply chain event methods
   async getSupplyChainEventsByBatchId(batchId: string): Promise<SupplyChainEvent[]> {
     return Array.from(this.supplyChainEvents.values())
@@ -124,6 +369,20 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
   }
 
+  async getSupplyChainEvents(filter: { batchId?: string; from?: Date; to?: Date }): Promise<SupplyChainEvent[]> {
+    return Array.from(this.supplyChainEvents.values())
+      .filter((event) => !filter.batchId || event.batchId === filter.batchId)
+      .filter((event) => !filter.from || event.timestamp! >= filter.from)
+      .filter((event) => !filter.to || event.timestamp! <= filter.to)
+      .sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+  }
+
+  async getSupplyChainEventByTransactionHash(batchId: string, transactionHash: string): Promise<SupplyChainEvent | undefined> {
+    return Array.from(this.supplyChainEvents.values()).find(
+      (event) => event.batchId === batchId && event.transactionHash?.toLowerCase() === transactionHash.toLowerCase()
+    );
+  }
+
   async createSupplyChainEvent(insertEvent: InsertSupplyChainEvent): Promise<SupplyChainEvent> {
     const id = randomUUID();
     const event: SupplyChainEvent = {
@@ -131,14 +390,571 @@ export class MemStorage implements IStorage {
       id,
       fromOwner: insertEvent.fromOwner || null,
       fromOwnerAddress: insertEvent.fromOwnerAddress || null,
+      quantity: insertEvent.quantity ?? null,
+      facilityId: insertEvent.facilityId ?? null,
+      latitude: insertEvent.latitude ?? null,
+      longitude: insertEvent.longitude ?? null,
+      country: insertEvent.country ?? null,
       transactionHash: insertEvent.transactionHash || null,
       blockNumber: insertEvent.blockNumber || null,
-      timestamp: new Date(),
+      timestamp: insertEvent.timestamp || new Date(),
     };
     this.supplyChainEvents.set(id, event);
     return event;
   }
 
+  async updateSupplyChainEvent(id: string, updates: Partial<SupplyChainEvent>): Promise<SupplyChainEvent> {
+    const existing = this.supplyChainEvents.get(id);
+    if (!existing) {
+      throw new Error("Supply chain event not found");
+    }
+
+    const updated: SupplyChainEvent = { ...existing, ...updates, id };
+    this.supplyChainEvents.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplyChainEventsAfterBlock(blockNumber: number): Promise<SupplyChainEvent[]> {
+    const removed = Array.from(this.supplyChainEvents.values())
+      .filter((event) => event.blockNumber != null && event.blockNumber > blockNumber);
+    removed.forEach((event) => this.supplyChainEvents.delete(event.id));
+    return removed;
+  }
+
+  // Imported EPCIS event methods
+  async getImportedEventsByBatchId(batchId: string): Promise<ImportedEvent[]> {
+    return Array.from(this.importedEvents.values())
+      .filter((event) => event.batchId === batchId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async createImportedEvent(insertEvent: InsertImportedEvent): Promise<ImportedEvent> {
+    const event: ImportedEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      fromOwner: insertEvent.fromOwner ?? null,
+      fromOwnerAddress: insertEvent.fromOwnerAddress ?? null,
+      transactionHash: insertEvent.transactionHash ?? null,
+      importedAt: new Date(),
+    };
+    this.importedEvents.set(event.id, event);
+    return event;
+  }
+
+  // Serialized unit methods
+  async getSerializedUnit(serialNumber: string): Promise<SerializedUnit | undefined> {
+    return Array.from(this.serializedUnits.values()).find((unit) => unit.serialNumber === serialNumber);
+  }
+
+  async getSerializedUnitsByBatchId(batchId: string, limit = 50, offset = 0): Promise<SerializedUnit[]> {
+    return Array.from(this.serializedUnits.values())
+      .filter((unit) => unit.batchId === batchId)
+      .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber))
+      .slice(offset, offset + limit);
+  }
+
+  async countSerializedUnits(batchId: string): Promise<number> {
+    return Array.from(this.serializedUnits.values()).filter((unit) => unit.batchId === batchId).length;
+  }
+
+  async createSerializedUnits(insertUnits: InsertSerializedUnit[]): Promise<SerializedUnit[]> {
+    // Serial numbers are unique, as in the database; none are added if one isn't
+    const serialNumbers = new Set(Array.from(this.serializedUnits.values(), (unit) => unit.serialNumber));
+    for (const { serialNumber } of insertUnits) {
+      if (serialNumbers.has(serialNumber)) {
+        throw new Error("Serial number already exists");
+      }
+      serialNumbers.add(serialNumber);
+    }
+
+    return insertUnits.map((insertUnit) => {
+      const unit: SerializedUnit = {
+        ...insertUnit,
+        id: randomUUID(),
+        scanCount: 0,
+        firstScannedAt: null,
+        firstScanLocation: null,
+        lastScannedAt: null,
+        lastScanLocation: null,
+        createdAt: new Date(),
+      };
+      this.serializedUnits.set(unit.id, unit);
+      return unit;
+    });
+  }
+
+  async recordSerializedUnitScan(id: string, location: string, scannedAt: Date): Promise<SerializedUnit> {
+    const existing = this.serializedUnits.get(id);
+    if (!existing) {
+      throw new Error("Serialized unit not found");
+    }
+
+    const updated: SerializedUnit = {
+      ...existing,
+      scanCount: existing.scanCount + 1,
+      firstScannedAt: existing.firstScannedAt ?? scannedAt,
+      firstScanLocation: existing.firstScannedAt ? existing.firstScanLocation : location,
+      lastScannedAt: scannedAt,
+      lastScanLocation: location,
+    };
+    this.serializedUnits.set(id, updated);
+    return updated;
+  }
+
+  // Scan monitoring methods
+  async createScanEvent(insertEvent: InsertScanEvent): Promise<ScanEvent> {
+    const event: ScanEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      serialNumber: insertEvent.serialNumber ?? null,
+      country: insertEvent.country ?? null,
+      networkPrefix: insertEvent.networkPrefix ?? null,
+      userAgent: insertEvent.userAgent ?? null,
+      scannedAt: insertEvent.scannedAt ?? new Date(),
+    };
+    this.scanEvents.set(event.id, event);
+    return event;
+  }
+
+  async getScanEventsByBatchId(batchId: string, since?: Date): Promise<ScanEvent[]> {
+    return Array.from(this.scanEvents.values())
+      .filter((event) => event.batchId === batchId && (!since || event.scannedAt >= since))
+      .sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime());
+  }
+
+  async getScanAlerts(includeResolved = false, limit = 50, offset = 0, manufacturerAddress?: string): Promise<ScanAlert[]> {
+    return Array.from(this.scanAlerts.values())
+      .filter((alert) => includeResolved || !alert.resolvedAt)
+      .filter((alert) => !manufacturerAddress || alert.manufacturerAddress?.toLowerCase() === manufacturerAddress.toLowerCase())
+      .sort((a, b) => b.lastDetectedAt.getTime() - a.lastDetectedAt.getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async getScanAlertById(id: string): Promise<ScanAlert | undefined> {
+    return this.scanAlerts.get(id);
+  }
+
+  async getOpenScanAlert(batchId: string, rule: ScanAlertRule): Promise<ScanAlert | undefined> {
+    return Array.from(this.scanAlerts.values()).find(
+      (alert) => alert.batchId === batchId && alert.rule === rule && !alert.resolvedAt,
+    );
+  }
+
+  async createScanAlert(insertAlert: InsertScanAlert): Promise<ScanAlert> {
+    const alert: ScanAlert = {
+      ...insertAlert,
+      id: randomUUID(),
+      manufacturerAddress: insertAlert.manufacturerAddress ?? null,
+      occurrences: 1,
+      firstDetectedAt: insertAlert.firstDetectedAt ?? new Date(),
+      lastDetectedAt: insertAlert.lastDetectedAt ?? new Date(),
+      resolvedAt: null,
+    };
+    this.scanAlerts.set(alert.id, alert);
+    return alert;
+  }
+
+  async updateScanAlert(id: string, updates: Partial<ScanAlert>): Promise<ScanAlert> {
+    const existing = this.scanAlerts.get(id);
+    if (!existing) {
+      throw new Error("Scan alert not found");
+    }
+
+    const updated: ScanAlert = { ...existing, ...updates, id };
+    this.scanAlerts.set(id, updated);
+    return updated;
+  }
+
+  // DSCSA transaction document methods
+  async getTransactionDocumentByEventId(eventId: string): Promise<TransactionDocument | undefined> {
+    return Array.from(this.transactionDocuments.values()).find((document) => document.eventId === eventId);
+  }
+
+  async createTransactionDocument(insertDocument: InsertTransactionDocument): Promise<TransactionDocument> {
+    if (await this.getTransactionDocumentByEventId(insertDocument.eventId)) {
+      throw new Error("Transaction document already exists for this event");
+    }
+
+    const document: TransactionDocument = {
+      ...insertDocument,
+      id: randomUUID(),
+      ipfsHash: insertDocument.ipfsHash ?? null,
+      createdAt: new Date(),
+    };
+    this.transactionDocuments.set(document.id, document);
+    return document;
+  }
+
+  async updateTransactionDocument(id: string, updates: Partial<TransactionDocument>): Promise<TransactionDocument> {
+    const existing = this.transactionDocuments.get(id);
+    if (!existing) {
+      throw new Error("Transaction document not found");
+    }
+
+    const updated: TransactionDocument = { ...existing, ...updates, id };
+    this.transactionDocuments.set(id, updated);
+    return updated;
+  }
+
+  // Transfer handshake methods
+  async getTransferById(id: string): Promise<Transfer | undefined> {
+    return this.transfers.get(id);
+  }
+
+  async getPendingTransferByBatchId(batchId: string): Promise<Transfer | undefined> {
+    return Array.from(this.transfers.values()).find(
+      (transfer) => transfer.batchId === batchId && transfer.status === "pending",
+    );
+  }
+
+  async getTransfersByAddress(address: string, direction: "incoming" | "outgoing", status?: TransferStatus): Promise<Transfer[]> {
+    return Array.from(this.transfers.values())
+      .filter((transfer) => {
+        const party = direction === "incoming" ? transfer.toOwnerAddress : transfer.fromOwnerAddress;
+        return party.toLowerCase() === address.toLowerCase() && (!status || transfer.status === status);
+      })
+      .sort((a, b) => b.initiatedAt.getTime() - a.initiatedAt.getTime());
+  }
+
+  async getPendingTransfersDueBefore(date: Date): Promise<Transfer[]> {
+    return Array.from(this.transfers.values())
+      .filter((transfer) => transfer.status === "pending" && transfer.deadline <= date)
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  }
+
+  async createTransfer(insertTransfer: InsertTransfer): Promise<Transfer | undefined> {
+    // Checked and set without awaiting in between, like the unique index
+    const pending = Array.from(this.transfers.values()).some(
+      (transfer) => transfer.batchId === insertTransfer.batchId && transfer.status === "pending",
+    );
+    if (pending) {
+      return undefined;
+    }
+
+    const transfer: Transfer = {
+      ...insertTransfer,
+      id: randomUUID(),
+      status: "pending",
+      quantity: insertTransfer.quantity ?? null,
+      partnerId: insertTransfer.partnerId ?? null,
+      facilityId: insertTransfer.facilityId ?? null,
+      latitude: insertTransfer.latitude ?? null,
+      longitude: insertTransfer.longitude ?? null,
+      country: insertTransfer.country ?? null,
+      rejectionReason: null,
+      transactionHash: insertTransfer.transactionHash ?? null,
+      blockNumber: insertTransfer.blockNumber ?? null,
+      resolutionTransactionHash: null,
+      resolutionBlockNumber: null,
+      initiatedAt: insertTransfer.initiatedAt ?? new Date(),
+      resolvedAt: null,
+    };
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  async updateTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer> {
+    const existing = this.transfers.get(id);
+    if (!existing) {
+      throw new Error("Transfer not found");
+    }
+
+    const updated: Transfer = { ...existing, ...updates, id };
+    this.transfers.set(id, updated);
+    return updated;
+  }
+
+  async resolveTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer | undefined> {
+    const existing = this.transfers.get(id);
+    if (existing?.status !== "pending") {
+      return undefined;
+    }
+
+    const resolved: Transfer = { ...existing, ...updates, id };
+    this.transfers.set(id, resolved);
+    return resolved;
+  }
+
+  async deleteTransfersAfterBlock(blockNumber: number): Promise<Transfer[]> {
+    const removed = Array.from(this.transfers.values())
+      .filter((transfer) => transfer.blockNumber != null && transfer.blockNumber > blockNumber);
+    removed.forEach((transfer) => this.transfers.delete(transfer.id));
+    return removed;
+  }
+
+  async reopenTransfersResolvedAfterBlock(blockNumber: number): Promise<Transfer[]> {
+    const reopened = Array.from(this.transfers.values())
+      .filter((transfer) => transfer.resolutionBlockNumber != null && transfer.resolutionBlockNumber > blockNumber)
+      .map((transfer): Transfer => ({ ...transfer, ...reopenedTransfer }));
+    reopened.forEach((transfer) => this.transfers.set(transfer.id, transfer));
+    return reopened;
+  }
+
+  // Lot lineage methods
+  async getBatchLineageByParent(parentBatchId: string): Promise<BatchLineage[]> {
+    return Array.from(this.batchLineage.values())
+      .filter((edge) => edge.parentBatchId === parentBatchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getBatchLineageByChild(childBatchId: string): Promise<BatchLineage[]> {
+    return Array.from(this.batchLineage.values())
+      .filter((edge) => edge.childBatchId === childBatchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createBatchLineage(insertEdge: InsertBatchLineage): Promise<BatchLineage> {
+    const edge: BatchLineage = {
+      ...insertEdge,
+      id: randomUUID(),
+      previousStatus: insertEdge.previousStatus ?? null,
+      transactionHash: insertEdge.transactionHash ?? null,
+      blockNumber: insertEdge.blockNumber ?? null,
+      createdAt: insertEdge.createdAt ?? new Date(),
+    };
+    this.batchLineage.set(edge.id, edge);
+    return edge;
+  }
+
+  async deleteBatchLineageAfterBlock(blockNumber: number): Promise<BatchLineage[]> {
+    const removed = Array.from(this.batchLineage.values())
+      .filter((edge) => edge.blockNumber != null && edge.blockNumber > blockNumber)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    removed.forEach((edge) => this.batchLineage.delete(edge.id));
+    return removed;
+  }
+
+  // Cold-chain methods
+  async getStorageCondition(drugName: string): Promise<StorageCondition | undefined> {
+    return Array.from(this.storageConditions.values()).find((condition) => condition.drugName === drugName);
+  }
+
+  async getStorageConditions(): Promise<StorageCondition[]> {
+    return Array.from(this.storageConditions.values()).sort((a, b) => a.drugName.localeCompare(b.drugName));
+  }
+
+  async saveStorageCondition(insertCondition: InsertStorageCondition): Promise<StorageCondition> {
+    const existing = await this.getStorageCondition(insertCondition.drugName);
+    const condition: StorageCondition = {
+      ...insertCondition,
+      id: existing?.id ?? randomUUID(),
+      minHumidity: insertCondition.minHumidity ?? null,
+      maxHumidity: insertCondition.maxHumidity ?? null,
+      updatedAt: new Date(),
+    };
+    this.storageConditions.set(condition.id, condition);
+    return condition;
+  }
+
+  async createTelemetryReadings(insertReadings: InsertTelemetryReading[]): Promise<TelemetryReading[]> {
+    return insertReadings.map((insertReading) => {
+      const reading: TelemetryReading = {
+        ...insertReading,
+        id: randomUUID(),
+        transferId: insertReading.transferId ?? null,
+        humidity: insertReading.humidity ?? null,
+        excursion: insertReading.excursion ?? false,
+        receivedAt: new Date(),
+      };
+      this.telemetryReadings.set(reading.id, reading);
+      return reading;
+    });
+  }
+
+  async getTelemetryReadingsByBatchId(batchId: string, since?: Date): Promise<TelemetryReading[]> {
+    return Array.from(this.telemetryReadings.values())
+      .filter((reading) => reading.batchId === batchId && (!since || reading.recordedAt >= since))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getExcursionsByBatchId(batchId: string): Promise<Excursion[]> {
+    return Array.from(this.excursions.values())
+      .filter((excursion) => excursion.batchId === batchId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async getOpenExcursion(batchId: string, kind: ExcursionKind): Promise<Excursion | undefined> {
+    return Array.from(this.excursions.values()).find(
+      (excursion) => excursion.batchId === batchId && excursion.kind === kind && !excursion.endedAt,
+    );
+  }
+
+  async createExcursion(insertExcursion: InsertExcursion): Promise<Excursion> {
+    const excursion: Excursion = {
+      ...insertExcursion,
+      id: randomUUID(),
+      transferId: insertExcursion.transferId ?? null,
+      eventId: insertExcursion.eventId ?? null,
+      readingCount: 1,
+      endedAt: null,
+    };
+    this.excursions.set(excursion.id, excursion);
+    return excursion;
+  }
+
+  async updateExcursion(id: string, updates: Partial<Excursion>): Promise<Excursion> {
+    const existing = this.excursions.get(id);
+    if (!existing) {
+      throw new Error("Excursion not found");
+    }
+
+    const updated: Excursion = { ...existing, ...updates, id };
+    this.excursions.set(id, updated);
+    return updated;
+  }
+
+  // Trading partner registry methods
+  async getTradingPartner(id: string): Promise<TradingPartner | undefined> {
+    return this.tradingPartners.get(id);
+  }
+
+  async getTradingPartners(filter: { verificationStatus?: PartnerVerificationStatus; role?: string; gln?: string } = {}): Promise<TradingPartner[]> {
+    return Array.from(this.tradingPartners.values())
+      .filter((partner) => !filter.verificationStatus || partner.verificationStatus === filter.verificationStatus)
+      .filter((partner) => !filter.role || partner.role === filter.role)
+      .filter((partner) => !filter.gln || partner.gln === filter.gln)
+      .sort((a, b) => a.legalName.localeCompare(b.legalName));
+  }
+
+  async getTradingPartnerByWalletAddress(address: string): Promise<TradingPartner | undefined> {
+    return Array.from(this.tradingPartners.values()).find((partner) =>
+      partner.walletAddresses.includes(address.toLowerCase()));
+  }
+
+  async createTradingPartner(insertPartner: InsertTradingPartner & { createdBy?: string | null }): Promise<TradingPartner> {
+    if (insertPartner.gln && Array.from(this.tradingPartners.values()).some((partner) => partner.gln === insertPartner.gln)) {
+      throw new Error("GLN is already registered");
+    }
+
+    const now = new Date();
+    const partner: TradingPartner = {
+      ...insertPartner,
+      id: randomUUID(),
+      gln: insertPartner.gln ?? null,
+      facilities: insertPartner.facilities ?? [],
+      verificationStatus: "pending",
+      verifiedBy: null,
+      verifiedAt: null,
+      createdBy: insertPartner.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tradingPartners.set(partner.id, partner);
+    return partner;
+  }
+
+  async updateTradingPartner(id: string, updates: Partial<TradingPartner>): Promise<TradingPartner> {
+    const existing = this.tradingPartners.get(id);
+    if (!existing) {
+      throw new Error("Trading partner not found");
+    }
+    if (updates.gln && Array.from(this.tradingPartners.values()).some((partner) => partner.id !== id && partner.gln === updates.gln)) {
+      throw new Error("GLN is already registered");
+    }
+
+    const updated: TradingPartner = { ...existing, ...updates, id };
+    this.tradingPartners.set(id, updated);
+    return updated;
+  }
+
+  async deleteTradingPartner(id: string): Promise<boolean> {
+    for (const license of Array.from(this.partnerLicenses.values())) {
+      if (license.partnerId === id) {
+        this.partnerLicenses.delete(license.id);
+      }
+    }
+    return this.tradingPartners.delete(id);
+  }
+
+  // Partner license methods
+  async getPartnerLicense(id: string): Promise<PartnerLicense | undefined> {
+    return this.partnerLicenses.get(id);
+  }
+
+  async getPartnerLicenses(partnerId: string): Promise<PartnerLicense[]> {
+    return Array.from(this.partnerLicenses.values())
+      .filter((license) => license.partnerId === partnerId)
+      .sort((a, b) => b.expiresAt.getTime() - a.expiresAt.getTime());
+  }
+
+  async createPartnerLicense(insertLicense: InsertPartnerLicense & { partnerId: string }): Promise<PartnerLicense> {
+    const now = new Date();
+    const license: PartnerLicense = {
+      ...insertLicense,
+      id: randomUUID(),
+      validFrom: insertLicense.validFrom ?? null,
+      revokedAt: null,
+      expiryNotifiedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.partnerLicenses.set(license.id, license);
+    return license;
+  }
+
+  async updatePartnerLicense(id: string, updates: Partial<PartnerLicense>): Promise<PartnerLicense> {
+    const existing = this.partnerLicenses.get(id);
+    if (!existing) {
+      throw new Error("Partner license not found");
+    }
+
+    const updated: PartnerLicense = { ...existing, ...updates, id };
+    this.partnerLicenses.set(id, updated);
+    return updated;
+  }
+
+  async getPartnerLicensesExpiringBefore(date: Date): Promise<PartnerLicense[]> {
+    return Array.from(this.partnerLicenses.values())
+      .filter((license) => !license.revokedAt && !license.expiryNotifiedAt && license.expiresAt.getTime() <= date.getTime())
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, includeRead = false): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId && (includeRead || !notification.readAt))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const notification: Notification = {
+      ...insertNotification,
+      id: randomUUID(),
+      partnerId: insertNotification.partnerId ?? null,
+      licenseId: insertNotification.licenseId ?? null,
+      createdAt: new Date(),
+      readAt: null,
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<Notification> {
+    const existing = this.notifications.get(id);
+    if (!existing) {
+      throw new Error("Notification not found");
+    }
+
+    const updated: Notification = { ...existing, ...updates, id };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  // Indexer methods
+  async getIndexerState(id: string): Promise<IndexerState | undefined> {
+    return this.indexerStates.get(id);
+  }
+
+  async saveIndexerState(state: Omit<IndexerState, "updatedAt">): Promise<IndexerState> {
+    const saved: IndexerState = { ...state, updatedAt: new Date() };
+    this.indexerStates.set(state.id, saved);
+    return saved;
+  }
+
   // Dashboard stats
   async getDashboardStats(): Promise<{
     totalBatches: number;
@@ -161,4 +977,736 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new MemoryStore({ checkPeriod: 86400000 });
+  }
+
+  async transaction<T>(run: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => run(new DbStorage(tx, this.sessionStore)));
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.walletAddress}) = ${walletAddress.toLowerCase()}`);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await this.db
+      .update(users)
+      .set(changes)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("User not found");
+    }
+
+    return updated;
+  }
+
+  // Drug batch methods
+  async getDrugBatches(limit: number = 10, offset: number = 0): Promise<DrugBatch[]> {
+    return this.db
+      .select()
+      .from(drugBatches)
+      .orderBy(desc(drugBatches.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getDrugBatchById(id: string): Promise<DrugBatch | undefined> {
+    const [batch] = await this.db.select().from(drugBatches).where(eq(drugBatches.id, id));
+    return batch;
+  }
+
+  async getDrugBatchByBatchId(batchId: string): Promise<DrugBatch | undefined> {
+    const [batch] = await this.db.select().from(drugBatches).where(eq(drugBatches.batchId, batchId));
+    return batch;
+  }
+
+  async getDrugBatchByTokenId(tokenId: number): Promise<DrugBatch | undefined> {
+    const [batch] = await this.db.select().from(drugBatches).where(eq(drugBatches.tokenId, tokenId));
+    return batch;
+  }
+
+  async getDrugBatchesByOwner(ownerAddress: string): Promise<DrugBatch[]> {
+    return this.db
+      .select()
+      .from(drugBatches)
+      .where(sql`lower(${drugBatches.currentOwnerAddress}) = ${ownerAddress.toLowerCase()}`)
+      .orderBy(desc(drugBatches.createdAt));
+  }
+
+  async getDrugBatchesByDrugName(drugName: string): Promise<DrugBatch[]> {
+    return this.db
+      .select()
+      .from(drugBatches)
+      .where(eq(drugBatches.drugName, drugName))
+      .orderBy(asc(drugBatches.batchId));
+  }
+
+  async getDrugBatchesExpiringBefore(date: Date): Promise<DrugBatch[]> {
+    return this.db
+      .select()
+      .from(drugBatches)
+      .where(and(lte(drugBatches.expiryDate, date), inArray(drugBatches.status, [...branchTransitions.expire.from])))
+      .orderBy(asc(drugBatches.expiryDate));
+  }
+
+  async createDrugBatch(insertDrugBatch: InsertDrugBatch): Promise<DrugBatch> {
+    const [drugBatch] = await this.db
+      .insert(drugBatches)
+      .values({
+        ...insertDrugBatch,
+        manufacturingDate: new Date(insertDrugBatch.manufacturingDate),
+        expiryDate: new Date(insertDrugBatch.expiryDate),
+      })
+      .returning();
+    return drugBatch;
+  }
+
+  async updateDrugBatch(id: string, updates: Partial<DrugBatch>): Promise<DrugBatch> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await this.db
+      .update(drugBatches)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(drugBatches.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Drug batch not found");
+    }
+
+    return updated;
+  }
+
+  async deleteDrugBatch(id: string): Promise<void> {
+    await this.db.delete(drugBatches).where(eq(drugBatches.id, id));
+  }
+
+  // Supply chain event methods
+  async getSupplyChainEventsByBatchId(batchId: string): Promise<SupplyChainEvent[]> {
+    return this.db
+      .select()
+      .from(supplyChainEvents)
+      .where(eq(supplyChainEvents.batchId, batchId))
+      .orderBy(asc(supplyChainEvents.timestamp));
+  }
+
+  async getSupplyChainEvents(filter: { batchId?: string; from?: Date; to?: Date }): Promise<SupplyChainEvent[]> {
+    return this.db
+      .select()
+      .from(supplyChainEvents)
+      .where(and(
+        filter.batchId ? eq(supplyChainEvents.batchId, filter.batchId) : undefined,
+        filter.from ? gte(supplyChainEvents.timestamp, filter.from) : undefined,
+        filter.to ? lte(supplyChainEvents.timestamp, filter.to) : undefined,
+      ))
+      .orderBy(asc(supplyChainEvents.timestamp));
+  }
+
+  async getSupplyChainEventByTransactionHash(batchId: string, transactionHash: string): Promise<SupplyChainEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(supplyChainEvents)
+      .where(and(
+        eq(supplyChainEvents.batchId, batchId),
+        sql`lower(${supplyChainEvents.transactionHash}) = ${transactionHash.toLowerCase()}`,
+      ));
+    return event;
+  }
+
+  async createSupplyChainEvent(insertEvent: InsertSupplyChainEvent): Promise<SupplyChainEvent> {
+    const [event] = await this.db.insert(supplyChainEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async updateSupplyChainEvent(id: string, updates: Partial<SupplyChainEvent>): Promise<SupplyChainEvent> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(supplyChainEvents)
+      .set(changes)
+      .where(eq(supplyChainEvents.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Supply chain event not found");
+    }
+
+    return updated;
+  }
+
+  async deleteSupplyChainEventsAfterBlock(blockNumber: number): Promise<SupplyChainEvent[]> {
+    return this.db
+      .delete(supplyChainEvents)
+      .where(gt(supplyChainEvents.blockNumber, blockNumber))
+      .returning();
+  }
+
+  // Imported EPCIS event methods
+  async getImportedEventsByBatchId(batchId: string): Promise<ImportedEvent[]> {
+    return this.db
+      .select()
+      .from(importedEvents)
+      .where(eq(importedEvents.batchId, batchId))
+      .orderBy(asc(importedEvents.timestamp));
+  }
+
+  async createImportedEvent(insertEvent: InsertImportedEvent): Promise<ImportedEvent> {
+    const [event] = await this.db.insert(importedEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  // Serialized unit methods
+  async getSerializedUnit(serialNumber: string): Promise<SerializedUnit | undefined> {
+    const [unit] = await this.db.select().from(serializedUnits).where(eq(serializedUnits.serialNumber, serialNumber));
+    return unit;
+  }
+
+  async getSerializedUnitsByBatchId(batchId: string, limit = 50, offset = 0): Promise<SerializedUnit[]> {
+    return this.db
+      .select()
+      .from(serializedUnits)
+      .where(eq(serializedUnits.batchId, batchId))
+      .orderBy(asc(serializedUnits.serialNumber))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countSerializedUnits(batchId: string): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(serializedUnits)
+      .where(eq(serializedUnits.batchId, batchId));
+    return count;
+  }
+
+  async createSerializedUnits(insertUnits: InsertSerializedUnit[]): Promise<SerializedUnit[]> {
+    // Chunked to stay under Postgres' bind parameter limit, in one transaction
+    // so a failed chunk leaves none of the units behind
+    return this.db.transaction(async (tx) => {
+      const created: SerializedUnit[] = [];
+      for (let i = 0; i < insertUnits.length; i += 1000) {
+        created.push(...await tx.insert(serializedUnits).values(insertUnits.slice(i, i + 1000)).returning());
+      }
+      return created;
+    });
+  }
+
+  async recordSerializedUnitScan(id: string, location: string, scannedAt: Date): Promise<SerializedUnit> {
+    const [updated] = await this.db
+      .update(serializedUnits)
+      .set({
+        scanCount: sql`${serializedUnits.scanCount} + 1`,
+        firstScannedAt: sql`coalesce(${serializedUnits.firstScannedAt}, ${scannedAt})`,
+        firstScanLocation: sql`case when ${serializedUnits.firstScannedAt} is null then ${location} else ${serializedUnits.firstScanLocation} end`,
+        lastScannedAt: scannedAt,
+        lastScanLocation: location,
+      })
+      .where(eq(serializedUnits.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Serialized unit not found");
+    }
+
+    return updated;
+  }
+
+  // Scan monitoring methods
+  async createScanEvent(insertEvent: InsertScanEvent): Promise<ScanEvent> {
+    const [event] = await this.db.insert(scanEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getScanEventsByBatchId(batchId: string, since?: Date): Promise<ScanEvent[]> {
+    return this.db
+      .select()
+      .from(scanEvents)
+      .where(and(eq(scanEvents.batchId, batchId), since ? gte(scanEvents.scannedAt, since) : undefined))
+      .orderBy(asc(scanEvents.scannedAt));
+  }
+
+  async getScanAlerts(includeResolved = false, limit = 50, offset = 0, manufacturerAddress?: string): Promise<ScanAlert[]> {
+    return this.db
+      .select()
+      .from(scanAlerts)
+      .where(and(
+        includeResolved ? undefined : isNull(scanAlerts.resolvedAt),
+        manufacturerAddress ? sql`lower(${scanAlerts.manufacturerAddress}) = ${manufacturerAddress.toLowerCase()}` : undefined,
+      ))
+      .orderBy(desc(scanAlerts.lastDetectedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getScanAlertById(id: string): Promise<ScanAlert | undefined> {
+    const [alert] = await this.db.select().from(scanAlerts).where(eq(scanAlerts.id, id));
+    return alert;
+  }
+
+  async getOpenScanAlert(batchId: string, rule: ScanAlertRule): Promise<ScanAlert | undefined> {
+    const [alert] = await this.db
+      .select()
+      .from(scanAlerts)
+      .where(and(eq(scanAlerts.batchId, batchId), eq(scanAlerts.rule, rule), isNull(scanAlerts.resolvedAt)));
+    return alert;
+  }
+
+  async createScanAlert(insertAlert: InsertScanAlert): Promise<ScanAlert> {
+    const [alert] = await this.db.insert(scanAlerts).values(insertAlert).returning();
+    return alert;
+  }
+
+  async updateScanAlert(id: string, updates: Partial<ScanAlert>): Promise<ScanAlert> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(scanAlerts)
+      .set(changes)
+      .where(eq(scanAlerts.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Scan alert not found");
+    }
+
+    return updated;
+  }
+
+  // DSCSA transaction document methods
+  async getTransactionDocumentByEventId(eventId: string): Promise<TransactionDocument | undefined> {
+    const [document] = await this.db.select().from(transactionDocuments).where(eq(transactionDocuments.eventId, eventId));
+    return document;
+  }
+
+  async createTransactionDocument(insertDocument: InsertTransactionDocument): Promise<TransactionDocument> {
+    const [document] = await this.db.insert(transactionDocuments).values(insertDocument).returning();
+    return document;
+  }
+
+  async updateTransactionDocument(id: string, updates: Partial<TransactionDocument>): Promise<TransactionDocument> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(transactionDocuments)
+      .set(changes)
+      .where(eq(transactionDocuments.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Transaction document not found");
+    }
+
+    return updated;
+  }
+
+  // Transfer handshake methods
+  async getTransferById(id: string): Promise<Transfer | undefined> {
+    const [transfer] = await this.db.select().from(transfers).where(eq(transfers.id, id));
+    return transfer;
+  }
+
+  async getPendingTransferByBatchId(batchId: string): Promise<Transfer | undefined> {
+    const [transfer] = await this.db
+      .select()
+      .from(transfers)
+      .where(and(eq(transfers.batchId, batchId), eq(transfers.status, "pending")));
+    return transfer;
+  }
+
+  async getTransfersByAddress(address: string, direction: "incoming" | "outgoing", status?: TransferStatus): Promise<Transfer[]> {
+    const party = direction === "incoming" ? transfers.toOwnerAddress : transfers.fromOwnerAddress;
+    return this.db
+      .select()
+      .from(transfers)
+      .where(and(sql`lower(${party}) = ${address.toLowerCase()}`, status ? eq(transfers.status, status) : undefined))
+      .orderBy(desc(transfers.initiatedAt));
+  }
+
+  async getPendingTransfersDueBefore(date: Date): Promise<Transfer[]> {
+    return this.db
+      .select()
+      .from(transfers)
+      .where(and(eq(transfers.status, "pending"), lte(transfers.deadline, date)))
+      .orderBy(asc(transfers.deadline));
+  }
+
+  async createTransfer(insertTransfer: InsertTransfer): Promise<Transfer | undefined> {
+    // transfers_pending_batch_id_idx allows one pending transfer per batch
+    const [transfer] = await this.db.insert(transfers).values(insertTransfer).onConflictDoNothing().returning();
+    return transfer;
+  }
+
+  async updateTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(transfers)
+      .set(changes)
+      .where(eq(transfers.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Transfer not found");
+    }
+
+    return updated;
+  }
+
+  async resolveTransfer(id: string, updates: Partial<Transfer>): Promise<Transfer | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [resolved] = await this.db
+      .update(transfers)
+      .set(changes)
+      .where(and(eq(transfers.id, id), eq(transfers.status, "pending")))
+      .returning();
+    return resolved;
+  }
+
+  async deleteTransfersAfterBlock(blockNumber: number): Promise<Transfer[]> {
+    return this.db
+      .delete(transfers)
+      .where(gt(transfers.blockNumber, blockNumber))
+      .returning();
+  }
+
+  async reopenTransfersResolvedAfterBlock(blockNumber: number): Promise<Transfer[]> {
+    return this.db
+      .update(transfers)
+      .set(reopenedTransfer)
+      .where(gt(transfers.resolutionBlockNumber, blockNumber))
+      .returning();
+  }
+
+  // Lot lineage methods
+  async getBatchLineageByParent(parentBatchId: string): Promise<BatchLineage[]> {
+    return this.db
+      .select()
+      .from(batchLineage)
+      .where(eq(batchLineage.parentBatchId, parentBatchId))
+      .orderBy(asc(batchLineage.createdAt));
+  }
+
+  async getBatchLineageByChild(childBatchId: string): Promise<BatchLineage[]> {
+    return this.db
+      .select()
+      .from(batchLineage)
+      .where(eq(batchLineage.childBatchId, childBatchId))
+      .orderBy(asc(batchLineage.createdAt));
+  }
+
+  async createBatchLineage(insertEdge: InsertBatchLineage): Promise<BatchLineage> {
+    const [edge] = await this.db.insert(batchLineage).values(insertEdge).returning();
+    return edge;
+  }
+
+  async deleteBatchLineageAfterBlock(blockNumber: number): Promise<BatchLineage[]> {
+    const removed = await this.db
+      .delete(batchLineage)
+      .where(gt(batchLineage.blockNumber, blockNumber))
+      .returning();
+    return removed.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Cold-chain methods
+  async getStorageCondition(drugName: string): Promise<StorageCondition | undefined> {
+    const [condition] = await this.db.select().from(storageConditions).where(eq(storageConditions.drugName, drugName));
+    return condition;
+  }
+
+  async getStorageConditions(): Promise<StorageCondition[]> {
+    return this.db.select().from(storageConditions).orderBy(asc(storageConditions.drugName));
+  }
+
+  async saveStorageCondition(condition: InsertStorageCondition): Promise<StorageCondition> {
+    const limits = {
+      minTemperature: condition.minTemperature,
+      maxTemperature: condition.maxTemperature,
+      minHumidity: condition.minHumidity ?? null,
+      maxHumidity: condition.maxHumidity ?? null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await this.db
+      .insert(storageConditions)
+      .values({ drugName: condition.drugName, ...limits })
+      .onConflictDoUpdate({ target: storageConditions.drugName, set: limits })
+      .returning();
+    return saved;
+  }
+
+  async createTelemetryReadings(insertReadings: InsertTelemetryReading[]): Promise<TelemetryReading[]> {
+    if (insertReadings.length === 0) {
+      return [];
+    }
+    return this.db.insert(telemetryReadings).values(insertReadings).returning();
+  }
+
+  async getTelemetryReadingsByBatchId(batchId: string, since?: Date): Promise<TelemetryReading[]> {
+    return this.db
+      .select()
+      .from(telemetryReadings)
+      .where(and(eq(telemetryReadings.batchId, batchId), since ? gte(telemetryReadings.recordedAt, since) : undefined))
+      .orderBy(asc(telemetryReadings.recordedAt));
+  }
+
+  async getExcursionsByBatchId(batchId: string): Promise<Excursion[]> {
+    return this.db
+      .select()
+      .from(excursions)
+      .where(eq(excursions.batchId, batchId))
+      .orderBy(desc(excursions.startedAt));
+  }
+
+  async getOpenExcursion(batchId: string, kind: ExcursionKind): Promise<Excursion | undefined> {
+    const [excursion] = await this.db
+      .select()
+      .from(excursions)
+      .where(and(eq(excursions.batchId, batchId), eq(excursions.kind, kind), isNull(excursions.endedAt)));
+    return excursion;
+  }
+
+  async createExcursion(insertExcursion: InsertExcursion): Promise<Excursion> {
+    const [excursion] = await this.db.insert(excursions).values(insertExcursion).returning();
+    return excursion;
+  }
+
+  async updateExcursion(id: string, updates: Partial<Excursion>): Promise<Excursion> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(excursions)
+      .set(changes)
+      .where(eq(excursions.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Excursion not found");
+    }
+
+    return updated;
+  }
+
+  // Trading partner registry methods
+  async getTradingPartner(id: string): Promise<TradingPartner | undefined> {
+    const [partner] = await this.db.select().from(tradingPartners).where(eq(tradingPartners.id, id));
+    return partner;
+  }
+
+  async getTradingPartners(filter: { verificationStatus?: PartnerVerificationStatus; role?: string; gln?: string } = {}): Promise<TradingPartner[]> {
+    return this.db
+      .select()
+      .from(tradingPartners)
+      .where(and(
+        filter.verificationStatus ? eq(tradingPartners.verificationStatus, filter.verificationStatus) : undefined,
+        filter.role ? eq(tradingPartners.role, filter.role) : undefined,
+        filter.gln ? eq(tradingPartners.gln, filter.gln) : undefined,
+      ))
+      .orderBy(asc(tradingPartners.legalName));
+  }
+
+  async getTradingPartnerByWalletAddress(address: string): Promise<TradingPartner | undefined> {
+    const [partner] = await this.db
+      .select()
+      .from(tradingPartners)
+      .where(arrayContains(tradingPartners.walletAddresses, [address.toLowerCase()]));
+    return partner;
+  }
+
+  async createTradingPartner(insertPartner: InsertTradingPartner & { createdBy?: string | null }): Promise<TradingPartner> {
+    const [partner] = await this.db.insert(tradingPartners).values(insertPartner).returning();
+    return partner;
+  }
+
+  async updateTradingPartner(id: string, updates: Partial<TradingPartner>): Promise<TradingPartner> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(tradingPartners)
+      .set(changes)
+      .where(eq(tradingPartners.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Trading partner not found");
+    }
+
+    return updated;
+  }
+
+  async deleteTradingPartner(id: string): Promise<boolean> {
+    await this.db.delete(partnerLicenses).where(eq(partnerLicenses.partnerId, id));
+    const deleted = await this.db.delete(tradingPartners).where(eq(tradingPartners.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Partner license methods
+  async getPartnerLicense(id: string): Promise<PartnerLicense | undefined> {
+    const [license] = await this.db.select().from(partnerLicenses).where(eq(partnerLicenses.id, id));
+    return license;
+  }
+
+  async getPartnerLicenses(partnerId: string): Promise<PartnerLicense[]> {
+    return this.db
+      .select()
+      .from(partnerLicenses)
+      .where(eq(partnerLicenses.partnerId, partnerId))
+      .orderBy(desc(partnerLicenses.expiresAt));
+  }
+
+  async createPartnerLicense(insertLicense: InsertPartnerLicense & { partnerId: string }): Promise<PartnerLicense> {
+    const [license] = await this.db.insert(partnerLicenses).values(insertLicense).returning();
+    return license;
+  }
+
+  async updatePartnerLicense(id: string, updates: Partial<PartnerLicense>): Promise<PartnerLicense> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(partnerLicenses)
+      .set(changes)
+      .where(eq(partnerLicenses.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Partner license not found");
+    }
+
+    return updated;
+  }
+
+  async getPartnerLicensesExpiringBefore(date: Date): Promise<PartnerLicense[]> {
+    return this.db
+      .select()
+      .from(partnerLicenses)
+      .where(and(
+        isNull(partnerLicenses.revokedAt),
+        isNull(partnerLicenses.expiryNotifiedAt),
+        lte(partnerLicenses.expiresAt, date),
+      ))
+      .orderBy(asc(partnerLicenses.expiresAt));
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, includeRead = false): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        includeRead ? undefined : isNull(notifications.readAt),
+      ))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<Notification> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(notifications)
+      .set(changes)
+      .where(eq(notifications.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Notification not found");
+    }
+
+    return updated;
+  }
+
+  // Indexer methods
+  async getIndexerState(id: string): Promise<IndexerState | undefined> {
+    const [state] = await this.db.select().from(indexerState).where(eq(indexerState.id, id));
+    return state;
+  }
+
+  async saveIndexerState(state: Omit<IndexerState, "updatedAt">): Promise<IndexerState> {
+    const [saved] = await this.db
+      .insert(indexerState)
+      .values({ ...state, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: indexerState.id,
+        set: {
+          lastProcessedBlock: state.lastProcessedBlock,
+          lastProcessedBlockHash: state.lastProcessedBlockHash,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Dashboard stats
+  async getDashboardStats(): Promise<{
+    totalBatches: number;
+    activeTransfers: number;
+    verifiedDrugs: number;
+    gasUsed: string;
+  }> {
+    const [totals] = await this.db
+      .select({
+        totalBatches: sql<number>`count(*)::int`,
+        activeTransfers: sql<number>`count(*) filter (where ${eq(drugBatches.status, "in_transit")})::int`,
+        verifiedDrugs: sql<number>`count(*) filter (where ${ne(drugBatches.status, "expired")})::int`,
+      })
+      .from(drugBatches);
+
+    return {
+      ...totals,
+      gasUsed: "0.0234", // Mock value for gas usage
+    };
+  }
+}
+
+// Postgres is used whenever DATABASE_URL is set; STORAGE_DRIVER=memory forces
+// the in-memory store (e.g. for local development against a provisioned DB).
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = createPool(process.env.DATABASE_URL);
+  return new DbStorage(
+    createDb(pool),
+    new PostgresSessionStore({ pool, createTableIfMissing: true }),
+  );
+}
+
+export const storage = createStorage();
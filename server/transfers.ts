@@ -0,0 +1,182 @@
+import type { DrugBatch, EventLocation, SupplyChainEvent, TransactionDocument, Transfer } from "@shared/schema";
+import { isShipmentEventType, shipmentTransitions } from "@shared/supply-chain";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { recordT3Document } from "./dscsa";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a recipient has to accept a shipment, from TRANSFER_TIMEOUT_DAYS
+// (default 14). Keep it in line with the contract's `transferTimeout`.
+export function transferDeadline(now = new Date()): Date {
+  const days = parseFloat(process.env.TRANSFER_TIMEOUT_DAYS || "14");
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+// Status of a batch once its recipient has confirmed receipt. Shipments made
+// straight against the contract may carry any event type; those count as
+// received.
+export function receivedStatus(eventType: string): string {
+  return isShipmentEventType(eventType) ? shipmentTransitions[eventType].to : "received";
+}
+
+// Ships `batch` to a new owner. The batch stays with its current owner, in
+// transit, until the recipient accepts. A transfer always moves the whole
+// batch; to ship part of one, split it first and ship the sub-lot. `location`
+// is the facility it is going to. Null when the batch already has a pending
+// transfer.
+export async function initiateTransfer(
+  batch: DrugBatch,
+  shipment: {
+    toOwner: string;
+    toOwnerAddress: string;
+    eventType: string;
+    partnerId?: string | null;
+    location?: EventLocation;
+    transactionHash?: string;
+    blockNumber?: number;
+    deadline?: Date;
+    initiatedAt?: Date;
+  },
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; transfer: Transfer } | null> {
+  const initiatedAt = shipment.initiatedAt ?? new Date();
+
+  return storage.transaction(async (storage) => {
+    const transfer = await storage.createTransfer({
+      batchId: batch.batchId,
+      fromOwner: batch.currentOwner,
+      fromOwnerAddress: batch.currentOwnerAddress,
+      toOwner: shipment.toOwner,
+      toOwnerAddress: shipment.toOwnerAddress,
+      eventType: shipment.eventType,
+      quantity: batch.quantity,
+      partnerId: shipment.partnerId,
+      ...shipment.location,
+      previousStatus: batch.status,
+      transactionHash: shipment.transactionHash,
+      blockNumber: shipment.blockNumber,
+      deadline: shipment.deadline ?? transferDeadline(initiatedAt),
+      initiatedAt,
+    });
+    if (!transfer) return null;
+
+    const drugBatch = await storage.updateDrugBatch(batch.id, { status: "in_transit", updatedAt: new Date() });
+    return { drugBatch, transfer };
+  });
+}
+
+// The recipient confirmed receipt: hands the batch over, records the
+// transfer event at the shipment's destination and generates its T3 document.
+// Null when the transfer was resolved in the meantime.
+export async function acceptTransfer(
+  transfer: Transfer,
+  batch: DrugBatch,
+  receipt: { transactionHash?: string; blockNumber?: number; timestamp?: Date } = {},
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; transfer: Transfer; event: SupplyChainEvent; t3Document: TransactionDocument } | null> {
+  const acceptedAt = receipt.timestamp ?? new Date();
+
+  return storage.transaction(async (storage) => {
+    const accepted = await storage.resolveTransfer(transfer.id, {
+      status: "accepted",
+      resolutionTransactionHash: receipt.transactionHash ?? null,
+      resolutionBlockNumber: receipt.blockNumber ?? null,
+      resolvedAt: acceptedAt,
+    });
+    if (!accepted) return null;
+
+    const drugBatch = await storage.updateDrugBatch(batch.id, {
+      currentOwner: transfer.toOwner,
+      currentOwnerAddress: transfer.toOwnerAddress,
+      status: receivedStatus(transfer.eventType),
+      updatedAt: new Date(),
+    });
+
+    const event = await storage.createSupplyChainEvent({
+      batchId: batch.batchId,
+      fromOwner: transfer.fromOwner,
+      toOwner: transfer.toOwner,
+      fromOwnerAddress: transfer.fromOwnerAddress,
+      toOwnerAddress: transfer.toOwnerAddress,
+      eventType: transfer.eventType,
+      quantity: transfer.quantity,
+      facilityId: transfer.facilityId,
+      latitude: transfer.latitude,
+      longitude: transfer.longitude,
+      country: transfer.country,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      timestamp: acceptedAt,
+    });
+
+    // DSCSA Transaction Information, History and Statement for the buyer
+    const t3Document = await recordT3Document(batch, event, storage);
+
+    return { drugBatch, transfer: accepted, event, t3Document };
+  });
+}
+
+// Ends a transfer without handing the batch over. The batch gets its status
+// from before the shipment back unless a recall or expiry replaced it. Null
+// when the transfer was resolved in the meantime.
+export async function closeTransfer(
+  transfer: Transfer,
+  batch: DrugBatch,
+  outcome: { status: "rejected" | "expired"; reason?: string; transactionHash?: string; blockNumber?: number; timestamp?: Date },
+  storage: IStorage = defaultStorage,
+): Promise<{ drugBatch: DrugBatch; transfer: Transfer } | null> {
+  return storage.transaction(async (storage) => {
+    const closed = await storage.resolveTransfer(transfer.id, {
+      status: outcome.status,
+      rejectionReason: outcome.reason ?? null,
+      resolutionTransactionHash: outcome.transactionHash ?? null,
+      resolutionBlockNumber: outcome.blockNumber ?? null,
+      resolvedAt: outcome.timestamp ?? new Date(),
+    });
+    if (!closed) return null;
+
+    const drugBatch = batch.status === "in_transit"
+      ? await storage.updateDrugBatch(batch.id, { status: transfer.previousStatus, updatedAt: new Date() })
+      : batch;
+
+    return { drugBatch, transfer: closed };
+  });
+}
+
+// Closes every pending transfer whose recipient let the deadline pass
+export async function expireTransfers(now = new Date(), storage: IStorage = defaultStorage): Promise<Transfer[]> {
+  const expired: Transfer[] = [];
+
+  for (const transfer of await storage.getPendingTransfersDueBefore(now)) {
+    const batch = await storage.getDrugBatchByBatchId(transfer.batchId);
+    if (!batch) continue;
+
+    const result = await closeTransfer(transfer, batch, { status: "expired", timestamp: now }, storage);
+    if (result) expired.push(result.transfer);
+  }
+
+  return expired;
+}
+
+// Runs `expireTransfers` at startup and every TRANSFER_CHECK_INTERVAL_MINUTES
+// (default 60; 0 turns it off)
+export function startTransferTimeoutJobFromEnv(log: (message: string) => void): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.TRANSFER_CHECK_INTERVAL_MINUTES || "60", 10);
+  if (!minutes) {
+    return null;
+  }
+
+  const run = async () => {
+    try {
+      const expired = await expireTransfers();
+      if (expired.length > 0) {
+        log(`timed out ${expired.length} unacknowledged transfers`);
+      }
+    } catch (error) {
+      log(`transfer timeout check failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  run();
+  return setInterval(run, minutes * 60 * 1000);
+}
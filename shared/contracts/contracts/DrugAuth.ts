@@ -0,0 +1,1751 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace DrugAuth {
+  export type TransferEventStruct = {
+    from: AddressLike;
+    to: AddressLike;
+    timestamp: BigNumberish;
+    eventType: string;
+  };
+
+  export type TransferEventStructOutput = [
+    from: string,
+    to: string,
+    timestamp: bigint,
+    eventType: string
+  ] & { from: string; to: string; timestamp: bigint; eventType: string };
+
+  export type DrugStruct = {
+    batchId: string;
+    drugName: string;
+    manufacturer: string;
+    expiryDate: BigNumberish;
+    ipfsHash: string;
+    currentOwner: AddressLike;
+    timestamp: BigNumberish;
+    isActive: boolean;
+    quantity: BigNumberish;
+  };
+
+  export type DrugStructOutput = [
+    batchId: string,
+    drugName: string,
+    manufacturer: string,
+    expiryDate: bigint,
+    ipfsHash: string,
+    currentOwner: string,
+    timestamp: bigint,
+    isActive: boolean,
+    quantity: bigint
+  ] & {
+    batchId: string;
+    drugName: string;
+    manufacturer: string;
+    expiryDate: bigint;
+    ipfsHash: string;
+    currentOwner: string;
+    timestamp: bigint;
+    isActive: boolean;
+    quantity: bigint;
+  };
+}
+
+export interface DrugAuthInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "acceptTransfer"
+      | "approve"
+      | "assignRole"
+      | "balanceOf"
+      | "batchIdToTokenId"
+      | "cancelTransfer"
+      | "deactivateDrug"
+      | "drugHistory"
+      | "drugs"
+      | "getApproved"
+      | "getChildTokens"
+      | "getDrugHistory"
+      | "getDrugsByOwner"
+      | "getParentTokens"
+      | "getUserRole"
+      | "hasValidLicense"
+      | "initiatePartialTransfer"
+      | "initiateTransfer"
+      | "isApprovedForAll"
+      | "issueLicense"
+      | "licenses"
+      | "mergeDrugs"
+      | "name"
+      | "owner"
+      | "ownerOf"
+      | "pendingTransfers"
+      | "recallDrug"
+      | "recallDrugs"
+      | "recallReasons"
+      | "registerDrug"
+      | "rejectTransfer"
+      | "renounceOwnership"
+      | "revokeLicense"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "setTransferTimeout"
+      | "splitDrug"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenByIndex"
+      | "tokenManufacturer"
+      | "tokenOfOwnerByIndex"
+      | "tokenURI"
+      | "totalDrugs"
+      | "totalSupply"
+      | "transferFrom"
+      | "transferOwnership"
+      | "transferTimeout"
+      | "userRoles"
+      | "verifyDrug"
+      | "verifyDrugByBatchId"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Approval"
+      | "ApprovalForAll"
+      | "DrugRecalled"
+      | "DrugRegistered"
+      | "DrugSplit"
+      | "DrugsMerged"
+      | "LicenseIssued"
+      | "LicenseRevoked"
+      | "OwnershipTransferred(address,address)"
+      | "OwnershipTransferred(uint256,address,address,string)"
+      | "RoleAssigned"
+      | "Transfer"
+      | "TransferCancelled"
+      | "TransferInitiated"
+      | "TransferRejected"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptTransfer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignRole",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchIdToTokenId",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTransfer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateDrug",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "drugHistory",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "drugs", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChildTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDrugHistory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDrugsByOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getParentTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserRole",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasValidLicense",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initiatePartialTransfer",
+    values: [BigNumberish, string, BigNumberish, AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initiateTransfer",
+    values: [BigNumberish, AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "issueLicense",
+    values: [AddressLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "licenses",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mergeDrugs",
+    values: [BigNumberish[], string]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingTransfers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recallDrug",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recallDrugs",
+    values: [BigNumberish[], string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recallReasons",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerDrug",
+    values: [string, string, string, BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectTransfer",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeLicense",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTransferTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "splitDrug",
+    values: [BigNumberish, string[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenByIndex",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenManufacturer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenOfOwnerByIndex",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalDrugs",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userRoles",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyDrug",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyDrugByBatchId",
+    values: [string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "assignRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchIdToTokenId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateDrug",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "drugHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "drugs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChildTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDrugHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDrugsByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getParentTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasValidLicense",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "initiatePartialTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "initiateTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "issueLicense",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "licenses", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mergeDrugs", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingTransfers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "recallDrug", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recallDrugs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recallReasons",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerDrug",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeLicense",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTransferTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "splitDrug", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenManufacturer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenOfOwnerByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "totalDrugs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userRoles", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "verifyDrug", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyDrugByBatchId",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    approved: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
+  export interface OutputObject {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrugRecalledEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    recalledBy: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    recalledBy: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    recalledBy: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrugRegisteredEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    batchId: string,
+    owner: AddressLike,
+    drugName: string,
+    manufacturer: string
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    batchId: string,
+    owner: string,
+    drugName: string,
+    manufacturer: string
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    batchId: string;
+    owner: string;
+    drugName: string;
+    manufacturer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrugSplitEvent {
+  export type InputTuple = [
+    parentTokenId: BigNumberish,
+    childTokenId: BigNumberish,
+    childBatchId: string,
+    quantity: BigNumberish
+  ];
+  export type OutputTuple = [
+    parentTokenId: bigint,
+    childTokenId: bigint,
+    childBatchId: string,
+    quantity: bigint
+  ];
+  export interface OutputObject {
+    parentTokenId: bigint;
+    childTokenId: bigint;
+    childBatchId: string;
+    quantity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrugsMergedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    sourceTokenIds: BigNumberish[],
+    batchId: string,
+    quantity: BigNumberish
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    sourceTokenIds: bigint[],
+    batchId: string,
+    quantity: bigint
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    sourceTokenIds: bigint[];
+    batchId: string;
+    quantity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LicenseIssuedEvent {
+  export type InputTuple = [
+    holder: AddressLike,
+    licenseNumber: string,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    holder: string,
+    licenseNumber: string,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    holder: string;
+    licenseNumber: string;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LicenseRevokedEvent {
+  export type InputTuple = [holder: AddressLike, licenseNumber: string];
+  export type OutputTuple = [holder: string, licenseNumber: string];
+  export interface OutputObject {
+    holder: string;
+    licenseNumber: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferred_address_address_Event {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferred_uint256_address_address_string_Event {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    eventType: string
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    from: string,
+    to: string,
+    eventType: string
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    from: string;
+    to: string;
+    eventType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleAssignedEvent {
+  export type InputTuple = [user: AddressLike, role: string];
+  export type OutputTuple = [user: string, role: string];
+  export interface OutputObject {
+    user: string;
+    role: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferCancelledEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike
+  ];
+  export type OutputTuple = [tokenId: bigint, from: string, to: string];
+  export interface OutputObject {
+    tokenId: bigint;
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferInitiatedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    eventType: string,
+    deadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    from: string,
+    to: string,
+    eventType: string,
+    deadline: bigint
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    from: string;
+    to: string;
+    eventType: string;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferRejectedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    from: string,
+    to: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    from: string;
+    to: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DrugAuth extends BaseContract {
+  connect(runner?: ContractRunner | null): DrugAuth;
+  waitForDeployment(): Promise<this>;
+
+  interface: DrugAuthInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  acceptTransfer: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  assignRole: TypedContractMethod<
+    [user: AddressLike, role: string],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  batchIdToTokenId: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  cancelTransfer: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  deactivateDrug: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  drugHistory: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, string] & {
+        from: string;
+        to: string;
+        timestamp: bigint;
+        eventType: string;
+      }
+    ],
+    "view"
+  >;
+
+  drugs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint
+      ] & {
+        batchId: string;
+        drugName: string;
+        manufacturer: string;
+        expiryDate: bigint;
+        ipfsHash: string;
+        currentOwner: string;
+        timestamp: bigint;
+        isActive: boolean;
+        quantity: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getChildTokens: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getDrugHistory: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [DrugAuth.TransferEventStructOutput[]],
+    "view"
+  >;
+
+  getDrugsByOwner: TypedContractMethod<
+    [owner: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getParentTokens: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getUserRole: TypedContractMethod<[user: AddressLike], [string], "view">;
+
+  hasValidLicense: TypedContractMethod<
+    [holder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  initiatePartialTransfer: TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      childBatchId: string,
+      quantity: BigNumberish,
+      to: AddressLike,
+      eventType: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  initiateTransfer: TypedContractMethod<
+    [tokenId: BigNumberish, to: AddressLike, eventType: string],
+    [void],
+    "nonpayable"
+  >;
+
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  issueLicense: TypedContractMethod<
+    [holder: AddressLike, licenseNumber: string, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  licenses: TypedContractMethod<
+    [arg0: AddressLike],
+    [[string, bigint] & { licenseNumber: string; expiresAt: bigint }],
+    "view"
+  >;
+
+  mergeDrugs: TypedContractMethod<
+    [tokenIds: BigNumberish[], batchId: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  pendingTransfers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        from: string;
+        to: string;
+        eventType: string;
+        deadline: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  recallDrug: TypedContractMethod<
+    [tokenId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  recallDrugs: TypedContractMethod<
+    [tokenIds: BigNumberish[], reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  recallReasons: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  registerDrug: TypedContractMethod<
+    [
+      batchId: string,
+      drugName: string,
+      manufacturer: string,
+      expiryDate: BigNumberish,
+      ipfsHash: string,
+      quantity: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  rejectTransfer: TypedContractMethod<
+    [tokenId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  revokeLicense: TypedContractMethod<
+    [holder: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setTransferTimeout: TypedContractMethod<
+    [timeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  splitDrug: TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      childBatchIds: string[],
+      childQuantities: BigNumberish[]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenByIndex: TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+
+  tokenManufacturer: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  tokenOfOwnerByIndex: TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  totalDrugs: TypedContractMethod<[], [bigint], "view">;
+
+  totalSupply: TypedContractMethod<[], [bigint], "view">;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  userRoles: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  verifyDrug: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [DrugAuth.DrugStructOutput],
+    "view"
+  >;
+
+  verifyDrugByBatchId: TypedContractMethod<
+    [batchId: string],
+    [DrugAuth.DrugStructOutput],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "acceptTransfer"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "assignRole"
+  ): TypedContractMethod<
+    [user: AddressLike, role: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchIdToTokenId"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelTransfer"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "deactivateDrug"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "drugHistory"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, string] & {
+        from: string;
+        to: string;
+        timestamp: bigint;
+        eventType: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "drugs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint
+      ] & {
+        batchId: string;
+        drugName: string;
+        manufacturer: string;
+        expiryDate: bigint;
+        ipfsHash: string;
+        currentOwner: string;
+        timestamp: bigint;
+        isActive: boolean;
+        quantity: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getChildTokens"
+  ): TypedContractMethod<[tokenId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getDrugHistory"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish],
+    [DrugAuth.TransferEventStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDrugsByOwner"
+  ): TypedContractMethod<[owner: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getParentTokens"
+  ): TypedContractMethod<[tokenId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getUserRole"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "hasValidLicense"
+  ): TypedContractMethod<[holder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "initiatePartialTransfer"
+  ): TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      childBatchId: string,
+      quantity: BigNumberish,
+      to: AddressLike,
+      eventType: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initiateTransfer"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, to: AddressLike, eventType: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "issueLicense"
+  ): TypedContractMethod<
+    [holder: AddressLike, licenseNumber: string, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "licenses"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [[string, bigint] & { licenseNumber: string; expiresAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mergeDrugs"
+  ): TypedContractMethod<
+    [tokenIds: BigNumberish[], batchId: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingTransfers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        from: string;
+        to: string;
+        eventType: string;
+        deadline: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "recallDrug"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recallDrugs"
+  ): TypedContractMethod<
+    [tokenIds: BigNumberish[], reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recallReasons"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerDrug"
+  ): TypedContractMethod<
+    [
+      batchId: string,
+      drugName: string,
+      manufacturer: string,
+      expiryDate: BigNumberish,
+      ipfsHash: string,
+      quantity: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rejectTransfer"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeLicense"
+  ): TypedContractMethod<[holder: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTransferTimeout"
+  ): TypedContractMethod<[timeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "splitDrug"
+  ): TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      childBatchIds: string[],
+      childQuantities: BigNumberish[]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenByIndex"
+  ): TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tokenManufacturer"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenOfOwnerByIndex"
+  ): TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "totalDrugs"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalSupply"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "userRoles"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "verifyDrug"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish],
+    [DrugAuth.DrugStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verifyDrugByBatchId"
+  ): TypedContractMethod<
+    [batchId: string],
+    [DrugAuth.DrugStructOutput],
+    "view"
+  >;
+
+  getEvent(
+    key: "Approval"
+  ): TypedContractEvent<
+    ApprovalEvent.InputTuple,
+    ApprovalEvent.OutputTuple,
+    ApprovalEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrugRecalled"
+  ): TypedContractEvent<
+    DrugRecalledEvent.InputTuple,
+    DrugRecalledEvent.OutputTuple,
+    DrugRecalledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrugRegistered"
+  ): TypedContractEvent<
+    DrugRegisteredEvent.InputTuple,
+    DrugRegisteredEvent.OutputTuple,
+    DrugRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrugSplit"
+  ): TypedContractEvent<
+    DrugSplitEvent.InputTuple,
+    DrugSplitEvent.OutputTuple,
+    DrugSplitEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrugsMerged"
+  ): TypedContractEvent<
+    DrugsMergedEvent.InputTuple,
+    DrugsMergedEvent.OutputTuple,
+    DrugsMergedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LicenseIssued"
+  ): TypedContractEvent<
+    LicenseIssuedEvent.InputTuple,
+    LicenseIssuedEvent.OutputTuple,
+    LicenseIssuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LicenseRevoked"
+  ): TypedContractEvent<
+    LicenseRevokedEvent.InputTuple,
+    LicenseRevokedEvent.OutputTuple,
+    LicenseRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred(address,address)"
+  ): TypedContractEvent<
+    OwnershipTransferred_address_address_Event.InputTuple,
+    OwnershipTransferred_address_address_Event.OutputTuple,
+    OwnershipTransferred_address_address_Event.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred(uint256,address,address,string)"
+  ): TypedContractEvent<
+    OwnershipTransferred_uint256_address_address_string_Event.InputTuple,
+    OwnershipTransferred_uint256_address_address_string_Event.OutputTuple,
+    OwnershipTransferred_uint256_address_address_string_Event.OutputObject
+  >;
+  getEvent(
+    key: "RoleAssigned"
+  ): TypedContractEvent<
+    RoleAssignedEvent.InputTuple,
+    RoleAssignedEvent.OutputTuple,
+    RoleAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferCancelled"
+  ): TypedContractEvent<
+    TransferCancelledEvent.InputTuple,
+    TransferCancelledEvent.OutputTuple,
+    TransferCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferInitiated"
+  ): TypedContractEvent<
+    TransferInitiatedEvent.InputTuple,
+    TransferInitiatedEvent.OutputTuple,
+    TransferInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferRejected"
+  ): TypedContractEvent<
+    TransferRejectedEvent.InputTuple,
+    TransferRejectedEvent.OutputTuple,
+    TransferRejectedEvent.OutputObject
+  >;
+
+  filters: {
+    "Approval(address,address,uint256)": TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+    Approval: TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "DrugRecalled(uint256,address,string)": TypedContractEvent<
+      DrugRecalledEvent.InputTuple,
+      DrugRecalledEvent.OutputTuple,
+      DrugRecalledEvent.OutputObject
+    >;
+    DrugRecalled: TypedContractEvent<
+      DrugRecalledEvent.InputTuple,
+      DrugRecalledEvent.OutputTuple,
+      DrugRecalledEvent.OutputObject
+    >;
+
+    "DrugRegistered(uint256,string,address,string,string)": TypedContractEvent<
+      DrugRegisteredEvent.InputTuple,
+      DrugRegisteredEvent.OutputTuple,
+      DrugRegisteredEvent.OutputObject
+    >;
+    DrugRegistered: TypedContractEvent<
+      DrugRegisteredEvent.InputTuple,
+      DrugRegisteredEvent.OutputTuple,
+      DrugRegisteredEvent.OutputObject
+    >;
+
+    "DrugSplit(uint256,uint256,string,uint256)": TypedContractEvent<
+      DrugSplitEvent.InputTuple,
+      DrugSplitEvent.OutputTuple,
+      DrugSplitEvent.OutputObject
+    >;
+    DrugSplit: TypedContractEvent<
+      DrugSplitEvent.InputTuple,
+      DrugSplitEvent.OutputTuple,
+      DrugSplitEvent.OutputObject
+    >;
+
+    "DrugsMerged(uint256,uint256[],string,uint256)": TypedContractEvent<
+      DrugsMergedEvent.InputTuple,
+      DrugsMergedEvent.OutputTuple,
+      DrugsMergedEvent.OutputObject
+    >;
+    DrugsMerged: TypedContractEvent<
+      DrugsMergedEvent.InputTuple,
+      DrugsMergedEvent.OutputTuple,
+      DrugsMergedEvent.OutputObject
+    >;
+
+    "LicenseIssued(address,string,uint256)": TypedContractEvent<
+      LicenseIssuedEvent.InputTuple,
+      LicenseIssuedEvent.OutputTuple,
+      LicenseIssuedEvent.OutputObject
+    >;
+    LicenseIssued: TypedContractEvent<
+      LicenseIssuedEvent.InputTuple,
+      LicenseIssuedEvent.OutputTuple,
+      LicenseIssuedEvent.OutputObject
+    >;
+
+    "LicenseRevoked(address,string)": TypedContractEvent<
+      LicenseRevokedEvent.InputTuple,
+      LicenseRevokedEvent.OutputTuple,
+      LicenseRevokedEvent.OutputObject
+    >;
+    LicenseRevoked: TypedContractEvent<
+      LicenseRevokedEvent.InputTuple,
+      LicenseRevokedEvent.OutputTuple,
+      LicenseRevokedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferred_address_address_Event.InputTuple,
+      OwnershipTransferred_address_address_Event.OutputTuple,
+      OwnershipTransferred_address_address_Event.OutputObject
+    >;
+    "OwnershipTransferred(uint256,address,address,string)": TypedContractEvent<
+      OwnershipTransferred_uint256_address_address_string_Event.InputTuple,
+      OwnershipTransferred_uint256_address_address_string_Event.OutputTuple,
+      OwnershipTransferred_uint256_address_address_string_Event.OutputObject
+    >;
+
+    "RoleAssigned(address,string)": TypedContractEvent<
+      RoleAssignedEvent.InputTuple,
+      RoleAssignedEvent.OutputTuple,
+      RoleAssignedEvent.OutputObject
+    >;
+    RoleAssigned: TypedContractEvent<
+      RoleAssignedEvent.InputTuple,
+      RoleAssignedEvent.OutputTuple,
+      RoleAssignedEvent.OutputObject
+    >;
+
+    "Transfer(address,address,uint256)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+
+    "TransferCancelled(uint256,address,address)": TypedContractEvent<
+      TransferCancelledEvent.InputTuple,
+      TransferCancelledEvent.OutputTuple,
+      TransferCancelledEvent.OutputObject
+    >;
+    TransferCancelled: TypedContractEvent<
+      TransferCancelledEvent.InputTuple,
+      TransferCancelledEvent.OutputTuple,
+      TransferCancelledEvent.OutputObject
+    >;
+
+    "TransferInitiated(uint256,address,address,string,uint256)": TypedContractEvent<
+      TransferInitiatedEvent.InputTuple,
+      TransferInitiatedEvent.OutputTuple,
+      TransferInitiatedEvent.OutputObject
+    >;
+    TransferInitiated: TypedContractEvent<
+      TransferInitiatedEvent.InputTuple,
+      TransferInitiatedEvent.OutputTuple,
+      TransferInitiatedEvent.OutputObject
+    >;
+
+    "TransferRejected(uint256,address,address,string)": TypedContractEvent<
+      TransferRejectedEvent.InputTuple,
+      TransferRejectedEvent.OutputTuple,
+      TransferRejectedEvent.OutputObject
+    >;
+    TransferRejected: TypedContractEvent<
+      TransferRejectedEvent.InputTuple,
+      TransferRejectedEvent.OutputTuple,
+      TransferRejectedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as introspection from "./introspection";
+export * as math from "./math";
+export { Strings__factory } from "./Strings__factory";
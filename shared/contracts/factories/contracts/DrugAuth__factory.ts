@@ -0,0 +1,1806 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type { DrugAuth, DrugAuthInterface } from "../../contracts/DrugAuth";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ERC721EnumerableForbiddenBatchMint",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721OutOfBoundsIndex",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recalledBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "DrugRecalled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "drugName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "manufacturer",
+        type: "string",
+      },
+    ],
+    name: "DrugRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "parentTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "childTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "childBatchId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "DrugSplit",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "sourceTokenIds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "DrugsMerged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "licenseNumber",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "LicenseIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "licenseNumber",
+        type: "string",
+      },
+    ],
+    name: "LicenseRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+    ],
+    name: "RoleAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "TransferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "TransferInitiated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "TransferRejected",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "role",
+        type: "string",
+      },
+    ],
+    name: "assignRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "batchIdToTokenId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "deactivateDrug",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "drugHistory",
+    outputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "drugs",
+    outputs: [
+      {
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "drugName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "manufacturer",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiryDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "ipfsHash",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "currentOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getChildTokens",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getDrugHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "eventType",
+            type: "string",
+          },
+        ],
+        internalType: "struct DrugAuth.TransferEvent[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getDrugsByOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getParentTokens",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserRole",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "hasValidLicense",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "childBatchId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+    ],
+    name: "initiatePartialTransfer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+    ],
+    name: "initiateTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "licenseNumber",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "issueLicense",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "licenses",
+    outputs: [
+      {
+        internalType: "string",
+        name: "licenseNumber",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+    ],
+    name: "mergeDrugs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pendingTransfers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "eventType",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "recallDrug",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "recallDrugs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "recallReasons",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "drugName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "manufacturer",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiryDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "ipfsHash",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "registerDrug",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "rejectTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "revokeLicense",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "timeout",
+        type: "uint256",
+      },
+    ],
+    name: "setTransferTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string[]",
+        name: "childBatchIds",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "childQuantities",
+        type: "uint256[]",
+      },
+    ],
+    name: "splitDrug",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tokenManufacturer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalDrugs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "transferTimeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "userRoles",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "verifyDrug",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "batchId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "drugName",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "manufacturer",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "expiryDate",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "ipfsHash",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "currentOwner",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "quantity",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct DrugAuth.Drug",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+    ],
+    name: "verifyDrugByBatchId",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "batchId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "drugName",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "manufacturer",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "expiryDate",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "ipfsHash",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "currentOwner",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "quantity",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct DrugAuth.Drug",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040526212750060155534801561001757600080fd5b503360405180604001604052806008815260200167088e4eace82eae8d60c31b815250604051806040016040528060048152602001634452554760e01b815250816000908161006691906101e5565b50600161007382826101e5565b5050506001600160a01b0381166100a457604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100ad816100f4565b50604080518082018252600c81526b36b0b73ab330b1ba3ab932b960a11b602080830191909152336000908152600f90915291909120906100ee90826101e5565b506102a3565b600a80546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b634e487b7160e01b600052604160045260246000fd5b600181811c9082168061017057607f821691505b60208210810361019057634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156101e057806000526020600020601f840160051c810160208510156101bd5750805b601f840160051c820191505b818110156101dd57600081556001016101c9565b50505b505050565b81516001600160401b038111156101fe576101fe610146565b6102128161020c845461015c565b84610196565b6020601f821160018114610246576000831561022e5750848201515b600019600385901b1c1916600184901b1784556101dd565b600084815260208120601f198516915b828110156102765787850151825560209485019460019092019101610256565b50848210156102945786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b615bf9806102b26000396000f3fe608060405234801561001057600080fd5b506004361061030c5760003560e01c8063668702991161019d578063b7dfcbee116100e9578063e985e9c5116100a2578063f18a02c61161007c578063f18a02c61461071d578063f2fde38b1461073e578063fca5e61e14610751578063fef424b61461077957600080fd5b8063e985e9c5146106e4578063ea9b9d0e146106f7578063ed3efd5a1461070a57600080fd5b8063b7dfcbee14610672578063b88d4fde14610685578063bcad0d6014610698578063c87b56dd146106ab578063ce360179146106be578063e7cef2d0146106d157600080fd5b80638da5cb5b11610156578063a22cb46511610130578063a22cb465146105fe578063b3e38a5014610611578063b526e9901461063c578063b5e5d7ee1461065f57600080fd5b80638da5cb5b146105d257806395d89b41146105e35780639f24f5b1146105eb57600080fd5b8063668702991461055e5780636b43c9e41461057e57806370a0823114610591578063715018a6146105a457806374d5e100146105ac5780637b53d288146105bf57600080fd5b8063278208511161025c578063485ddab8116102155780635bca889e116101ef5780635bca889e1461050c5780636013b4cb1461051f5780636352211e146105285780636577b86a1461053b57600080fd5b8063485ddab8146104d35780634f6ccce7146104e657806359caecb5146104f957600080fd5b806327820851146104545780632b345749146104675780632f745c591461047a5780633ee969e11461048d578063412b46e4146104a057806342842e0e146104c057600080fd5b806309ba7710116102c957806318160ddd116102a357806318160ddd1461041357806323b872dd1461041b57806325ad876c1461042e578063274fae7c1461044157600080fd5b806309ba7710146103cf5780630dd4b5c0146103f85780631685a5ac1461040b57600080fd5b806301ffc9a71461031157806306fdde031461033957806307a6af2a1461034e57806307acb6021461036f578063081812fc1461038f578063095ea7b3146103ba575b600080fd5b61032461031f366004614df1565b6107a7565b60405190151581526020015b60405180910390f35b6103416107b8565b6040516103309190614e5e565b61036161035c366004614f32565b61084a565b604051908152602001610330565b61038261037d366004615002565b610a19565b6040516103309190615057565b6103a261039d366004615002565b610aac565b6040516001600160a01b039091168152602001610330565b6103cd6103c8366004615086565b610ad5565b005b6103a26103dd366004615002565b6010602052600090815260409020546001600160a01b031681565b6103cd6104063660046150b0565b610ae4565b600b54610361565b600854610361565b6103cd610429366004615107565b610c72565b61038261043c366004615144565b610cfd565b6103cd61044f366004615002565b610d94565b610341610462366004615144565b61121d565b610382610475366004615002565b6112bf565b610361610488366004615086565b611350565b61038261049b3660046151ef565b6113b5565b6104b36104ae366004615002565b6113fc565b60405161033091906152d8565b6103cd6104ce366004615107565b6116dd565b6103cd6104e1366004615144565b6116fd565b6103616104f4366004615002565b61187c565b6103cd610507366004615002565b6118d5565b61036161051a3660046153ac565b611b11565b61036160155481565b6103a2610536366004615002565b612162565b61054e610549366004615002565b61216d565b6040516103309493929190615413565b61057161056c366004615002565b61222b565b6040516103309190615450565b6103cd61058c3660046154ee565b612384565b61036161059f366004615144565b6125bf565b6103cd612607565b6103416105ba366004615144565b61261b565b6103cd6105cd36600461551e565b6126b5565b600a546001600160a01b03166103a2565b6103416126f1565b6104b36105f936600461556a565b612700565b6103cd61060c36600461559e565b612a24565b61036161061f36600461556a565b8051602081830181018051600d8252928201919093012091525481565b61064f61064a3660046155da565b612a2f565b60405161033094939291906155fc565b61036161066d36600461562f565b612b0e565b6103cd6106803660046156ba565b612c13565b6103cd6106933660046156f1565b612c77565b6103cd6106a6366004615002565b612c8f565b6103416106b9366004615002565b612ce5565b6103cd6106cc366004615002565b612d5a565b6103cd6106df3660046154ee565b612da7565b6103246106f236600461576c565b61303a565b6103cd6107053660046153ac565b613068565b610341610718366004615002565b61309f565b61073061072b366004615144565b6130b8565b60405161033092919061579f565b6103cd61074c366004615144565b61315c565b61076461075f366004615002565b61319a565b604051610330999897969594939291906157c1565b610324610787366004615144565b6001600160a01b0316600090815260176020526040902060010154421090565b60006107b282613411565b92915050565b6060600080546107c790615849565b80601f01602080910402602001604051908101604052809291908181526020018280546107f390615849565b80156108405780601f1061081557610100808354040283529160200191610840565b820191906000526020600020905b81548152906001019060200180831161082357829003601f168201915b5050505050905090565b6000808651116108a15760405162461bcd60e51b815260206004820152601960248201527f44727567206e616d652063616e6e6f7420626520656d7074790000000000000060448201526064015b60405180910390fd5b60008551116108f25760405162461bcd60e51b815260206004820152601c60248201527f4d616e7566616374757265722063616e6e6f7420626520656d707479000000006044820152606401610898565b42841161094b5760405162461bcd60e51b815260206004820152602160248201527f4578706972792064617465206d75737420626520696e207468652066757475726044820152606560f81b6064820152608401610898565b60006109c66040518061012001604052808a8152602001898152602001888152602001878152602001868152602001336001600160a01b0316815260200142815260200160011515815260200185815250336040518060400160405280600b81526020016a6d616e756661637475726560a81b815250613436565b9050336001600160a01b0316817fcd0a79d77c7fd8dae1bdcccc5b5ff0aaf3993129a3c19887251d15aad72106ac8a8a8a604051610a0693929190615883565b60405180910390a3979650505050505050565b60606000610a26836136ad565b6001600160a01b031603610a4c5760405162461bcd60e51b8152600401610898906158bc565b60008281526012602090815260409182902080548351818402810184019094528084529091830182828015610aa057602002820191906000526020600020905b815481526020019060010190808311610a8c575b50505050509050919050565b6000610ab7826136c8565b506000828152600460205260409020546001600160a01b03166107b2565b610ae0828233613700565b5050565b610aec61370d565b6001600160a01b038316610b425760405162461bcd60e51b815260206004820152601b60248201527f43616e6e6f74206c6963656e7365207a65726f206164647265737300000000006044820152606401610898565b6000825111610b935760405162461bcd60e51b815260206004820152601e60248201527f4c6963656e7365206e756d6265722063616e6e6f7420626520656d70747900006044820152606401610898565b428111610be25760405162461bcd60e51b815260206004820152601b60248201527f4c6963656e73652068617320616c7265616479206578706972656400000000006044820152606401610898565b60408051808201825283815260208082018490526001600160a01b038616600090815260179091529190912081518190610c1c9082615930565b5060208201518160010155905050826001600160a01b03167f8ce143fed1100c8d043a9e5c7e9eca577e89bbaa7ee04de4be11755193a508308383604051610c6592919061579f565b60405180910390a2505050565b6001600160a01b038216610c9c57604051633250574960e11b815260006004820152602401610898565b6000610ca983833361373a565b9050836001600160a01b0316816001600160a01b031614610cf7576040516364283d7b60e01b81526001600160a01b0380861660048301526024820184905282166044820152606401610898565b50505050565b60606000610d0a836125bf565b90506000816001600160401b03811115610d2657610d26614e71565b604051908082528060200260200182016040528015610d4f578160200160208202803683370190505b50905060005b82811015610d8c57610d678582611350565b828281518110610d7957610d796159ee565b6020908102919091010152600101610d55565b509392505050565b6000818152601460209081526040808320815160808101835281546001600160a01b039081168252600183015416938101939093526002810180549192840191610ddd90615849565b80601f0160208091040260200160405190810160405280929190818152602001828054610e0990615849565b8015610e565780601f10610e2b57610100808354040283529160200191610e56565b820191906000526020600020905b815481529060010190602001808311610e3957829003601f168201915b5050509183525050600391909101546020918201528101519091506001600160a01b0316610e965760405162461bcd60e51b815260040161089890615a04565b60208101516001600160a01b03163314610ef25760405162461bcd60e51b815260206004820152601a60248201527f4e6f7420746865207472616e7366657220726563697069656e740000000000006044820152606401610898565b8060600151421115610f3f5760405162461bcd60e51b8152602060048201526016602482015275151c985b9cd9995c881a185cc81d1a5b5959081bdd5d60521b6044820152606401610898565b6000610f4e8260400151613836565b90508080610f6d57503360009081526017602052604090206001015442105b610fb55760405162461bcd60e51b8152602060048201526019602482015278149958da5c1a595b9d081a5cc81b9bdd081b1a58d95b9cd959603a1b6044820152606401610898565b6000838152600c602052604090206007015460ff1661100b5760405162461bcd60e51b815260206004820152601260248201527144727567206973206e6f742061637469766560701b6044820152606401610898565b6000838152600c6020526040902060030154421061105e5760405162461bcd60e51b815260206004820152601060248201526f111c9d59c81a185cc8195e1c1a5c995960821b6044820152606401610898565b600083815260146020526040812080546001600160a01b031990811682556001820180549091169055906110956002830182614d31565b506000600391909101556016805460ff19166001179055815160208301516110be91908561387c565b6016805460ff191690556020828101516000858152600c909252604090912060050180546001600160a01b0319166001600160a01b03909216919091179055801561111d576000838152600c60205260409020600701805460ff191690555b6000838152600e60209081526040808320815160808101835286516001600160a01b03908116825287850151811682860190815242838601908152948901516060840190815284546001818101875595895296909720835160049097020180549683166001600160a01b03199788161781559051938101805494909216939095169290921790915590516002830155915160038201906111bd9082615930565b50505081602001516001600160a01b031682600001516001600160a01b0316847fc6f76974206718b625c9faba8b5ae1931f1e7a6620c23458a74554aeffef136085604001516040516112109190614e5e565b60405180910390a4505050565b6001600160a01b0381166000908152600f6020526040902080546060919061124490615849565b80601f016020809104026020016040519081016040528092919081815260200182805461127090615849565b8015610aa05780601f1061129257610100808354040283529160200191610aa0565b820191906000526020600020905b8154815290600101906020018083116112a05750939695505050505050565b606060006112cc836136ad565b6001600160a01b0316036112f25760405162461bcd60e51b8152600401610898906158bc565b60008281526013602090815260409182902080548351818402810184019094528084529091830182828015610aa05760200282019190600052602060002090815481526020019060010190808311610a8c5750505050509050919050565b600061135b836125bf565b821061138c5760405163295f44f760e21b81526001600160a01b038416600482015260248101839052604401610898565b506001600160a01b03919091166000908152600660209081526040808320938352929052205490565b606083336113c282612162565b6001600160a01b0316146113e85760405162461bcd60e51b815260040161089890615a31565b6113f385858561392c565b95945050505050565b611404614d6b565b600061140f836136ad565b6001600160a01b0316036114355760405162461bcd60e51b8152600401610898906158bc565b6000828152600c6020526040908190208151610120810190925280548290829061145e90615849565b80601f016020809104026020016040519081016040528092919081815260200182805461148a90615849565b80156114d75780601f106114ac576101008083540402835291602001916114d7565b820191906000526020600020905b8154815290600101906020018083116114ba57829003601f168201915b505050505081526020016001820180546114f090615849565b80601f016020809104026020016040519081016040528092919081815260200182805461151c90615849565b80156115695780601f1061153e57610100808354040283529160200191611569565b820191906000526020600020905b81548152906001019060200180831161154c57829003601f168201915b5050505050815260200160028201805461158290615849565b80601f01602080910402602001604051908101604052809291908181526020018280546115ae90615849565b80156115fb5780601f106115d0576101008083540402835291602001916115fb565b820191906000526020600020905b8154815290600101906020018083116115de57829003601f168201915b505050505081526020016003820154815260200160048201805461161e90615849565b80601f016020809104026020016040519081016040528092919081815260200182805461164a90615849565b80156116975780601f1061166c57610100808354040283529160200191611697565b820191906000526020600020905b81548152906001019060200180831161167a57829003601f168201915b505050918352505060058201546001600160a01b0316602082015260068201546040820152600782015460ff161515606082015260089091015460809091015292915050565b6116f883838360405180602001604052806000815250612c77565b505050565b61170561370d565b6001600160a01b03811660009081526017602052604081206001015490036117665760405162461bcd60e51b81526020600482015260146024820152734e6f206c6963656e736520746f207265766f6b6560601b6044820152606401610898565b6001600160a01b0381166000908152601760205260408120805461178990615849565b80601f01602080910402602001604051908101604052809291908181526020018280546117b590615849565b80156118025780601f106117d757610100808354040283529160200191611802565b820191906000526020600020905b8154815290600101906020018083116117e557829003601f168201915b505050506001600160a01b0384166000908152601760205260408120929350905061182d8282614d31565b60018201600090555050816001600160a01b03167f0b75cebec6bd744ac9fb5114ecfeb62afc62f5d0a4af8e9f04f99034df60577d826040516118709190614e5e565b60405180910390a25050565b600061188760085490565b82106118b05760405163295f44f760e21b81526000600482015260248101839052604401610898565b600882815481106118c3576118c36159ee565b90600052602060002001549050919050565b6000818152601460209081526040808320815160808101835281546001600160a01b03908116825260018301541693810193909352600281018054919284019161191e90615849565b80601f016020809104026020016040519081016040528092919081815260200182805461194a90615849565b80156119975780601f1061196c57610100808354040283529160200191611997565b820191906000526020600020905b81548152906001019060200180831161197a57829003601f168201915b5050509183525050600391909101546020918201528101519091506001600160a01b03166119d75760405162461bcd60e51b815260040161089890615a04565b80516001600160a01b03163314611a305760405162461bcd60e51b815260206004820152601760248201527f4e6f7420746865207472616e736665722073656e6465720000000000000000006044820152606401610898565b80606001514211611a835760405162461bcd60e51b815260206004820152601a60248201527f5472616e7366657220686173206e6f742074696d6564206f75740000000000006044820152606401610898565b600082815260146020526040812080546001600160a01b03199081168255600182018054909116905590611aba6002830182614d31565b6003820160009055505080602001516001600160a01b031681600001516001600160a01b0316837fdee87b66f69b4bbe03fba223797986f02b6baac931879820ff83ca90c50c7c7460405160405180910390a45050565b60006001835111611b645760405162461bcd60e51b815260206004820152601f60248201527f4e656564206174206c656173742074776f206c6f747320746f206d65726765006044820152606401610898565b6000600c600085600081518110611b7d57611b7d6159ee565b6020026020010151815260200190815260200160002060405180610120016040529081600082018054611baf90615849565b80601f0160208091040260200160405190810160405280929190818152602001828054611bdb90615849565b8015611c285780601f10611bfd57610100808354040283529160200191611c28565b820191906000526020600020905b815481529060010190602001808311611c0b57829003601f168201915b50505050508152602001600182018054611c4190615849565b80601f0160208091040260200160405190810160405280929190818152602001828054611c6d90615849565b8015611cba5780601f10611c8f57610100808354040283529160200191611cba565b820191906000526020600020905b815481529060010190602001808311611c9d57829003601f168201915b50505050508152602001600282018054611cd390615849565b80601f0160208091040260200160405190810160405280929190818152602001828054611cff90615849565b8015611d4c5780601f10611d2157610100808354040283529160200191611d4c565b820191906000526020600020905b815481529060010190602001808311611d2f57829003601f168201915b5050505050815260200160038201548152602001600482018054611d6f90615849565b80601f0160208091040260200160405190810160405280929190818152602001828054611d9b90615849565b8015611de85780601f10611dbd57610100808354040283529160200191611de8565b820191906000526020600020905b815481529060010190602001808311611dcb57829003601f168201915b505050918352505060058201546001600160a01b0316602082015260068201546040820152600782015460ff16151560608201526008909101546080909101528451909150600090601090829087908290611e4557611e456159ee565b602090810291909101810151825281019190915260400160009081205461010084018290526001600160a01b031691505b855181101561203357336001600160a01b0316611eab878381518110611e9e57611e9e6159ee565b6020026020010151612162565b6001600160a01b031614611ed15760405162461bcd60e51b815260040161089890615a31565b611ef3868281518110611ee657611ee66159ee565b6020026020010151613fc0565b6000600c6000888481518110611f0b57611f0b6159ee565b602002602001015181526020019081526020016000209050826001600160a01b031660106000898581518110611f4357611f436159ee565b6020908102919091018101518252810191909152604001600020546001600160a01b0316148015611f96575083602001518051906020012081600101604051611f8c9190615a5e565b6040518091039020145b611fe25760405162461bcd60e51b815260206004820152601a60248201527f4c6f747320617265206e6f74207468652073616d6520647275670000000000006044820152606401610898565b80600801548461010001818151611ff99190615ae9565b90525060608401516003820154101561201757600381015460608501525b60078101805460ff191690556000600890910155600101611e76565b508382523360a08301524260c0830152600160e08301526040805180820190915260058152646d6572676560d81b60208201526000906120769084908490613436565b905060005b865181101561211757600082815260126020526040902087518890839081106120a6576120a66159ee565b60209081029190910181015182546001810184556000938452918320909101558751601391908990849081106120de576120de6159ee565b6020908102919091018101518252818101929092526040016000908120805460018181018355918352929091209091018390550161207b565b50807f5998ce75febbd388a403dd7a8e9c8091d5cb1027d778c5ea72bedee9cfd0376f878786610100015160405161215193929190615afc565b60405180910390a295945050505050565b60006107b2826136c8565b6014602052600090815260409020805460018201546002830180546001600160a01b039384169492909316926121a290615849565b80601f01602080910402602001604051908101604052809291908181526020018280546121ce90615849565b801561221b5780601f106121f05761010080835404028352916020019161221b565b820191906000526020600020905b8154815290600101906020018083116121fe57829003601f168201915b5050505050908060030154905084565b60606000612238836136ad565b6001600160a01b03160361225e5760405162461bcd60e51b8152600401610898906158bc565b6000828152600e6020908152604080832080548251818502810185019093528083529193909284015b82821015612379576000848152602090819020604080516080810182526004860290920180546001600160a01b039081168452600182015416938301939093526002830154908201526003820180549192916060840191906122e890615849565b80601f016020809104026020016040519081016040528092919081815260200182805461231490615849565b80156123615780601f1061233657610100808354040283529160200191612361565b820191906000526020600020905b81548152906001019060200180831161234457829003601f168201915b50505050508152505081526020019060010190612287565b505050509050919050565b6000828152601460209081526040808320815160808101835281546001600160a01b0390811682526001830154169381019390935260028101805491928401916123cd90615849565b80601f01602080910402602001604051908101604052809291908181526020018280546123f990615849565b80156124465780601f1061241b57610100808354040283529160200191612446565b820191906000526020600020905b81548152906001019060200180831161242957829003601f168201915b5050509183525050600391909101546020918201528101519091506001600160a01b03166124865760405162461bcd60e51b815260040161089890615a04565b60208101516001600160a01b031633146124e25760405162461bcd60e51b815260206004820152601a60248201527f4e6f7420746865207472616e7366657220726563697069656e740000000000006044820152606401610898565b60008251116125335760405162461bcd60e51b815260206004820181905260248201527f52656a656374696f6e20726561736f6e2063616e6e6f7420626520656d7074796044820152606401610898565b600083815260146020526040812080546001600160a01b0319908116825560018201805490911690559061256a6002830182614d31565b6003820160009055505080602001516001600160a01b031681600001516001600160a01b0316847e71718af405c774957be2f186ea97f9dd44b9272d4d38b6d753b7583b7eb04d856040516112109190614e5e565b60006001600160a01b0382166125eb576040516322718ad960e21b815260006004820152602401610898565b506001600160a01b031660009081526003602052604090205490565b61260f61370d565b61261960006140c7565b565b600f602052600090815260409020805461263490615849565b80601f016020809104026020016040519081016040528092919081815260200182805461266090615849565b80156126ad5780601f10612682576101008083540402835291602001916126ad565b820191906000526020600020905b81548152906001019060200180831161269057829003601f168201915b505050505081565b82336126c082612162565b6001600160a01b0316146126e65760405162461bcd60e51b815260040161089890615a31565b610cf7848484614119565b6060600180546107c790615849565b612708614d6b565b6000600d8360405161271a9190615b32565b90815260200160405180910390205490508060000361277b5760405162461bcd60e51b815260206004820152601760248201527f426174636820494420646f6573206e6f742065786973740000000000000000006044820152606401610898565b6000818152600c602052604090819020815161012081019092528054829082906127a490615849565b80601f01602080910402602001604051908101604052809291908181526020018280546127d090615849565b801561281d5780601f106127f25761010080835404028352916020019161281d565b820191906000526020600020905b81548152906001019060200180831161280057829003601f168201915b5050505050815260200160018201805461283690615849565b80601f016020809104026020016040519081016040528092919081815260200182805461286290615849565b80156128af5780601f10612884576101008083540402835291602001916128af565b820191906000526020600020905b81548152906001019060200180831161289257829003601f168201915b505050505081526020016002820180546128c890615849565b80601f01602080910402602001604051908101604052809291908181526020018280546128f490615849565b80156129415780601f1061291657610100808354040283529160200191612941565b820191906000526020600020905b81548152906001019060200180831161292457829003601f168201915b505050505081526020016003820154815260200160048201805461296490615849565b80601f016020809104026020016040519081016040528092919081815260200182805461299090615849565b80156129dd5780601f106129b2576101008083540402835291602001916129dd565b820191906000526020600020905b8154815290600101906020018083116129c057829003601f168201915b505050918352505060058201546001600160a01b0316602082015260068201546040820152600782015460ff16151560608201526008909101546080909101529392505050565b610ae0338383614408565b600e6020528160005260406000208181548110612a4b57600080fd5b600091825260209091206004909102018054600182015460028301546003840180546001600160a01b0394851697509390921694509291612a8b90615849565b80601f0160208091040260200160405190810160405280929190818152602001828054612ab790615849565b8015612b045780601f10612ad957610100808354040283529160200191612b04565b820191906000526020600020905b815481529060010190602001808311612ae757829003601f168201915b5050505050905084565b60008533612b1b82612162565b6001600160a01b031614612b415760405162461bcd60e51b815260040161089890615a31565b604080516001808252818301909252600091816020015b6060815260200190600190039081612b585790505090508681600081518110612b8357612b836159ee565b60209081029190910101526040805160018082528183019092526000918160200160208202803683370190505090508681600081518110612bc657612bc66159ee565b6020026020010181815250506000612bdf8a848461392c565b600081518110612bf157612bf16159ee565b60200260200101519050612c06818888614119565b9998505050505050505050565b612c1b61370d565b6001600160a01b0382166000908152600f60205260409020612c3d8282615930565b50816001600160a01b03167f3565795c2fb8842c21347d277937778bbcfe788b5b4f790fc5e408786cbe9c90826040516118709190614e5e565b612c82848484610c72565b610cf7338585858561449f565b612c9761370d565b60008111612ce05760405162461bcd60e51b815260206004820152601660248201527554696d656f75742063616e6e6f74206265207a65726f60501b6044820152606401610898565b601555565b6060612cf0826136c8565b506000612d0860408051602081019091526000815290565b90506000815111612d285760405180602001604052806000815250612d53565b80612d32846145ca565b604051602001612d43929190615b4e565b6040516020818303038152906040525b9392505050565b8033612d6582612162565b6001600160a01b031614612d8b5760405162461bcd60e51b815260040161089890615a31565b506000908152600c60205260409020600701805460ff19169055565b6000612db2836136ad565b6001600160a01b031603612dd85760405162461bcd60e51b8152600401610898906158bc565b6000828152601060205260409020546001600160a01b0316331480612e075750600a546001600160a01b031633145b612e535760405162461bcd60e51b815260206004820181905260248201527f4f6e6c7920746865206d616e7566616374757265722063616e20726563616c6c6044820152606401610898565b6000815111612ea45760405162461bcd60e51b815260206004820152601d60248201527f526563616c6c20726561736f6e2063616e6e6f7420626520656d7074790000006044820152606401610898565b60008281526011602052604090208054612ebd90615849565b159050612f045760405162461bcd60e51b8152602060048201526015602482015274111c9d59c8185b1c9958591e481c9958d85b1b1959605a1b6044820152606401610898565b6000828152600c60209081526040808320600701805460ff1916905560119091529020612f318282615930565b506000612f3d83612162565b6000848152600e6020908152604080832081516080810183526001600160a01b0380871680835282860190815242838601908152855180870190965260068652651c9958d85b1b60d21b868801526060840195865284546001818101875595895296909720835160049097020180549683166001600160a01b031997881617815590519381018054949092169390951692909217909155925160028301555192935090916003820190612ff09082615930565b505050336001600160a01b0316837feb44898320c8a9cdeba7cce944505307316634cf2ec97635311d70dd46aaaae68460405161302d9190614e5e565b60405180910390a3505050565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b60005b82518110156116f857613097838281518110613089576130896159ee565b602002602001015183612da7565b60010161306b565b6011602052600090815260409020805461263490615849565b6017602052600090815260409020805481906130d390615849565b80601f01602080910402602001604051908101604052809291908181526020018280546130ff90615849565b801561314c5780601f106131215761010080835404028352916020019161314c565b820191906000526020600020905b81548152906001019060200180831161312f57829003601f168201915b5050505050908060010154905082565b61316461370d565b6001600160a01b03811661318e57604051631e4fbdf760e01b815260006004820152602401610898565b613197816140c7565b50565b600c602052600090815260409020805481906131b590615849565b80601f01602080910402602001604051908101604052809291908181526020018280546131e190615849565b801561322e5780601f106132035761010080835404028352916020019161322e565b820191906000526020600020905b81548152906001019060200180831161321157829003601f168201915b50505050509080600101805461324390615849565b80601f016020809104026020016040519081016040528092919081815260200182805461326f90615849565b80156132bc5780601f10613291576101008083540402835291602001916132bc565b820191906000526020600020905b81548152906001019060200180831161329f57829003601f168201915b5050505050908060020180546132d190615849565b80601f01602080910402602001604051908101604052809291908181526020018280546132fd90615849565b801561334a5780601f1061331f5761010080835404028352916020019161334a565b820191906000526020600020905b81548152906001019060200180831161332d57829003601f168201915b50505050509080600301549080600401805461336590615849565b80601f016020809104026020016040519081016040528092919081815260200182805461339190615849565b80156133de5780601f106133b3576101008083540402835291602001916133de565b820191906000526020600020905b8154815290600101906020018083116133c157829003601f168201915b50505060058401546006850154600786015460089096015494956001600160a01b039092169490935060ff909116915089565b60006001600160e01b0319821663780e9d6360e01b14806107b257506107b28261465c565b8251516000906134885760405162461bcd60e51b815260206004820152601860248201527f42617463682049442063616e6e6f7420626520656d70747900000000000000006044820152606401610898565b8351604051600d9161349991615b32565b9081526020016040518091039020546000146134f75760405162461bcd60e51b815260206004820152601760248201527f426174636820494420616c7265616479206578697374730000000000000000006044820152606401610898565b6001600b600082825461350a9190615ae9565b9091555050600b5461351c33826146ac565b6000818152600c602052604090208551869190819061353b9082615930565b50602082015160018201906135509082615930565b50604082015160028201906135659082615930565b5060608201516003820155608082015160048201906135849082615930565b5060a08201516005820180546001600160a01b0319166001600160a01b0390921691909117905560c0820151600682015560e082015160078201805460ff19169115159190911790556101009091015160089091015584516040518291600d916135ee9190615b32565b9081526040805191829003602090810183209390935560008481526010845281812080546001600160a01b03808b166001600160a01b031992831617909255600e86528383206080860185528386523386880190815242958701958652606087018b81528254600181810185559387529890952087516004909902018054988516988416989098178855519087018054919093169116179055905160028401555190919060038201906136a19082615930565b50919695505050505050565b6000908152600260205260409020546001600160a01b031690565b6000806136d4836136ad565b90506001600160a01b0381166107b257604051637e27328960e01b815260048101849052602401610898565b6116f883838360016146c6565b600a546001600160a01b031633146126195760405163118cdaa760e01b8152336004820152602401610898565b6000828152601460205260408120600101546001600160a01b0316156137985760405162461bcd60e51b81526020600482015260136024820152725472616e736665722069732070656e64696e6760681b6044820152606401610898565b60006137a3846136ad565b90506001600160a01b03811615806137c257506001600160a01b038516155b806137cf575060165460ff165b61382b5760405162461bcd60e51b815260206004820152602760248201527f55736520696e6974696174655472616e7366657220616e6420616363657074546044820152663930b739b332b960c91b6064820152608401610898565b6113f38585856147cc565b6040805180820190915260048152631cd95b1b60e21b60209182015281519101207ff3b277728b3fee749481eb3e0b3b48980dbbab78658fc419025cb16eee3467751490565b6001600160a01b0382166138a657604051633250574960e11b815260006004820152602401610898565b60006138b48383600061373a565b90506001600160a01b0381166138e057604051637e27328960e01b815260048101839052602401610898565b836001600160a01b0316816001600160a01b031614610cf7576040516364283d7b60e01b81526001600160a01b0380861660048301526024820184905282166044820152606401610898565b606060008351116139735760405162461bcd60e51b815260206004820152601160248201527027379039bab116b637ba399033b4bb32b760791b6044820152606401610898565b81518351146139c45760405162461bcd60e51b815260206004820152601f60248201527f5375622d6c6f74207175616e74697469657320646f206e6f74206d61746368006044820152606401610898565b6139cd84613fc0565b6000805b8351811015613a725760008482815181106139ee576139ee6159ee565b602002602001015111613a435760405162461bcd60e51b815260206004820152601760248201527f5175616e746974792063616e6e6f74206265207a65726f0000000000000000006044820152606401610898565b838181518110613a5557613a556159ee565b602002602001015182613a689190615ae9565b91506001016139d1565b506000858152600c602052604090206008810154821115613acb5760405162461bcd60e51b81526020600482015260136024820152724e6f7420656e6f756768207175616e7469747960681b6044820152606401610898565b81816008016000828254613adf9190615b7d565b909155505084516000906001600160401b03811115613b0057613b00614e71565b604051908082528060200260200182016040528015613b29578160200160208202803683370190505b50905060005b8651811015613f9c5760008360405180610120016040529081600082018054613b5790615849565b80601f0160208091040260200160405190810160405280929190818152602001828054613b8390615849565b8015613bd05780601f10613ba557610100808354040283529160200191613bd0565b820191906000526020600020905b815481529060010190602001808311613bb357829003601f168201915b50505050508152602001600182018054613be990615849565b80601f0160208091040260200160405190810160405280929190818152602001828054613c1590615849565b8015613c625780601f10613c3757610100808354040283529160200191613c62565b820191906000526020600020905b815481529060010190602001808311613c4557829003601f168201915b50505050508152602001600282018054613c7b90615849565b80601f0160208091040260200160405190810160405280929190818152602001828054613ca790615849565b8015613cf45780601f10613cc957610100808354040283529160200191613cf4565b820191906000526020600020905b815481529060010190602001808311613cd757829003601f168201915b5050505050815260200160038201548152602001600482018054613d1790615849565b80601f0160208091040260200160405190810160405280929190818152602001828054613d4390615849565b8015613d905780601f10613d6557610100808354040283529160200191613d90565b820191906000526020600020905b815481529060010190602001808311613d7357829003601f168201915b505050918352505060058201546001600160a01b0316602082015260068201546040820152600782015460ff16151560608201526008909101546080909101528851909150889083908110613de757613de76159ee565b602090810291909101015181523360a08201524260c08201528651879083908110613e1457613e146159ee565b60209081029190910181015161010083015260008a81526010825260409081902054815180830190925260058252641cdc1b1a5d60da1b92820192909252613e699183916001600160a01b0390911690613436565b838381518110613e7b57613e7b6159ee565b60200260200101818152505060126000848481518110613e9d57613e9d6159ee565b602090810291909101810151825281810192909252604090810160009081208054600181018255908252838220018c90558b8152601390925290208351849084908110613eec57613eec6159ee565b602090810291909101810151825460018101845560009384529190922001558251839083908110613f1f57613f1f6159ee565b6020026020010151897fb61a483a022a735a51f1d1cfa4032a443d66d3a19f08d9aa5e5045ba43e39eae8a8581518110613f5b57613f5b6159ee565b60200260200101518a8681518110613f7557613f756159ee565b6020026020010151604051613f8b92919061579f565b60405180910390a350600101613b2f565b508160080154600003613fb65760078201805460ff191690555b9695505050505050565b6000818152600c602052604090206007015460ff166140165760405162461bcd60e51b815260206004820152601260248201527144727567206973206e6f742061637469766560701b6044820152606401610898565b6000818152600c602052604090206003015442106140695760405162461bcd60e51b815260206004820152601060248201526f111c9d59c81a185cc8195e1c1a5c995960821b6044820152606401610898565b6000818152601460205260409020600101546001600160a01b0316156131975760405162461bcd60e51b81526020600482015260136024820152725472616e736665722069732070656e64696e6760681b6044820152606401610898565b600a80546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b03821661416f5760405162461bcd60e51b815260206004820152601f60248201527f43616e6e6f74207472616e7366657220746f207a65726f2061646472657373006044820152606401610898565b61417883612162565b6001600160a01b0316826001600160a01b0316036141d85760405162461bcd60e51b815260206004820181905260248201527f43616e6e6f74207472616e7366657220746f2063757272656e74206f776e65726044820152606401610898565b6141e181613836565b15614245573360009081526017602052604090206001015442106142405760405162461bcd60e51b815260206004820152601660248201527514d95b1b195c881a5cc81b9bdd081b1a58d95b9cd95960521b6044820152606401610898565b6142ab565b6001600160a01b03821660009081526017602052604090206001015442106142ab5760405162461bcd60e51b8152602060048201526019602482015278149958da5c1a595b9d081a5cc81b9bdd081b1a58d95b9cd959603a1b6044820152606401610898565b6000838152601460205260409020600101546001600160a01b0316156143135760405162461bcd60e51b815260206004820152601860248201527f5472616e7366657220616c72656164792070656e64696e6700000000000000006044820152606401610898565b61431c83613fc0565b60006015544261432c9190615ae9565b604080516080810182523381526001600160a01b0386811660208084019182528385018881526060850187905260008b81526014909252949020835181549084166001600160a01b031991821617825591516001820180549190941692169190911790915591519293509160028201906143a69082615930565b5060608201518160030155905050826001600160a01b0316336001600160a01b0316857fafc491b742cfd8a9f993ee49491d9e59521ee4472f867d028591f95b011fa8b085856040516143fa92919061579f565b60405180910390a450505050565b6001600160a01b03821661443a57604051630b61174360e31b81526001600160a01b0383166004820152602401610898565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910161302d565b6001600160a01b0383163b156145c357604051630a85bd0160e11b81526001600160a01b0384169063150b7a02906144e19088908890879087906004016155fc565b6020604051808303816000875af192505050801561451c575060408051601f3d908101601f1916820190925261451991810190615b90565b60015b614585573d80801561454a576040519150601f19603f3d011682016040523d82523d6000602084013e61454f565b606091505b50805160000361457d57604051633250574960e11b81526001600160a01b0385166004820152602401610898565b805160208201fd5b6001600160e01b03198116630a85bd0160e11b146145c157604051633250574960e11b81526001600160a01b0385166004820152602401610898565b505b5050505050565b606060006145d7836148a1565b60010190506000816001600160401b038111156145f6576145f6614e71565b6040519080825280601f01601f191660200182016040528015614620576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a850494508461462a57509392505050565b60006001600160e01b031982166380ac58cd60e01b148061468d57506001600160e01b03198216635b5e139f60e01b145b806107b257506301ffc9a760e01b6001600160e01b03198316146107b2565b610ae0828260405180602001604052806000815250614979565b80806146da57506001600160a01b03821615155b1561479c5760006146ea846136c8565b90506001600160a01b038316158015906147165750826001600160a01b0316816001600160a01b031614155b80156147295750614727818461303a565b155b156147525760405163a9fbf51f60e01b81526001600160a01b0384166004820152602401610898565b811561479a5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b6000806147da858585614991565b90506001600160a01b0381166148375761483284600880546000838152600960205260408120829055600182018355919091527ff3f7a9fe364faab93b216da50a3214154f22a0a2b415b23a84c8169e8b636ee30155565b61485a565b846001600160a01b0316816001600160a01b03161461485a5761485a8185614a85565b6001600160a01b0385166148765761487184614b06565b614899565b846001600160a01b0316816001600160a01b031614614899576148998585614bb5565b949350505050565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b83106148e05772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef8100000000831061490c576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc10000831061492a57662386f26fc10000830492506010015b6305f5e1008310614942576305f5e100830492506008015b612710831061495657612710830492506004015b60648310614968576064830492506002015b600a83106107b25760010192915050565b6149838383614c05565b6116f833600085858561449f565b60008061499d846136ad565b90506001600160a01b038316156149b9576149b9818486614c6a565b6001600160a01b038116156149f7576149d66000856000806146c6565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615614a26576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6000614a90836125bf565b6000838152600760209081526040808320546001600160a01b0388168452600690925290912091925090818314614ae757600083815260208281526040808320548584528184208190558352600790915290208290555b6000938452600760209081526040808620869055938552525081205550565b600854600090614b1890600190615b7d565b60008381526009602052604081205460088054939450909284908110614b4057614b406159ee565b906000526020600020015490508060088381548110614b6157614b616159ee565b6000918252602080832090910192909255828152600990915260408082208490558582528120556008805480614b9957614b99615bad565b6001900381819060005260206000200160009055905550505050565b60006001614bc2846125bf565b614bcc9190615b7d565b6001600160a01b039093166000908152600660209081526040808320868452825280832085905593825260079052919091209190915550565b6001600160a01b038216614c2f57604051633250574960e11b815260006004820152602401610898565b6000614c3d8383600061373a565b90506001600160a01b038116156116f8576040516339e3563760e11b815260006004820152602401610898565b614c75838383614cce565b6116f8576001600160a01b038316614ca357604051637e27328960e01b815260048101829052602401610898565b60405163177e802f60e01b81526001600160a01b038316600482015260248101829052604401610898565b60006001600160a01b038316158015906148995750826001600160a01b0316846001600160a01b03161480614d085750614d08848461303a565b806148995750506000908152600460205260409020546001600160a01b03908116911614919050565b508054614d3d90615849565b6000825580601f10614d4d575050565b601f0160209004906000526020600020908101906131979190614dc2565b604051806101200160405280606081526020016060815260200160608152602001600081526020016060815260200160006001600160a01b0316815260200160008152602001600015158152602001600081525090565b5b80821115614dd75760008155600101614dc3565b5090565b6001600160e01b03198116811461319757600080fd5b600060208284031215614e0357600080fd5b8135612d5381614ddb565b60005b83811015614e29578181015183820152602001614e11565b50506000910152565b60008151808452614e4a816020860160208601614e0e565b601f01601f19169290920160200192915050565b602081526000612d536020830184614e32565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614eaf57614eaf614e71565b604052919050565b6000806001600160401b03841115614ed157614ed1614e71565b50601f8301601f1916602001614ee681614e87565b915050828152838383011115614efb57600080fd5b828260208301376000602084830101529392505050565b600082601f830112614f2357600080fd5b612d5383833560208501614eb7565b60008060008060008060c08789031215614f4b57600080fd5b86356001600160401b03811115614f6157600080fd5b614f6d89828a01614f12565b96505060208701356001600160401b03811115614f8957600080fd5b614f9589828a01614f12565b95505060408701356001600160401b03811115614fb157600080fd5b614fbd89828a01614f12565b9450506060870135925060808701356001600160401b03811115614fe057600080fd5b614fec89828a01614f12565b9699959850939692959460a09093013593505050565b60006020828403121561501457600080fd5b5035919050565b600081518084526020840193506020830160005b8281101561504d57815186526020958601959091019060010161502f565b5093949350505050565b602081526000612d53602083018461501b565b80356001600160a01b038116811461508157600080fd5b919050565b6000806040838503121561509957600080fd5b6150a28361506a565b946020939093013593505050565b6000806000606084860312156150c557600080fd5b6150ce8461506a565b925060208401356001600160401b038111156150e957600080fd5b6150f586828701614f12565b93969395505050506040919091013590565b60008060006060848603121561511c57600080fd5b6151258461506a565b92506151336020850161506a565b929592945050506040919091013590565b60006020828403121561515657600080fd5b612d538261506a565b60006001600160401b0382111561517857615178614e71565b5060051b60200190565b600082601f83011261519357600080fd5b81356151a66151a18261515f565b614e87565b8082825260208201915060208360051b8601019250858311156151c857600080fd5b602085015b838110156151e55780358352602092830192016151cd565b5095945050505050565b60008060006060848603121561520457600080fd5b8335925060208401356001600160401b0381111561522157600080fd5b8401601f8101861361523257600080fd5b80356152406151a18261515f565b8082825260208201915060208360051b85010192508883111561526257600080fd5b602084015b838110156152a35780356001600160401b0381111561528557600080fd5b6152948b602083890101614f12565b84525060209283019201615267565b50945050505060408401356001600160401b038111156152c257600080fd5b6152ce86828701615182565b9150509250925092565b602081526000825161012060208401526152f6610140840182614e32565b90506020840151601f198483030160408501526153138282614e32565b9150506040840151601f198483030160608501526153318282614e32565b915050606084015160808401526080840151601f198483030160a08501526153598282614e32565b91505060a084015161537660c08501826001600160a01b03169052565b5060c084015160e084015260e084015161539561010085018215159052565b506101008401516101208401528091505092915050565b600080604083850312156153bf57600080fd5b82356001600160401b038111156153d557600080fd5b6153e185828601615182565b92505060208301356001600160401b038111156153fd57600080fd5b61540985828601614f12565b9150509250929050565b6001600160a01b0385811682528416602082015260806040820181905260009061543f90830185614e32565b905082606083015295945050505050565b6000602082016020835280845180835260408501915060408160051b86010192506020860160005b828110156154e257868503603f19018452815180516001600160a01b03908116875260208083015190911690870152604080820151908701526060908101516080918701829052906154cc90870182614e32565b9550506020938401939190910190600101615478565b50929695505050505050565b6000806040838503121561550157600080fd5b8235915060208301356001600160401b038111156153fd57600080fd5b60008060006060848603121561553357600080fd5b833592506155436020850161506a565b915060408401356001600160401b0381111561555e57600080fd5b6152ce86828701614f12565b60006020828403121561557c57600080fd5b81356001600160401b0381111561559257600080fd5b61489984828501614f12565b600080604083850312156155b157600080fd5b6155ba8361506a565b9150602083013580151581146155cf57600080fd5b809150509250929050565b600080604083850312156155ed57600080fd5b50508035926020909101359150565b6001600160a01b0385811682528416602082015260408101839052608060608201819052600090613fb690830184614e32565b600080600080600060a0868803121561564757600080fd5b8535945060208601356001600160401b0381111561566457600080fd5b61567088828901614f12565b945050604086013592506156866060870161506a565b915060808601356001600160401b038111156156a157600080fd5b6156ad88828901614f12565b9150509295509295909350565b600080604083850312156156cd57600080fd5b6156d68361506a565b915060208301356001600160401b038111156153fd57600080fd5b6000806000806080858703121561570757600080fd5b6157108561506a565b935061571e6020860161506a565b92506040850135915060608501356001600160401b0381111561574057600080fd5b8501601f8101871361575157600080fd5b61576087823560208401614eb7565b91505092959194509250565b6000806040838503121561577f57600080fd5b6157888361506a565b91506157966020840161506a565b90509250929050565b6040815260006157b26040830185614e32565b90508260208301529392505050565b610120815260006157d661012083018c614e32565b82810360208401526157e8818c614e32565b905082810360408401526157fc818b614e32565b905088606084015282810360808401526158168189614e32565b6001600160a01b039790971660a0840152505060c081019390935290151560e08301526101009091015295945050505050565b600181811c9082168061585d57607f821691505b60208210810361587d57634e487b7160e01b600052602260045260246000fd5b50919050565b6060815260006158966060830186614e32565b82810360208401526158a88186614e32565b90508281036040840152613fb68185614e32565b602080825260139082015272111c9d59c8191bd95cc81b9bdd08195e1a5cdd606a1b604082015260600190565b601f8211156116f857806000526020600020601f840160051c810160208510156159105750805b601f840160051c820191505b818110156145c3576000815560010161591c565b81516001600160401b0381111561594957615949614e71565b61595d816159578454615849565b846158e9565b6020601f82116001811461599157600083156159795750848201515b600019600385901b1c1916600184901b1784556145c3565b600084815260208120601f198516915b828110156159c157878501518255602094850194600190920191016159a1565b50848210156159df5786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b634e487b7160e01b600052603260045260246000fd5b6020808252601390820152722737903832b73234b733903a3930b739b332b960691b604082015260600190565b6020808252601390820152722737ba103a3432903a37b5b2b71037bbb732b960691b604082015260600190565b6000808354615a6c81615849565b600182168015615a835760018114615a9857615ac8565b60ff1983168652811515820286019350615ac8565b86600052602060002060005b83811015615ac057815488820152600190910190602001615aa4565b505081860193505b509195945050505050565b634e487b7160e01b600052601160045260246000fd5b808201808211156107b2576107b2615ad3565b606081526000615b0f606083018661501b565b8281036020840152615b218186614e32565b915050826040830152949350505050565b60008251615b44818460208701614e0e565b9190910192915050565b60008351615b60818460208801614e0e565b835190830190615b74818360208801614e0e565b01949350505050565b818103818111156107b2576107b2615ad3565b600060208284031215615ba257600080fd5b8151612d5381614ddb565b634e487b7160e01b600052603160045260246000fdfea2646970667358221220401f8c4e0c3ca3974682b20707a074c79ef92208b794ce5970d60cfaa7e1329064736f6c634300081a0033";
+
+type DrugAuthConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DrugAuthConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DrugAuth__factory extends ContractFactory {
+  constructor(...args: DrugAuthConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DrugAuth & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DrugAuth__factory {
+    return super.connect(runner) as DrugAuth__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DrugAuthInterface {
+    return new Interface(_abi) as DrugAuthInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): DrugAuth {
+    return new Contract(address, _abi, runner) as unknown as DrugAuth;
+  }
+}
@@ -0,0 +1,195 @@
+// GS1 barcodes as printed by pharmaceutical packaging lines: the GTIN (AI 01),
+// expiry date (AI 17, YYMMDD), lot/batch number (AI 10) and serial number
+// (AI 21), as a DataMatrix element string or a GS1 Digital Link URL.
+
+export interface GS1Data {
+  gtin: string;
+  expiry?: string;
+  lot?: string;
+  serial?: string;
+}
+
+// FNC1 separator ending a variable-length field in a DataMatrix
+export const GS = "\u001d";
+
+const FIXED_LENGTH: Record<string, number> = { "01": 14, "17": 6 };
+const MAX_LENGTH: Record<string, number> = { "10": 20, "21": 20 };
+const FIELDS = { "01": "gtin", "17": "expiry", "10": "lot", "21": "serial" } as const;
+
+// GS1 character set 82, allowed in lot and serial numbers
+const CSET_82 = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/;
+const SYMBOLOGY_IDENTIFIER = /^\](d2|Q3|C1)/;
+const DIGITAL_LINK_AIS = ["01", "10", "21"];
+
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(gtin: string): boolean {
+  return /^\d{14}$/.test(gtin) && gtinCheckDigit(gtin.slice(0, 13)) === Number(gtin[13]);
+}
+
+// Global Location Numbers identify parties and facilities: 13 digits, the
+// last a check digit computed as for GTINs
+export function isValidGln(gln: string): boolean {
+  return /^\d{13}$/.test(gln) && gtinCheckDigit(gln.slice(0, 12)) === Number(gln[12]);
+}
+
+// Expiry dates are encoded as YYMMDD in UTC
+export function toGS1Date(date: Date): string {
+  const yy = String(date.getUTCFullYear() % 100).padStart(2, "0");
+  const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(date.getUTCDate()).padStart(2, "0");
+  return `${yy}${mm}${dd}`;
+}
+
+// A day of "00" means the last day of the month
+export function fromGS1Date(yymmdd: string): Date {
+  const year = 2000 + Number(yymmdd.slice(0, 2));
+  const month = Number(yymmdd.slice(2, 4)) - 1;
+  const day = Number(yymmdd.slice(4, 6));
+  return day === 0 ? new Date(Date.UTC(year, month + 1, 0)) : new Date(Date.UTC(year, month, day));
+}
+
+function validate(data: Partial<GS1Data>): GS1Data {
+  if (!data.gtin) {
+    throw new Error("GS1 code has no GTIN (AI 01)");
+  }
+  if (!isValidGtin(data.gtin)) {
+    throw new Error(`Invalid GTIN ${data.gtin}`);
+  }
+  if (data.expiry !== undefined && !/^\d{2}(0[1-9]|1[0-2])([0-2]\d|3[01])$/.test(data.expiry)) {
+    throw new Error(`Invalid expiry date ${data.expiry}`);
+  }
+  for (const ai of ["10", "21"] as const) {
+    const value = data[FIELDS[ai]];
+    if (value !== undefined && (value.length > MAX_LENGTH[ai] || !CSET_82.test(value))) {
+      throw new Error(`Invalid value for AI ${ai}`);
+    }
+  }
+  return data as GS1Data;
+}
+
+// Reads "(01)…(17)…(10)…(21)…" or the raw DataMatrix form, where variable
+// length fields are ended by GS
+export function parseGS1ElementString(text: string): GS1Data {
+  const input = text.trim().replace(SYMBOLOGY_IDENTIFIER, "");
+  const data: Partial<GS1Data> = {};
+
+  if (input.startsWith("(")) {
+    const pattern = /\((\d{2})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(input))) {
+      const field = FIELDS[match[1] as keyof typeof FIELDS];
+      if (!field) {
+        throw new Error(`Unsupported GS1 application identifier ${match[1]}`);
+      }
+      data[field] = match[2];
+    }
+    return validate(data);
+  }
+
+  let position = input.startsWith(GS) ? 1 : 0;
+  while (position < input.length) {
+    const ai = input.slice(position, position + 2);
+    const field = FIELDS[ai as keyof typeof FIELDS];
+    if (!field) {
+      throw new Error(`Unsupported GS1 application identifier ${ai}`);
+    }
+    position += 2;
+
+    let end = FIXED_LENGTH[ai] ? position + FIXED_LENGTH[ai] : input.indexOf(GS, position);
+    if (end === -1) {
+      end = input.length;
+    }
+    data[field] = input.slice(position, end);
+    position = input[end] === GS ? end + 1 : end;
+  }
+  return validate(data);
+}
+
+// Reads a GS1 Digital Link URL on any resolver domain, e.g.
+// https://id.gs1.org/01/09506000134352/10/ABC1/21/12345?17=280131
+export function parseGS1DigitalLink(url: string): GS1Data | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const segments = parsed.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const start = segments.indexOf("01");
+  if (start === -1) {
+    return null;
+  }
+
+  const data: Partial<GS1Data> = {};
+  for (let i = start; i + 1 < segments.length; i += 2) {
+    const field = FIELDS[segments[i] as keyof typeof FIELDS];
+    if (!field || !DIGITAL_LINK_AIS.includes(segments[i])) {
+      throw new Error(`Unsupported GS1 Digital Link key ${segments[i]}`);
+    }
+    data[field] = segments[i + 1];
+  }
+
+  const expiry = parsed.searchParams.get("17");
+  if (expiry) {
+    data.expiry = expiry;
+  }
+  return validate(data);
+}
+
+// Either form of GS1 code, as typed by a handheld scanner or read from a QR
+export function parseGS1(text: string): GS1Data {
+  const trimmed = text.trim();
+  if (/^https?:\/\//i.test(trimmed)) {
+    const data = parseGS1DigitalLink(trimmed);
+    if (!data) {
+      throw new Error("Not a GS1 Digital Link");
+    }
+    return data;
+  }
+  return parseGS1ElementString(trimmed);
+}
+
+// Whether free text (e.g. the verify input) looks like a GS1 element string
+export function isGS1ElementString(text: string): boolean {
+  return /^(\](d2|Q3|C1))?\u001d?(\(01\)|01)\d{14}/.test(text.trim());
+}
+
+// The DataMatrix form: fixed-length fields first, GS after every
+// variable-length field except the last
+export function formatGS1ElementString(data: GS1Data): string {
+  const { gtin, expiry, lot, serial } = validate({ ...data });
+  const variable = [lot !== undefined ? `10${lot}` : "", serial !== undefined ? `21${serial}` : ""].filter(Boolean);
+  return `01${gtin}${expiry ? `17${expiry}` : ""}${variable.join(GS)}`;
+}
+
+// The form printed under the barcode
+export function formatGS1HumanReadable(data: GS1Data): string {
+  const { gtin, expiry, lot, serial } = validate({ ...data });
+  return [
+    `(01)${gtin}`,
+    expiry ? `(17)${expiry}` : "",
+    lot !== undefined ? `(10)${lot}` : "",
+    serial !== undefined ? `(21)${serial}` : "",
+  ].join("");
+}
+
+export function createGS1DigitalLink(data: GS1Data, baseUrl = "https://id.gs1.org"): string {
+  const { gtin, expiry, lot, serial } = validate({ ...data });
+  let path = `/01/${gtin}`;
+  if (lot !== undefined) {
+    path += `/10/${encodeURIComponent(lot)}`;
+  }
+  if (serial !== undefined) {
+    path += `/21/${encodeURIComponent(serial)}`;
+  }
+  return `${baseUrl.replace(/\/$/, "")}${path}${expiry ? `?17=${expiry}` : ""}`;
+}
@@ -1,33 +1,49 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, doublePrecision, boolean, jsonb, check, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidGln, isValidGtin } from "./gs1";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("customer"), // manufacturer, producer, distributor, pharmacist, customer
+  role: text("role").notNull().default("customer"), // manufacturer, producer, distributor, pharmacist, customer, admin
   walletAddress: text("wallet_address").unique(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const quantityUnits = ["pack", "box", "carton", "bottle", "vial", "blister"] as const;
+export const dosageForms = [
+  "tablet", "capsule", "oral solution", "oral suspension", "injection", "infusion",
+  "cream", "ointment", "inhaler", "patch", "powder", "drops",
+] as const;
+
 export const drugBatches = pgTable("drug_batches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   batchId: text("batch_id").notNull().unique(),
   drugName: text("drug_name").notNull(),
+  gtin: text("gtin"), // 14-digit GS1 trade item number; the batch ID is its lot number
+  strength: text("strength"), // e.g. 500 mg
+  dosageForm: text("dosage_form", { enum: dosageForms }),
   manufacturer: text("manufacturer").notNull(),
   manufacturingDate: timestamp("manufacturing_date").notNull(),
   expiryDate: timestamp("expiry_date").notNull(),
   currentOwner: text("current_owner").notNull(),
   currentOwnerAddress: text("current_owner_address").notNull(),
-  status: text("status").notNull().default("manufactured"), // manufactured, in_transit, delivered, expired
+  status: text("status").notNull().default("manufactured"), // one of batchStatuses in shared/supply-chain.ts
+  quantity: integer("quantity"), // number of `unit`s in the lot; null when not tracked
+  unit: text("unit", { enum: quantityUnits }).notNull().default("pack"),
+  recallReason: text("recall_reason"),
+  recalledAt: timestamp("recalled_at"),
   ipfsHash: text("ipfs_hash"),
   contractAddress: text("contract_address"),
   tokenId: integer("token_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  check("drug_batches_quantity_not_negative", sql`${table.quantity} >= 0`),
+]);
 
 export const supplyChainEvents = pgTable("supply_chain_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,12 +52,268 @@ export const supplyChainEvents = pgTable("supply_chain_events", {
   toOwner: text("to_owner").notNull(),
   fromOwnerAddress: text("from_owner_address"),
   toOwnerAddress: text("to_owner_address").notNull(),
-  eventType: text("event_type").notNull(), // manufacture, transfer, verify
+  eventType: text("event_type").notNull(), // manufacture, transfer, verify, recall, expire, split, merge, excursion
+  quantity: integer("quantity"), // how much of the batch the event covered, in the batch's unit
+  // Where it happened: the facility, e.g. a GLN, its coordinates and ISO 3166-1 alpha-2 country
+  facilityId: text("facility_id"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  country: text("country"),
   transactionHash: text("transaction_hash"),
   blockNumber: integer("block_number"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Events imported from trading partners' EPCIS documents. They are kept apart
+// from supplyChainEvents, which drive ownership, status and DSCSA history,
+// since nothing on-chain backs them.
+export const importedEvents = pgTable("imported_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  fromOwner: text("from_owner"),
+  toOwner: text("to_owner").notNull(),
+  fromOwnerAddress: text("from_owner_address"),
+  toOwnerAddress: text("to_owner_address").notNull(),
+  eventType: text("event_type").notNull(), // transfer, distribute, deliver, sell, verify
+  transactionHash: text("transaction_hash"),
+  timestamp: timestamp("timestamp").notNull(),
+  importedBy: text("imported_by").notNull(),
+  importedAt: timestamp("imported_at").notNull().defaultNow(),
+});
+
+// Individually serialized packs of a batch. Scan fields record where and when
+// the pack was first and most recently verified.
+export const serializedUnits = pgTable("serialized_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  serialNumber: text("serial_number").notNull().unique(),
+  scanCount: integer("scan_count").notNull().default(0),
+  firstScannedAt: timestamp("first_scanned_at"),
+  firstScanLocation: text("first_scan_location"),
+  lastScannedAt: timestamp("last_scanned_at"),
+  lastScanLocation: text("last_scan_location"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per verification lookup. The client's address is reduced to its
+// network prefix and only the country is kept as location.
+export const scanEvents = pgTable("scan_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  serialNumber: text("serial_number"),
+  country: text("country"),
+  networkPrefix: text("network_prefix"),
+  userAgent: text("user_agent"),
+  scannedAt: timestamp("scanned_at").notNull().defaultNow(),
+});
+
+// Raised by the scan anomaly rules. A batch has at most one open alert per
+// rule; repeat detections bump `occurrences` and `lastDetectedAt`.
+export const scanAlerts = pgTable("scan_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  rule: text("rule").notNull(), // impossible_travel, excessive_scans, scan_after_recall
+  manufacturerAddress: text("manufacturer_address"), // the wallet that registered the batch, who sees the alert
+  message: text("message").notNull(),
+  occurrences: integer("occurrences").notNull().default(1),
+  firstDetectedAt: timestamp("first_detected_at").notNull().defaultNow(),
+  lastDetectedAt: timestamp("last_detected_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// DSCSA Transaction Information for one change of ownership
+export interface TransactionInformation {
+  productName: string;
+  gtin: string | null;
+  ndc: string | null;
+  lotNumber: string;
+  strength: string | null;
+  dosageForm: string | null;
+  quantity: number | null;
+  unit: string;
+  expiryDate: string;
+  transactionDate: string;
+  seller: { name: string; walletAddress: string };
+  buyer: { name: string; walletAddress: string };
+  transactionHash: string | null;
+}
+
+// Transaction Information, History and Statement ("T3") handed to the buyer
+export interface T3Document {
+  documentType: "DSCSA-T3";
+  batchId: string;
+  eventId: string;
+  transactionInformation: TransactionInformation;
+  // Earlier changes of ownership of the batch, oldest first
+  transactionHistory: TransactionInformation[];
+  transactionStatement: { seller: string; statements: string[] };
+  generatedAt: string;
+}
+
+// The T3 document generated for each transfer, with the CID once pinned
+export const transactionDocuments = pgTable("transaction_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().unique(),
+  batchId: text("batch_id").notNull(),
+  document: jsonb("document").$type<T3Document>().notNull(),
+  ipfsHash: text("ipfs_hash"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A shipment awaiting the recipient's confirmation. The batch stays with the
+// sender until the recipient accepts; rejecting or letting `deadline` pass
+// puts the batch back in `previousStatus`.
+export const transfers = pgTable("transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  fromOwner: text("from_owner").notNull(),
+  fromOwnerAddress: text("from_owner_address").notNull(),
+  toOwner: text("to_owner").notNull(),
+  toOwnerAddress: text("to_owner_address").notNull(),
+  eventType: text("event_type").notNull(), // transfer, distribute, deliver, sell
+  quantity: integer("quantity"), // the whole batch; partial shipments are split into a sub-lot first
+  partnerId: text("partner_id"), // the recipient's entry in the trading partner registry
+  // The facility the shipment is going to, recorded on its event once accepted
+  facilityId: text("facility_id"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  country: text("country"),
+  status: text("status").notNull().default("pending"), // pending, accepted, rejected, expired
+  previousStatus: text("previous_status").notNull(),
+  rejectionReason: text("rejection_reason"),
+  transactionHash: text("transaction_hash"), // initiateTransfer
+  blockNumber: integer("block_number"),
+  resolutionTransactionHash: text("resolution_transaction_hash"), // acceptTransfer, rejectTransfer or cancelTransfer
+  resolutionBlockNumber: integer("resolution_block_number"),
+  deadline: timestamp("deadline").notNull(),
+  initiatedAt: timestamp("initiated_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  // A batch is shipped to one recipient at a time
+  uniqueIndex("transfers_pending_batch_id_idx").on(table.batchId).where(sql`${table.status} = 'pending'`),
+]);
+
+// Parent/child edges of the lot lineage graph. A split adds one edge from the
+// parent to each sub-lot, a merge one edge from each merged lot to the new lot;
+// `quantity` is what moved along the edge.
+export const batchLineage = pgTable("batch_lineage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  parentBatchId: text("parent_batch_id").notNull(),
+  childBatchId: text("child_batch_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  operation: text("operation").notNull(), // split, merge
+  previousStatus: text("previous_status"), // the parent's, restored if the split or merge is reorged out
+  transactionHash: text("transaction_hash"),
+  blockNumber: integer("block_number"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// The range a drug must be kept in, by drug name. Humidity limits are optional.
+export const storageConditions = pgTable("storage_conditions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  drugName: text("drug_name").notNull().unique(),
+  minTemperature: real("min_temperature").notNull(), // °C
+  maxTemperature: real("max_temperature").notNull(),
+  minHumidity: real("min_humidity"), // % relative humidity
+  maxHumidity: real("max_humidity"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One data-logger reading taken with a batch, during the shipment
+// `transferId` if it was being shipped. `excursion` marks readings outside
+// the drug's storage conditions.
+export const telemetryReadings = pgTable("telemetry_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  transferId: text("transfer_id"),
+  deviceId: text("device_id").notNull(),
+  temperature: real("temperature").notNull(), // °C
+  humidity: real("humidity"), // % relative humidity
+  excursion: boolean("excursion").notNull().default(false),
+  recordedAt: timestamp("recorded_at").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+});
+
+// A run of readings past one limit of a drug's storage conditions. A batch
+// has at most one open excursion per kind; the next reading back within the
+// limit ends it.
+export const excursions = pgTable("excursions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: text("batch_id").notNull(),
+  transferId: text("transfer_id"),
+  deviceId: text("device_id").notNull(), // the logger that reported it first
+  kind: text("kind").notNull(), // temperature_high, temperature_low, humidity_high, humidity_low
+  threshold: real("threshold").notNull(), // the limit that was crossed
+  peakValue: real("peak_value").notNull(), // the reading furthest past it
+  readingCount: integer("reading_count").notNull().default(1),
+  eventId: text("event_id"), // the batch's "excursion" supply chain event
+  startedAt: timestamp("started_at").notNull(),
+  lastReadingAt: timestamp("last_reading_at").notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
+// A facility of a trading partner, such as a plant, warehouse or pharmacy
+export interface PartnerFacility {
+  facilityId: string; // GLN
+  name: string;
+  latitude?: number;
+  longitude?: number;
+  country?: string;
+}
+
+// Registry of the companies batches are shipped to. Only admins can verify
+// an entry; wallet addresses are stored lowercase and belong to one partner.
+export const tradingPartners = pgTable("trading_partners", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  legalName: text("legal_name").notNull(),
+  role: text("role").notNull(), // manufacturer, producer, distributor, pharmacist, customer
+  gln: text("gln").unique(), // the company's GS1 Global Location Number
+  walletAddresses: text("wallet_addresses").array().notNull(),
+  facilities: jsonb("facilities").$type<PartnerFacility[]>().notNull().default([]),
+  verificationStatus: text("verification_status").notNull().default("pending"), // pending, verified, suspended
+  verifiedBy: text("verified_by"), // the admin's user ID
+  verifiedAt: timestamp("verified_at"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A license a trading partner trades under, such as a wholesale dealer's or
+// pharmacy license. Partners are only shipped to while one is in force.
+export const partnerLicenses = pgTable("partner_licenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnerId: text("partner_id").notNull(),
+  licenseNumber: text("license_number").notNull(),
+  licenseType: text("license_type").notNull(), // manufacturing, wholesale, pharmacy
+  issuingAuthority: text("issuing_authority").notNull(),
+  validFrom: timestamp("valid_from"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  expiryNotifiedAt: timestamp("expiry_notified_at"), // when the partner's owners were warned it is about to lapse
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A message for one user, such as a trading partner's license about to lapse
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull(),
+  kind: text("kind").notNull(), // license_expiring
+  message: text("message").notNull(),
+  partnerId: text("partner_id"),
+  licenseId: text("license_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  readAt: timestamp("read_at"),
+});
+
+// Block cursor for the on-chain event indexer, one row per contract address
+export const indexerState = pgTable("indexer_state", {
+  id: text("id").primaryKey(),
+  lastProcessedBlock: integer("last_processed_block").notNull(),
+  lastProcessedBlockHash: text("last_processed_block_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -49,20 +321,71 @@ export const insertUserSchema = createInsertSchema(users).pick({
   walletAddress: true,
 });
 
-export const insertDrugBatchSchema = createInsertSchema(drugBatches).pick({
+export const supplyChainRoles = ["manufacturer", "producer", "distributor", "pharmacist", "customer"] as const;
+export const userRoles = [...supplyChainRoles, "admin"] as const;
+
+// New accounts are customers; an admin assigns any other role. Usernames
+// starting with "0x" are kept for wallet-only accounts, named after their wallet.
+export const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+}).extend({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .refine((username) => !/^0x/i.test(username), "Usernames starting with 0x are reserved for wallets"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const roleAssignmentSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const loginUserSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Dates arrive as ISO strings over JSON
+export const insertDrugBatchSchema = createInsertSchema(drugBatches, {
+  manufacturingDate: z.coerce.date(),
+  expiryDate: z.coerce.date(),
+  gtin: z.string().refine(isValidGtin, "GTIN must be 14 digits with a valid check digit").nullish(),
+  strength: z.string().max(50, "Strength must be at most 50 characters").nullish(),
+  quantity: z.number().int().positive("Quantity must be positive").nullish(),
+}).pick({
   batchId: true,
   drugName: true,
+  gtin: true,
+  strength: true,
+  dosageForm: true,
   manufacturer: true,
   manufacturingDate: true,
   expiryDate: true,
   currentOwner: true,
   currentOwnerAddress: true,
   status: true,
+  quantity: true,
+  unit: true,
   ipfsHash: true,
   contractAddress: true,
   tokenId: true,
 });
 
+// What a manufacturer registers; new batches always start out "manufactured"
+export const registerDrugBatchSchema = insertDrugBatchSchema.omit({ status: true });
+
+export const insertImportedEventSchema = createInsertSchema(importedEvents).pick({
+  batchId: true,
+  fromOwner: true,
+  toOwner: true,
+  fromOwnerAddress: true,
+  toOwnerAddress: true,
+  eventType: true,
+  transactionHash: true,
+  timestamp: true,
+  importedBy: true,
+});
+
 export const insertSupplyChainEventSchema = createInsertSchema(supplyChainEvents).pick({
   batchId: true,
   fromOwner: true,
@@ -70,13 +393,335 @@ export const insertSupplyChainEventSchema = createInsertSchema(supplyChainEvents
   fromOwnerAddress: true,
   toOwnerAddress: true,
   eventType: true,
+  quantity: true,
+  facilityId: true,
+  latitude: true,
+  longitude: true,
+  country: true,
   transactionHash: true,
   blockNumber: true,
+  timestamp: true,
+});
+
+export const insertSerializedUnitSchema = createInsertSchema(serializedUnits).pick({
+  batchId: true,
+  serialNumber: true,
+});
+
+export const insertScanEventSchema = createInsertSchema(scanEvents).pick({
+  batchId: true,
+  serialNumber: true,
+  country: true,
+  networkPrefix: true,
+  userAgent: true,
+  scannedAt: true,
+});
+
+export const scanAlertRules = ["impossible_travel", "excessive_scans", "scan_after_recall"] as const;
+
+export const insertScanAlertSchema = createInsertSchema(scanAlerts, {
+  rule: z.enum(scanAlertRules),
+}).pick({
+  batchId: true,
+  rule: true,
+  manufacturerAddress: true,
+  message: true,
+  firstDetectedAt: true,
+  lastDetectedAt: true,
+});
+
+export const insertTransactionDocumentSchema = createInsertSchema(transactionDocuments, {
+  document: z.custom<T3Document>(),
+}).pick({
+  eventId: true,
+  batchId: true,
+  document: true,
+  ipfsHash: true,
+});
+
+export const transferStatuses = ["pending", "accepted", "rejected", "expired"] as const;
+
+export const insertTransferSchema = createInsertSchema(transfers).pick({
+  batchId: true,
+  fromOwner: true,
+  fromOwnerAddress: true,
+  toOwner: true,
+  toOwnerAddress: true,
+  eventType: true,
+  quantity: true,
+  partnerId: true,
+  facilityId: true,
+  latitude: true,
+  longitude: true,
+  country: true,
+  previousStatus: true,
+  transactionHash: true,
+  blockNumber: true,
+  deadline: true,
+  initiatedAt: true,
+});
+
+const locationFields = z.object({
+  facilityId: z.string().min(1).max(100).optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  country: z.string().regex(/^[A-Z]{2}$/, "Country must be an ISO 3166-1 alpha-2 code").optional(),
+});
+
+const hasCoordinatePair = (location: { latitude?: number; longitude?: number }) =>
+  (location.latitude == null) === (location.longitude == null);
+const coordinatePairError = { message: "latitude and longitude must be given together", path: ["longitude"] };
+
+// Where a supply chain event happened. Every field is optional, but
+// coordinates come in pairs.
+export const eventLocationSchema = locationFields.refine(hasCoordinatePair, coordinatePairError);
+
+export const partnerVerificationStatuses = ["pending", "verified", "suspended"] as const;
+
+export const partnerFacilitySchema = locationFields.extend({
+  facilityId: z.string().refine(isValidGln, "Facility ID must be a 13-digit GLN with a valid check digit"),
+  name: z.string().min(1, "Facility name is required").max(200),
+}).refine(hasCoordinatePair, coordinatePairError);
+
+export const insertTradingPartnerSchema = createInsertSchema(tradingPartners, {
+  legalName: z.string().trim().min(1, "Legal name is required").max(200),
+  role: z.enum(supplyChainRoles),
+  gln: z.string().refine(isValidGln, "GLN must be 13 digits with a valid check digit").nullish(),
+  walletAddresses: z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address").transform((address) => address.toLowerCase()))
+    .min(1, "At least one wallet address is required")
+    .max(10)
+    .refine((addresses) => new Set(addresses).size === addresses.length, "Wallet addresses must be unique"),
+  facilities: z.array(partnerFacilitySchema).max(50).optional(),
+}).pick({
+  legalName: true,
+  role: true,
+  gln: true,
+  walletAddresses: true,
+  facilities: true,
+});
+
+export const updateTradingPartnerSchema = insertTradingPartnerSchema.partial();
+
+export const partnerVerificationSchema = z.object({
+  status: z.enum(partnerVerificationStatuses),
+});
+
+export const licenseTypes = ["manufacturing", "wholesale", "pharmacy"] as const;
+
+const licenseFields = createInsertSchema(partnerLicenses, {
+  licenseNumber: z.string().trim().min(1, "License number is required").max(100),
+  licenseType: z.enum(licenseTypes),
+  issuingAuthority: z.string().trim().min(1, "Issuing authority is required").max(200),
+  validFrom: z.coerce.date().nullish(),
+  expiresAt: z.coerce.date(),
+}).pick({
+  licenseNumber: true,
+  licenseType: true,
+  issuingAuthority: true,
+  validFrom: true,
+  expiresAt: true,
+});
+
+const licensePeriodIsOrdered = (license: { validFrom?: Date | null; expiresAt?: Date }) =>
+  !license.validFrom || !license.expiresAt || license.validFrom < license.expiresAt;
+const licensePeriodError = { message: "expiresAt must be after validFrom", path: ["expiresAt"] };
+
+export const insertPartnerLicenseSchema = licenseFields.refine(licensePeriodIsOrdered, licensePeriodError);
+export const updatePartnerLicenseSchema = licenseFields.partial().refine(licensePeriodIsOrdered, licensePeriodError);
+
+export const notificationKinds = ["license_expiring"] as const;
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  kind: z.enum(notificationKinds),
+}).pick({
+  userId: true,
+  kind: true,
+  message: true,
+  partnerId: true,
+  licenseId: true,
+});
+
+export const transferRejectionSchema = z.object({
+  reason: z.string().min(3, "Rejection reason must be at least 3 characters"),
+  transactionHash: z.string().optional(),
+});
+
+export const lineageOperations = ["split", "merge"] as const;
+
+export const insertBatchLineageSchema = createInsertSchema(batchLineage, {
+  operation: z.enum(lineageOperations),
+}).pick({
+  parentBatchId: true,
+  childBatchId: true,
+  quantity: true,
+  operation: true,
+  previousStatus: true,
+  transactionHash: true,
+  blockNumber: true,
+  createdAt: true,
+});
+
+export const insertStorageConditionSchema = createInsertSchema(storageConditions, {
+  drugName: z.string().min(1, "Drug name is required"),
+  minTemperature: z.number().finite(),
+  maxTemperature: z.number().finite(),
+  minHumidity: z.number().min(0).max(100).nullish(),
+  maxHumidity: z.number().min(0).max(100).nullish(),
+}).pick({
+  drugName: true,
+  minTemperature: true,
+  maxTemperature: true,
+  minHumidity: true,
+  maxHumidity: true,
+}).refine((condition) => condition.minTemperature <= condition.maxTemperature, {
+  message: "minTemperature must not be above maxTemperature",
+  path: ["maxTemperature"],
+}).refine((condition) => condition.minHumidity == null || condition.maxHumidity == null || condition.minHumidity <= condition.maxHumidity, {
+  message: "minHumidity must not be above maxHumidity",
+  path: ["maxHumidity"],
+});
+
+export const insertTelemetryReadingSchema = createInsertSchema(telemetryReadings).pick({
+  batchId: true,
+  transferId: true,
+  deviceId: true,
+  temperature: true,
+  humidity: true,
+  excursion: true,
+  recordedAt: true,
+});
+
+export const excursionKinds = ["temperature_high", "temperature_low", "humidity_high", "humidity_low"] as const;
+
+export const insertExcursionSchema = createInsertSchema(excursions, {
+  kind: z.enum(excursionKinds),
+}).pick({
+  batchId: true,
+  transferId: true,
+  deviceId: true,
+  kind: true,
+  threshold: true,
+  peakValue: true,
+  eventId: true,
+  startedAt: true,
+  lastReadingAt: true,
+});
+
+// Most readings accepted in one upload
+export const MAX_TELEMETRY_READINGS = 1000;
+
+// Data-logger readings for `batchId`. Without `transferId`, readings are
+// linked to the batch's pending shipment, if any.
+export const telemetryUploadSchema = z.object({
+  batchId: z.string().min(1, "Batch ID is required"),
+  transferId: z.string().optional(),
+  readings: z.array(z.object({
+    deviceId: z.string().min(1, "Device ID is required").max(100),
+    temperature: z.number().finite(),
+    humidity: z.number().min(0).max(100).optional(),
+    recordedAt: z.coerce.date(),
+  })).min(1, "At least one reading is required").max(MAX_TELEMETRY_READINGS, `At most ${MAX_TELEMETRY_READINGS} readings per upload`),
+});
+
+// Splits sub-lots off `batchId`. `tokenId` is each sub-lot's token when the
+// split was not checked on-chain.
+export const splitRequestSchema = z.object({
+  batchId: z.string().min(1, "Batch ID is required"),
+  lots: z.array(z.object({
+    batchId: z.string().min(1, "Sub-lot batch ID is required"),
+    quantity: z.number().int().positive("Quantity must be positive"),
+    tokenId: z.number().int().optional(),
+  })).min(1, "At least one sub-lot is required"),
+  transactionHash: z.string().optional(),
+});
+
+export const mergeRequestSchema = z.object({
+  batchIds: z.array(z.string().min(1)).min(2, "At least two lots are required"),
+  newBatchId: z.string().min(1, "Batch ID is required"),
+  tokenId: z.number().int().optional(),
+  transactionHash: z.string().optional(),
+});
+
+// Most serial numbers generated by one request
+export const MAX_SERIAL_RANGE = 10000;
+
+export const serialRangeRequestSchema = z.object({
+  batchId: z.string().min(1, "Batch ID is required"),
+  count: z.number().int().min(1).max(MAX_SERIAL_RANGE, `At most ${MAX_SERIAL_RANGE} units per request`),
+});
+
+// Recalls `batchId`, or with scope "drug" every active batch of the same drug
+// registered by the same manufacturer, optionally limited to a batch ID range
+export const recallRequestSchema = z.object({
+  batchId: z.string().min(1, "Batch ID is required"),
+  reason: z.string().min(3, "Recall reason must be at least 3 characters"),
+  scope: z.enum(["batch", "drug"]).default("batch"),
+  fromBatchId: z.string().optional(),
+  toBatchId: z.string().optional(),
+  transactionHash: z.string().optional(),
+});
+
+// What a signed QR label carries. `keyId` is the issuing manufacturer's linked
+// wallet address and `signature` that wallet's signature over the other fields.
+export const signedQRPayloadSchema = z.object({
+  batchId: z.string().min(1, "Batch ID is required"),
+  tokenId: z.string().optional(),
+  serial: z.string().min(1, "Serial is required"),
+  keyId: z.string().min(1, "Key ID is required"),
+  signature: z.string().min(1, "Signature is required"),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type UserRole = (typeof userRoles)[number];
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type RoleAssignment = z.infer<typeof roleAssignmentSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
 export type InsertDrugBatch = z.infer<typeof insertDrugBatchSchema>;
 export type DrugBatch = typeof drugBatches.$inferSelect;
 export type InsertSupplyChainEvent = z.infer<typeof insertSupplyChainEventSchema>;
 export type SupplyChainEvent = typeof supplyChainEvents.$inferSelect;
+export type InsertImportedEvent = z.infer<typeof insertImportedEventSchema>;
+export type ImportedEvent = typeof importedEvents.$inferSelect;
+export type IndexerState = typeof indexerState.$inferSelect;
+export type InsertTransactionDocument = z.infer<typeof insertTransactionDocumentSchema>;
+export type TransactionDocument = typeof transactionDocuments.$inferSelect;
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+export type Transfer = typeof transfers.$inferSelect;
+export type TransferStatus = (typeof transferStatuses)[number];
+export type TransferRejection = z.infer<typeof transferRejectionSchema>;
+export type EventLocation = z.infer<typeof eventLocationSchema>;
+export type PartnerVerificationStatus = (typeof partnerVerificationStatuses)[number];
+export type InsertTradingPartner = z.infer<typeof insertTradingPartnerSchema>;
+export type UpdateTradingPartner = z.infer<typeof updateTradingPartnerSchema>;
+export type TradingPartner = typeof tradingPartners.$inferSelect;
+export type LicenseType = (typeof licenseTypes)[number];
+export type InsertPartnerLicense = z.infer<typeof insertPartnerLicenseSchema>;
+export type UpdatePartnerLicense = z.infer<typeof updatePartnerLicenseSchema>;
+export type PartnerLicense = typeof partnerLicenses.$inferSelect;
+export type NotificationKind = (typeof notificationKinds)[number];
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertBatchLineage = z.infer<typeof insertBatchLineageSchema>;
+export type BatchLineage = typeof batchLineage.$inferSelect;
+export type SplitRequest = z.infer<typeof splitRequestSchema>;
+export type InsertStorageCondition = z.infer<typeof insertStorageConditionSchema>;
+export type StorageCondition = typeof storageConditions.$inferSelect;
+export type InsertTelemetryReading = z.infer<typeof insertTelemetryReadingSchema>;
+export type TelemetryReading = typeof telemetryReadings.$inferSelect;
+export type TelemetryUpload = z.infer<typeof telemetryUploadSchema>;
+export type ExcursionKind = (typeof excursionKinds)[number];
+export type InsertExcursion = z.infer<typeof insertExcursionSchema>;
+export type Excursion = typeof excursions.$inferSelect;
+export type MergeRequest = z.infer<typeof mergeRequestSchema>;
+export type InsertSerializedUnit = z.infer<typeof insertSerializedUnitSchema>;
+export type SerializedUnit = typeof serializedUnits.$inferSelect;
+export type InsertScanEvent = z.infer<typeof insertScanEventSchema>;
+export type ScanEvent = typeof scanEvents.$inferSelect;
+export type ScanAlertRule = (typeof scanAlertRules)[number];
+export type InsertScanAlert = z.infer<typeof insertScanAlertSchema>;
+export type ScanAlert = typeof scanAlerts.$inferSelect;
+export type RecallRequest = z.infer<typeof recallRequestSchema>;
+export type SignedQRPayload = z.infer<typeof signedQRPayloadSchema>;
+export type QRPayload = Omit<SignedQRPayload, "signature">;
@@ -0,0 +1,112 @@
+// The supply chain state machine: the statuses a drug batch moves through and
+// the event types that move it. Shared by the API, which enforces it, and the
+// client, which shows it.
+
+export const batchStatuses = [
+  "manufactured", "in_transit", "received", "delivered", "dispensed",
+  "recalled", "expired", "destroyed", "split", "merged", "deactivated",
+] as const;
+
+export type BatchStatus = (typeof batchStatuses)[number];
+export type StatusBadgeVariant = "default" | "secondary" | "outline" | "destructive";
+
+export const statusDefinitions: Record<BatchStatus, { description: string; badge: StatusBadgeVariant; inStock: boolean }> = {
+  manufactured: { description: "Registered by its manufacturer", badge: "outline", inStock: true },
+  in_transit: { description: "Shipped, awaiting the recipient", badge: "secondary", inStock: true },
+  received: { description: "Received by a distributor", badge: "default", inStock: true },
+  delivered: { description: "Delivered to a pharmacy", badge: "default", inStock: true },
+  dispensed: { description: "Dispensed to a patient", badge: "default", inStock: false },
+  recalled: { description: "Recalled by its manufacturer", badge: "destructive", inStock: false },
+  expired: { description: "Past its expiry date", badge: "destructive", inStock: false },
+  destroyed: { description: "Destroyed by its holder", badge: "destructive", inStock: false },
+  split: { description: "Split into sub-lots", badge: "outline", inStock: false },
+  merged: { description: "Merged into another lot", badge: "outline", inStock: false },
+  deactivated: { description: "Deactivated on-chain", badge: "destructive", inStock: false },
+};
+
+// Event types that hand a batch to a new owner through the transfer
+// handshake: the statuses it can be shipped from, and its status once the
+// recipient accepts. Manufacturers may deliver straight to a pharmacy.
+export const shipmentTransitions = {
+  transfer: { from: ["manufactured", "received"], to: "received", label: "Transfer" },
+  distribute: { from: ["manufactured", "received"], to: "received", label: "Distribute" },
+  deliver: { from: ["manufactured", "received"], to: "delivered", label: "Deliver" },
+  sell: { from: ["delivered"], to: "dispensed", label: "Sell" },
+} as const satisfies Record<string, { from: readonly BatchStatus[]; to: BatchStatus; label: string }>;
+
+export type ShipmentEventType = keyof typeof shipmentTransitions;
+export const shipmentEventTypes = Object.keys(shipmentTransitions) as ShipmentEventType[];
+
+// Event types that end a batch's normal path, whoever holds it
+export const branchTransitions = {
+  recall: {
+    from: ["manufactured", "in_transit", "received", "delivered", "dispensed", "expired", "split", "merged", "deactivated"],
+    to: "recalled",
+  },
+  expire: { from: ["manufactured", "in_transit", "received", "delivered", "dispensed", "deactivated"], to: "expired" },
+  destroy: { from: ["manufactured", "received", "delivered", "recalled", "expired", "deactivated"], to: "destroyed" },
+} as const satisfies Record<string, { from: readonly BatchStatus[]; to: BatchStatus }>;
+
+export type BranchEventType = keyof typeof branchTransitions;
+
+const eventDefinitions: Record<string, { icon: string; color: string }> = {
+  manufacture: { icon: "fas fa-industry", color: "bg-green-500" },
+  transfer: { icon: "fas fa-truck", color: "bg-amber-500" },
+  distribute: { icon: "fas fa-warehouse", color: "bg-blue-500" },
+  deliver: { icon: "fas fa-store", color: "bg-purple-500" },
+  sell: { icon: "fas fa-prescription-bottle-medical", color: "bg-pink-500" },
+  verify: { icon: "fas fa-shield-check", color: "bg-secondary" },
+  recall: { icon: "fas fa-ban", color: "bg-red-600" },
+  expire: { icon: "fas fa-hourglass-end", color: "bg-gray-400" },
+  destroy: { icon: "fas fa-trash-can", color: "bg-gray-700" },
+  split: { icon: "fas fa-code-branch", color: "bg-teal-500" },
+  merge: { icon: "fas fa-object-group", color: "bg-teal-500" },
+  excursion: { icon: "fas fa-temperature-high", color: "bg-orange-500" },
+};
+
+const hasKey = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+export function isShipmentEventType(eventType: string): eventType is ShipmentEventType {
+  return hasKey(shipmentTransitions, eventType);
+}
+
+// Whether a batch in `status` can be shipped as `eventType`
+export function canShip(status: string, eventType: string): boolean {
+  return isShipmentEventType(eventType) && (shipmentTransitions[eventType].from as readonly string[]).includes(status);
+}
+
+// The event types a batch in `status` can be shipped as
+export function shipmentEventTypesFrom(status: string): ShipmentEventType[] {
+  return shipmentEventTypes.filter((eventType) => canShip(status, eventType));
+}
+
+// Whether a recall, expiry or destruction can happen to a batch in `status`
+export function canBranch(status: string, eventType: BranchEventType): boolean {
+  return (branchTransitions[eventType].from as readonly string[]).includes(status);
+}
+
+// The status an event leaves a batch in, or null for events that don't
+// change it (verify, excursion) or leave it to the lineage rules (split, merge)
+export function statusAfterEvent(eventType: string): BatchStatus | null {
+  if (eventType === "manufacture") return "manufactured";
+  if (isShipmentEventType(eventType)) return shipmentTransitions[eventType].to;
+  if (hasKey(branchTransitions, eventType)) return branchTransitions[eventType as BranchEventType].to;
+  return null;
+}
+
+// Statuses whose batches still count as someone's stock
+export function isInStock(status: string): boolean {
+  return statusDefinitions[status as BatchStatus]?.inStock ?? false;
+}
+
+export function getStatusBadgeVariant(status: string): StatusBadgeVariant {
+  return statusDefinitions[status.toLowerCase() as BatchStatus]?.badge ?? "outline";
+}
+
+export function getEventIcon(eventType: string): string {
+  return eventDefinitions[eventType.toLowerCase()]?.icon ?? "fas fa-arrow-right";
+}
+
+export function getEventColor(eventType: string): string {
+  return eventDefinitions[eventType.toLowerCase()]?.color ?? "bg-gray-500";
+}
@@ -0,0 +1,689 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("DrugAuth", function () {
+  let drugAuth;
+  let owner, manufacturer, distributor, pharmacy, customer;
+  let drugData;
+
+  beforeEach(async function () {
+    [owner, manufacturer, distributor, pharmacy, customer] = await ethers.getSigners();
+
+    const DrugAuth = await ethers.getContractFactory("DrugAuth");
+    drugAuth = await DrugAuth.deploy();
+    await drugAuth.waitForDeployment();
+
+    // Only licensed parties can be shipped drugs
+    const licenseExpiry = Math.floor(Date.now() / 1000) + 2 * 365 * 24 * 60 * 60;
+    for (const party of [manufacturer, distributor, pharmacy]) {
+      await drugAuth.issueLicense(party.address, `LIC-${party.address.slice(2, 8)}`, licenseExpiry);
+    }
+
+    // Sample drug data
+    drugData = {
+      batchId: "BTC-2024-001",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      expiryDate: Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60, // 1 year from now
+      ipfsHash: "QmTestHash123456789",
+      quantity: 1000,
+    };
+  });
+
+  describe("Drug Registration", function () {
+    it("Should register a new drug successfully", async function () {
+      const tx = await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      const receipt = await tx.wait();
+      const tokenId = 1; // First token ID should be 1
+
+      // Check if drug is registered correctly
+      const drug = await drugAuth.verifyDrug(tokenId);
+      expect(drug.batchId).to.equal(drugData.batchId);
+      expect(drug.drugName).to.equal(drugData.drugName);
+      expect(drug.manufacturer).to.equal(drugData.manufacturer);
+      expect(drug.currentOwner).to.equal(owner.address);
+      expect(drug.isActive).to.be.true;
+    });
+
+    it("Should emit DrugRegistered event", async function () {
+      await expect(
+        drugAuth.registerDrug(
+          drugData.batchId,
+          drugData.drugName,
+          drugData.manufacturer,
+          drugData.expiryDate,
+          drugData.ipfsHash,
+          drugData.quantity
+        )
+      )
+        .to.emit(drugAuth, "DrugRegistered")
+        .withArgs(1, drugData.batchId, owner.address, drugData.drugName, drugData.manufacturer);
+    });
+
+    it("Should fail with duplicate batch ID", async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      await expect(
+        drugAuth.registerDrug(
+          drugData.batchId,
+          "Another Drug",
+          "Another Manufacturer",
+          drugData.expiryDate,
+          drugData.ipfsHash,
+          drugData.quantity
+        )
+      ).to.be.revertedWith("Batch ID already exists");
+    });
+
+    it("Should fail with empty batch ID", async function () {
+      await expect(
+        drugAuth.registerDrug(
+          "",
+          drugData.drugName,
+          drugData.manufacturer,
+          drugData.expiryDate,
+          drugData.ipfsHash,
+          drugData.quantity
+        )
+      ).to.be.revertedWith("Batch ID cannot be empty");
+    });
+
+    it("Should fail with past expiry date", async function () {
+      const pastDate = Math.floor(Date.now() / 1000) - 86400; // Yesterday
+
+      await expect(
+        drugAuth.registerDrug(
+          drugData.batchId,
+          drugData.drugName,
+          drugData.manufacturer,
+          pastDate,
+          drugData.ipfsHash,
+          drugData.quantity
+        )
+      ).to.be.revertedWith("Expiry date must be in the future");
+    });
+  });
+
+  describe("Ownership Transfer", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      const tx = await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+    });
+
+    it("Should leave ownership with the sender until the recipient accepts", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(owner.address);
+      const pending = await drugAuth.pendingTransfers(tokenId);
+      expect(pending.to).to.equal(manufacturer.address);
+      expect(pending.eventType).to.equal("transfer");
+
+      await drugAuth.connect(manufacturer).acceptTransfer(tokenId);
+
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(manufacturer.address);
+      const drug = await drugAuth.verifyDrug(tokenId);
+      expect(drug.currentOwner).to.equal(manufacturer.address);
+      expect((await drugAuth.pendingTransfers(tokenId)).to).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should emit TransferInitiated and OwnershipTransferred events", async function () {
+      const timeout = await drugAuth.transferTimeout();
+      await expect(drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer"))
+        .to.emit(drugAuth, "TransferInitiated")
+        .withArgs(tokenId, owner.address, manufacturer.address, "transfer", (deadline) => deadline > timeout);
+
+      await expect(drugAuth.connect(manufacturer).acceptTransfer(tokenId))
+        .to.emit(drugAuth, "OwnershipTransferred(uint256,address,address,string)")
+        .withArgs(tokenId, owner.address, manufacturer.address, "transfer");
+    });
+
+    it("Should record transfer in drug history", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+      expect((await drugAuth.getDrugHistory(tokenId)).length).to.equal(1);
+      await drugAuth.connect(manufacturer).acceptTransfer(tokenId);
+
+      const history = await drugAuth.getDrugHistory(tokenId);
+      expect(history.length).to.equal(2); // manufacture + transfer
+      expect(history[1].from).to.equal(owner.address);
+      expect(history[1].to).to.equal(manufacturer.address);
+      expect(history[1].eventType).to.equal("transfer");
+    });
+
+    it("Should fail when transferring to same owner", async function () {
+      await expect(
+        drugAuth.initiateTransfer(tokenId, owner.address, "transfer")
+      ).to.be.revertedWith("Cannot transfer to current owner");
+    });
+
+    it("Should fail when not token owner", async function () {
+      await expect(
+        drugAuth.connect(manufacturer).initiateTransfer(tokenId, distributor.address, "transfer")
+      ).to.be.revertedWith("Not the token owner");
+    });
+
+    it("Should only let the recipient accept or reject", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+
+      await expect(drugAuth.connect(distributor).acceptTransfer(tokenId)).to.be.revertedWith(
+        "Not the transfer recipient"
+      );
+      await expect(drugAuth.rejectTransfer(tokenId, "Damaged")).to.be.revertedWith(
+        "Not the transfer recipient"
+      );
+      await expect(
+        drugAuth.initiateTransfer(tokenId, distributor.address, "transfer")
+      ).to.be.revertedWith("Transfer already pending");
+    });
+
+    it("Should keep the drug with the sender when the recipient rejects", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+
+      await expect(drugAuth.connect(manufacturer).rejectTransfer(tokenId, ""))
+        .to.be.revertedWith("Rejection reason cannot be empty");
+      await expect(drugAuth.connect(manufacturer).rejectTransfer(tokenId, "Damaged in transit"))
+        .to.emit(drugAuth, "TransferRejected")
+        .withArgs(tokenId, owner.address, manufacturer.address, "Damaged in transit");
+
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(owner.address);
+      await expect(drugAuth.connect(manufacturer).acceptTransfer(tokenId)).to.be.revertedWith(
+        "No pending transfer"
+      );
+      await drugAuth.initiateTransfer(tokenId, distributor.address, "transfer");
+    });
+
+    it("Should let the sender cancel only after the recipient times out", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+      await expect(drugAuth.cancelTransfer(tokenId)).to.be.revertedWith("Transfer has not timed out");
+
+      await ethers.provider.send("evm_increaseTime", [Number(await drugAuth.transferTimeout()) + 1]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(drugAuth.connect(manufacturer).acceptTransfer(tokenId)).to.be.revertedWith(
+        "Transfer has timed out"
+      );
+      await expect(drugAuth.cancelTransfer(tokenId))
+        .to.emit(drugAuth, "TransferCancelled")
+        .withArgs(tokenId, owner.address, manufacturer.address);
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(owner.address);
+    });
+
+    it("Should block ERC721 transfers while a shipment is pending", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+      await expect(
+        drugAuth.transferFrom(owner.address, distributor.address, tokenId)
+      ).to.be.revertedWith("Transfer is pending");
+    });
+
+    it("Should not let the holder move a drug around the handshake", async function () {
+      await expect(
+        drugAuth.transferFrom(owner.address, distributor.address, tokenId)
+      ).to.be.revertedWith("Use initiateTransfer and acceptTransfer");
+      await expect(
+        drugAuth["safeTransferFrom(address,address,uint256)"](owner.address, distributor.address, tokenId)
+      ).to.be.revertedWith("Use initiateTransfer and acceptTransfer");
+      await drugAuth.approve(distributor.address, tokenId);
+      await expect(
+        drugAuth.connect(distributor).transferFrom(owner.address, distributor.address, tokenId)
+      ).to.be.revertedWith("Use initiateTransfer and acceptTransfer");
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(owner.address);
+    });
+
+    it("Should only let the contract owner change the timeout", async function () {
+      await drugAuth.setTransferTimeout(3 * 24 * 60 * 60);
+      expect(await drugAuth.transferTimeout()).to.equal(3 * 24 * 60 * 60);
+      await expect(
+        drugAuth.connect(manufacturer).setTransferTimeout(1)
+      ).to.be.revertedWithCustomError(drugAuth, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Drug Verification", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+    });
+
+    it("Should verify drug by token ID", async function () {
+      const drug = await drugAuth.verifyDrug(tokenId);
+      expect(drug.batchId).to.equal(drugData.batchId);
+      expect(drug.drugName).to.equal(drugData.drugName);
+      expect(drug.isActive).to.be.true;
+    });
+
+    it("Should verify drug by batch ID", async function () {
+      const drug = await drugAuth.verifyDrugByBatchId(drugData.batchId);
+      expect(drug.batchId).to.equal(drugData.batchId);
+      expect(drug.drugName).to.equal(drugData.drugName);
+    });
+
+    it("Should fail for non-existent token", async function () {
+      await expect(drugAuth.verifyDrug(999)).to.be.revertedWith("Drug does not exist");
+    });
+
+    it("Should fail for non-existent batch ID", async function () {
+      await expect(drugAuth.verifyDrugByBatchId("INVALID-BATCH")).to.be.revertedWith(
+        "Batch ID does not exist"
+      );
+    });
+  });
+
+  describe("Drug History", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+    });
+
+    it("Should track manufacturing event", async function () {
+      const history = await drugAuth.getDrugHistory(tokenId);
+      expect(history.length).to.equal(1);
+      expect(history[0].from).to.equal(ethers.ZeroAddress);
+      expect(history[0].to).to.equal(owner.address);
+      expect(history[0].eventType).to.equal("manufacture");
+    });
+
+    it("Should track multiple transfers", async function () {
+      await drugAuth.initiateTransfer(tokenId, manufacturer.address, "transfer");
+      await drugAuth.connect(manufacturer).acceptTransfer(tokenId);
+      await drugAuth.connect(manufacturer).initiateTransfer(tokenId, distributor.address, "distribute");
+      await drugAuth.connect(distributor).acceptTransfer(tokenId);
+
+      const history = await drugAuth.getDrugHistory(tokenId);
+      expect(history.length).to.equal(3);
+      expect(history[2].eventType).to.equal("distribute");
+    });
+  });
+
+  describe("Recalls", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      await drugAuth.connect(manufacturer).registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+      await drugAuth.connect(manufacturer).initiateTransfer(tokenId, distributor.address, "transfer");
+      await drugAuth.connect(distributor).acceptTransfer(tokenId);
+    });
+
+    it("Should let the manufacturer recall a drug it no longer holds", async function () {
+      await expect(drugAuth.connect(manufacturer).recallDrug(tokenId, "Contamination"))
+        .to.emit(drugAuth, "DrugRecalled")
+        .withArgs(tokenId, manufacturer.address, "Contamination");
+
+      const drug = await drugAuth.verifyDrug(tokenId);
+      expect(drug.isActive).to.be.false;
+      expect(await drugAuth.recallReasons(tokenId)).to.equal("Contamination");
+
+      const history = await drugAuth.getDrugHistory(tokenId);
+      expect(history.length).to.equal(3);
+      expect(history[2].eventType).to.equal("recall");
+      expect(history[2].to).to.equal(distributor.address);
+    });
+
+    it("Should block transfers of recalled drugs", async function () {
+      await drugAuth.connect(manufacturer).recallDrug(tokenId, "Contamination");
+      await expect(
+        drugAuth.connect(distributor).initiateTransfer(tokenId, pharmacy.address, "transfer")
+      ).to.be.revertedWith("Drug is not active");
+    });
+
+    it("Should stop a recipient accepting a drug recalled in transit", async function () {
+      await drugAuth.connect(distributor).initiateTransfer(tokenId, pharmacy.address, "deliver");
+      await drugAuth.connect(manufacturer).recallDrug(tokenId, "Contamination");
+      await expect(drugAuth.connect(pharmacy).acceptTransfer(tokenId)).to.be.revertedWith(
+        "Drug is not active"
+      );
+    });
+
+    it("Should only allow the manufacturer or contract owner", async function () {
+      await expect(
+        drugAuth.connect(distributor).recallDrug(tokenId, "Contamination")
+      ).to.be.revertedWith("Only the manufacturer can recall");
+      await expect(drugAuth.recallDrug(tokenId, "Regulator order")).to.emit(drugAuth, "DrugRecalled");
+    });
+
+    it("Should reject empty reasons and repeat recalls", async function () {
+      await expect(drugAuth.connect(manufacturer).recallDrug(tokenId, "")).to.be.revertedWith(
+        "Recall reason cannot be empty"
+      );
+      await drugAuth.connect(manufacturer).recallDrug(tokenId, "Contamination");
+      await expect(drugAuth.connect(manufacturer).recallDrug(tokenId, "Again")).to.be.revertedWith(
+        "Drug already recalled"
+      );
+    });
+
+    it("Should recall several drugs at once", async function () {
+      await drugAuth.connect(manufacturer).registerDrug(
+        "BTC-2024-002",
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      await drugAuth.connect(manufacturer).recallDrugs([1, 2], "Lot contamination");
+      expect((await drugAuth.verifyDrug(1)).isActive).to.be.false;
+      expect((await drugAuth.verifyDrug(2)).isActive).to.be.false;
+    });
+  });
+
+  describe("Lot Splitting and Merging", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      await drugAuth.connect(manufacturer).registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+      await drugAuth.connect(manufacturer).initiateTransfer(tokenId, distributor.address, "transfer");
+      await drugAuth.connect(distributor).acceptTransfer(tokenId);
+    });
+
+    it("Should mint sub-lots to the holder and take their quantity from the parent", async function () {
+      await expect(drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-A", "BTC-2024-001-B"], [300, 200]))
+        .to.emit(drugAuth, "DrugSplit")
+        .withArgs(tokenId, 2, "BTC-2024-001-A", 300);
+
+      expect((await drugAuth.verifyDrug(tokenId)).quantity).to.equal(500);
+      const child = await drugAuth.verifyDrugByBatchId("BTC-2024-001-B");
+      expect(child.quantity).to.equal(200);
+      expect(child.drugName).to.equal(drugData.drugName);
+      expect(child.expiryDate).to.equal(drugData.expiryDate);
+      expect(await drugAuth.ownerOf(3)).to.equal(distributor.address);
+      expect(await drugAuth.getChildTokens(tokenId)).to.deep.equal([2n, 3n]);
+      expect(await drugAuth.getParentTokens(3)).to.deep.equal([1n]);
+      expect((await drugAuth.getDrugHistory(3))[0].eventType).to.equal("split");
+
+      // The manufacturer can still recall a sub-lot
+      await drugAuth.connect(manufacturer).recallDrug(2, "Contamination");
+      expect((await drugAuth.verifyDrug(2)).isActive).to.be.false;
+    });
+
+    it("Should deactivate a lot split down to nothing", async function () {
+      await expect(
+        drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-A"], [1001])
+      ).to.be.revertedWith("Not enough quantity");
+      await expect(
+        drugAuth.connect(manufacturer).splitDrug(tokenId, ["BTC-2024-001-A"], [1])
+      ).to.be.revertedWith("Not the token owner");
+
+      await drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-A"], [1000]);
+      expect((await drugAuth.verifyDrug(tokenId)).isActive).to.be.false;
+      await expect(
+        drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-B"], [1])
+      ).to.be.revertedWith("Drug is not active");
+    });
+
+    it("Should not split a lot that is being shipped", async function () {
+      await drugAuth.connect(distributor).initiateTransfer(tokenId, pharmacy.address, "deliver");
+      await expect(
+        drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-A"], [10])
+      ).to.be.revertedWith("Transfer is pending");
+    });
+
+    it("Should split off and ship part of a lot in one transaction", async function () {
+      await expect(drugAuth.connect(distributor).initiatePartialTransfer(tokenId, "BTC-2024-001-P", 250, pharmacy.address, "deliver"))
+        .to.emit(drugAuth, "DrugSplit")
+        .withArgs(tokenId, 2, "BTC-2024-001-P", 250)
+        .and.to.emit(drugAuth, "TransferInitiated");
+
+      expect((await drugAuth.verifyDrug(tokenId)).quantity).to.equal(750);
+      expect((await drugAuth.pendingTransfers(2)).to).to.equal(pharmacy.address);
+      expect((await drugAuth.pendingTransfers(tokenId)).to).to.equal(ethers.ZeroAddress);
+
+      await drugAuth.connect(pharmacy).acceptTransfer(2);
+      expect(await drugAuth.ownerOf(2)).to.equal(pharmacy.address);
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(distributor.address);
+
+      await expect(
+        drugAuth.connect(distributor).initiatePartialTransfer(tokenId, "BTC-2024-001-Q", 751, pharmacy.address, "deliver")
+      ).to.be.revertedWith("Not enough quantity");
+    });
+
+    it("Should merge lots of the same drug into a new lot", async function () {
+      await drugAuth.connect(distributor).splitDrug(tokenId, ["BTC-2024-001-A", "BTC-2024-001-B"], [300, 200]);
+
+      await expect(drugAuth.connect(distributor).mergeDrugs([2, 3], "BTC-2024-001-M"))
+        .to.emit(drugAuth, "DrugsMerged")
+        .withArgs(4, [2, 3], "BTC-2024-001-M", 500);
+
+      const merged = await drugAuth.verifyDrug(4);
+      expect(merged.quantity).to.equal(500);
+      expect(merged.isActive).to.be.true;
+      expect((await drugAuth.verifyDrug(2)).isActive).to.be.false;
+      expect(await drugAuth.getParentTokens(4)).to.deep.equal([2n, 3n]);
+      expect(await drugAuth.tokenManufacturer(4)).to.equal(manufacturer.address);
+    });
+
+    it("Should refuse to merge different drugs or a lot with itself", async function () {
+      await drugAuth.connect(distributor).registerDrug(
+        "OTHER-001",
+        "Ibuprofen 200mg",
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        50
+      );
+      await expect(
+        drugAuth.connect(distributor).mergeDrugs([tokenId, 2], "BTC-2024-001-M")
+      ).to.be.revertedWith("Lots are not the same drug");
+      await expect(
+        drugAuth.connect(distributor).mergeDrugs([tokenId, tokenId], "BTC-2024-001-M")
+      ).to.be.revertedWith("Drug is not active");
+      await expect(
+        drugAuth.connect(distributor).mergeDrugs([tokenId], "BTC-2024-001-M")
+      ).to.be.revertedWith("Need at least two lots to merge");
+    });
+  });
+
+  describe("Role Management", function () {
+    it("Should assign roles correctly", async function () {
+      await drugAuth.assignRole(manufacturer.address, "manufacturer");
+      const role = await drugAuth.getUserRole(manufacturer.address);
+      expect(role).to.equal("manufacturer");
+    });
+
+    it("Should emit RoleAssigned event", async function () {
+      await expect(drugAuth.assignRole(manufacturer.address, "manufacturer"))
+        .to.emit(drugAuth, "RoleAssigned")
+        .withArgs(manufacturer.address, "manufacturer");
+    });
+
+    it("Should fail when non-owner assigns roles", async function () {
+      await expect(
+        drugAuth.connect(manufacturer).assignRole(distributor.address, "distributor")
+      ).to.be.revertedWithCustomError(drugAuth, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Licensing", function () {
+    let tokenId;
+
+    beforeEach(async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+      tokenId = 1;
+    });
+
+    it("Should not ship to a party without a license", async function () {
+      expect(await drugAuth.hasValidLicense(customer.address)).to.be.false;
+      await expect(
+        drugAuth.initiateTransfer(tokenId, customer.address, "transfer")
+      ).to.be.revertedWith("Recipient is not licensed");
+      await expect(
+        drugAuth.initiatePartialTransfer(tokenId, "BTC-2024-001-P", 10, customer.address, "transfer")
+      ).to.be.revertedWith("Recipient is not licensed");
+    });
+
+    it("Should emit license events and let only the contract owner issue them", async function () {
+      const expiresAt = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60;
+      await expect(drugAuth.issueLicense(customer.address, "GPhC-9011234", expiresAt))
+        .to.emit(drugAuth, "LicenseIssued")
+        .withArgs(customer.address, "GPhC-9011234", expiresAt);
+      expect((await drugAuth.licenses(customer.address)).licenseNumber).to.equal("GPhC-9011234");
+
+      await expect(drugAuth.issueLicense(customer.address, "GPhC-9011234", 1)).to.be.revertedWith(
+        "License has already expired"
+      );
+      await expect(
+        drugAuth.connect(customer).issueLicense(customer.address, "FORGED", expiresAt)
+      ).to.be.revertedWithCustomError(drugAuth, "OwnableUnauthorizedAccount");
+
+      await expect(drugAuth.revokeLicense(customer.address))
+        .to.emit(drugAuth, "LicenseRevoked")
+        .withArgs(customer.address, "GPhC-9011234");
+      await expect(drugAuth.revokeLicense(customer.address)).to.be.revertedWith("No license to revoke");
+    });
+
+    it("Should not let a recipient accept once their license has lapsed", async function () {
+      const block = await ethers.provider.getBlock("latest");
+      await drugAuth.issueLicense(customer.address, "WDA-42", block.timestamp + 24 * 60 * 60);
+      await drugAuth.initiateTransfer(tokenId, customer.address, "transfer");
+
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await drugAuth.hasValidLicense(customer.address)).to.be.false;
+      await expect(drugAuth.connect(customer).acceptTransfer(tokenId)).to.be.revertedWith(
+        "Recipient is not licensed"
+      );
+      await drugAuth.connect(customer).rejectTransfer(tokenId, "License lapsed");
+    });
+
+    it("Should let a licensed pharmacy sell to an unlicensed patient and retire the drug", async function () {
+      await drugAuth.initiateTransfer(tokenId, pharmacy.address, "deliver");
+      await drugAuth.connect(pharmacy).acceptTransfer(tokenId);
+
+      expect(await drugAuth.hasValidLicense(customer.address)).to.be.false;
+      await expect(drugAuth.connect(pharmacy).initiateTransfer(tokenId, customer.address, "sell"))
+        .to.emit(drugAuth, "TransferInitiated");
+      await expect(drugAuth.connect(customer).acceptTransfer(tokenId))
+        .to.emit(drugAuth, "OwnershipTransferred(uint256,address,address,string)")
+        .withArgs(tokenId, pharmacy.address, customer.address, "sell");
+
+      expect(await drugAuth.ownerOf(tokenId)).to.equal(customer.address);
+      expect((await drugAuth.verifyDrug(tokenId)).isActive).to.be.false;
+      await expect(
+        drugAuth.connect(customer).initiateTransfer(tokenId, distributor.address, "sell")
+      ).to.be.revertedWith("Seller is not licensed");
+      const block = await ethers.provider.getBlock("latest");
+      await drugAuth.issueLicense(customer.address, "GPhC-1", block.timestamp + 24 * 60 * 60);
+      await expect(
+        drugAuth.connect(customer).initiateTransfer(tokenId, distributor.address, "transfer")
+      ).to.be.revertedWith("Drug is not active");
+    });
+
+    it("Should not let an unlicensed holder sell", async function () {
+      expect(await drugAuth.hasValidLicense(owner.address)).to.be.false;
+      await expect(
+        drugAuth.initiateTransfer(tokenId, customer.address, "sell")
+      ).to.be.revertedWith("Seller is not licensed");
+    });
+  });
+
+  describe("Utility Functions", function () {
+    it("Should return total drugs count", async function () {
+      expect(await drugAuth.totalDrugs()).to.equal(0);
+
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      expect(await drugAuth.totalDrugs()).to.equal(1);
+    });
+
+    it("Should return drugs by owner", async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      const drugs = await drugAuth.getDrugsByOwner(owner.address);
+      expect(drugs.length).to.equal(1);
+      expect(drugs[0]).to.equal(1);
+    });
+
+    it("Should deactivate drug", async function () {
+      await drugAuth.registerDrug(
+        drugData.batchId,
+        drugData.drugName,
+        drugData.manufacturer,
+        drugData.expiryDate,
+        drugData.ipfsHash,
+        drugData.quantity
+      );
+
+      await drugAuth.deactivateDrug(1);
+      const drug = await drugAuth.verifyDrug(1);
+      expect(drug.isActive).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createClient, signedInAs, type TestServer } from "./helpers";
+
+describe("Auth API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should register a customer, stay signed in and never expose the password", async () => {
+    const request = createClient(server.baseUrl);
+
+    const registered = await request("POST", "/api/auth/register", {
+      username: "pharma-admin",
+      password: "correct horse",
+      role: "manufacturer",
+    });
+    assert.equal(registered.status, 201);
+    const user = await registered.json();
+    assert.equal(user.username, "pharma-admin");
+    assert.equal(user.role, "customer");
+    assert.equal(user.password, undefined);
+
+    const me = await request("GET", "/api/auth/me");
+    assert.equal(me.status, 200);
+    assert.equal((await me.json()).id, user.id);
+  });
+
+  it("Should reject duplicate usernames", async () => {
+    const request = createClient(server.baseUrl);
+    const body = { username: "duplicate", password: "password123" };
+
+    assert.equal((await request("POST", "/api/auth/register", body)).status, 201);
+    assert.equal((await request("POST", "/api/auth/register", body)).status, 409);
+  });
+
+  it("Should validate registration input", async () => {
+    const request = createClient(server.baseUrl);
+
+    const res = await request("POST", "/api/auth/register", {
+      username: "shortpw",
+      password: "short",
+    });
+    assert.equal(res.status, 400);
+  });
+
+  it("Should log in with valid credentials only", async () => {
+    await createClient(server.baseUrl)("POST", "/api/auth/register", {
+      username: "distributor-1",
+      password: "password123",
+    });
+    const request = createClient(server.baseUrl);
+
+    const wrong = await request("POST", "/api/auth/login", { username: "distributor-1", password: "nope" });
+    assert.equal(wrong.status, 401);
+    assert.equal((await request("GET", "/api/auth/me")).status, 401);
+
+    const login = await request("POST", "/api/auth/login", { username: "distributor-1", password: "password123" });
+    assert.equal(login.status, 200);
+    assert.equal((await login.json()).username, "distributor-1");
+    assert.equal((await request("GET", "/api/auth/me")).status, 200);
+  });
+
+  it("Should only let admins assign roles", async () => {
+    const customer = await signedInAs(server, "customer");
+    const admin = await signedInAs(server, "admin");
+
+    const denied = await customer.request("PUT", `/api/admin/users/${customer.id}/role`, { role: "manufacturer" });
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "forbidden_role");
+
+    assert.equal((await admin.request("PUT", `/api/admin/users/${customer.id}/role`, { role: "wholesaler" })).status, 400);
+    assert.equal((await admin.request("PUT", "/api/admin/users/missing/role", { role: "manufacturer" })).status, 404);
+
+    const assigned = await admin.request("PUT", `/api/admin/users/${customer.id}/role`, { role: "manufacturer" });
+    assert.equal(assigned.status, 200);
+    assert.equal((await assigned.json()).role, "manufacturer");
+    assert.equal((await (await customer.request("GET", "/api/auth/me")).json()).role, "manufacturer");
+  });
+
+  it("Should end the session on logout", async () => {
+    const request = createClient(server.baseUrl);
+    await request("POST", "/api/auth/register", { username: "pharmacist-1", password: "password123" });
+
+    assert.equal((await request("POST", "/api/auth/logout")).status, 204);
+    assert.equal((await request("GET", "/api/auth/me")).status, 401);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { supplyChainRoles } from "@shared/schema";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+let batchCounter = 0;
+
+function drugBatchFor(ownerAddress: string) {
+  batchCounter += 1;
+  return {
+    batchId: `AUTHZ-${Date.now()}-${batchCounter}`,
+    drugName: "Paracetamol 500mg",
+    manufacturer: "PharmaCorp Ltd.",
+    manufacturingDate: new Date().toISOString(),
+    expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+    currentOwner: "PharmaCorp Ltd.",
+    currentOwnerAddress: ownerAddress,
+    status: "manufactured",
+  };
+}
+
+describe("Authorization", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe("POST /api/drug-batches", () => {
+    it("Should require authentication", async () => {
+      const res = await createClient(server.baseUrl)("POST", "/api/drug-batches", drugBatchFor(Wallet.createRandom().address));
+      assert.equal(res.status, 401);
+      assert.equal((await res.json()).code, "unauthenticated");
+    });
+
+    for (const role of supplyChainRoles) {
+      const allowed = role === "manufacturer";
+
+      it(`Should ${allowed ? "allow" : "forbid"} a ${role}`, async () => {
+        const { request, wallet } = await signedInAs(server, role);
+        const res = await request("POST", "/api/drug-batches", drugBatchFor(wallet.address));
+
+        if (allowed) {
+          assert.equal(res.status, 201);
+        } else {
+          assert.equal(res.status, 403);
+          const body = await res.json();
+          assert.equal(body.code, "forbidden_role");
+          assert.deepEqual(body.details, { requiredRoles: ["manufacturer"], role });
+        }
+      });
+    }
+
+    it("Should forbid registering a batch into another wallet", async () => {
+      const { request } = await signedInAs(server, "manufacturer");
+      const res = await request("POST", "/api/drug-batches", drugBatchFor(Wallet.createRandom().address));
+
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, "not_batch_owner");
+    });
+  });
+
+  describe("POST /api/drug-batches/transfer", () => {
+    async function registeredBatch() {
+      const manufacturer = await signedInAs(server, "manufacturer");
+      const batch = drugBatchFor(manufacturer.wallet.address);
+      await manufacturer.request("POST", "/api/drug-batches", batch);
+      return { manufacturer, batch };
+    }
+
+    function transferTo(batchId: string, wallet: Wallet) {
+      return {
+        batchId,
+        newOwner: "Central Distributor",
+        newOwnerAddress: wallet.address,
+        eventType: "transfer",
+      };
+    }
+
+    it("Should require authentication", async () => {
+      const { batch } = await registeredBatch();
+      const res = await createClient(server.baseUrl)(
+        "POST",
+        "/api/drug-batches/transfer",
+        transferTo(batch.batchId, Wallet.createRandom()),
+      );
+      assert.equal(res.status, 401);
+    });
+
+    it("Should allow the current owner and then hand control to the new owner", async () => {
+      const { manufacturer, batch } = await registeredBatch();
+      const distributor = await signedInAs(server, "distributor");
+      await licensed(distributor.wallet.address);
+
+      const first = await manufacturer.request("POST", "/api/drug-batches/transfer", transferTo(batch.batchId, distributor.wallet));
+      assert.equal(first.status, 201);
+      const { transfer } = await first.json();
+
+      // Only the recipient can confirm receipt
+      const denied = await manufacturer.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+      assert.equal(denied.status, 403);
+      assert.equal((await denied.json()).code, "not_transfer_recipient");
+      assert.equal((await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`)).status, 200);
+
+      // The manufacturer no longer owns the batch
+      const again = await manufacturer.request("POST", "/api/drug-batches/transfer", transferTo(batch.batchId, Wallet.createRandom()));
+      assert.equal(again.status, 403);
+
+      const pharmacy = Wallet.createRandom();
+      await licensed(pharmacy.address);
+      const next = await distributor.request("POST", "/api/drug-batches/transfer", transferTo(batch.batchId, pharmacy));
+      assert.equal(next.status, 201);
+    });
+
+    for (const role of supplyChainRoles) {
+      it(`Should forbid a ${role} who does not own the batch`, async () => {
+        const { batch } = await registeredBatch();
+        const { request } = await signedInAs(server, role);
+
+        const res = await request("POST", "/api/drug-batches/transfer", transferTo(batch.batchId, Wallet.createRandom()));
+        assert.equal(res.status, 403);
+        const body = await res.json();
+        assert.equal(body.code, "not_batch_owner");
+        assert.equal(body.details.batchId, batch.batchId);
+      });
+    }
+
+    it("Should forbid accounts without a linked wallet", async () => {
+      const { batch } = await registeredBatch();
+      const request = createClient(server.baseUrl);
+      await request("POST", "/api/auth/register", { username: "no-wallet", password: "password123" });
+
+      const res = await request("POST", "/api/drug-batches/transfer", transferTo(batch.batchId, Wallet.createRandom()));
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, "wallet_not_linked");
+    });
+
+    it("Should return 404 for unknown batches", async () => {
+      const { request } = await signedInAs(server, "distributor");
+      const res = await request("POST", "/api/drug-batches/transfer", transferTo("MISSING", Wallet.createRandom()));
+      assert.equal(res.status, 404);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import { checkReading, recordTelemetry } from "../server/cold-chain";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const owner = Wallet.createRandom().address;
+const at = (minute: number) => new Date(Date.UTC(2030, 0, 1, 0, minute));
+
+describe("Cold-chain excursions", () => {
+  let storage: MemStorage;
+
+  async function createBatch(drugName = "Insulin") {
+    return storage.createDrugBatch({
+      batchId: "COLD-1",
+      drugName,
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01"),
+      expiryDate: new Date("2032-01-01"),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: owner,
+      status: "manufactured",
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should check humidity only when both the reading and the drug have it", async () => {
+    const condition = await storage.saveStorageCondition({ drugName: "Insulin", minTemperature: 2, maxTemperature: 8, maxHumidity: 60 });
+
+    assert.deepEqual(checkReading({ temperature: 5 }, condition), []);
+    assert.deepEqual(checkReading({ temperature: 1, humidity: 70 }, condition), [
+      { kind: "temperature_low", threshold: 2, value: 1 },
+      { kind: "humidity_high", threshold: 60, value: 70 },
+    ]);
+    assert.deepEqual(checkReading({ temperature: 5, humidity: 5 }, condition), []);
+  });
+
+  it("Should open one excursion per run of readings out of range and end it once back in range", async () => {
+    const batch = await createBatch();
+    await storage.saveStorageCondition({ drugName: "Insulin", minTemperature: 2, maxTemperature: 8 });
+    const reading = (minute: number, temperature: number) => ({ deviceId: "logger-1", temperature, recordedAt: at(minute) });
+
+    // Uploaded out of order: the readings are checked oldest first
+    const first = await recordTelemetry(batch, { readings: [reading(20, 11), reading(0, 5), reading(10, 9.5)] }, storage);
+    assert.deepEqual(first.readings.map((r) => [r.temperature, r.excursion]), [[5, false], [9.5, true], [11, true]]);
+    assert.equal(first.excursions.length, 1);
+    const [excursion] = first.excursions;
+    assert.deepEqual(
+      [excursion.kind, excursion.threshold, excursion.peakValue, excursion.readingCount, excursion.endedAt],
+      ["temperature_high", 8, 11, 2, null],
+    );
+    assert.equal(excursion.startedAt.getTime(), at(10).getTime());
+
+    const events = await storage.getSupplyChainEventsByBatchId("COLD-1");
+    assert.deepEqual(events.map((event) => [event.eventType, event.toOwnerAddress]), [["excursion", owner]]);
+    assert.equal(excursion.eventId, events[0].id);
+
+    const second = await recordTelemetry(batch, { readings: [reading(30, 7)] }, storage);
+    assert.equal(second.excursions[0].id, excursion.id);
+    assert.equal(second.excursions[0].endedAt?.getTime(), at(30).getTime());
+
+    // Back out of range: a new excursion and another event
+    const third = await recordTelemetry(batch, { readings: [reading(40, 1)] }, storage);
+    assert.equal(third.excursions[0].kind, "temperature_low");
+    assert.equal((await storage.getExcursionsByBatchId("COLD-1")).length, 2);
+    assert.equal((await storage.getSupplyChainEventsByBatchId("COLD-1")).length, 2);
+  });
+
+  it("Should link readings to the pending shipment and store them unchecked without storage conditions", async () => {
+    const batch = await createBatch("Paracetamol 500mg");
+    const transfer = await storage.createTransfer({
+      batchId: "COLD-1",
+      fromOwner: "PharmaCorp Ltd.",
+      fromOwnerAddress: owner,
+      toOwner: "MedDistributor",
+      toOwnerAddress: Wallet.createRandom().address,
+      eventType: "transfer",
+      deadline: new Date("2030-02-01"),
+    });
+
+    const result = await recordTelemetry(batch, { readings: [{ deviceId: "logger-1", temperature: 40, recordedAt: at(0) }] }, storage);
+    assert.equal(result.readings[0].transferId, transfer.id);
+    assert.equal(result.readings[0].excursion, false);
+    assert.deepEqual(result.excursions, []);
+  });
+});
+
+describe("Cold-chain API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should record excursions from uploaded readings and chart them on the batch", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+
+    const registered = await manufacturer.request("POST", "/api/drug-batches", {
+      batchId: "COLD-API-1",
+      drugName: "Vaccine X",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.wallet.address,
+    });
+    assert.equal(registered.status, 201);
+
+    const invalid = await manufacturer.request("PUT", "/api/storage-conditions", { drugName: "Vaccine X", minTemperature: 8, maxTemperature: 2 });
+    assert.equal(invalid.status, 400);
+    assert.equal((await distributor.request("PUT", "/api/storage-conditions", { drugName: "Vaccine X", minTemperature: 2, maxTemperature: 8 })).status, 403);
+    // Another manufacturer can't change the range of a drug it doesn't make
+    const rival = await signedInAs(server, "manufacturer");
+    const overridden = await rival.request("PUT", "/api/storage-conditions", { drugName: "Vaccine X", minTemperature: -20, maxTemperature: 30 });
+    assert.equal(overridden.status, 403);
+    assert.equal((await overridden.json()).code, "not_drug_manufacturer");
+    const saved = await manufacturer.request("PUT", "/api/storage-conditions", { drugName: "Vaccine X", minTemperature: 2, maxTemperature: 8 });
+    assert.equal(saved.status, 200);
+
+    const now = Date.now();
+    const upload = {
+      batchId: "COLD-API-1",
+      readings: [
+        { deviceId: "logger-7", temperature: 5, humidity: 40, recordedAt: new Date(now - 20 * 60_000).toISOString() },
+        { deviceId: "logger-7", temperature: 12.5, recordedAt: new Date(now - 10 * 60_000).toISOString() },
+      ],
+    };
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/telemetry", { ...upload, readings: [] })).status, 400);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/telemetry", { ...upload, batchId: "missing" })).status, 404);
+
+    // Only the holder and the recipient of a pending shipment may upload
+    const denied = await distributor.request("POST", "/api/drug-batches/telemetry", upload);
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_shipment_party");
+
+    const shipped = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: "COLD-API-1",
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(distributor.wallet.address),
+      eventType: "distribute",
+    });
+    assert.equal(shipped.status, 201);
+    const { transfer } = await shipped.json();
+
+    const res = await distributor.request("POST", "/api/drug-batches/telemetry", upload);
+    assert.equal(res.status, 201);
+    const recorded = await res.json();
+    assert.deepEqual(recorded.readings.map((r: { transferId: string }) => r.transferId), [transfer.id, transfer.id]);
+    assert.equal(recorded.excursions[0].kind, "temperature_high");
+
+    const telemetry = await (await createClient(server.baseUrl)("GET", "/api/drug-batches/telemetry/COLD-API-1")).json();
+    assert.equal(telemetry.storageCondition.maxTemperature, 8);
+    assert.deepEqual(telemetry.readings.map((r: { temperature: number }) => r.temperature), [5, 12.5]);
+    assert.equal(telemetry.excursions.length, 1);
+
+    const history = await (await createClient(server.baseUrl)("GET", "/api/drug-batches/history/COLD-API-1")).json();
+    assert.ok(history.some((event: { eventType: string }) => event.eventType === "excursion"));
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import type { DrugBatch, SupplyChainEvent, T3Document } from "@shared/schema";
+import { MemStorage } from "../server/storage";
+import { createT3Document, ndcFromGtin, recordT3Document, t3DocumentCid, TRANSACTION_STATEMENTS } from "../server/dscsa";
+import { splitBatch } from "../server/lineage";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const manufacturer = Wallet.createRandom().address;
+const distributor = Wallet.createRandom().address;
+const pharmacy = Wallet.createRandom().address;
+
+describe("DSCSA T3 documents", () => {
+  const batch = {
+    batchId: "T3-1",
+    drugName: "Amoxicillin 250mg",
+    gtin: "00312345678906",
+    strength: "250 mg",
+    dosageForm: "capsule",
+    unit: "box",
+    expiryDate: new Date("2032-05-31T00:00:00Z"),
+  } as DrugBatch;
+
+  const event = (id: string, eventType: string, from: string | null, to: string, day: number) => ({
+    id,
+    batchId: "T3-1",
+    eventType,
+    fromOwner: from && `Owner ${from.slice(2, 6)}`,
+    fromOwnerAddress: from,
+    toOwner: `Owner ${to.slice(2, 6)}`,
+    toOwnerAddress: to,
+    quantity: 40,
+    transactionHash: null,
+    blockNumber: null,
+    timestamp: new Date(Date.UTC(2030, 0, day)),
+  }) as SupplyChainEvent;
+
+  const history = [
+    event("e1", "manufacture", null, manufacturer, 1),
+    event("e2", "transfer", manufacturer, distributor, 2),
+    event("e3", "recall", distributor, distributor, 3),
+    event("e4", "deliver", distributor, pharmacy, 4),
+  ];
+
+  it("Should read the NDC out of US GTINs", () => {
+    assert.equal(ndcFromGtin("00312345678906"), "1234567890");
+    assert.equal(ndcFromGtin("09506000134352"), null);
+    assert.equal(ndcFromGtin(null), null);
+  });
+
+  it("Should describe the transaction with prior changes of ownership as history", () => {
+    const t3 = createT3Document(batch, history[3], history, new Date("2030-01-05T00:00:00Z"));
+
+    assert.equal(t3.documentType, "DSCSA-T3");
+    assert.deepEqual(t3.transactionInformation, {
+      productName: "Amoxicillin 250mg",
+      gtin: "00312345678906",
+      ndc: "1234567890",
+      lotNumber: "T3-1",
+      strength: "250 mg",
+      dosageForm: "capsule",
+      quantity: 40,
+      unit: "box",
+      expiryDate: "2032-05-31",
+      transactionDate: "2030-01-04T00:00:00.000Z",
+      seller: { name: `Owner ${distributor.slice(2, 6)}`, walletAddress: distributor },
+      buyer: { name: `Owner ${pharmacy.slice(2, 6)}`, walletAddress: pharmacy },
+      transactionHash: null,
+    });
+    assert.deepEqual(t3.transactionHistory.map((info) => info.buyer.walletAddress), [distributor]);
+    assert.deepEqual(t3.transactionStatement.statements, TRANSACTION_STATEMENTS);
+  });
+
+  it("Should leave purchase statements out of the manufacturer's first sale", () => {
+    const t3 = createT3Document(batch, history[1], history);
+
+    assert.deepEqual(t3.transactionHistory, []);
+    assert.equal(t3.transactionStatement.statements.length, TRANSACTION_STATEMENTS.length - 2);
+    assert.equal(t3.transactionStatement.statements.some((statement) => statement.startsWith("received")), false);
+  });
+
+  it("Should store one document per transfer", async () => {
+    const storage = new MemStorage();
+    const stored = await storage.createSupplyChainEvent({ ...history[1], timestamp: new Date() });
+    const t3Document = await recordT3Document(batch, stored, storage);
+
+    assert.equal((await storage.getTransactionDocumentByEventId(stored.id))?.id, t3Document.id);
+    assert.equal(t3Document.document.eventId, stored.id);
+    await assert.rejects(recordT3Document(batch, stored, storage));
+  });
+
+  it("Should give a document the CID web3.storage would", () => {
+    // From ipfs-car's pack, which web3.storage uploads with
+    const document = { documentType: "DSCSA-T3" } as T3Document;
+    assert.equal(t3DocumentCid(document), "bafkreiajy7emksrcgvvrfrkgptbqzt24e26zov6ivc7nubvjmufrdwozji");
+
+    const t3 = createT3Document(batch, history[1], history);
+    assert.equal(t3DocumentCid(JSON.parse(JSON.stringify(t3))), t3DocumentCid(t3));
+  });
+
+  it("Should include the parent lot's transactions up to the split in a sub-lot's history", async () => {
+    const storage = new MemStorage();
+    const parent = await storage.createDrugBatch({
+      ...batch,
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01T00:00:00Z"),
+      currentOwner: `Owner ${distributor.slice(2, 6)}`,
+      currentOwnerAddress: distributor,
+      quantity: 40,
+    });
+    for (const entry of history.slice(0, 2)) {
+      await storage.createSupplyChainEvent(entry);
+    }
+
+    const { lots: [lot] } = await splitBatch(parent, [{ batchId: "T3-1-A", quantity: 10 }], { timestamp: new Date(Date.UTC(2030, 0, 3)) }, storage);
+    // Sold on from the rest of the parent lot after the split
+    await storage.createSupplyChainEvent(event("e5", "transfer", distributor, manufacturer, 4));
+    const sale = await storage.createSupplyChainEvent({ ...event("e6", "deliver", distributor, pharmacy, 5), batchId: lot.batchId });
+
+    const { document } = await recordT3Document(lot, sale, storage);
+    assert.equal(document.transactionInformation.lotNumber, "T3-1-A");
+    assert.deepEqual(document.transactionHistory.map((info) => [info.lotNumber, info.buyer.walletAddress]), [["T3-1", distributor]]);
+    assert.deepEqual(document.transactionStatement.statements, TRANSACTION_STATEMENTS);
+  });
+});
+
+describe("DSCSA T3 API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should produce a T3 on receipt that only the seller and buyer can download", async () => {
+    const { request: seller, wallet: sellerWallet } = await signedInAs(server, "manufacturer");
+    await seller("POST", "/api/drug-batches", {
+      batchId: "T3-API-1",
+      drugName: "Amoxicillin 250mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: sellerWallet.address,
+    });
+
+    const { request: buyer, wallet: buyerWallet } = await signedInAs(server, "distributor");
+
+    const transfer = await seller("POST", "/api/drug-batches/transfer", {
+      batchId: "T3-API-1",
+      newOwner: "MedDistribute Inc.",
+      newOwnerAddress: await licensed(buyerWallet.address, "MedDistribute Inc."),
+      eventType: "transfer",
+    });
+    assert.equal(transfer.status, 201);
+    const { transfer: pending } = await transfer.json();
+
+    const accepted = await buyer("POST", `/api/drug-batches/transfers/${pending.id}/accept`);
+    assert.equal(accepted.status, 200);
+    const { event, t3Document } = await accepted.json();
+    assert.equal(t3Document.eventId, event.id);
+    assert.equal(t3Document.document.transactionInformation.buyer.name, "MedDistribute Inc.");
+
+    const download = await buyer("GET", `/api/drug-batches/t3/${event.id}`);
+    assert.equal(download.status, 200);
+    assert.match(download.headers.get("content-disposition")!, /attachment; filename="T3-T3-API-1-/);
+    assert.equal((await download.json()).transactionStatement.seller, "PharmaCorp Ltd.");
+
+    const forged = await seller("POST", `/api/drug-batches/t3/${event.id}/ipfs`, { ipfsHash: "QmT3Document" });
+    assert.equal(forged.status, 422);
+    const { code, details } = await forged.json();
+    assert.equal(code, "ipfs_hash_mismatch");
+    assert.equal(details.expected, t3DocumentCid(t3Document.document));
+
+    const pinned = await seller("POST", `/api/drug-batches/t3/${event.id}/ipfs`, { ipfsHash: details.expected });
+    assert.deepEqual(await pinned.json(), { eventId: event.id, ipfsHash: details.expected });
+
+    const outsider = createClient(server.baseUrl);
+    await outsider("POST", "/api/auth/register", { username: `t3-outsider-${buyerWallet.address.slice(2, 10)}`, password: "password123" });
+    const denied = await outsider("GET", `/api/drug-batches/t3/${event.id}`);
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_transaction_party");
+
+    assert.equal((await createClient(server.baseUrl)("GET", `/api/drug-batches/t3/${event.id}`)).status, 401);
+    assert.equal((await buyer("GET", "/api/drug-batches/t3/missing")).status, 404);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import {
+  batchEpcClass,
+  createEPCISDocument,
+  epcisDocumentSchema,
+  formatEPCISXml,
+  importEPCISDocument,
+  parseBatchReference,
+  type EPCISEvent,
+} from "../server/epcis";
+import { startTestServer, createClient, signedInAs, type TestServer } from "./helpers";
+
+const manufacturerAddress = Wallet.createRandom().address;
+const distributorAddress = Wallet.createRandom().address;
+
+function partnerDocument(eventList: EPCISEvent[]) {
+  return {
+    "@context": ["https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld"],
+    type: "EPCISDocument",
+    schemaVersion: "2.0",
+    creationDate: "2030-03-01T12:00:00Z",
+    epcisBody: { eventList },
+  };
+}
+
+// A receiving event as a partner system would send it, naming the batch by LGTIN
+function receivingEvent(overrides: Partial<EPCISEvent> = {}): EPCISEvent {
+  return {
+    type: "ObjectEvent",
+    eventTime: "2030-03-01T10:00:00.000+01:00",
+    eventTimeZoneOffset: "+01:00",
+    action: "OBSERVE",
+    bizStep: "urn:epcglobal:cbv:bizstep:receiving",
+    disposition: "urn:epcglobal:cbv:disp:in_progress",
+    quantityList: [{ epcClass: "urn:epc:class:lgtin:9506000.013435.EPCIS-1", quantity: 100, uom: "EA" }],
+    sourceList: [{ type: "owning_party", source: `urn:drugauth:party:${manufacturerAddress}` }],
+    destinationList: [{ type: "owning_party", destination: "urn:epc:id:pgln:9506000.00001" }],
+    ...overrides,
+  };
+}
+
+describe("EPCIS mapping", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.createDrugBatch({
+      batchId: "EPCIS-1",
+      drugName: "Paracetamol 500mg",
+      gtin: "09506000134352",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01"),
+      expiryDate: new Date("2032-01-31"),
+      currentOwner: "MedDistribute Inc.",
+      currentOwnerAddress: distributorAddress,
+      status: "in_transit",
+    });
+    await storage.createSupplyChainEvent({
+      batchId: "EPCIS-1",
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturerAddress,
+      eventType: "manufacture",
+      timestamp: new Date("2030-01-01T08:00:00Z"),
+    });
+    await storage.createSupplyChainEvent({
+      batchId: "EPCIS-1",
+      fromOwner: "PharmaCorp Ltd.",
+      fromOwnerAddress: manufacturerAddress,
+      toOwner: "MedDistribute Inc.",
+      toOwnerAddress: distributorAddress,
+      eventType: "transfer",
+      transactionHash: "0xabc",
+      timestamp: new Date("2030-02-01T08:00:00Z"),
+    });
+  });
+
+  async function exportAll() {
+    const batch = await storage.getDrugBatchByBatchId("EPCIS-1");
+    return createEPCISDocument(await storage.getSupplyChainEvents({}), [batch!], new Date("2030-03-01T00:00:00Z"));
+  }
+
+  it("Should identify batches by Digital Link, LGTIN or DrugAuth URN", () => {
+    assert.equal(batchEpcClass({ batchId: "EPCIS-1", gtin: "09506000134352" }), "https://id.gs1.org/01/09506000134352/10/EPCIS-1");
+    assert.equal(batchEpcClass({ batchId: "LOT 1", gtin: null }), "urn:drugauth:batch:LOT%201");
+
+    assert.deepEqual(parseBatchReference("https://id.gs1.org/01/09506000134352/10/EPCIS-1"), { batchId: "EPCIS-1", gtin: "09506000134352" });
+    assert.deepEqual(parseBatchReference("urn:epc:class:lgtin:9506000.013435.EPCIS-1"), { batchId: "EPCIS-1", gtin: "09506000134352" });
+    assert.deepEqual(parseBatchReference("urn:drugauth:batch:LOT%201"), { batchId: "LOT 1" });
+    assert.equal(parseBatchReference("urn:epc:id:sgtin:9506000.013435.1"), null);
+  });
+
+  it("Should export manufacture as a commissioning ObjectEvent and on-chain transfers as TransactionEvents", async () => {
+    const document = await exportAll();
+    assert.ok(epcisDocumentSchema.safeParse(document).success);
+
+    const [manufacture, transfer] = document.epcisBody.eventList;
+    assert.equal(manufacture.type, "ObjectEvent");
+    assert.equal(manufacture.action, "ADD");
+    assert.equal(manufacture.bizStep, "commissioning");
+    assert.equal(manufacture.eventTime, "2030-01-01T08:00:00.000Z");
+    assert.deepEqual(manufacture.quantityList, [{ epcClass: "https://id.gs1.org/01/09506000134352/10/EPCIS-1" }]);
+
+    assert.equal(transfer.type, "TransactionEvent");
+    assert.equal(transfer.bizStep, "shipping");
+    assert.deepEqual(transfer.bizTransactionList, [{ bizTransaction: "urn:drugauth:tx:0xabc" }]);
+    assert.deepEqual(transfer.sourceList, [{ type: "owning_party", source: `urn:drugauth:party:${manufacturerAddress}` }]);
+    assert.equal(transfer["drugauth:toOwner"], "MedDistribute Inc.");
+
+    const [masterData] = document.epcisHeader.epcisMasterData.vocabularyList[0].vocabularyElementList;
+    assert.ok(masterData.attributes.some((attribute) => attribute.attribute === "Paracetamol 500mg"));
+  });
+
+  it("Should serialize the document as EPCIS XML", async () => {
+    const xml = formatEPCISXml(await exportAll());
+
+    assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2"/);
+    assert.match(xml, /<bizStep>urn:epcglobal:cbv:bizstep:commissioning<\/bizStep>/);
+    assert.match(xml, /<TransactionEvent>\n\s+<eventTime>2030-02-01T08:00:00.000Z<\/eventTime>/);
+    assert.match(xml, /<source type="urn:epcglobal:cbv:sdt:owning_party">urn:drugauth:party:0x/);
+    assert.match(xml, /<drugauth:toOwner>MedDistribute Inc.<\/drugauth:toOwner>/);
+    assert.match(xml, /<attribute id="urn:epcglobal:cbv:mda#itemExpirationDate">2032-01-31<\/attribute>/);
+  });
+
+  it("Should import partner events and skip ones already recorded", async () => {
+    const exported = await exportAll();
+    const document = partnerDocument([...exported.epcisBody.eventList, receivingEvent()]);
+
+    const result = await importEPCISDocument(document, "importer", () => true, storage);
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.skipped, 2);
+    assert.equal(result.imported.length, 1);
+
+    const [received] = result.imported;
+    assert.equal(received.eventType, "deliver");
+    assert.equal(received.toOwnerAddress, "urn:epc:id:pgln:9506000.00001");
+    assert.equal(received.fromOwnerAddress, manufacturerAddress);
+    assert.equal(received.timestamp.toISOString(), "2030-03-01T09:00:00.000Z");
+    assert.equal(received.importedBy, "importer");
+    // Kept out of the batch's history, which decides who owns it
+    assert.equal((await storage.getSupplyChainEventsByBatchId("EPCIS-1")).length, 2);
+    assert.deepEqual((await storage.getImportedEventsByBatchId("EPCIS-1")).map((event) => event.id), [received.id]);
+    assert.equal((await storage.getDrugBatchByBatchId("EPCIS-1"))?.currentOwnerAddress, distributorAddress);
+
+    // Importing it again changes nothing
+    const again = await importEPCISDocument(document, "importer", () => true, storage);
+    assert.equal(again.skipped, 3);
+    assert.equal(again.imported.length, 0);
+  });
+
+  it("Should import nothing when any event is rejected", async () => {
+    const result = await importEPCISDocument(partnerDocument([
+      receivingEvent(),
+      receivingEvent({ quantityList: [{ epcClass: "urn:epc:class:lgtin:9506000.013435.UNKNOWN" }] }),
+      receivingEvent({ bizStep: "holding", disposition: "recalled" }),
+      receivingEvent({ bizStep: "repairing" }),
+    ]), "importer", () => true, storage);
+
+    assert.deepEqual(result.errors, [
+      { index: 1, message: "No drug batch matches urn:epc:class:lgtin:9506000.013435.UNKNOWN" },
+      { index: 2, message: "recall events can't be imported" },
+      { index: 3, message: "Unsupported bizStep repairing" },
+    ]);
+    assert.equal(result.imported.length, 0);
+    assert.deepEqual(await storage.getImportedEventsByBatchId("EPCIS-1"), []);
+
+    const denied = await importEPCISDocument(partnerDocument([receivingEvent()]), "importer", () => false, storage);
+    assert.deepEqual(denied.errors, [{ index: 0, message: "Not allowed to add events to batch EPCIS-1" }]);
+  });
+});
+
+describe("EPCIS API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should export a batch's events and let its manufacturer import partner events", async () => {
+    const { request: manufacturer, wallet } = await signedInAs(server, "manufacturer");
+    await manufacturer("POST", "/api/drug-batches", {
+      batchId: "EPCIS-API-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: wallet.address,
+    });
+
+    const anonymous = createClient(server.baseUrl);
+    const exported = await anonymous("GET", "/api/epcis/events?batchId=EPCIS-API-1");
+    assert.equal(exported.status, 200);
+    assert.match(exported.headers.get("content-type")!, /application\/ld\+json/);
+    const document = await exported.json();
+    assert.deepEqual(document.epcisBody.eventList.map((event: EPCISEvent) => event.bizStep), ["commissioning"]);
+
+    const xml = await anonymous("GET", "/api/epcis/events?batchId=EPCIS-API-1&format=xml");
+    assert.match(xml.headers.get("content-type")!, /application\/xml/);
+    assert.match(await xml.text(), /urn:drugauth:batch:EPCIS-API-1/);
+
+    assert.equal((await anonymous("GET", "/api/epcis/events?from=yesterday")).status, 400);
+    assert.equal((await anonymous("GET", "/api/epcis/events?from=2999-01-01")).status, 200);
+
+    const partnerEvent = receivingEvent({
+      eventTime: new Date().toISOString(),
+      eventTimeZoneOffset: "+00:00",
+      quantityList: [{ epcClass: "urn:drugauth:batch:EPCIS-API-1" }],
+    });
+    assert.equal((await anonymous("POST", "/api/epcis/events", partnerDocument([partnerEvent]))).status, 401);
+    assert.equal((await manufacturer("POST", "/api/epcis/events", { type: "EPCISDocument" })).status, 400);
+
+    const { request: other } = await signedInAs(server, "distributor");
+    const rejected = await other("POST", "/api/epcis/events", partnerDocument([partnerEvent]));
+    assert.equal(rejected.status, 422);
+    assert.equal((await rejected.json()).code, "epcis_import_rejected");
+
+    const imported = await manufacturer("POST", "/api/epcis/events", partnerDocument([...document.epcisBody.eventList, partnerEvent]));
+    assert.equal(imported.status, 201);
+    const body = await imported.json();
+    assert.equal(body.skipped, 1);
+    assert.equal(body.imported[0].eventType, "deliver");
+
+    const history = await (await anonymous("GET", "/api/drug-batches/history/EPCIS-API-1")).json();
+    assert.deepEqual(history.map((event: { eventType: string }) => event.eventType), ["manufacture"]);
+    const partnerEvents = await (await anonymous("GET", "/api/drug-batches/imported-events/EPCIS-API-1")).json();
+    assert.deepEqual(partnerEvents.map((event: { id: string }) => event.id), [body.imported[0].id]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import { expireDrugBatches, getDrugBatchesExpiringWithin } from "../server/expiry";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2030-06-01T00:00:00Z");
+const holder = Wallet.createRandom().address;
+
+describe("Batch expiry", () => {
+  let storage: MemStorage;
+
+  async function createBatch(batchId: string, expiresInDays: number, status = "in_transit") {
+    return storage.createDrugBatch({
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2029-01-01"),
+      expiryDate: new Date(now.getTime() + expiresInDays * DAY_MS),
+      currentOwner: "MedDistributor",
+      currentOwnerAddress: holder,
+      status,
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should mark batches past expiry as expired with an expire event", async () => {
+    await createBatch("EXP-1", -1);
+    await createBatch("EXP-2", 0);
+    await createBatch("EXP-3", 1);
+    await createBatch("EXP-4", -5, "recalled");
+
+    const expired = await expireDrugBatches(now, storage);
+    assert.deepEqual(expired.map((batch) => batch.batchId), ["EXP-1", "EXP-2"]);
+    assert.equal((await storage.getDrugBatchByBatchId("EXP-1"))?.status, "expired");
+    assert.equal((await storage.getDrugBatchByBatchId("EXP-3"))?.status, "in_transit");
+    assert.equal((await storage.getDrugBatchByBatchId("EXP-4"))?.status, "recalled");
+
+    const [event] = await storage.getSupplyChainEventsByBatchId("EXP-1");
+    assert.equal(event.eventType, "expire");
+    assert.equal(event.toOwnerAddress, holder);
+
+    assert.deepEqual(await expireDrugBatches(now, storage), []);
+  });
+
+  it("Should list batches expiring within a number of days", async () => {
+    await createBatch("EXP-1", -1);
+    await createBatch("EXP-2", 20);
+    await createBatch("EXP-3", 5);
+    await createBatch("EXP-4", 45);
+
+    const expiring = await getDrugBatchesExpiringWithin(30, now, storage);
+    assert.deepEqual(expiring.map((batch) => batch.batchId), ["EXP-3", "EXP-2"]);
+  });
+});
+
+describe("Expiry routes", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should refuse to transfer an expired batch", async () => {
+    const { request, wallet } = await signedInAs(server, "manufacturer");
+
+    const created = await request("POST", "/api/drug-batches", {
+      batchId: "EXP-ROUTE-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date(Date.now() - 400 * DAY_MS).toISOString(),
+      expiryDate: new Date(Date.now() - DAY_MS).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: wallet.address,
+    });
+    assert.equal(created.status, 201);
+
+    const res = await request("POST", "/api/drug-batches/transfer", {
+      batchId: "EXP-ROUTE-1",
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(Wallet.createRandom().address),
+      eventType: "transfer",
+    });
+    assert.equal(res.status, 409);
+    assert.equal((await res.json()).message, "Drug has expired");
+  });
+
+  it("Should validate the days parameter", async () => {
+    const request = createClient(server.baseUrl);
+    assert.equal((await request("GET", "/api/drug-batches/expiring")).status, 200);
+    assert.equal((await request("GET", "/api/drug-batches/expiring?days=0")).status, 400);
+    assert.equal((await request("GET", "/api/drug-batches/expiring?days=abc")).status, 400);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  GS,
+  createGS1DigitalLink,
+  formatGS1ElementString,
+  formatGS1HumanReadable,
+  fromGS1Date,
+  isGS1ElementString,
+  isValidGtin,
+  parseGS1,
+  toGS1Date,
+} from "@shared/gs1";
+
+const data = { gtin: "09506000134352", expiry: "280131", lot: "BTC-2024-001", serial: "000042" };
+
+describe("GS1", () => {
+  it("Should check GTIN check digits", () => {
+    assert.equal(isValidGtin("09506000134352"), true);
+    assert.equal(isValidGtin("09506000134353"), false);
+    assert.equal(isValidGtin("9506000134352"), false);
+  });
+
+  it("Should round-trip element strings in both forms", () => {
+    const raw = formatGS1ElementString(data);
+    assert.equal(raw, `01095060001343521728013110BTC-2024-001${GS}21000042`);
+    assert.deepEqual(parseGS1(raw), data);
+    assert.deepEqual(parseGS1(`]d2${raw}`), data);
+
+    const readable = formatGS1HumanReadable(data);
+    assert.equal(readable, "(01)09506000134352(17)280131(10)BTC-2024-001(21)000042");
+    assert.deepEqual(parseGS1(readable), data);
+  });
+
+  it("Should round-trip Digital Link URLs on any domain", () => {
+    const link = createGS1DigitalLink(data, "https://drugauth.example/");
+    assert.equal(link, "https://drugauth.example/01/09506000134352/10/BTC-2024-001/21/000042?17=280131");
+    assert.deepEqual(parseGS1(link), data);
+    assert.deepEqual(parseGS1("https://id.gs1.org/01/09506000134352"), { gtin: "09506000134352" });
+  });
+
+  it("Should reject malformed codes", () => {
+    assert.throws(() => parseGS1("0109506000134353"), /Invalid GTIN/);
+    assert.throws(() => parseGS1("010950600013435299ABC"), /Unsupported GS1 application identifier 99/);
+    assert.throws(() => parseGS1("01095060001343521719133110LOT"), /Invalid expiry date/);
+    assert.throws(() => parseGS1("10LOT"), /no GTIN/);
+    assert.throws(() => parseGS1(`010950600013435210${"X".repeat(21)}`), /Invalid value for AI 10/);
+  });
+
+  it("Should tell element strings from batch IDs", () => {
+    assert.equal(isGS1ElementString("(01)09506000134352(10)A"), true);
+    assert.equal(isGS1ElementString("]d20109506000134352"), true);
+    assert.equal(isGS1ElementString("BTC-2024-001"), false);
+  });
+
+  it("Should convert expiry dates", () => {
+    assert.equal(toGS1Date(new Date("2028-01-31T12:00:00Z")), "280131");
+    assert.equal(fromGS1Date("280131").toISOString(), "2028-01-31T00:00:00.000Z");
+    assert.equal(fromGS1Date("280200").toISOString(), "2028-02-29T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,144 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { SiweMessage } from "siwe";
+import type { UserRole } from "@shared/schema";
+import { registerRoutes } from "../server/routes";
+import { storage } from "../server/storage";
+
+export interface TestServer {
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+// Boots the API (without Vite) on a random port
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app, () => {});
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Minimal fetch wrapper that keeps the session cookie between requests
+export function createClient(baseUrl: string) {
+  let cookie: string | undefined;
+
+  return async function request(method: string, path: string, body?: unknown): Promise<Response> {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body ? { "Content-Type": "application/json" } : {}),
+        ...(cookie ? { Cookie: cookie } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) {
+      cookie = setCookie.split(";")[0];
+    }
+
+    return res;
+  };
+}
+
+export type TestClient = ReturnType<typeof createClient>;
+
+// Runs the Sign-In with Ethereum flow for `wallet` on `request`'s session
+export async function signInWithWallet(
+  request: TestClient,
+  wallet: Wallet,
+  domain: string,
+  nonceOverride?: string,
+): Promise<Response> {
+  const { nonce } = await (await request("GET", "/api/auth/siwe/nonce")).json();
+  const message = new SiweMessage({
+    domain,
+    address: wallet.address,
+    statement: "Sign in to DrugAuth",
+    uri: `http://${domain}`,
+    version: "1",
+    chainId: 5,
+    nonce: nonceOverride ?? nonce,
+    issuedAt: new Date().toISOString(),
+  }).prepareMessage();
+
+  return request("POST", "/api/auth/siwe/verify", {
+    message,
+    signature: await wallet.signMessage(message),
+  });
+}
+
+// A registered user whose session is signed in with its own wallet
+export interface TestUser {
+  id: string;
+  request: TestClient;
+  wallet: Wallet;
+}
+
+// Registers a user, gives it `role` as an admin would and links a fresh
+// wallet to the session
+export async function signedInAs(server: TestServer, role: UserRole): Promise<TestUser> {
+  const request = createClient(server.baseUrl);
+  const wallet = Wallet.createRandom();
+  const registered = await request("POST", "/api/auth/register", {
+    username: `${role}-${wallet.address.slice(2, 12)}`,
+    password: "password123",
+  });
+  const { id } = await registered.json();
+  await storage.updateUser(id, { role });
+  await signInWithWallet(request, wallet, new URL(server.baseUrl).host);
+  return { id, request, wallet };
+}
+
+let batchCounter = 0;
+
+// Registers a batch of paracetamol expiring in a year to `manufacturer`'s
+// wallet and returns its batch ID; `fields` override the defaults
+export async function registerBatch(manufacturer: TestUser, fields: Record<string, unknown> = {}): Promise<string> {
+  const batchId = (fields.batchId as string | undefined) ?? `BATCH-${++batchCounter}`;
+  const res = await manufacturer.request("POST", "/api/drug-batches", {
+    drugName: "Paracetamol 500mg",
+    manufacturer: "PharmaCorp Ltd.",
+    manufacturingDate: new Date().toISOString(),
+    expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+    currentOwner: "PharmaCorp Ltd.",
+    currentOwnerAddress: manufacturer.wallet.address,
+    ...fields,
+    batchId,
+  });
+  assert.equal(res.status, 201, await res.clone().text());
+  return batchId;
+}
+
+let licenseCounter = 0;
+
+// Records a verified trading partner for `address` holding a pharmacy license
+// in force for a year, so shipments to it pass the recipient license check.
+// Shipments to it are recorded under `legalName`.
+export async function licensed(address: string, legalName?: string): Promise<string> {
+  const creator = await storage.createUser({ username: `licensee-${++licenseCounter}`, password: "hash" });
+  const partner = await storage.createTradingPartner({
+    legalName: legalName ?? `Licensed Partner ${licenseCounter}`,
+    role: "pharmacist",
+    walletAddresses: [address.toLowerCase()],
+    createdBy: creator.id,
+  });
+  await storage.updateTradingPartner(partner.id, { verificationStatus: "verified", verifiedAt: new Date() });
+  await storage.createPartnerLicense({
+    partnerId: partner.id,
+    licenseNumber: `LIC-${licenseCounter}`,
+    licenseType: "pharmacy",
+    issuingAuthority: "General Pharmaceutical Council",
+    expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+  });
+  return address;
+}
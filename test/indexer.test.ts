@@ -0,0 +1,385 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { MemStorage } from "../server/storage";
+import { drugAuthInterface, TOKEN_TRANSFER_EVENT } from "../server/blockchain";
+import { DrugAuthIndexer, type IndexerChain, type IndexerLog } from "../server/indexer";
+
+const contractAddress = ethers.Wallet.createRandom().address;
+const manufacturer = ethers.Wallet.createRandom().address;
+const distributor = ethers.Wallet.createRandom().address;
+const pharmacist = ethers.Wallet.createRandom().address;
+const expiry = Math.floor(new Date("2030-01-01").getTime() / 1000);
+
+type EventArgs = [name: string, args: unknown[]];
+
+// In-memory chain: one block per `mine` call, rewritable to simulate reorgs
+class FakeChain implements IndexerChain {
+  blocks: { hash: string; timestamp: number; logs: IndexerLog[] }[] = [];
+
+  constructor(emptyBlocks = 1) {
+    for (let i = 0; i < emptyBlocks; i++) this.mine();
+  }
+
+  mine(...events: EventArgs[]) {
+    const blockNumber = this.blocks.length;
+    const blockHash = ethers.hexlify(ethers.randomBytes(32));
+    const logs = events.map(([name, args], index) => ({
+      blockNumber,
+      blockHash,
+      transactionHash: ethers.hexlify(ethers.randomBytes(32)),
+      index,
+      ...drugAuthInterface.encodeEventLog(drugAuthInterface.getEvent(name), args),
+    }));
+    this.blocks.push({ hash: blockHash, timestamp: 1_700_000_000 + blockNumber * 12, logs });
+    return logs;
+  }
+
+  // Drops every block from `blockNumber` on, as if a competing fork won
+  rewind(blockNumber: number) {
+    this.blocks.length = blockNumber;
+  }
+
+  async getBlockNumber() {
+    return this.blocks.length - 1;
+  }
+
+  async getBlock(blockNumber: number) {
+    return this.blocks[blockNumber] ?? null;
+  }
+
+  async getLogs({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) {
+    return this.blocks.slice(fromBlock, toBlock + 1).flatMap((block) => block.logs);
+  }
+
+  async getDrug() {
+    return { expiryDate: BigInt(expiry), ipfsHash: "QmHash", quantity: 1000n };
+  }
+}
+
+const registered = (tokenId: number, batchId: string): EventArgs =>
+  ["DrugRegistered", [tokenId, batchId, manufacturer, "Paracetamol 500mg", "PharmaCorp Ltd."]];
+const transferred = (tokenId: number, from: string, to: string, eventType = "transfer"): EventArgs =>
+  [TOKEN_TRANSFER_EVENT, [tokenId, from, to, eventType]];
+
+describe("DrugAuthIndexer", () => {
+  let storage: MemStorage;
+  let chain: FakeChain;
+  let indexer: DrugAuthIndexer;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    chain = new FakeChain();
+    indexer = new DrugAuthIndexer(chain, { contractAddress, confirmations: 0, reorgDepth: 3, log: () => {} }, storage);
+  });
+
+  it("Should create batches and events from DrugRegistered and OwnershipTransferred", async () => {
+    const [registration] = chain.mine(registered(1, "BTC-1"));
+    const [transfer] = chain.mine(transferred(1, manufacturer, distributor));
+    await indexer.sync();
+
+    const batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.tokenId, 1);
+    assert.equal(batch?.contractAddress, contractAddress);
+    assert.equal(batch?.currentOwnerAddress, distributor);
+    assert.equal(batch?.status, "received");
+    assert.equal(batch?.ipfsHash, "QmHash");
+    assert.equal(batch?.expiryDate.getTime(), expiry * 1000);
+
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => [e.eventType, e.transactionHash, e.blockNumber]), [
+      ["manufacture", registration.transactionHash, 1],
+      ["transfer", transfer.transactionHash, 2],
+    ]);
+    assert.equal(events[1].timestamp?.getTime(), chain.blocks[2].timestamp * 1000);
+
+    const state = await storage.getIndexerState(contractAddress.toLowerCase());
+    assert.equal(state?.lastProcessedBlock, 2);
+    assert.equal(state?.lastProcessedBlockHash, chain.blocks[2].hash);
+  });
+
+  it("Should resume from the stored block without duplicating events", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    await indexer.sync();
+    await indexer.sync();
+
+    chain.mine(transferred(1, manufacturer, distributor, "deliver"));
+    const restarted = new DrugAuthIndexer(chain, { contractAddress, confirmations: 0, log: () => {} }, storage);
+    await restarted.sync();
+
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => e.eventType), ["manufacture", "deliver"]);
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.status, "delivered");
+  });
+
+  it("Should only index blocks with enough confirmations", async () => {
+    indexer = new DrugAuthIndexer(chain, { contractAddress, confirmations: 2, log: () => {} }, storage);
+    chain.mine(registered(1, "BTC-1"));
+    chain.mine();
+    await indexer.sync();
+    assert.equal(await storage.getDrugBatchByBatchId("BTC-1"), undefined);
+
+    chain.mine();
+    await indexer.sync();
+    assert.ok(await storage.getDrugBatchByBatchId("BTC-1"));
+  });
+
+  it("Should fill in chain details for batches and transfers recorded through the API", async () => {
+    const batch = await storage.createDrugBatch({
+      batchId: "BTC-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2024-01-01"),
+      expiryDate: new Date("2030-01-01"),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer,
+    });
+    await storage.createSupplyChainEvent({
+      batchId: "BTC-1",
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "manufacture",
+    });
+
+    chain.mine(registered(1, "BTC-1"));
+    await indexer.sync();
+
+    const [transfer] = chain.mine(transferred(1, manufacturer, distributor));
+    await storage.updateDrugBatch(batch.id, { currentOwner: "MedDistributor", currentOwnerAddress: distributor });
+    await storage.createSupplyChainEvent({
+      batchId: "BTC-1",
+      fromOwner: "PharmaCorp Ltd.",
+      toOwner: "MedDistributor",
+      fromOwnerAddress: manufacturer,
+      toOwnerAddress: distributor,
+      eventType: "transfer",
+      transactionHash: transfer.transactionHash,
+    });
+    await indexer.sync();
+
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.tokenId, 1);
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => [e.eventType, e.blockNumber]), [["manufacture", 1], ["transfer", 2]]);
+    assert.equal(events[1].toOwner, "MedDistributor");
+  });
+
+  it("Should not attach a token registered by someone else to a batch recorded through the API", async () => {
+    const logged: string[] = [];
+    indexer = new DrugAuthIndexer(chain, { contractAddress, confirmations: 0, log: (message) => logged.push(message) }, storage);
+    await storage.createDrugBatch({
+      batchId: "BTC-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2024-01-01"),
+      expiryDate: new Date("2030-01-01"),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer,
+    });
+    await storage.createSupplyChainEvent({
+      batchId: "BTC-1",
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "manufacture",
+    });
+
+    chain.mine(["DrugRegistered", [7, "BTC-1", distributor, "Paracetamol 500mg", "PharmaCorp Ltd."]]);
+    await indexer.sync();
+
+    const batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.tokenId, null);
+    assert.equal(batch?.currentOwnerAddress, manufacturer);
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => [e.eventType, e.transactionHash]), [["manufacture", null]]);
+    assert.equal(logged.length, 1);
+    assert.match(logged[0], /skipping registration of BTC-1 as token 7/);
+  });
+
+  it("Should name owners after linked accounts and apply RoleAssigned", async () => {
+    const user = await storage.createUser({ username: "meddist", password: "hash", walletAddress: distributor });
+
+    chain.mine(registered(1, "BTC-1"), ["RoleAssigned", [distributor, "distributor"]]);
+    chain.mine(["RoleAssigned", [pharmacist, "pharmacist"]], ["RoleAssigned", [distributor, "superuser"]]);
+    chain.mine(transferred(1, manufacturer, distributor));
+    await indexer.sync();
+
+    assert.equal((await storage.getUser(user.id))?.role, "distributor");
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.currentOwner, "meddist");
+  });
+
+  it("Should roll back events from reorged blocks and re-index the new fork", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    chain.mine(transferred(1, manufacturer, distributor));
+    chain.mine(transferred(1, distributor, pharmacist, "deliver"));
+    chain.mine(registered(2, "BTC-2"));
+    await indexer.sync();
+
+    chain.rewind(3);
+    const [replacement] = chain.mine(transferred(1, distributor, manufacturer, "return"));
+    chain.mine();
+    await indexer.sync();
+
+    const batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.currentOwnerAddress, manufacturer);
+    assert.equal(batch?.status, "received");
+
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => e.eventType), ["manufacture", "transfer", "return"]);
+    assert.equal(events[2].transactionHash, replacement.transactionHash);
+
+    assert.equal(await storage.getDrugBatchByBatchId("BTC-2"), undefined);
+    assert.equal((await storage.getIndexerState(contractAddress.toLowerCase()))?.lastProcessedBlockHash, chain.blocks[4].hash);
+  });
+
+  it("Should mark batches recalled from DrugRecalled and undo it on reorg", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    chain.mine(transferred(1, manufacturer, distributor));
+    const [recall] = chain.mine(["DrugRecalled", [1, manufacturer, "Contamination"]]);
+    await indexer.sync();
+
+    let batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.status, "recalled");
+    assert.equal(batch?.recallReason, "Contamination");
+    assert.equal(batch?.currentOwnerAddress, distributor);
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.deepEqual(events.map((e) => [e.eventType, e.transactionHash]).at(-1), ["recall", recall.transactionHash]);
+
+    chain.rewind(3);
+    chain.mine();
+    await indexer.sync();
+
+    batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.status, "received");
+    assert.equal(batch?.recallReason, null);
+  });
+
+  it("Should mirror shipments and hand batches over when the recipient accepts", async () => {
+    const deadline = 1_800_000_000;
+    chain.mine(registered(1, "BTC-1"), registered(2, "BTC-2"));
+    const [shipment] = chain.mine(
+      ["TransferInitiated", [1, manufacturer, distributor, "deliver", deadline]],
+      ["TransferInitiated", [2, manufacturer, pharmacist, "transfer", deadline]],
+    );
+    await indexer.sync();
+
+    let batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.status, "in_transit");
+    assert.equal(batch?.currentOwnerAddress, manufacturer);
+    const pending = await storage.getPendingTransferByBatchId("BTC-1");
+    assert.equal(pending?.transactionHash, shipment.transactionHash);
+    assert.equal(pending?.deadline.getTime(), deadline * 1000);
+
+    const [acceptance] = chain.mine(
+      transferred(1, manufacturer, distributor, "deliver"),
+      ["TransferRejected", [2, manufacturer, pharmacist, "Damaged"]],
+    );
+    await indexer.sync();
+
+    batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.status, "delivered");
+    assert.equal(batch?.currentOwnerAddress, distributor);
+    const accepted = await storage.getTransferById(pending!.id);
+    assert.equal(accepted?.status, "accepted");
+    assert.equal(accepted?.resolutionTransactionHash, acceptance.transactionHash);
+    const events = await storage.getSupplyChainEventsByBatchId("BTC-1");
+    assert.ok(await storage.getTransactionDocumentByEventId(events[1].id));
+
+    const [rejected] = await storage.getTransfersByAddress(pharmacist, "incoming");
+    assert.equal(rejected.status, "rejected");
+    assert.equal(rejected.rejectionReason, "Damaged");
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-2"))?.status, "manufactured");
+  });
+
+  it("Should undo shipments initiated or resolved in reorged blocks", async () => {
+    const deadline = 1_800_000_000;
+    chain.mine(registered(1, "BTC-1"), registered(2, "BTC-2"));
+    chain.mine(["TransferInitiated", [1, manufacturer, distributor, "deliver", deadline]]);
+    chain.mine();
+    chain.mine();
+    chain.mine(["TransferInitiated", [2, manufacturer, pharmacist, "transfer", deadline]]);
+    chain.mine(transferred(1, manufacturer, distributor, "deliver"));
+    await indexer.sync();
+    const shipment = await storage.getTransfersByAddress(distributor, "incoming");
+    assert.equal(shipment[0].status, "accepted");
+
+    // Blocks 5 and 6 are replaced; the indexer rewinds to block 3
+    chain.rewind(5);
+    chain.mine();
+    await indexer.sync();
+
+    const batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.status, "in_transit");
+    assert.equal(batch?.currentOwnerAddress, manufacturer);
+    const reopened = await storage.getPendingTransferByBatchId("BTC-1");
+    assert.equal(reopened?.id, shipment[0].id);
+    assert.equal(reopened?.resolutionTransactionHash, null);
+
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-2"))?.status, "manufactured");
+    assert.deepEqual(await storage.getTransfersByAddress(pharmacist, "incoming"), []);
+
+    // Accepted again on the new fork
+    chain.mine(transferred(1, manufacturer, distributor, "deliver"));
+    await indexer.sync();
+    assert.equal((await storage.getTransferById(shipment[0].id))?.status, "accepted");
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.status, "delivered");
+  });
+
+  it("Should mirror splits and merges into the lineage graph", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    const [split] = chain.mine(
+      ["DrugSplit", [1, 2, "BTC-1-A", 600]],
+      ["DrugSplit", [1, 3, "BTC-1-B", 400]],
+    );
+    chain.mine(["DrugsMerged", [4, [2, 3], "BTC-M", 1000]]);
+    await indexer.sync();
+
+    const parent = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(parent?.quantity, 0);
+    assert.equal(parent?.status, "split");
+    const child = await storage.getDrugBatchByBatchId("BTC-1-A");
+    assert.equal(child?.tokenId, 2);
+    assert.equal(child?.status, "merged");
+    assert.deepEqual((await storage.getSupplyChainEventsByBatchId("BTC-1-A")).map((e) => [e.eventType, e.transactionHash]), [
+      ["split", split.transactionHash],
+    ]);
+
+    const merged = await storage.getDrugBatchByBatchId("BTC-M");
+    assert.equal(merged?.tokenId, 4);
+    assert.equal(merged?.quantity, 1000);
+    assert.deepEqual((await storage.getBatchLineageByChild("BTC-M")).map((edge) => edge.parentBatchId), ["BTC-1-A", "BTC-1-B"]);
+  });
+
+  it("Should give split and merged lots their quantity and status back on reorg", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    chain.mine(transferred(1, manufacturer, distributor, "deliver"));
+    chain.mine(["DrugSplit", [1, 2, "BTC-1-A", 600]]);
+    chain.mine(["DrugSplit", [1, 3, "BTC-1-B", 400]]);
+    chain.mine(["DrugsMerged", [4, [2, 3], "BTC-M", 1000]]);
+    await indexer.sync();
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.status, "split");
+
+    // The merge and the second split are replaced; the indexer rewinds to block 2
+    chain.rewind(4);
+    chain.mine();
+    await indexer.sync();
+
+    const parent = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(parent?.quantity, 400);
+    assert.equal(parent?.status, "delivered");
+    const lot = await storage.getDrugBatchByBatchId("BTC-1-A");
+    assert.equal(lot?.quantity, 600);
+    assert.equal(lot?.status, "delivered");
+    assert.equal(await storage.getDrugBatchByBatchId("BTC-1-B"), undefined);
+    assert.equal(await storage.getDrugBatchByBatchId("BTC-M"), undefined);
+    assert.deepEqual((await storage.getBatchLineageByParent("BTC-1")).map((edge) => edge.childBatchId), ["BTC-1-A"]);
+    assert.deepEqual(await storage.getBatchLineageByParent("BTC-1-A"), []);
+  });
+
+  it("Should skip transfers of unknown tokens and Ownable's ownership event", async () => {
+    chain.mine(registered(1, "BTC-1"));
+    chain.mine(transferred(9, manufacturer, distributor), ["OwnershipTransferred(address,address)", [manufacturer, distributor]]);
+    await indexer.sync();
+
+    assert.equal(await storage.getDrugBatchByTokenId(9), undefined);
+    assert.equal((await storage.getSupplyChainEventsByBatchId("BTC-1")).length, 1);
+  });
+});
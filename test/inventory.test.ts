@@ -0,0 +1,119 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import { getOwnerInventory } from "../server/inventory";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2030-06-01T00:00:00Z");
+const owner = Wallet.createRandom().address;
+
+describe("Owner inventory", () => {
+  it("Should total stock per product and unit, leaving out batches no longer in stock", async () => {
+    const storage = new MemStorage();
+    const createBatch = (batchId: string, details: { quantity?: number; status?: string; strength?: string; unit?: "pack" | "box"; expiryDate?: Date }) =>
+      storage.createDrugBatch({
+        batchId,
+        drugName: "Paracetamol",
+        strength: details.strength ?? "500 mg",
+        dosageForm: "tablet",
+        manufacturer: "PharmaCorp Ltd.",
+        manufacturingDate: new Date("2030-01-01"),
+        expiryDate: details.expiryDate ?? new Date("2032-01-01"),
+        currentOwner: "PharmaCorp Ltd.",
+        currentOwnerAddress: owner,
+        status: details.status ?? "received",
+        quantity: details.quantity,
+        unit: details.unit,
+      });
+
+    await createBatch("INV-1", { quantity: 100 });
+    await createBatch("INV-2", { quantity: 40, status: "in_transit" });
+    await createBatch("INV-3", {});
+    await createBatch("INV-4", { quantity: 10, unit: "box" });
+    await createBatch("INV-5", { quantity: 25, strength: "1 g" });
+    await createBatch("INV-6", { quantity: 500, status: "recalled" });
+    await createBatch("INV-7", { quantity: 0, status: "split" });
+    await createBatch("INV-8", { quantity: 500, expiryDate: new Date("2030-05-01") });
+
+    const inventory = await getOwnerInventory(owner.toLowerCase(), now, storage);
+    assert.deepEqual(inventory.map((line) => [line.strength, line.unit, line.quantity, line.inTransit, line.untrackedBatches]), [
+      ["1 g", "pack", 25, 0, 0],
+      ["500 mg", "box", 10, 0, 0],
+      ["500 mg", "pack", 100, 40, 1],
+    ]);
+    assert.deepEqual(inventory[2].batchIds, ["INV-1", "INV-2", "INV-3"]);
+  });
+});
+
+describe("Quantity API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should ship part of a batch as a sub-lot and move it between inventories on receipt", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const pharmacy = await signedInAs(server, "pharmacist");
+    const registration = {
+      batchId: "QTY-1",
+      drugName: "Amoxicillin",
+      strength: "250 mg",
+      dosageForm: "capsule",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.wallet.address,
+      quantity: 100,
+      unit: "box",
+    };
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches", { ...registration, quantity: -5 })).status, 400);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches", { ...registration, unit: "crate" })).status, 400);
+    const registered = await manufacturer.request("POST", "/api/drug-batches", registration);
+    assert.equal(registered.status, 201);
+    assert.equal((await registered.json()).event.quantity, 100);
+
+    const shipment = { batchId: "QTY-1", newOwner: "Corner Pharmacy", newOwnerAddress: await licensed(pharmacy.wallet.address), eventType: "deliver" };
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, quantity: 0 })).status, 400);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, quantity: 101, lotBatchId: "QTY-1-A" })).status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, quantity: 30 })).status, 400);
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, quantity: 30, lotBatchId: "QTY-1-A" });
+    assert.equal(res.status, 201);
+    const { drugBatch, transfer, sourceBatch } = await res.json();
+    assert.equal(drugBatch.batchId, "QTY-1-A");
+    assert.equal(drugBatch.status, "in_transit");
+    assert.equal(transfer.quantity, 30);
+    assert.equal(sourceBatch.quantity, 70);
+    assert.equal(sourceBatch.status, "manufactured");
+
+    const sent = await (await createClient(server.baseUrl)("GET", `/api/drug-batches/inventory/${manufacturer.wallet.address}`)).json();
+    assert.deepEqual(sent.map((line: { quantity: number; inTransit: number }) => [line.quantity, line.inTransit]), [[70, 30]]);
+
+    const accepted = await pharmacy.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(accepted.status, 200);
+    const { event, t3Document } = await accepted.json();
+    assert.equal(event.quantity, 30);
+    assert.equal(t3Document.document.transactionInformation.quantity, 30);
+    assert.equal(t3Document.document.transactionInformation.unit, "box");
+
+    const received = await (await createClient(server.baseUrl)("GET", `/api/drug-batches/inventory/${pharmacy.wallet.address}`)).json();
+    assert.deepEqual(received, [{
+      drugName: "Amoxicillin",
+      strength: "250 mg",
+      dosageForm: "capsule",
+      unit: "box",
+      quantity: 30,
+      inTransit: 0,
+      batchIds: ["QTY-1-A"],
+      untrackedBatches: 0,
+    }]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "../server/storage";
+import { distanceKm, getBatchJourney } from "../server/journey";
+import { startTestServer, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const london = { latitude: 51.5072, longitude: -0.1276 };
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+
+describe("Batch journey", () => {
+  it("Should group events by facility and time the hops between them", async () => {
+    const storage = new MemStorage();
+    const at = (hours: number) => new Date(Date.UTC(2030, 0, 1) + hours * HOUR_MS);
+    const event = (eventType: string, hours: number, location: object) =>
+      storage.createSupplyChainEvent({
+        batchId: "JRN-1",
+        toOwner: "PharmaCorp Ltd.",
+        toOwnerAddress: "0xabc",
+        eventType,
+        timestamp: at(hours),
+        ...location,
+      });
+
+    await event("manufacture", 0, { facilityId: "PLANT-1", country: "GB", ...london });
+    await event("verify", 2, { facilityId: "PLANT-1" });
+    await event("excursion", 3, {});
+    await event("distribute", 26, { facilityId: "DC-7", country: "FR", ...paris });
+    await event("deliver", 50, { facilityId: "PHARM-3", country: "FR" });
+
+    const { stops, hops } = await getBatchJourney("JRN-1", storage);
+    assert.deepEqual(stops.map((stop) => [stop.facilityId, stop.eventTypes]), [
+      ["PLANT-1", ["manufacture", "verify"]],
+      ["DC-7", ["distribute"]],
+      ["PHARM-3", ["deliver"]],
+    ]);
+    assert.deepEqual(hops.map((hop) => [hop.from, hop.to, hop.durationMs / HOUR_MS]), [[0, 1, 24], [1, 2, 24]]);
+    assert.equal(Math.round(hops[0].distanceKm!), 344);
+    assert.equal(hops[1].distanceKm, null);
+
+    assert.deepEqual(await getBatchJourney("missing", storage), { stops: [], hops: [] });
+  });
+
+  it("Should need coordinates at both ends for a distance", () => {
+    assert.equal(distanceKm(london, london), 0);
+    assert.equal(distanceKm(london, { latitude: null, longitude: null }), null);
+  });
+});
+
+describe("Batch journey API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should record where a batch was made and where each shipment went", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    const registration = {
+      batchId: "JRN-API-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.wallet.address,
+      facilityId: "PLANT-1",
+      country: "GB",
+      ...london,
+    };
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches", { ...registration, longitude: undefined })).status, 400);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches", { ...registration, country: "gbr" })).status, 400);
+    const registered = await manufacturer.request("POST", "/api/drug-batches", registration);
+    assert.equal(registered.status, 201);
+    assert.equal((await registered.json()).event.facilityId, "PLANT-1");
+
+    const shipment = {
+      batchId: "JRN-API-1",
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(distributor.wallet.address, "MedDistributor"),
+      eventType: "distribute",
+      facilityId: "DC-7",
+      country: "FR",
+      ...paris,
+    };
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, latitude: 91 })).status, 400);
+    const shipped = await manufacturer.request("POST", "/api/drug-batches/transfer", shipment);
+    assert.equal(shipped.status, 201);
+    const { transfer } = await shipped.json();
+    assert.equal(transfer.facilityId, "DC-7");
+
+    const accepted = await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(accepted.status, 200);
+    const { event } = await accepted.json();
+    assert.deepEqual([event.facilityId, event.country, event.latitude, event.longitude], ["DC-7", "FR", paris.latitude, paris.longitude]);
+
+    const journey = await (await createClient(server.baseUrl)("GET", "/api/drug-batches/journey/JRN-API-1")).json();
+    assert.deepEqual(journey.stops.map((stop: { facilityId: string; owner: string }) => [stop.facilityId, stop.owner]), [
+      ["PLANT-1", "PharmaCorp Ltd."],
+      ["DC-7", "MedDistributor"],
+    ]);
+    assert.equal(journey.hops.length, 1);
+    assert.ok(journey.hops[0].durationMs >= 0);
+    assert.equal((await createClient(server.baseUrl)("GET", "/api/drug-batches/journey/missing")).status, 404);
+  });
+});
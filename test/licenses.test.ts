@@ -0,0 +1,269 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { PartnerLicense } from "@shared/schema";
+import { MemStorage } from "../server/storage";
+import { Wallet } from "ethers";
+import { isLicenseInForce, notifyExpiringLicenses, syncLicensesOnChain, type LicenseRegistry } from "../server/licenses";
+import { startTestServer, registerBatch, signedInAs, type TestServer, type TestClient, type TestUser } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Partner licenses", () => {
+  const now = new Date(Date.UTC(2030, 0, 1));
+  const days = (count: number) => new Date(now.getTime() + count * DAY_MS);
+
+  it("Should only count an unrevoked license between its start and expiry", () => {
+    const license = { validFrom: days(-30), expiresAt: days(30), revokedAt: null } as PartnerLicense;
+    assert.equal(isLicenseInForce(license, now), true);
+    assert.equal(isLicenseInForce({ ...license, expiresAt: now }, now), false);
+    assert.equal(isLicenseInForce({ ...license, validFrom: days(1) }, now), false);
+    assert.equal(isLicenseInForce({ ...license, validFrom: null }, now), true);
+    assert.equal(isLicenseInForce({ ...license, revokedAt: days(-1) }, now), false);
+  });
+
+  it("Should warn a partner's owners once before its license lapses", async () => {
+    const storage = new MemStorage();
+    const creator = await storage.createUser({ username: "creator", password: "hash" });
+    const pharmacist = await storage.createUser({ username: "pharmacist", password: "hash", walletAddress: "0xAbC0000000000000000000000000000000000003" });
+    const partner = await storage.createTradingPartner({
+      legalName: "Corner Pharmacy Ltd",
+      role: "pharmacist",
+      walletAddresses: ["0xabc0000000000000000000000000000000000003"],
+      createdBy: creator.id,
+    });
+    const license = (licenseNumber: string, expiresAt: Date) => storage.createPartnerLicense({
+      partnerId: partner.id,
+      licenseNumber,
+      licenseType: "pharmacy",
+      issuingAuthority: "General Pharmaceutical Council",
+      expiresAt,
+    });
+    const lapsing = await license("GPhC-1", days(10));
+    await license("GPhC-2", days(400));
+
+    const sent = await notifyExpiringLicenses(now, storage);
+    assert.deepEqual(sent.map((notification) => notification.userId).sort(), [creator.id, pharmacist.id].sort());
+    assert.equal(sent[0].message, "Corner Pharmacy Ltd's pharmacy license GPhC-1 lapses on 2030-01-11");
+    assert.equal(sent[0].licenseId, lapsing.id);
+    assert.deepEqual(await notifyExpiringLicenses(days(1), storage), []);
+
+    // Renewed, then close to lapsing again
+    await storage.updatePartnerLicense(lapsing.id, { expiresAt: days(60), expiryNotifiedAt: null });
+    assert.deepEqual(await notifyExpiringLicenses(now, storage), []);
+    assert.equal((await notifyExpiringLicenses(days(45), storage)).length, 2);
+  });
+
+  it("Should write only the on-chain licenses that differ from partner licenses", async () => {
+    const storage = new MemStorage();
+    const creator = await storage.createUser({ username: "creator", password: "hash" });
+    const pharmacy = "0xabc0000000000000000000000000000000000004";
+    const stranger = "0xabc0000000000000000000000000000000000005";
+    const partner = await storage.createTradingPartner({
+      legalName: "Corner Pharmacy Ltd",
+      role: "pharmacist",
+      walletAddresses: [pharmacy],
+      createdBy: creator.id,
+    });
+    const license = await storage.createPartnerLicense({
+      partnerId: partner.id,
+      licenseNumber: "GPhC-1",
+      licenseType: "pharmacy",
+      issuingAuthority: "General Pharmaceutical Council",
+      expiresAt: days(365),
+    });
+
+    // An in-memory stand-in for DrugAuth's license mapping
+    const onChain = new Map<string, { licenseNumber: string; expiresAt: bigint }>([[stranger, { licenseNumber: "OLD", expiresAt: 1n }]]);
+    const calls: string[] = [];
+    const mined = { wait: async () => undefined };
+    const registry: LicenseRegistry = {
+      licenses: async (holder) => onChain.get(holder) ?? { licenseNumber: "", expiresAt: 0n },
+      issueLicense: async (holder, licenseNumber, expiresAt) => {
+        calls.push(`issue ${holder}`);
+        onChain.set(holder, { licenseNumber, expiresAt });
+        return mined;
+      },
+      revokeLicense: async (holder) => {
+        calls.push(`revoke ${holder}`);
+        onChain.delete(holder);
+        return mined;
+      },
+    };
+
+    // Nobody has checked the license of a partner still pending verification
+    assert.deepEqual(await syncLicensesOnChain([pharmacy, "0xABC0000000000000000000000000000000000005"], registry, now, storage), [stranger]);
+    assert.deepEqual(calls, [`revoke ${stranger}`]);
+    assert.equal(onChain.has(pharmacy), false);
+
+    await storage.updateTradingPartner(partner.id, { verificationStatus: "verified" });
+    assert.deepEqual(await syncLicensesOnChain([pharmacy, stranger], registry, now, storage), [pharmacy]);
+    assert.equal(onChain.get(pharmacy)?.expiresAt, BigInt(days(365).getTime() / 1000));
+    assert.deepEqual(await syncLicensesOnChain([pharmacy, stranger], registry, now, storage), []);
+
+    await storage.updateTradingPartner(partner.id, { verificationStatus: "suspended" });
+    assert.deepEqual(await syncLicensesOnChain([pharmacy], registry, now, storage), [pharmacy]);
+    assert.equal(onChain.has(pharmacy), false);
+
+    await storage.updateTradingPartner(partner.id, { verificationStatus: "verified" });
+    await syncLicensesOnChain([pharmacy], registry, now, storage);
+    await storage.updatePartnerLicense(license.id, { revokedAt: now });
+    assert.deepEqual(await syncLicensesOnChain([pharmacy], registry, now, storage), [pharmacy]);
+    assert.equal(onChain.has(pharmacy), false);
+  });
+});
+
+describe("Partner license API", () => {
+  let server: TestServer;
+  let counter = 0;
+
+  // A partner for `owner`'s wallet, registered by them and verified by `admin`
+  async function verifiedPartner(owner: TestUser, admin: { request: TestClient }) {
+    const created = await owner.request("POST", "/api/partners", {
+      legalName: `Licensed Pharmacy ${++counter}`,
+      role: "pharmacist",
+      walletAddresses: [owner.wallet.address],
+    });
+    const partner = await created.json();
+    await admin.request("POST", `/api/partners/${partner.id}/verification`, { status: "verified" });
+    return partner;
+  }
+
+  const pharmacyLicense = (expiresInDays: number) => ({
+    licenseNumber: `GPhC-${counter}`,
+    licenseType: "pharmacy",
+    issuingAuthority: "General Pharmaceutical Council",
+    expiresAt: new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+  });
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should send a partner back for verification when its creator adds a license", async () => {
+    const pharmacist = await signedInAs(server, "pharmacist");
+    const outsider = await signedInAs(server, "distributor");
+    const admin = await signedInAs(server, "admin");
+    const partner = await verifiedPartner(pharmacist, admin);
+
+    assert.equal((await pharmacist.request("POST", `/api/partners/${partner.id}/licenses`, { ...pharmacyLicense(365), licenseType: "retail" })).status, 400);
+    const denied = await outsider.request("POST", `/api/partners/${partner.id}/licenses`, pharmacyLicense(365));
+    assert.equal((await denied.json()).code, "not_partner_creator");
+
+    const created = await pharmacist.request("POST", `/api/partners/${partner.id}/licenses`, pharmacyLicense(365));
+    assert.equal(created.status, 201);
+    const license = await created.json();
+    assert.equal((await (await admin.request("GET", `/api/partners/${partner.id}`)).json()).verificationStatus, "pending");
+
+    const backwards = await pharmacist.request("PATCH", `/api/partners/${partner.id}/licenses/${license.id}`, {
+      validFrom: new Date(Date.now() + 400 * DAY_MS).toISOString(),
+    });
+    assert.equal(backwards.status, 400);
+    assert.equal((await admin.request("PATCH", `/api/partners/${partner.id}/licenses/missing`, { licenseNumber: "X" })).status, 404);
+
+    const listed = await outsider.request("GET", `/api/partners/${partner.id}/licenses`);
+    assert.deepEqual((await listed.json()).map((entry: { id: string }) => entry.id), [license.id]);
+  });
+
+  it("Should refuse shipments to a partner whose license has been revoked, even in transit", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const pharmacist = await signedInAs(server, "pharmacist");
+    const admin = await signedInAs(server, "admin");
+    const partner = await verifiedPartner(pharmacist, admin);
+    const license = await (await admin.request("POST", `/api/partners/${partner.id}/licenses`, pharmacyLicense(365))).json();
+
+    const licensedOnly = await manufacturer.request("GET", "/api/partners?status=verified&licensed=true");
+    assert.ok((await licensedOnly.json()).some((entry: { id: string }) => entry.id === partner.id));
+
+    const shipped = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: await registerBatch(manufacturer),
+      partnerId: partner.id,
+      eventType: "deliver",
+    });
+    assert.equal(shipped.status, 201);
+    const { transfer } = await shipped.json();
+
+    assert.equal((await pharmacist.request("POST", `/api/partners/${partner.id}/licenses/${license.id}/revoke`)).status, 403);
+    assert.equal((await admin.request("POST", `/api/partners/${partner.id}/licenses/${license.id}/revoke`)).status, 200);
+    assert.equal((await admin.request("POST", `/api/partners/${partner.id}/licenses/${license.id}/revoke`)).status, 409);
+
+    const accepted = await pharmacist.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(accepted.status, 422);
+    assert.equal((await accepted.json()).code, "partner_unlicensed");
+
+    const again = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: await registerBatch(manufacturer),
+      newOwner: "Licensed Pharmacy",
+      newOwnerAddress: pharmacist.wallet.address,
+      eventType: "deliver",
+    });
+    assert.equal(again.status, 422);
+    const stillListed = await manufacturer.request("GET", "/api/partners?status=verified&licensed=true");
+    assert.ok(!(await stillListed.json()).some((entry: { id: string }) => entry.id === partner.id));
+  });
+
+  it("Should refuse shipments to a partner licensed by its creator until an admin verifies it", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const customer = await signedInAs(server, "customer");
+    const created = await customer.request("POST", "/api/partners", {
+      legalName: `Self-Licensed Pharmacy ${++counter}`,
+      role: "pharmacist",
+      walletAddresses: [customer.wallet.address],
+    });
+    assert.equal(created.status, 201);
+    const partner = await created.json();
+    assert.equal((await customer.request("POST", `/api/partners/${partner.id}/licenses`, pharmacyLicense(365))).status, 201);
+
+    const shipped = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: await registerBatch(manufacturer),
+      newOwner: "Self-Licensed Pharmacy",
+      newOwnerAddress: customer.wallet.address,
+      eventType: "deliver",
+    });
+    assert.equal(shipped.status, 422);
+    const body = await shipped.json();
+    assert.equal(body.code, "partner_unlicensed");
+    assert.equal(body.details.partnerId, partner.id);
+  });
+
+  it("Should refuse shipments to a wallet no licensed partner holds", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const res = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: await registerBatch(manufacturer),
+      newOwner: "Unknown Trader",
+      newOwnerAddress: Wallet.createRandom().address,
+      eventType: "transfer",
+    });
+    assert.equal(res.status, 422);
+    const body = await res.json();
+    assert.equal(body.code, "partner_unlicensed");
+    assert.equal(body.details.partnerId, null);
+  });
+
+  it("Should show each user their own license notifications", async () => {
+    const pharmacist = await signedInAs(server, "pharmacist");
+    const outsider = await signedInAs(server, "distributor");
+    const admin = await signedInAs(server, "admin");
+    const partner = await verifiedPartner(pharmacist, admin);
+    await admin.request("POST", `/api/partners/${partner.id}/licenses`, pharmacyLicense(7));
+
+    await notifyExpiringLicenses();
+    const notifications = await (await pharmacist.request("GET", "/api/notifications")).json();
+    const notification = notifications.find((entry: { partnerId: string }) => entry.partnerId === partner.id);
+    assert.equal(notification.kind, "license_expiring");
+    assert.equal((await outsider.request("GET", "/api/notifications")).status, 200);
+
+    const denied = await outsider.request("POST", `/api/notifications/${notification.id}/read`);
+    assert.equal((await denied.json()).code, "not_notification_recipient");
+    const read = await pharmacist.request("POST", `/api/notifications/${notification.id}/read`);
+    assert.ok((await read.json()).readAt);
+
+    const unread = await (await pharmacist.request("GET", "/api/notifications")).json();
+    assert.ok(!unread.some((entry: { id: string }) => entry.id === notification.id));
+    const all = await (await pharmacist.request("GET", "/api/notifications?all=true")).json();
+    assert.ok(all.some((entry: { id: string }) => entry.id === notification.id));
+  });
+});
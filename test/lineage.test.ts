@@ -0,0 +1,183 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import { getBatchLineageTree, getDescendantBatches, mergeBatches, splitBatch } from "../server/lineage";
+import { findRecallBatches, getBatchManufacturerAddress } from "../server/recall";
+import { startTestServer, registerBatch, createClient, signedInAs, licensed, type TestServer } from "./helpers";
+
+const manufacturer = Wallet.createRandom().address;
+
+describe("Lot lineage", () => {
+  let storage: MemStorage;
+
+  async function createBatch(batchId: string, quantity: number, expiryDate = new Date("2032-01-01")) {
+    const batch = await storage.createDrugBatch({
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01"),
+      expiryDate,
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer,
+      status: "received",
+      quantity,
+    });
+    await storage.createSupplyChainEvent({
+      batchId,
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "manufacture",
+    });
+    return batch;
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should split sub-lots off a batch and retire it once emptied", async () => {
+    const parent = await createBatch("LOT-1", 1000);
+    const split = await splitBatch(parent, [{ batchId: "LOT-1-A", quantity: 600, tokenId: 2 }, { batchId: "LOT-1-B", quantity: 300 }], {}, storage);
+
+    assert.equal(split.drugBatch.quantity, 100);
+    assert.equal(split.drugBatch.status, "received");
+    assert.deepEqual(split.lots.map((lot) => [lot.batchId, lot.quantity, lot.status, lot.tokenId]), [
+      ["LOT-1-A", 600, "received", 2],
+      ["LOT-1-B", 300, "received", null],
+    ]);
+    assert.equal(split.lots[0].expiryDate.getTime(), parent.expiryDate.getTime());
+    assert.deepEqual(split.events.map((event) => [event.eventType, event.quantity]), [["split", 600], ["split", 300]]);
+
+    await assert.rejects(splitBatch(split.drugBatch, [{ batchId: "LOT-1-C", quantity: 101 }], {}, storage), /Not enough quantity/);
+    assert.equal(await storage.getDrugBatchByBatchId("LOT-1-C"), undefined);
+
+    const emptied = await splitBatch(split.drugBatch, [{ batchId: "LOT-1-C", quantity: 100 }], {}, storage);
+    assert.equal(emptied.drugBatch.quantity, 0);
+    assert.equal(emptied.drugBatch.status, "split");
+  });
+
+  it("Should merge lots into one with their total quantity and earliest expiry", async () => {
+    const first = await createBatch("LOT-2", 200, new Date("2032-06-01"));
+    const second = await createBatch("LOT-3", 50, new Date("2031-06-01"));
+
+    const merged = await mergeBatches([first, second], { batchId: "LOT-M" }, { transactionHash: "0xabc" }, storage);
+    assert.equal(merged.drugBatch.quantity, 250);
+    assert.equal(merged.drugBatch.expiryDate.getTime(), second.expiryDate.getTime());
+    assert.equal(merged.event.eventType, "merge");
+    assert.deepEqual(merged.sources.map((source) => [source.status, source.quantity]), [["merged", 0], ["merged", 0]]);
+
+    const parents = await storage.getBatchLineageByChild("LOT-M");
+    assert.deepEqual(parents.map((edge) => [edge.parentBatchId, edge.quantity, edge.operation]), [
+      ["LOT-2", 200, "merge"],
+      ["LOT-3", 50, "merge"],
+    ]);
+  });
+
+  it("Should trace sub-lots back to their manufacturer and recall them with the parent", async () => {
+    const parent = await createBatch("LOT-4", 100);
+    const { lots } = await splitBatch(parent, [{ batchId: "LOT-4-A", quantity: 40 }, { batchId: "LOT-4-B", quantity: 60 }], {}, storage);
+    const other = await createBatch("LOT-5", 10);
+    await mergeBatches([lots[1], other], { batchId: "LOT-M2" }, {}, storage);
+    await storage.updateDrugBatch(lots[0].id, { status: "recalled" });
+
+    assert.equal(await getBatchManufacturerAddress((await storage.getDrugBatchByBatchId("LOT-M2"))!, storage), manufacturer);
+    assert.deepEqual((await getDescendantBatches(parent, storage)).map((batch) => batch.batchId), ["LOT-4-A", "LOT-4-B", "LOT-M2"]);
+
+    const recalled = await findRecallBatches(parent, { scope: "batch" }, manufacturer, storage);
+    assert.deepEqual(recalled.map((batch) => batch.batchId), ["LOT-4", "LOT-4-B", "LOT-M2"]);
+  });
+
+  it("Should build the tree from the original lots down", async () => {
+    const parent = await createBatch("LOT-6", 100);
+    const { lots } = await splitBatch(parent, [{ batchId: "LOT-6-A", quantity: 40 }], {}, storage);
+    const other = await createBatch("LOT-7", 10);
+    await mergeBatches([lots[0], other], { batchId: "LOT-M3" }, {}, storage);
+
+    const tree = await getBatchLineageTree("LOT-M3", storage);
+    assert.deepEqual(tree.map((node) => node.batchId), ["LOT-6", "LOT-7"]);
+    assert.equal(tree[0].children[0].batchId, "LOT-6-A");
+    assert.equal(tree[0].children[0].operation, "split");
+    assert.equal(tree[0].children[0].movedQuantity, 40);
+    assert.equal(tree[0].children[0].children[0].batchId, "LOT-M3");
+    assert.equal(tree[1].children[0].operation, "merge");
+  });
+});
+
+describe("Lot lineage API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should split a batch and show the sub-lots in its lineage", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const batchId = await registerBatch(manufacturer, { quantity: 500 });
+
+    const tooMuch = await manufacturer.request("POST", "/api/drug-batches/split", {
+      batchId,
+      lots: [{ batchId: `${batchId}-A`, quantity: 501 }],
+    });
+    assert.equal(tooMuch.status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/split", { batchId, lots: [] })).status, 400);
+
+    const outsider = await signedInAs(server, "distributor");
+    const denied = await outsider.request("POST", "/api/drug-batches/split", {
+      batchId,
+      lots: [{ batchId: `${batchId}-A`, quantity: 10 }],
+    });
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_batch_owner");
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/split", {
+      batchId,
+      lots: [{ batchId: `${batchId}-A`, quantity: 200 }, { batchId: `${batchId}-B`, quantity: 300 }],
+    });
+    assert.equal(res.status, 201);
+    const split = await res.json();
+    assert.equal(split.drugBatch.status, "split");
+    assert.deepEqual(split.lots.map((lot: { quantity: number }) => lot.quantity), [200, 300]);
+
+    const retired = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(outsider.wallet.address),
+      eventType: "transfer",
+    });
+    assert.equal(retired.status, 409);
+
+    const lineage = await (await createClient(server.baseUrl)("GET", `/api/drug-batches/lineage/${batchId}-A`)).json();
+    assert.deepEqual(lineage.parents.map((edge: { parentBatchId: string }) => edge.parentBatchId), [batchId]);
+    assert.equal(lineage.tree[0].batchId, batchId);
+    assert.equal(lineage.tree[0].children.length, 2);
+    assert.equal((await createClient(server.baseUrl)("GET", "/api/drug-batches/lineage/missing")).status, 404);
+  });
+
+  it("Should merge lots of the same drug held by the caller", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const first = await registerBatch(manufacturer, { quantity: 100 });
+    const second = await registerBatch(manufacturer, { quantity: 40 });
+    const unmetered = await registerBatch(manufacturer);
+    const otherDrug = await registerBatch(manufacturer, { quantity: 10, drugName: "Ibuprofen 200mg" });
+
+    const mismatched = await manufacturer.request("POST", "/api/drug-batches/merge", { batchIds: [first, otherDrug], newBatchId: "LIN-M-0" });
+    assert.equal(mismatched.status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/merge", { batchIds: [first, unmetered], newBatchId: "LIN-M-0" })).status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/merge", { batchIds: [first, first], newBatchId: "LIN-M-0" })).status, 400);
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/merge", { batchIds: [first, second], newBatchId: "LIN-M-1" });
+    assert.equal(res.status, 201);
+    const merged = await res.json();
+    assert.equal(merged.drugBatch.quantity, 140);
+    assert.deepEqual(merged.sources.map((source: { status: string }) => source.status), ["merged", "merged"]);
+
+    // A recall of one merged lot reaches the lot it went into
+    const recall = await manufacturer.request("POST", "/api/drug-batches/recall/preview", { batchId: first, reason: "Contamination" });
+    assert.deepEqual((await recall.json()).batches.map((batch: { batchId: string }) => batch.batchId), [first, "LIN-M-1"]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import type { TradingPartner } from "@shared/schema";
+import { gtinCheckDigit } from "@shared/gs1";
+import { changesIdentity, withFacilityLocation } from "../server/partners";
+import { startTestServer, registerBatch, createClient, signedInAs, type TestServer } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const gln = (digits: string) => digits + gtinCheckDigit(digits);
+
+describe("Trading partners", () => {
+  const partner = {
+    legalName: "MedDistributor GmbH",
+    role: "distributor",
+    gln: gln("400000100000"),
+    walletAddresses: ["0xabc0000000000000000000000000000000000002"],
+    facilities: [{ facilityId: gln("400000100001"), name: "Hamburg DC", latitude: 53.55, longitude: 9.99, country: "DE" }],
+  } as TradingPartner;
+
+  it("Should only treat changes to who a partner is as needing verification again", () => {
+    assert.equal(changesIdentity(partner, { legalName: "MedDistributor GmbH" }), false);
+    assert.equal(changesIdentity(partner, { facilities: [] }), false);
+    assert.equal(changesIdentity(partner, { gln: gln("400000100002") }), true);
+    assert.equal(changesIdentity(partner, { walletAddresses: ["0xabc0000000000000000000000000000000000009"] }), true);
+  });
+
+  it("Should fill a shipment's location from the partner's facility", () => {
+    const facilityId = partner.facilities[0].facilityId;
+    assert.deepEqual(withFacilityLocation(partner, { facilityId }), { facilityId, latitude: 53.55, longitude: 9.99, country: "DE" });
+    assert.deepEqual(withFacilityLocation(partner, { facilityId, latitude: 53.6, longitude: 10 }), { facilityId, latitude: 53.6, longitude: 10, country: "DE" });
+    assert.deepEqual(withFacilityLocation(partner, { facilityId: "OTHER" }), { facilityId: "OTHER" });
+  });
+});
+
+describe("Trading partner API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should only ship to a partner once an admin has verified it", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const pharmacist = await signedInAs(server, "pharmacist");
+    const admin = await signedInAs(server, "admin");
+    const facilityId = gln("500000100001");
+    const registration = {
+      legalName: "Corner Pharmacy Ltd",
+      role: "pharmacist",
+      gln: gln("500000100000"),
+      walletAddresses: [pharmacist.wallet.address],
+      facilities: [{ facilityId, name: "High Street branch", latitude: 51.5072, longitude: -0.1276, country: "GB" }],
+    };
+
+    assert.equal((await createClient(server.baseUrl)("POST", "/api/partners", registration)).status, 401);
+    assert.equal((await pharmacist.request("POST", "/api/partners", { ...registration, gln: "5000001000009" })).status, 400);
+    const created = await pharmacist.request("POST", "/api/partners", registration);
+    assert.equal(created.status, 201);
+    const partner = await created.json();
+    assert.equal(partner.verificationStatus, "pending");
+    assert.deepEqual(partner.walletAddresses, [pharmacist.wallet.address.toLowerCase()]);
+
+    // Only the pharmacist has signed in with its wallet, so only they can claim it
+    const squatter = await manufacturer.request("POST", "/api/partners", {
+      ...registration,
+      gln: undefined,
+      walletAddresses: [pharmacist.wallet.address.toUpperCase().replace("0X", "0x")],
+    });
+    assert.equal(squatter.status, 403);
+    assert.equal((await squatter.json()).code, "not_wallet_holder");
+    const copycat = await admin.request("POST", "/api/partners", { ...registration, gln: undefined });
+    assert.equal(copycat.status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/partners", { ...registration, walletAddresses: [manufacturer.wallet.address] })).status, 409);
+
+    const batchId = await registerBatch(manufacturer);
+    const shipment = { batchId, partnerId: partner.id, eventType: "deliver", facilityId };
+    const unverified = await manufacturer.request("POST", "/api/drug-batches/transfer", shipment);
+    assert.equal(unverified.status, 422);
+    assert.equal((await unverified.json()).code, "partner_not_verified");
+
+    const forbidden = await pharmacist.request("POST", `/api/partners/${partner.id}/verification`, { status: "verified" });
+    assert.equal(forbidden.status, 403);
+    const verified = await admin.request("POST", `/api/partners/${partner.id}/verification`, { status: "verified" });
+    assert.equal(verified.status, 200);
+    assert.ok((await verified.json()).verifiedAt);
+
+    const listed = await manufacturer.request("GET", "/api/partners?status=verified");
+    assert.ok((await listed.json()).some((entry: { id: string }) => entry.id === partner.id));
+    assert.equal((await manufacturer.request("GET", "/api/partners?status=bogus")).status, 400);
+
+    const unlicensed = await manufacturer.request("POST", "/api/drug-batches/transfer", shipment);
+    assert.equal(unlicensed.status, 422);
+    assert.equal((await unlicensed.json()).code, "partner_unlicensed");
+    const licensed = await admin.request("POST", `/api/partners/${partner.id}/licenses`, {
+      licenseNumber: "GPhC-9011234",
+      licenseType: "pharmacy",
+      issuingAuthority: "General Pharmaceutical Council",
+      expiresAt: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+    });
+    assert.equal(licensed.status, 201);
+
+    const wrongWallet = await manufacturer.request("POST", "/api/drug-batches/transfer", { ...shipment, newOwnerAddress: Wallet.createRandom().address });
+    assert.equal(wrongWallet.status, 400);
+
+    const shipped = await manufacturer.request("POST", "/api/drug-batches/transfer", shipment);
+    assert.equal(shipped.status, 201);
+    const { transfer } = await shipped.json();
+    assert.deepEqual(
+      [transfer.toOwner, transfer.partnerId, transfer.latitude, transfer.country],
+      ["Corner Pharmacy Ltd", partner.id, 51.5072, "GB"],
+    );
+    assert.equal(transfer.toOwnerAddress.toLowerCase(), pharmacist.wallet.address.toLowerCase());
+
+    // A bare address of a verified partner ships under its registered name
+    const secondBatch = await registerBatch(manufacturer);
+    const byAddress = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: secondBatch,
+      newOwner: "Corner Pharmcy",
+      newOwnerAddress: pharmacist.wallet.address,
+      eventType: "deliver",
+    });
+    assert.equal((await byAddress.json()).transfer.toOwner, "Corner Pharmacy Ltd");
+  });
+
+  it("Should send a partner back for verification when its creator changes who it is", async () => {
+    const distributor = await signedInAs(server, "distributor");
+    const outsider = await signedInAs(server, "distributor");
+    const admin = await signedInAs(server, "admin");
+
+    const created = await distributor.request("POST", "/api/partners", {
+      legalName: "Regional Wholesale Ltd",
+      role: "distributor",
+      walletAddresses: [distributor.wallet.address],
+    });
+    const partner = await created.json();
+    await admin.request("POST", `/api/partners/${partner.id}/verification`, { status: "verified" });
+
+    const denied = await outsider.request("PATCH", `/api/partners/${partner.id}`, { legalName: "Hijacked Ltd" });
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_partner_creator");
+
+    const claimed = await distributor.request("PATCH", `/api/partners/${partner.id}`, {
+      walletAddresses: [distributor.wallet.address, outsider.wallet.address],
+    });
+    assert.equal((await claimed.json()).code, "not_wallet_holder");
+
+    const facilities = await distributor.request("PATCH", `/api/partners/${partner.id}`, {
+      facilities: [{ facilityId: gln("600000100001"), name: "North DC" }],
+    });
+    assert.equal((await facilities.json()).verificationStatus, "verified");
+
+    const renamed = await distributor.request("PATCH", `/api/partners/${partner.id}`, { legalName: "Regional Wholesale Group" });
+    const pending = await renamed.json();
+    assert.equal(pending.verificationStatus, "pending");
+    assert.equal(pending.verifiedAt, null);
+
+    assert.equal((await distributor.request("DELETE", `/api/partners/${partner.id}`)).status, 403);
+    assert.equal((await admin.request("DELETE", `/api/partners/${partner.id}`)).status, 204);
+    assert.equal((await admin.request("GET", `/api/partners/${partner.id}`)).status, 404);
+  });
+
+  it("Should refuse unregistered recipients when verified partners are required", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const batchId = await registerBatch(manufacturer);
+
+    process.env.REQUIRE_VERIFIED_PARTNERS = "true";
+    try {
+      const res = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+        batchId,
+        newOwner: "Unknown Trader",
+        newOwnerAddress: Wallet.createRandom().address,
+        eventType: "transfer",
+      });
+      assert.equal(res.status, 422);
+      assert.equal((await res.json()).code, "partner_not_verified");
+    } finally {
+      delete process.env.REQUIRE_VERIFIED_PARTNERS;
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import QRCode from "qrcode";
+import { createDrugQRData, createGS1QRData, createSignedDrugQRData, createUnitQRData, decodeQRCode, parseDrugQRData } from "../client/src/utils/qr-code";
+
+// Renders a QR code to RGBA pixels the way a canvas would hand them over
+function renderQRCode(text: string, scale = 4, margin = 4) {
+  const { modules } = QRCode.create(text, {});
+  const width = (modules.size + margin * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / scale) - margin;
+      const col = Math.floor(x / scale) - margin;
+      const dark = row >= 0 && col >= 0 && row < modules.size && col < modules.size && modules.get(row, col);
+      if (dark) {
+        const offset = (y * width + x) * 4;
+        data[offset] = data[offset + 1] = data[offset + 2] = 0;
+      }
+    }
+  }
+
+  return { data, width, height: width };
+}
+
+describe("Drug QR codes", () => {
+  const globals = globalThis as { window?: unknown };
+
+  before(() => {
+    globals.window = { location: { origin: "https://drugauth.example" } };
+  });
+
+  after(() => {
+    delete globals.window;
+  });
+
+  it("Should decode the batch and token from a generated code", () => {
+    const text = createDrugQRData("BTC 2024/001", "42");
+
+    assert.equal(decodeQRCode(renderQRCode(text)), text);
+    assert.deepEqual(parseDrugQRData(text), { batchId: "BTC 2024/001", tokenId: "42" });
+    assert.deepEqual(parseDrugQRData(createDrugQRData("BTC-1")), { batchId: "BTC-1" });
+  });
+
+  it("Should read the serial number from a pack code", () => {
+    assert.deepEqual(parseDrugQRData(createUnitQRData("BTC-1", "BTC-1-000007")), { batchId: "BTC-1", serialNumber: "BTC-1-000007" });
+  });
+
+  it("Should read GS1 Digital Link codes for server-side resolution", () => {
+    const text = createGS1QRData({ gtin: "09506000134352", lot: "BTC-1", serial: "000007", expiry: "310315" });
+
+    assert.equal(text, "https://drugauth.example/01/09506000134352/10/BTC-1/21/000007?17=310315");
+    assert.deepEqual(parseDrugQRData(text), { batchId: "BTC-1", gs1: text });
+    assert.equal(parseDrugQRData("https://drugauth.example/01/09506000134352"), null);
+  });
+
+  it("Should round-trip a signed label", () => {
+    const signed = { batchId: "BTC-1", tokenId: "42", serial: "a1b2c3d4e5f60718", keyId: "0xAbC", signature: "0xdead" };
+    const text = createSignedDrugQRData(signed);
+
+    assert.equal(decodeQRCode(renderQRCode(text)), text);
+    assert.deepEqual(parseDrugQRData(text), { batchId: "BTC-1", tokenId: "42", signed });
+  });
+
+  it("Should reject codes without a batch id", () => {
+    assert.equal(parseDrugQRData("https://drugauth.example/verify"), null);
+    assert.equal(parseDrugQRData("not a url"), null);
+  });
+
+  it("Should return null for an image without a code", () => {
+    const blank = { data: new Uint8ClampedArray(64 * 64 * 4).fill(255), width: 64, height: 64 };
+    assert.equal(decodeQRCode(blank), null);
+  });
+});
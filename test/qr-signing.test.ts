@@ -0,0 +1,116 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { formatQRPayloadMessage } from "../server/qr-signing";
+import { storage } from "../server/storage";
+import { startTestServer, registerBatch, createClient, signedInAs, type TestServer, type TestClient } from "./helpers";
+
+describe("Signed QR labels", () => {
+  let server: TestServer;
+
+  // Issues a label for `batchId` and signs it with `wallet`
+  async function signLabel(request: TestClient, wallet: Wallet, batchId: string) {
+    const res = await request("POST", "/api/drug-batches/qr-payload", { batchId });
+    assert.equal(res.status, 200);
+    const { payload, message } = await res.json();
+    return { ...payload, signature: await wallet.signMessage(message) };
+  }
+
+  async function checkLabel(payload: unknown) {
+    const res = await createClient(server.baseUrl)("POST", "/api/drug-batches/qr-payload/verify", payload);
+    assert.equal(res.status, 200);
+    return res.json();
+  }
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should accept a label signed by the batch manufacturer", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatch(manufacturer, { batchId: "QR-A-1", tokenId: 9 });
+
+    const label = await signLabel(manufacturer.request, manufacturer.wallet, "QR-A-1");
+    assert.equal(label.tokenId, "9");
+    assert.equal(label.keyId, manufacturer.wallet.address);
+    assert.match(label.serial, /^QR-A-1-[0-9A-Z]{12}$/);
+    assert.equal((await storage.getSerializedUnit(label.serial))?.batchId, "QR-A-1");
+
+    const result = await checkLabel(label);
+    assert.equal(result.status, "valid");
+    assert.equal(result.drug.batchId, "QR-A-1");
+    assert.equal(result.alreadyScanned, false);
+
+    // A copied label shows up as a repeat scan of the same pack
+    const again = await checkLabel(label);
+    assert.equal(again.status, "valid");
+    assert.equal(again.alreadyScanned, true);
+    assert.equal(again.unit.scanCount, 2);
+    const scans = await storage.getScanEventsByBatchId("QR-A-1");
+    assert.deepEqual(scans.map((scan) => scan.serialNumber), [label.serial, label.serial]);
+  });
+
+  it("Should reject labels for packs that don't exist or were dispensed", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatch(manufacturer, { batchId: "QR-E-1", tokenId: 9 });
+    const label = await signLabel(manufacturer.request, manufacturer.wallet, "QR-E-1");
+
+    // Signed by the right key, but for a serial the server never issued
+    const invented = { ...label, serial: "QR-E-1-000000000000" };
+    const unknown = await checkLabel({ ...invented, signature: await manufacturer.wallet.signMessage(formatQRPayloadMessage(invented)) });
+    assert.equal(unknown.status, "unknown");
+    assert.equal(unknown.alreadyScanned, undefined);
+
+    const batch = await storage.getDrugBatchByBatchId("QR-E-1");
+    await storage.updateDrugBatch(batch!.id, { status: "dispensed" });
+    const dispensed = await checkLabel(label);
+    assert.equal(dispensed.status, "forged");
+    assert.equal(dispensed.reason, "Pack has already been dispensed");
+  });
+
+  it("Should flag tampered and re-signed labels as forged", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatch(manufacturer, { batchId: "QR-B-1", tokenId: 9 });
+    await registerBatch(manufacturer, { batchId: "QR-B-2", tokenId: 9 });
+    const label = await signLabel(manufacturer.request, manufacturer.wallet, "QR-B-1");
+
+    assert.equal((await checkLabel({ ...label, serial: "0000000000000000" })).status, "forged");
+    assert.equal((await checkLabel({ ...label, batchId: "QR-B-2" })).status, "forged");
+    assert.equal((await checkLabel({ ...label, signature: "0x1234" })).status, "forged");
+
+    const counterfeiter = Wallet.createRandom();
+    const resigned = { ...label, signature: await counterfeiter.signMessage("DrugAuth label") };
+    assert.equal((await checkLabel(resigned)).status, "forged");
+  });
+
+  it("Should report labels from unknown batches or keys as unknown", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatch(manufacturer, { batchId: "QR-C-1", tokenId: 9 });
+    const label = await signLabel(manufacturer.request, manufacturer.wallet, "QR-C-1");
+
+    assert.equal((await checkLabel({ ...label, batchId: "QR-MISSING" })).status, "unknown");
+    assert.equal((await checkLabel({ ...label, keyId: Wallet.createRandom().address })).status, "unknown");
+
+    const res = await createClient(server.baseUrl)("POST", "/api/drug-batches/qr-payload/verify", { batchId: "QR-C-1" });
+    assert.equal(res.status, 400);
+  });
+
+  it("Should only issue labels to the batch manufacturer", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const other = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    await registerBatch(manufacturer, { batchId: "QR-D-1", tokenId: 9 });
+
+    const notManufacturer = await other.request("POST", "/api/drug-batches/qr-payload", { batchId: "QR-D-1" });
+    assert.equal(notManufacturer.status, 403);
+    assert.equal((await notManufacturer.json()).code, "not_batch_manufacturer");
+
+    const wrongRole = await distributor.request("POST", "/api/drug-batches/qr-payload", { batchId: "QR-D-1" });
+    assert.equal(wrongRole.status, 403);
+    assert.equal((await wrongRole.json()).code, "forbidden_role");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { startTestServer, registerBatch, createClient, signedInAs, licensed, type TestServer, type TestClient, type TestUser } from "./helpers";
+
+let drugCounter = 0;
+
+describe("Recalls", () => {
+  let server: TestServer;
+
+  // Registers `batchIds` of one new drug to `manufacturer`
+  async function registerBatches(manufacturer: TestUser, batchIds: string[], drugName = `Recall Drug ${++drugCounter}`) {
+    for (const batchId of batchIds) {
+      await registerBatch(manufacturer, { batchId, drugName });
+    }
+    return drugName;
+  }
+
+  // Ships `batchId` to `to`, who confirms receipt
+  async function transfer(request: TestClient, batchId: string, to: TestUser) {
+    const res = await request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(to.wallet.address),
+      eventType: "transfer",
+    });
+    assert.equal(res.status, 201);
+    const { transfer: pending } = await res.json();
+    assert.equal((await to.request("POST", `/api/drug-batches/transfers/${pending.id}/accept`)).status, 200);
+  }
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should let the manufacturer recall a batch held downstream", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    await registerBatches(manufacturer, ["RCL-A-1"]);
+    await transfer(manufacturer.request, "RCL-A-1", distributor);
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/recall", { batchId: "RCL-A-1", reason: "Contamination" });
+    assert.equal(res.status, 200);
+    const { drugBatches, events } = await res.json();
+    assert.equal(drugBatches[0].status, "recalled");
+    assert.equal(drugBatches[0].recallReason, "Contamination");
+    assert.ok(drugBatches[0].recalledAt);
+    assert.equal(events[0].eventType, "recall");
+    assert.equal(events[0].toOwnerAddress, distributor.wallet.address);
+
+    const verified = await (await createClient(server.baseUrl)("GET", "/api/drug-batches/verify/RCL-A-1")).json();
+    assert.equal(verified.drug.status, "recalled");
+    assert.deepEqual(verified.events.map((e: { eventType: string }) => e.eventType), ["manufacture", "transfer", "recall"]);
+  });
+
+  it("Should block transfers and repeat recalls of a recalled batch", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatches(manufacturer, ["RCL-B-1"]);
+    await manufacturer.request("POST", "/api/drug-batches/recall", { batchId: "RCL-B-1", reason: "Contamination" });
+
+    const transferred = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: "RCL-B-1",
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(Wallet.createRandom().address),
+      eventType: "transfer",
+    });
+    assert.equal(transferred.status, 409);
+
+    const again = await manufacturer.request("POST", "/api/drug-batches/recall", { batchId: "RCL-B-1", reason: "Again" });
+    assert.equal(again.status, 409);
+  });
+
+  it("Should only let the batch's manufacturer recall it", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    await registerBatches(manufacturer, ["RCL-C-1"]);
+
+    const distributor = await signedInAs(server, "distributor");
+    const forbiddenRole = await distributor.request("POST", "/api/drug-batches/recall", { batchId: "RCL-C-1", reason: "Contamination" });
+    assert.equal(forbiddenRole.status, 403);
+    assert.equal((await forbiddenRole.json()).code, "forbidden_role");
+
+    const other = await signedInAs(server, "manufacturer");
+    const forbidden = await other.request("POST", "/api/drug-batches/recall", { batchId: "RCL-C-1", reason: "Contamination" });
+    assert.equal(forbidden.status, 403);
+    assert.equal((await forbidden.json()).code, "not_batch_manufacturer");
+
+    const invalid = await manufacturer.request("POST", "/api/drug-batches/recall", { batchId: "RCL-C-1", reason: "" });
+    assert.equal(invalid.status, 400);
+  });
+
+  it("Should recall every batch of a drug from the same manufacturer within a range", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const drugName = await registerBatches(manufacturer, ["RCL-D-1", "RCL-D-2", "RCL-D-3", "RCL-D-4"]);
+    const other = await signedInAs(server, "manufacturer");
+    await registerBatches(other, ["RCL-D-5"], drugName);
+
+    const request = { batchId: "RCL-D-1", reason: "Lot contamination", scope: "drug", fromBatchId: "RCL-D-2" };
+    const preview = await manufacturer.request("POST", "/api/drug-batches/recall/preview", request);
+    assert.deepEqual((await preview.json()).batches.map((b: { batchId: string }) => b.batchId), ["RCL-D-2", "RCL-D-3", "RCL-D-4"]);
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/recall", { ...request, toBatchId: "RCL-D-3" });
+    assert.deepEqual((await res.json()).drugBatches.map((b: { batchId: string }) => b.batchId), ["RCL-D-2", "RCL-D-3"]);
+
+    const statuses = await Promise.all(["RCL-D-1", "RCL-D-4", "RCL-D-5"].map(async (batchId) =>
+      (await (await manufacturer.request("GET", `/api/drug-batches/verify/${batchId}`)).json()).drug.status));
+    assert.deepEqual(statuses, ["manufactured", "manufactured", "manufactured"]);
+  });
+});
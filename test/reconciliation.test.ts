@@ -0,0 +1,168 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { MemStorage, storage as appStorage } from "../server/storage";
+import { reconcileDrugBatches, type ReconciliationChain } from "../server/reconciliation";
+import { startTestServer, createClient, type TestServer } from "./helpers";
+
+const contractAddress = ethers.Wallet.createRandom().address;
+const manufacturer = ethers.Wallet.createRandom().address;
+const distributor = ethers.Wallet.createRandom().address;
+const expiryDate = new Date("2030-01-01T00:00:00Z");
+
+interface OnChainToken {
+  owner: string;
+  isActive: boolean;
+  expiryDate: bigint;
+  historyLength: number;
+}
+
+// Stands in for a deployed DrugAuth; unknown tokens revert like the contract
+function fakeChain(tokens: Record<number, OnChainToken>): ReconciliationChain {
+  const token = async (tokenId: bigint) => {
+    const found = tokens[Number(tokenId)];
+    if (!found) throw new Error("ERC721NonexistentToken");
+    return found;
+  };
+
+  return {
+    ownerOf: async (tokenId) => (await token(tokenId)).owner,
+    verifyDrug: async (tokenId) => token(tokenId),
+    getDrugHistory: async (tokenId) => new Array((await token(tokenId)).historyLength).fill({}),
+  };
+}
+
+const matching = (): OnChainToken => ({
+  owner: manufacturer,
+  isActive: true,
+  expiryDate: BigInt(expiryDate.getTime() / 1000),
+  historyLength: 1,
+});
+
+describe("reconcileDrugBatches", () => {
+  let storage: MemStorage;
+
+  async function createBatch(batchId: string, tokenId: number | null) {
+    await storage.createDrugBatch({
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2024-01-01"),
+      expiryDate,
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer,
+      contractAddress,
+      tokenId,
+    });
+    await storage.createSupplyChainEvent({
+      batchId,
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "manufacture",
+      transactionHash: `0x${batchId}`,
+      blockNumber: 1,
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should report nothing when storage matches the chain", async () => {
+    await createBatch("BTC-1", 1);
+    await createBatch("OFF-CHAIN", null);
+    await storage.createSupplyChainEvent({
+      batchId: "BTC-1",
+      fromOwner: "PharmaCorp Ltd.",
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "expire",
+    });
+    // Recorded without a transaction, so it has no on-chain counterpart
+    await storage.createSupplyChainEvent({
+      batchId: "BTC-1",
+      fromOwner: "PharmaCorp Ltd.",
+      toOwner: "PharmaCorp Ltd.",
+      toOwnerAddress: manufacturer,
+      eventType: "verify",
+    });
+
+    const report = await reconcileDrugBatches(() => fakeChain({ 1: matching() }), {}, storage);
+    assert.equal(report.batchesChecked, 1);
+    assert.deepEqual(report.discrepancies, []);
+  });
+
+  it("Should report owner, active flag, expiry, history and missing tokens", async () => {
+    await createBatch("BTC-1", 1);
+    await createBatch("BTC-2", 2);
+    const chain = fakeChain({
+      1: { owner: distributor, isActive: false, expiryDate: BigInt(expiryDate.getTime() / 1000 + 86400), historyLength: 2 },
+    });
+
+    const report = await reconcileDrugBatches(() => chain, {}, storage);
+    const found = report.discrepancies
+      .map((d) => [d.batchId, d.field, d.chain])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    assert.deepEqual(found, [
+      ["BTC-1", "owner", distributor],
+      ["BTC-1", "isActive", false],
+      ["BTC-1", "expiryDate", "2030-01-02T00:00:00.000Z"],
+      ["BTC-1", "historyLength", 2],
+      ["BTC-2", "token", null],
+    ]);
+    assert.equal(report.repaired, 0);
+    assert.equal((await storage.getDrugBatchByBatchId("BTC-1"))?.currentOwnerAddress, manufacturer);
+  });
+
+  it("Should repair owner, active flag and expiry but not history", async () => {
+    await createBatch("BTC-1", 1);
+    await storage.createUser({ username: "meddist", password: "hash", walletAddress: distributor });
+    const chain = fakeChain({
+      1: { owner: distributor, isActive: false, expiryDate: BigInt(expiryDate.getTime() / 1000 + 86400), historyLength: 2 },
+    });
+
+    const report = await reconcileDrugBatches(() => chain, { repair: true }, storage);
+    assert.equal(report.repaired, 3);
+    assert.equal(report.discrepancies.find((d) => d.field === "historyLength")?.repaired, false);
+
+    const batch = await storage.getDrugBatchByBatchId("BTC-1");
+    assert.equal(batch?.currentOwnerAddress, distributor);
+    assert.equal(batch?.currentOwner, "meddist");
+    assert.equal(batch?.status, "deactivated");
+    assert.equal(batch?.expiryDate.toISOString(), "2030-01-02T00:00:00.000Z");
+
+    const again = await reconcileDrugBatches(() => chain, {}, storage);
+    assert.deepEqual(again.discrepancies.map((d) => d.field), ["historyLength"]);
+  });
+});
+
+describe("GET /api/admin/reconciliation", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should be limited to admins", async () => {
+    const request = createClient(server.baseUrl);
+    assert.equal((await request("GET", "/api/admin/reconciliation")).status, 401);
+
+    await request("POST", "/api/auth/register", { username: "recon-customer", password: "password123" });
+    const forbidden = await request("GET", "/api/admin/reconciliation");
+    assert.equal(forbidden.status, 403);
+    assert.equal((await forbidden.json()).code, "forbidden_role");
+  });
+
+  it("Should need an RPC provider", async () => {
+    const request = createClient(server.baseUrl);
+    const registered = await request("POST", "/api/auth/register", { username: "recon-admin", password: "password123" });
+    await appStorage.updateUser((await registered.json()).id, { role: "admin" });
+
+    assert.equal((await request("GET", "/api/admin/reconciliation")).status, 503);
+    assert.equal((await request("POST", "/api/admin/reconciliation")).status, 503);
+  });
+});
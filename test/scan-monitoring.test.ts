@@ -0,0 +1,185 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage, storage as appStorage } from "../server/storage";
+import { anonymizeIp, recordVerificationScan, type ScanRuleOptions } from "../server/scan-monitoring";
+import { startTestServer, createClient, signedInAs, type TestServer } from "./helpers";
+
+const HOUR_MS = 60 * 60 * 1000;
+const options: ScanRuleOptions = { impossibleTravelHours: 6, maxScansAfterDelivery: 2 };
+const start = new Date("2030-06-01T00:00:00Z");
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+describe("Scan anomaly rules", () => {
+  let storage: MemStorage;
+
+  async function createBatch(status = "in_transit") {
+    return storage.createDrugBatch({
+      batchId: "SCAN-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01"),
+      expiryDate: new Date("2032-01-01"),
+      currentOwner: "City Pharmacy",
+      currentOwnerAddress: Wallet.createRandom().address,
+      status,
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should anonymize client addresses", () => {
+    assert.equal(anonymizeIp("203.0.113.57"), "203.0.113.0");
+    assert.equal(anonymizeIp("::ffff:203.0.113.57"), "203.0.113.0");
+    assert.equal(anonymizeIp("2001:db8:85a3:8d3:1319:8a2e:370:7348"), "2001:db8:85a3::");
+    assert.equal(anonymizeIp(undefined), null);
+  });
+
+  it("Should record scans without raising alerts for normal use", async () => {
+    const batch = await createBatch();
+    const alerts = await recordVerificationScan(batch, { ip: "203.0.113.57", country: "de", userAgent: "Scanner/1.0" }, storage, options, at(0));
+    assert.deepEqual(alerts, []);
+
+    const [scan] = await storage.getScanEventsByBatchId("SCAN-1");
+    assert.equal(scan.country, "DE");
+    assert.equal(scan.networkPrefix, "203.0.113.0");
+    assert.equal(scan.userAgent, "Scanner/1.0");
+  });
+
+  it("Should flag scans in two countries within the travel window", async () => {
+    const batch = await createBatch();
+    await recordVerificationScan(batch, { country: "DE" }, storage, options, at(0));
+    assert.deepEqual(await recordVerificationScan(batch, { country: "DE" }, storage, options, at(1)), []);
+    assert.deepEqual(await recordVerificationScan(batch, { country: "BR" }, storage, options, at(10)), []);
+
+    const [alert] = await recordVerificationScan(batch, { country: "DE" }, storage, options, at(12));
+    assert.equal(alert.rule, "impossible_travel");
+    assert.match(alert.message, /BR and DE/);
+
+    const [repeat] = await recordVerificationScan(batch, { country: "BR" }, storage, options, at(13));
+    assert.equal(repeat.id, alert.id);
+    assert.equal(repeat.occurrences, 2);
+  });
+
+  it("Should flag excessive scans after delivery and scans after recall", async () => {
+    const batch = await createBatch("delivered");
+    await storage.createSupplyChainEvent({
+      batchId: "SCAN-1",
+      toOwner: "City Pharmacy",
+      toOwnerAddress: batch.currentOwnerAddress,
+      eventType: "deliver",
+      timestamp: at(0),
+    });
+
+    assert.deepEqual(await recordVerificationScan(batch, {}, storage, options, at(-1)), []);
+    await recordVerificationScan(batch, {}, storage, options, at(1));
+    await recordVerificationScan(batch, {}, storage, options, at(20));
+    const [excessive] = await recordVerificationScan(batch, {}, storage, options, at(40));
+    assert.equal(excessive.rule, "excessive_scans");
+
+    const recalled = await storage.updateDrugBatch(batch.id, { status: "recalled" });
+    const rules = (await recordVerificationScan(recalled, {}, storage, options, at(41))).map((alert) => alert.rule);
+    assert.deepEqual(rules.sort(), ["excessive_scans", "scan_after_recall"]);
+  });
+
+  it("Should count scans from a sale like those from a delivery", async () => {
+    const batch = await createBatch("dispensed");
+    await storage.createSupplyChainEvent({
+      batchId: "SCAN-1",
+      toOwner: "Patient",
+      toOwnerAddress: batch.currentOwnerAddress,
+      eventType: "sell",
+      timestamp: at(0),
+    });
+
+    await recordVerificationScan(batch, {}, storage, options, at(1));
+    assert.deepEqual(await recordVerificationScan(batch, {}, storage, options, at(20)), []);
+    const [excessive] = await recordVerificationScan(batch, {}, storage, options, at(40));
+    assert.equal(excessive.rule, "excessive_scans");
+  });
+});
+
+describe("Scan alerts API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should raise alerts from verification lookups and let the manufacturer resolve them", async () => {
+    const { request: manufacturer, wallet } = await signedInAs(server, "manufacturer");
+    await manufacturer("POST", "/api/drug-batches", {
+      batchId: "ALERT-1",
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * 24 * HOUR_MS).toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: wallet.address,
+    });
+    await manufacturer("POST", "/api/drug-batches/recall", { batchId: "ALERT-1", reason: "Contamination" });
+
+    const anonymous = createClient(server.baseUrl);
+    assert.equal((await anonymous("GET", "/api/drug-batches/verify/ALERT-1")).status, 200);
+
+    const alerts = await (await manufacturer("GET", "/api/scan-alerts")).json();
+    const alert = alerts.find((a: { batchId: string }) => a.batchId === "ALERT-1");
+    assert.equal(alert.rule, "scan_after_recall");
+
+    const resolved = await manufacturer("POST", `/api/scan-alerts/${alert.id}/resolve`);
+    assert.equal(resolved.status, 200);
+    assert.ok((await resolved.json()).resolvedAt);
+    assert.equal((await manufacturer("POST", `/api/scan-alerts/${alert.id}/resolve`)).status, 409);
+
+    const open = await (await manufacturer("GET", "/api/scan-alerts")).json();
+    assert.equal(open.some((a: { id: string }) => a.id === alert.id), false);
+
+    // Other manufacturers can't see it; admins can
+    const other = createClient(server.baseUrl);
+    const otherUser = await other("POST", "/api/auth/register", { username: `alerts-other-${wallet.address.slice(2, 10)}`, password: "password123" });
+    await appStorage.updateUser((await otherUser.json()).id, { role: "manufacturer" });
+    const hidden = await (await other("GET", "/api/scan-alerts?includeResolved=true")).json();
+    assert.equal(hidden.some((a: { id: string }) => a.id === alert.id), false);
+    assert.equal((await other("POST", `/api/scan-alerts/${alert.id}/resolve`)).status, 404);
+
+    const admin = createClient(server.baseUrl);
+    const registered = await admin("POST", "/api/auth/register", { username: `alerts-admin-${wallet.address.slice(2, 10)}`, password: "password123" });
+    await appStorage.updateUser((await registered.json()).id, { role: "admin" });
+    const all = await (await admin("GET", "/api/scan-alerts?includeResolved=true")).json();
+    assert.equal(all.some((a: { id: string }) => a.id === alert.id), true);
+
+    assert.equal((await anonymous("GET", "/api/scan-alerts")).status, 401);
+  });
+
+  it("Should page through a manufacturer's own alerts, not everyone's", async () => {
+    const { request: manufacturer, wallet } = await signedInAs(server, "manufacturer");
+    const own = await appStorage.createScanAlert({
+      batchId: "ALERT-OWN",
+      rule: "excessive_scans",
+      manufacturerAddress: wallet.address.toLowerCase(),
+      message: "Scanned 30 times since delivery",
+      lastDetectedAt: new Date(Date.now() - HOUR_MS),
+    });
+    // A full page of newer alerts on someone else's batches
+    const otherAddress = Wallet.createRandom().address;
+    for (let i = 0; i < 50; i++) {
+      await appStorage.createScanAlert({
+        batchId: `ALERT-OTHER-${i}`,
+        rule: "excessive_scans",
+        manufacturerAddress: otherAddress,
+        message: "Scanned 30 times since delivery",
+        lastDetectedAt: new Date(),
+      });
+    }
+
+    const alerts = await (await manufacturer("GET", "/api/scan-alerts")).json();
+    assert.deepEqual(alerts.map((a: { id: string }) => a.id), [own.id]);
+    assert.deepEqual(await (await manufacturer("GET", "/api/scan-alerts?page=2")).json(), []);
+  });
+});
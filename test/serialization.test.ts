@@ -0,0 +1,148 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { GS } from "@shared/gs1";
+import { startTestServer, createClient, signedInAs, type TestServer, type TestUser } from "./helpers";
+
+const expiryDate = new Date("2031-03-15T00:00:00Z");
+
+describe("Serialized units", () => {
+  let server: TestServer;
+
+  async function registerBatch(manufacturer: TestUser, batchId: string, unitCount?: number, gtin?: string) {
+    return manufacturer.request("POST", "/api/drug-batches", {
+      batchId,
+      gtin,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: expiryDate.toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.wallet.address,
+      unitCount,
+    });
+  }
+
+  // Scans from the network of `ip`, as the proxy in front of the server reports it
+  function verifyUnit(serialNumber: string, ip: string) {
+    return fetch(`${server.baseUrl}/api/drug-batches/verify-unit/${serialNumber}`, { headers: { "X-Forwarded-For": ip } });
+  }
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // Registers `batchId` with `unitCount` packs and returns their serial numbers
+  async function registerUnits(manufacturer: TestUser, batchId: string, unitCount: number, gtin?: string): Promise<string[]> {
+    const res = await registerBatch(manufacturer, batchId, unitCount, gtin);
+    assert.equal(res.status, 201);
+    return (await res.json()).serialRange.serialNumbers;
+  }
+
+  it("Should generate unguessable serial numbers at registration and on request", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const serialNumbers = await registerUnits(manufacturer, "SER-A", 3);
+    assert.equal(serialNumbers.length, 3);
+    for (const serialNumber of serialNumbers) {
+      assert.match(serialNumber, /^SER-A-[0-9A-HJ-NP-Z]{12}$/);
+    }
+
+    const more = await manufacturer.request("POST", "/api/drug-batches/units", { batchId: "SER-A", count: 2 });
+    assert.equal(more.status, 201);
+    const added = await more.json();
+    assert.equal(added.count, 2);
+    assert.equal(new Set([...serialNumbers, ...added.serialNumbers]).size, 5);
+
+    const { units, total } = await (await manufacturer.request("GET", "/api/drug-batches/units/SER-A")).json();
+    assert.equal(total, 5);
+    assert.deepEqual(units.map((unit: { serialNumber: string }) => unit.serialNumber), [...serialNumbers, ...added.serialNumbers].sort());
+  });
+
+  it("Should only list a batch's serial numbers to its holder, manufacturer or an admin", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const outsider = await signedInAs(server, "pharmacist");
+    const admin = await signedInAs(server, "admin");
+    await registerUnits(manufacturer, "SER-F", 2);
+
+    assert.equal((await createClient(server.baseUrl)("GET", "/api/drug-batches/units/SER-F")).status, 401);
+    const denied = await outsider.request("GET", "/api/drug-batches/units/SER-F");
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_batch_party");
+    assert.equal((await admin.request("GET", "/api/drug-batches/units/SER-F")).status, 200);
+    assert.equal((await manufacturer.request("GET", "/api/drug-batches/units/SER-MISSING")).status, 404);
+  });
+
+  it("Should reject out-of-range unit counts", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    assert.equal((await registerBatch(manufacturer, "SER-B", 0)).status, 400);
+    assert.equal((await registerBatch(manufacturer, "SER-B", 10001)).status, 400);
+
+    assert.equal((await registerBatch(manufacturer, "SER-B")).status, 201);
+    const res = await manufacturer.request("POST", "/api/drug-batches/units", { batchId: "SER-B", count: -1 });
+    assert.equal(res.status, 400);
+  });
+
+  it("Should only let the batch manufacturer add units", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const other = await signedInAs(server, "manufacturer");
+    await registerBatch(manufacturer, "SER-C");
+
+    const res = await other.request("POST", "/api/drug-batches/units", { batchId: "SER-C", count: 1 });
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).code, "not_batch_manufacturer");
+  });
+
+  it("Should report packs already scanned elsewhere", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const [serialNumber] = await registerUnits(manufacturer, "SER-D", 1);
+
+    const first = await (await verifyUnit(serialNumber, "203.0.113.7")).json();
+    assert.equal(first.drug.batchId, "SER-D");
+    assert.equal(first.alreadyScanned, false);
+    assert.equal(first.scannedElsewhere, false);
+
+    const again = await (await verifyUnit(serialNumber, "203.0.113.90")).json();
+    assert.equal(again.alreadyScanned, true);
+    assert.equal(again.scannedElsewhere, false);
+
+    // Naming the first network in the query string doesn't hide the move
+    const elsewhere = await (await fetch(`${server.baseUrl}/api/drug-batches/verify-unit/${serialNumber}?location=203.0.113.0`, {
+      headers: { "X-Forwarded-For": "198.51.100.4" },
+    })).json();
+    assert.equal(elsewhere.scannedElsewhere, true);
+    assert.equal(elsewhere.previousScan.location, "203.0.113.0");
+    assert.equal(elsewhere.unit.lastScanLocation, "198.51.100.0");
+    assert.equal(elsewhere.unit.scanCount, 3);
+
+    assert.equal((await verifyUnit("SER-D-000002", "203.0.113.7")).status, 404);
+  });
+
+  it("Should resolve GS1 codes to the batch and pack", async () => {
+    const gtin = "09506000134352";
+    const manufacturer = await signedInAs(server, "manufacturer");
+    assert.equal((await registerBatch(manufacturer, "SER-E", 2, "09506000134353")).status, 400);
+    const [first, second] = await registerUnits(manufacturer, "SER-E", 2, gtin);
+
+    const resolve = (code: string) =>
+      createClient(server.baseUrl)("GET", `/api/drug-batches/resolve-gs1?code=${encodeURIComponent(code)}`);
+
+    const res = await resolve(`]d201${gtin}1731031510SER-E${GS}21${second.slice("SER-E-".length)}`);
+    assert.equal(res.status, 200);
+    const resolved = await res.json();
+    assert.equal(resolved.batchId, "SER-E");
+    assert.equal(resolved.serialNumber, second);
+    assert.equal(resolved.expiryMatches, true);
+
+    const link = await (await resolve(`https://id.gs1.org/01/${gtin}/10/SER-E/21/${first}?17=310316`)).json();
+    assert.equal(link.serialNumber, first);
+    assert.equal(link.expiryMatches, false);
+
+    assert.equal((await resolve(`(01)${gtin}(10)SER-E(21)000009`)).status, 404);
+    assert.equal((await resolve(`(01)00000000000000(10)SER-E`)).status, 404);
+    assert.equal((await resolve(`(01)${gtin}`)).status, 404);
+    assert.equal((await resolve("not a code")).status, 400);
+  });
+});
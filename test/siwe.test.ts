@@ -0,0 +1,117 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { SiweMessage } from "siwe";
+import { storage as appStorage } from "../server/storage";
+import { startTestServer, createClient, signInWithWallet, type TestServer } from "./helpers";
+
+describe("Sign-In with Ethereum", () => {
+  let server: TestServer;
+  let domain: string;
+
+  before(async () => {
+    server = await startTestServer();
+    domain = new URL(server.baseUrl).host;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should create a wallet account and session from a valid signature", async () => {
+    const wallet = Wallet.createRandom();
+    const request = createClient(server.baseUrl);
+
+    const res = await signInWithWallet(request, wallet, domain);
+    assert.equal(res.status, 200);
+    const user = await res.json();
+    assert.equal(user.walletAddress, wallet.address);
+    assert.equal(user.role, "customer");
+
+    const me = await (await request("GET", "/api/auth/me")).json();
+    assert.equal(me.id, user.id);
+
+    // Signing in again with the same wallet reuses the account
+    const again = await (await signInWithWallet(createClient(server.baseUrl), wallet, domain)).json();
+    assert.equal(again.id, user.id);
+  });
+
+  it("Should link the wallet to an already signed-in account", async () => {
+    const wallet = Wallet.createRandom();
+    const request = createClient(server.baseUrl);
+    const registered = await (await request("POST", "/api/auth/register", {
+      username: "siwe-manufacturer",
+      password: "password123",
+    })).json();
+    await appStorage.updateUser(registered.id, { role: "manufacturer" });
+
+    const linked = await (await signInWithWallet(request, wallet, domain)).json();
+    assert.equal(linked.id, registered.id);
+    assert.equal(linked.walletAddress, wallet.address);
+    assert.equal(linked.role, "manufacturer");
+  });
+
+  it("Should refuse to link a wallet owned by another account", async () => {
+    const wallet = Wallet.createRandom();
+    await signInWithWallet(createClient(server.baseUrl), wallet, domain);
+
+    const request = createClient(server.baseUrl);
+    await request("POST", "/api/auth/register", { username: "siwe-other", password: "password123" });
+    assert.equal((await signInWithWallet(request, wallet, domain)).status, 409);
+  });
+
+  it("Should refuse to link a second wallet to an account", async () => {
+    const wallet = Wallet.createRandom();
+    const request = createClient(server.baseUrl);
+    await signInWithWallet(request, wallet, domain);
+
+    const relinked = await signInWithWallet(request, Wallet.createRandom(), domain);
+    assert.equal(relinked.status, 409);
+    assert.equal((await relinked.json()).details.walletAddress, wallet.address);
+    assert.equal((await (await request("GET", "/api/auth/me")).json()).walletAddress, wallet.address);
+  });
+
+  it("Should keep wallet-shaped usernames for the wallet's own account", async () => {
+    const wallet = Wallet.createRandom();
+    const squatter = await createClient(server.baseUrl)("POST", "/api/auth/register", {
+      username: wallet.address.toLowerCase(),
+      password: "password123",
+    });
+    assert.equal(squatter.status, 400);
+
+    const res = await signInWithWallet(createClient(server.baseUrl), wallet, domain);
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).username, wallet.address);
+  });
+
+  it("Should reject forged signatures, foreign domains and reused nonces", async () => {
+    const wallet = Wallet.createRandom();
+    const request = createClient(server.baseUrl);
+
+    const { nonce } = await (await request("GET", "/api/auth/siwe/nonce")).json();
+    const message = new SiweMessage({
+      domain,
+      address: wallet.address,
+      uri: `http://${domain}`,
+      version: "1",
+      chainId: 5,
+      nonce,
+    }).prepareMessage();
+    const forged = await request("POST", "/api/auth/siwe/verify", {
+      message,
+      signature: await Wallet.createRandom().signMessage(message),
+    });
+    assert.equal(forged.status, 401);
+
+    // The failed attempt consumed the nonce
+    const replay = await request("POST", "/api/auth/siwe/verify", {
+      message,
+      signature: await wallet.signMessage(message),
+    });
+    assert.equal(replay.status, 422);
+
+    assert.equal((await signInWithWallet(request, wallet, "evil.example")).status, 401);
+    assert.equal((await signInWithWallet(request, wallet, domain, "staleNonce123")).status, 401);
+    assert.equal((await request("GET", "/api/auth/me")).status, 401);
+  });
+});
@@ -0,0 +1,642 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "node:module";
+import * as schema from "@shared/schema";
+import { MemStorage, DbStorage, type IStorage } from "../server/storage";
+
+// drizzle-kit's ESM build can't load its own CommonJS dependencies
+const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const drugData = {
+  batchId: "BTC-2024-001",
+  drugName: "Paracetamol 500mg",
+  manufacturer: "PharmaCorp Ltd.",
+  manufacturingDate: new Date("2024-01-01"),
+  expiryDate: new Date("2026-01-01"),
+  currentOwner: "PharmaCorp Ltd.",
+  currentOwnerAddress: "0xAbC0000000000000000000000000000000000001",
+  status: "manufactured",
+};
+
+async function createDbStorage(): Promise<IStorage> {
+  const db = drizzle(new PGlite(), { schema });
+  const { apply } = await pushSchema(schema, db);
+  await apply();
+  return new DbStorage(db);
+}
+
+// Every IStorage implementation must pass the same contract
+function storageContract(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    describe("Users", () => {
+      it("Should create and look up users", async () => {
+        const user = await storage.createUser({ username: "alice", password: "hash" });
+
+        assert.equal(user.role, "customer");
+        assert.deepEqual(await storage.getUser(user.id), user);
+        assert.deepEqual(await storage.getUserByUsername("alice"), user);
+        assert.equal(await storage.getUserByUsername("bob"), undefined);
+      });
+
+      it("Should link and look up wallet addresses case-insensitively", async () => {
+        const user = await storage.createUser({ username: "alice", password: "hash" });
+        assert.equal(user.walletAddress, null);
+
+        const linked = await storage.updateUser(user.id, { walletAddress: drugData.currentOwnerAddress });
+        assert.equal(linked.walletAddress, drugData.currentOwnerAddress);
+        assert.equal(
+          (await storage.getUserByWalletAddress(drugData.currentOwnerAddress.toLowerCase()))?.id,
+          user.id,
+        );
+        assert.equal(await storage.getUserByWalletAddress("0x0"), undefined);
+      });
+    });
+
+    describe("Drug Batches", () => {
+      it("Should create a drug batch with defaults", async () => {
+        const batch = await storage.createDrugBatch({ ...drugData, status: undefined });
+
+        assert.equal(batch.status, "manufactured");
+        assert.equal(batch.quantity, null);
+        assert.equal(batch.unit, "pack");
+        assert.equal(batch.dosageForm, null);
+        assert.ok(batch.createdAt instanceof Date);
+        assert.deepEqual(await storage.getDrugBatchById(batch.id), batch);
+        assert.deepEqual(await storage.getDrugBatchByBatchId(drugData.batchId), batch);
+      });
+
+      it("Should list batches newest first with paging", async () => {
+        for (const batchId of ["BTC-1", "BTC-2", "BTC-3"]) {
+          await storage.createDrugBatch({ ...drugData, batchId });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+
+        const firstPage = await storage.getDrugBatches(2, 0);
+        assert.deepEqual(firstPage.map((b) => b.batchId), ["BTC-3", "BTC-2"]);
+
+        const secondPage = await storage.getDrugBatches(2, 2);
+        assert.deepEqual(secondPage.map((b) => b.batchId), ["BTC-1"]);
+      });
+
+      it("Should match owner addresses case-insensitively", async () => {
+        await storage.createDrugBatch(drugData);
+
+        const owned = await storage.getDrugBatchesByOwner(drugData.currentOwnerAddress.toLowerCase());
+        assert.equal(owned.length, 1);
+        assert.equal((await storage.getDrugBatchesByOwner("0x0")).length, 0);
+      });
+
+      it("Should update a drug batch", async () => {
+        const batch = await storage.createDrugBatch(drugData);
+        const updated = await storage.updateDrugBatch(batch.id, {
+          currentOwner: "Central Distributor",
+          status: "in_transit",
+        });
+
+        assert.equal(updated.currentOwner, "Central Distributor");
+        assert.equal(updated.status, "in_transit");
+        assert.equal((await storage.getDrugBatchById(batch.id))?.status, "in_transit");
+      });
+
+      it("Should look up and delete batches by token id", async () => {
+        const batch = await storage.createDrugBatch({ ...drugData, tokenId: 7 });
+
+        assert.equal((await storage.getDrugBatchByTokenId(7))?.id, batch.id);
+        assert.equal(await storage.getDrugBatchByTokenId(8), undefined);
+
+        await storage.deleteDrugBatch(batch.id);
+        assert.equal(await storage.getDrugBatchByBatchId(drugData.batchId), undefined);
+      });
+
+      it("Should list unexpired batches expiring before a date, soonest first", async () => {
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-1", expiryDate: new Date("2030-03-01") });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-2", expiryDate: new Date("2030-01-01") });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-3", expiryDate: new Date("2031-01-01") });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-4", expiryDate: new Date("2029-01-01"), status: "expired" });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-5", expiryDate: new Date("2029-01-01"), status: "recalled" });
+
+        const expiring = await storage.getDrugBatchesExpiringBefore(new Date("2030-06-01"));
+        assert.deepEqual(expiring.map((b) => b.batchId), ["BTC-2", "BTC-1"]);
+      });
+
+      it("Should never let a batch's quantity go negative", async () => {
+        await assert.rejects(storage.createDrugBatch({ ...drugData, quantity: -1 }));
+
+        const batch = await storage.createDrugBatch({ ...drugData, quantity: 10, unit: "box", strength: "500 mg", dosageForm: "tablet" });
+        await assert.rejects(storage.updateDrugBatch(batch.id, { quantity: -5 }));
+        assert.equal((await storage.getDrugBatchById(batch.id))?.quantity, 10);
+        assert.equal((await storage.updateDrugBatch(batch.id, { quantity: 0 })).quantity, 0);
+      });
+
+      it("Should fail to update a missing batch", async () => {
+        await assert.rejects(
+          storage.updateDrugBatch("00000000-0000-0000-0000-000000000000", { status: "delivered" }),
+          /Drug batch not found/,
+        );
+      });
+    });
+
+    describe("Supply Chain Events", () => {
+      it("Should return events for a batch in chronological order", async () => {
+        await storage.createSupplyChainEvent({
+          batchId: drugData.batchId,
+          toOwner: drugData.currentOwner,
+          toOwnerAddress: drugData.currentOwnerAddress,
+          eventType: "manufacture",
+        });
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await storage.createSupplyChainEvent({
+          batchId: drugData.batchId,
+          fromOwner: drugData.currentOwner,
+          fromOwnerAddress: drugData.currentOwnerAddress,
+          toOwner: "Central Distributor",
+          toOwnerAddress: "0xAbC0000000000000000000000000000000000002",
+          eventType: "transfer",
+          facilityId: "DC-7",
+          latitude: 48.8566,
+          longitude: 2.3522,
+          country: "FR",
+          transactionHash: "0xabc",
+        });
+
+        const events = await storage.getSupplyChainEventsByBatchId(drugData.batchId);
+        assert.deepEqual(events.map((e) => e.eventType), ["manufacture", "transfer"]);
+        assert.equal(events[0].fromOwner, null);
+        assert.equal(events[0].transactionHash, null);
+        assert.equal(events[1].transactionHash, "0xabc");
+        assert.deepEqual([events[0].facilityId, events[0].latitude, events[0].country], [null, null, null]);
+        assert.deepEqual([events[1].facilityId, events[1].latitude, events[1].longitude, events[1].country], ["DC-7", 48.8566, 2.3522, "FR"]);
+        assert.equal((await storage.getSupplyChainEventsByBatchId("OTHER")).length, 0);
+      });
+
+      it("Should find, update and roll back events by block", async () => {
+        const base = {
+          batchId: drugData.batchId,
+          toOwner: drugData.currentOwner,
+          toOwnerAddress: drugData.currentOwnerAddress,
+          eventType: "transfer",
+        };
+        const early = await storage.createSupplyChainEvent({ ...base, transactionHash: "0xAAA", blockNumber: 10 });
+        const late = await storage.createSupplyChainEvent({ ...base, transactionHash: "0xbbb", blockNumber: 20 });
+        await storage.createSupplyChainEvent({ ...base, eventType: "manufacture" });
+
+        assert.equal((await storage.getSupplyChainEventByTransactionHash(drugData.batchId, "0xaaa"))?.id, early.id);
+        assert.equal(await storage.getSupplyChainEventByTransactionHash("OTHER", "0xaaa"), undefined);
+
+        const updated = await storage.updateSupplyChainEvent(early.id, { blockNumber: 11 });
+        assert.equal(updated.blockNumber, 11);
+
+        const removed = await storage.deleteSupplyChainEventsAfterBlock(15);
+        assert.deepEqual(removed.map((e) => e.id), [late.id]);
+        assert.equal((await storage.getSupplyChainEventsByBatchId(drugData.batchId)).length, 2);
+      });
+
+      it("Should filter events by batch and time range", async () => {
+        const base = {
+          toOwner: drugData.currentOwner,
+          toOwnerAddress: drugData.currentOwnerAddress,
+          eventType: "transfer",
+        };
+        await storage.createSupplyChainEvent({ ...base, batchId: "BTC-1", timestamp: new Date("2030-01-03") });
+        await storage.createSupplyChainEvent({ ...base, batchId: "BTC-1", timestamp: new Date("2030-01-01") });
+        await storage.createSupplyChainEvent({ ...base, batchId: "BTC-2", timestamp: new Date("2030-01-02") });
+
+        const all = await storage.getSupplyChainEvents({});
+        assert.deepEqual(all.map((e) => e.batchId), ["BTC-1", "BTC-2", "BTC-1"]);
+        assert.equal((await storage.getSupplyChainEvents({ batchId: "BTC-1" })).length, 2);
+
+        const range = await storage.getSupplyChainEvents({ from: new Date("2030-01-02"), to: new Date("2030-01-03") });
+        assert.deepEqual(range.map((e) => e.batchId), ["BTC-2", "BTC-1"]);
+      });
+    });
+
+    describe("Imported Events", () => {
+      it("Should list a batch's imported events oldest first, apart from its history", async () => {
+        const imported = (eventType: string, timestamp: Date) => storage.createImportedEvent({
+          batchId: "BTC-1",
+          toOwner: "Corner Pharmacy",
+          toOwnerAddress: "urn:epc:id:pgln:9506000.00001",
+          eventType,
+          timestamp,
+          importedBy: "user-1",
+        });
+        const later = await imported("deliver", new Date("2030-01-02"));
+        const earlier = await imported("transfer", new Date("2030-01-01"));
+
+        assert.equal(earlier.fromOwnerAddress, null);
+        assert.ok(earlier.importedAt instanceof Date);
+        assert.deepEqual((await storage.getImportedEventsByBatchId("BTC-1")).map((e) => e.id), [earlier.id, later.id]);
+        assert.deepEqual(await storage.getSupplyChainEventsByBatchId("BTC-1"), []);
+      });
+    });
+
+    describe("Serialized Units", () => {
+      it("Should create and list units by batch in serial order", async () => {
+        await storage.createSerializedUnits([
+          { batchId: "BTC-1", serialNumber: "BTC-1-000002" },
+          { batchId: "BTC-1", serialNumber: "BTC-1-000001" },
+          { batchId: "BTC-2", serialNumber: "BTC-2-000001" },
+        ]);
+
+        const units = await storage.getSerializedUnitsByBatchId("BTC-1");
+        assert.deepEqual(units.map((u) => u.serialNumber), ["BTC-1-000001", "BTC-1-000002"]);
+        assert.equal(units[0].scanCount, 0);
+        assert.equal((await storage.getSerializedUnitsByBatchId("BTC-1", 1, 1))[0].serialNumber, "BTC-1-000002");
+        assert.equal(await storage.countSerializedUnits("BTC-1"), 2);
+        assert.equal((await storage.getSerializedUnit("BTC-2-000001"))?.batchId, "BTC-2");
+        assert.equal(await storage.getSerializedUnit("BTC-3-000001"), undefined);
+      });
+
+      it("Should add no units when one of them can't be created", async () => {
+        await storage.createSerializedUnits([{ batchId: "BTC-1", serialNumber: "BTC-1-001500" }]);
+        // More than one insert chunk, failing in the second
+        const units = Array.from({ length: 1500 }, (_, i) => ({ batchId: "BTC-1", serialNumber: `BTC-1-${String(i + 1).padStart(6, "0")}` }));
+
+        await assert.rejects(storage.createSerializedUnits(units));
+        assert.equal(await storage.countSerializedUnits("BTC-1"), 1);
+      });
+
+      it("Should keep the first scan while counting later ones", async () => {
+        const [unit] = await storage.createSerializedUnits([{ batchId: "BTC-1", serialNumber: "BTC-1-000001" }]);
+        const first = new Date("2030-01-01T00:00:00Z");
+        const second = new Date("2030-01-02T00:00:00Z");
+
+        await storage.recordSerializedUnitScan(unit.id, "Pharmacy A", first);
+        const scanned = await storage.recordSerializedUnitScan(unit.id, "Pharmacy B", second);
+
+        assert.equal(scanned.scanCount, 2);
+        assert.equal(scanned.firstScannedAt?.getTime(), first.getTime());
+        assert.equal(scanned.firstScanLocation, "Pharmacy A");
+        assert.equal(scanned.lastScannedAt?.getTime(), second.getTime());
+        assert.equal(scanned.lastScanLocation, "Pharmacy B");
+      });
+    });
+
+    describe("Scan Monitoring", () => {
+      it("Should list a batch's scans oldest first, optionally since a time", async () => {
+        await storage.createScanEvent({ batchId: "BTC-1", country: "DE", scannedAt: new Date("2030-01-02") });
+        await storage.createScanEvent({ batchId: "BTC-1", networkPrefix: "203.0.113.0", scannedAt: new Date("2030-01-01") });
+        await storage.createScanEvent({ batchId: "BTC-2", scannedAt: new Date("2030-01-03") });
+
+        const scans = await storage.getScanEventsByBatchId("BTC-1");
+        assert.deepEqual(scans.map((scan) => scan.networkPrefix), ["203.0.113.0", null]);
+        assert.equal((await storage.getScanEventsByBatchId("BTC-1", new Date("2030-01-02")))[0].country, "DE");
+      });
+
+      it("Should find, update and list open alerts", async () => {
+        const older = await storage.createScanAlert({
+          batchId: "BTC-1",
+          rule: "scan_after_recall",
+          manufacturerAddress: "0xAbC0000000000000000000000000000000000001",
+          message: "Scanned after the batch was recalled",
+          lastDetectedAt: new Date("2030-01-01"),
+        });
+        const newer = await storage.createScanAlert({
+          batchId: "BTC-2",
+          rule: "excessive_scans",
+          message: "Scanned 30 times since delivery",
+          lastDetectedAt: new Date("2030-01-02"),
+        });
+
+        assert.equal(older.occurrences, 1);
+        assert.equal((await storage.getOpenScanAlert("BTC-1", "scan_after_recall"))?.id, older.id);
+        assert.equal(await storage.getOpenScanAlert("BTC-1", "excessive_scans"), undefined);
+        assert.deepEqual((await storage.getScanAlerts()).map((alert) => alert.id), [newer.id, older.id]);
+        assert.equal(newer.manufacturerAddress, null);
+        const mine = await storage.getScanAlerts(false, 50, 0, "0xabc0000000000000000000000000000000000001");
+        assert.deepEqual(mine.map((alert) => alert.id), [older.id]);
+
+        await storage.updateScanAlert(older.id, { resolvedAt: new Date() });
+        assert.equal(await storage.getOpenScanAlert("BTC-1", "scan_after_recall"), undefined);
+        assert.deepEqual((await storage.getScanAlerts()).map((alert) => alert.id), [newer.id]);
+        assert.equal((await storage.getScanAlerts(true)).length, 2);
+        assert.ok((await storage.getScanAlertById(older.id))?.resolvedAt);
+      });
+    });
+
+    describe("Transaction Documents", () => {
+      it("Should store a T3 document per event and record its CID", async () => {
+        const document = { documentType: "DSCSA-T3", batchId: "BTC-1", eventId: "event-1" } as schema.T3Document;
+        const created = await storage.createTransactionDocument({ eventId: "event-1", batchId: "BTC-1", document });
+        assert.equal(created.ipfsHash, null);
+
+        const found = await storage.getTransactionDocumentByEventId("event-1");
+        assert.deepEqual(found?.document, document);
+        assert.equal(await storage.getTransactionDocumentByEventId("event-2"), undefined);
+        await assert.rejects(storage.createTransactionDocument({ eventId: "event-1", batchId: "BTC-1", document }));
+
+        const pinned = await storage.updateTransactionDocument(created.id, { ipfsHash: "QmT3" });
+        assert.equal(pinned.ipfsHash, "QmT3");
+      });
+    });
+
+    describe("Transfers", () => {
+      const transfer = (batchId: string, deadline: Date) => ({
+        batchId,
+        fromOwner: "PharmaCorp Ltd.",
+        fromOwnerAddress: "0xAbC0000000000000000000000000000000000001",
+        toOwner: "MedDistribute Inc.",
+        toOwnerAddress: "0xAbC0000000000000000000000000000000000002",
+        eventType: "transfer",
+        previousStatus: "manufactured",
+        deadline,
+      });
+
+      it("Should keep one pending transfer per batch and list them by party", async () => {
+        const created = await storage.createTransfer(transfer("BTC-1", new Date("2030-01-15")));
+        assert.equal(created.status, "pending");
+        assert.equal(created.rejectionReason, null);
+        assert.equal((await storage.getPendingTransferByBatchId("BTC-1"))?.id, created.id);
+        assert.equal(await storage.createTransfer(transfer("BTC-1", new Date("2030-01-15"))), undefined);
+
+        const incoming = await storage.getTransfersByAddress("0xabc0000000000000000000000000000000000002", "incoming");
+        assert.deepEqual(incoming.map((t) => t.id), [created.id]);
+        assert.equal((await storage.getTransfersByAddress("0xabc0000000000000000000000000000000000002", "outgoing")).length, 0);
+
+        const rejected = await storage.updateTransfer(created.id, { status: "rejected", rejectionReason: "Damaged", resolvedAt: new Date() });
+        assert.equal(rejected.rejectionReason, "Damaged");
+        assert.equal(await storage.getPendingTransferByBatchId("BTC-1"), undefined);
+        assert.equal((await storage.getTransfersByAddress(created.fromOwnerAddress, "outgoing", "pending")).length, 0);
+        assert.equal((await storage.getTransfersByAddress(created.fromOwnerAddress, "outgoing", "rejected")).length, 1);
+        await assert.rejects(storage.updateTransfer("missing", { status: "accepted" }));
+      });
+
+      it("Should resolve a transfer only while it is pending", async () => {
+        const created = (await storage.createTransfer(transfer("BTC-1", new Date("2030-01-15"))))!;
+
+        const [accepted, rejected] = await Promise.all([
+          storage.resolveTransfer(created.id, { status: "accepted", resolvedAt: new Date() }),
+          storage.resolveTransfer(created.id, { status: "rejected", rejectionReason: "Damaged", resolvedAt: new Date() }),
+        ]);
+        assert.equal(accepted?.status, "accepted");
+        assert.equal(rejected, undefined);
+        assert.equal((await storage.getTransferById(created.id))?.status, "accepted");
+        assert.equal(await storage.resolveTransfer("missing", { status: "accepted" }), undefined);
+      });
+
+      it("Should find pending transfers past their deadline", async () => {
+        const late = await storage.createTransfer(transfer("BTC-1", new Date("2030-01-10")));
+        await storage.createTransfer(transfer("BTC-2", new Date("2030-01-20")));
+        const resolved = await storage.createTransfer(transfer("BTC-3", new Date("2030-01-05")));
+        await storage.updateTransfer(resolved.id, { status: "accepted" });
+
+        const due = await storage.getPendingTransfersDueBefore(new Date("2030-01-15"));
+        assert.deepEqual(due.map((t) => t.id), [late.id]);
+      });
+
+      it("Should roll back transfers initiated or resolved after a block", async () => {
+        const deadline = new Date("2030-01-15");
+        const kept = await storage.createTransfer({ ...transfer("BTC-1", deadline), blockNumber: 10 });
+        await storage.updateTransfer(kept.id, {
+          status: "rejected",
+          rejectionReason: "Damaged",
+          resolutionTransactionHash: "0xreject",
+          resolutionBlockNumber: 20,
+          resolvedAt: new Date(),
+        });
+        const orphaned = await storage.createTransfer({ ...transfer("BTC-2", deadline), blockNumber: 20 });
+        await storage.createTransfer(transfer("BTC-3", deadline));
+
+        assert.deepEqual((await storage.deleteTransfersAfterBlock(15)).map((t) => t.id), [orphaned.id]);
+        assert.equal(await storage.getTransferById(orphaned.id), undefined);
+
+        const [reopened] = await storage.reopenTransfersResolvedAfterBlock(15);
+        assert.equal(reopened.id, kept.id);
+        assert.equal(reopened.status, "pending");
+        assert.equal(reopened.rejectionReason, null);
+        assert.equal(reopened.resolutionTransactionHash, null);
+        assert.equal(reopened.resolvedAt, null);
+        assert.equal((await storage.getPendingTransferByBatchId("BTC-1"))?.id, kept.id);
+        assert.deepEqual(await storage.reopenTransfersResolvedAfterBlock(15), []);
+      });
+    });
+
+    describe("Lot Lineage", () => {
+      it("Should list a lot's parents and children oldest first", async () => {
+        const edge = (parentBatchId: string, childBatchId: string, day: number) => ({
+          parentBatchId,
+          childBatchId,
+          quantity: 100,
+          operation: "split" as const,
+          createdAt: new Date(Date.UTC(2030, 0, day)),
+        });
+        const second = await storage.createBatchLineage(edge("BTC-1", "BTC-1-B", 2));
+        const first = await storage.createBatchLineage(edge("BTC-1", "BTC-1-A", 1));
+        await storage.createBatchLineage({ ...edge("BTC-1-A", "BTC-M", 3), operation: "merge" });
+        await storage.createBatchLineage({ ...edge("BTC-2", "BTC-M", 3), operation: "merge" });
+
+        assert.equal(first.transactionHash, null);
+        assert.deepEqual((await storage.getBatchLineageByParent("BTC-1")).map((e) => e.id), [first.id, second.id]);
+        assert.deepEqual((await storage.getBatchLineageByChild("BTC-M")).map((e) => e.parentBatchId).sort(), ["BTC-1-A", "BTC-2"]);
+        assert.deepEqual(await storage.getBatchLineageByChild("BTC-1"), []);
+      });
+
+      it("Should roll back edges recorded after a block, most recent first", async () => {
+        const edge = (childBatchId: string, blockNumber: number | null, day: number) => ({
+          parentBatchId: "BTC-1",
+          childBatchId,
+          quantity: 100,
+          operation: "split" as const,
+          previousStatus: "received",
+          blockNumber,
+          createdAt: new Date(Date.UTC(2030, 0, day)),
+        });
+        await storage.createBatchLineage(edge("BTC-1-A", 10, 1));
+        await storage.createBatchLineage(edge("BTC-1-B", 20, 2));
+        await storage.createBatchLineage(edge("BTC-1-C", 30, 3));
+        await storage.createBatchLineage(edge("BTC-1-D", null, 4));
+
+        const removed = await storage.deleteBatchLineageAfterBlock(15);
+        assert.deepEqual(removed.map((e) => e.childBatchId), ["BTC-1-C", "BTC-1-B"]);
+        assert.equal(removed[0].previousStatus, "received");
+        assert.deepEqual((await storage.getBatchLineageByParent("BTC-1")).map((e) => e.childBatchId), ["BTC-1-A", "BTC-1-D"]);
+      });
+    });
+
+    describe("Transactions", () => {
+      it("Should keep every write of a transaction or none of them", async () => {
+        const kept = await storage.transaction(async (tx) => {
+          const batch = await tx.createDrugBatch(drugData);
+          return tx.updateDrugBatch(batch.id, { quantity: 10 });
+        });
+        assert.equal((await storage.getDrugBatchByBatchId(drugData.batchId))?.quantity, 10);
+
+        await assert.rejects(storage.transaction(async (tx) => {
+          await tx.updateDrugBatch(kept.id, { quantity: 0 });
+          await tx.createSupplyChainEvent({ batchId: drugData.batchId, toOwner: "PharmaCorp Ltd.", toOwnerAddress: drugData.currentOwnerAddress, eventType: "split" });
+          throw new Error("Not enough quantity");
+        }), /Not enough quantity/);
+        assert.equal((await storage.getDrugBatchByBatchId(drugData.batchId))?.quantity, 10);
+        assert.deepEqual(await storage.getSupplyChainEventsByBatchId(drugData.batchId), []);
+      });
+    });
+
+    describe("Cold Chain", () => {
+      it("Should save and overwrite a drug's storage conditions", async () => {
+        assert.equal(await storage.getStorageCondition("Insulin"), undefined);
+
+        const first = await storage.saveStorageCondition({ drugName: "Insulin", minTemperature: 2, maxTemperature: 8 });
+        await storage.saveStorageCondition({ drugName: "Amoxicillin", minTemperature: 15, maxTemperature: 25, maxHumidity: 60 });
+        const saved = await storage.saveStorageCondition({ drugName: "Insulin", minTemperature: 2, maxTemperature: 6 });
+
+        assert.equal(saved.id, first.id);
+        assert.equal(saved.maxTemperature, 6);
+        assert.equal(saved.maxHumidity, null);
+        assert.deepEqual((await storage.getStorageConditions()).map((c) => c.drugName), ["Amoxicillin", "Insulin"]);
+      });
+
+      it("Should list readings oldest first and excursions most recent first", async () => {
+        const at = (hour: number) => new Date(Date.UTC(2030, 0, 1, hour));
+        const reading = (hour: number, temperature: number) => ({
+          batchId: "BTC-1",
+          deviceId: "logger-1",
+          temperature,
+          recordedAt: at(hour),
+        });
+        const [late, early] = await storage.createTelemetryReadings([reading(3, 5.5), reading(1, 4)]);
+        await storage.createTelemetryReadings([{ ...reading(2, 9), batchId: "BTC-2" }]);
+
+        assert.equal(early.humidity, null);
+        assert.equal(early.excursion, false);
+        assert.deepEqual((await storage.getTelemetryReadingsByBatchId("BTC-1")).map((r) => r.id), [early.id, late.id]);
+        assert.deepEqual((await storage.getTelemetryReadingsByBatchId("BTC-1", at(2))).map((r) => r.id), [late.id]);
+
+        const excursion = (hour: number) => ({
+          batchId: "BTC-1",
+          deviceId: "logger-1",
+          kind: "temperature_high" as const,
+          threshold: 8,
+          peakValue: 9,
+          startedAt: at(hour),
+          lastReadingAt: at(hour),
+        });
+        const older = await storage.createExcursion(excursion(1));
+        assert.equal(older.readingCount, 1);
+        assert.equal((await storage.getOpenExcursion("BTC-1", "temperature_high"))?.id, older.id);
+
+        await storage.updateExcursion(older.id, { endedAt: at(2) });
+        assert.equal(await storage.getOpenExcursion("BTC-1", "temperature_high"), undefined);
+        const newer = await storage.createExcursion(excursion(3));
+        assert.deepEqual((await storage.getExcursionsByBatchId("BTC-1")).map((e) => e.id), [newer.id, older.id]);
+        await assert.rejects(storage.updateExcursion("missing", { readingCount: 2 }), /Excursion not found/);
+      });
+    });
+
+    describe("Trading Partners", () => {
+      it("Should register, find, update and remove partners", async () => {
+        const partner = await storage.createTradingPartner({
+          legalName: "MedDistributor GmbH",
+          role: "distributor",
+          gln: "4000001000005",
+          walletAddresses: ["0xabc0000000000000000000000000000000000002"],
+          createdBy: "user-1",
+        });
+        await storage.createTradingPartner({ legalName: "Corner Pharmacy", role: "pharmacist", walletAddresses: ["0xabc0000000000000000000000000000000000003"] });
+
+        assert.equal(partner.verificationStatus, "pending");
+        assert.deepEqual(partner.facilities, []);
+        assert.equal((await storage.getTradingPartnerByWalletAddress("0xABC0000000000000000000000000000000000002"))?.id, partner.id);
+        assert.equal(await storage.getTradingPartnerByWalletAddress("0xabc0000000000000000000000000000000000009"), undefined);
+        await assert.rejects(storage.createTradingPartner({ legalName: "Copycat", role: "distributor", gln: "4000001000005", walletAddresses: ["0x01"] }));
+
+        const verified = await storage.updateTradingPartner(partner.id, { verificationStatus: "verified", verifiedAt: new Date() });
+        assert.equal(verified.verificationStatus, "verified");
+        assert.deepEqual((await storage.getTradingPartners()).map((p) => p.legalName), ["Corner Pharmacy", "MedDistributor GmbH"]);
+        assert.deepEqual((await storage.getTradingPartners({ verificationStatus: "verified" })).map((p) => p.id), [partner.id]);
+        assert.deepEqual((await storage.getTradingPartners({ role: "pharmacist" })).map((p) => p.legalName), ["Corner Pharmacy"]);
+        assert.deepEqual((await storage.getTradingPartners({ gln: "4000001000005" })).map((p) => p.id), [partner.id]);
+
+        assert.equal(await storage.deleteTradingPartner(partner.id), true);
+        assert.equal(await storage.deleteTradingPartner(partner.id), false);
+        assert.equal(await storage.getTradingPartner(partner.id), undefined);
+        await assert.rejects(storage.updateTradingPartner(partner.id, { legalName: "Gone" }), /Trading partner not found/);
+      });
+
+      it("Should keep licenses per partner and find those about to lapse", async () => {
+        const partner = await storage.createTradingPartner({ legalName: "Corner Pharmacy", role: "pharmacist", walletAddresses: ["0xabc0000000000000000000000000000000000003"] });
+        const license = (licenseNumber: string, expiresAt: string) => storage.createPartnerLicense({
+          partnerId: partner.id,
+          licenseNumber,
+          licenseType: "pharmacy",
+          issuingAuthority: "General Pharmaceutical Council",
+          expiresAt: new Date(expiresAt),
+        });
+        const lapsing = await license("GPhC-1", "2030-01-10");
+        const renewed = await license("GPhC-2", "2031-01-10");
+        const revoked = await license("GPhC-3", "2030-01-05");
+        await storage.updatePartnerLicense(revoked.id, { revokedAt: new Date("2029-12-01") });
+
+        assert.equal(lapsing.validFrom, null);
+        assert.equal(lapsing.revokedAt, null);
+        assert.deepEqual((await storage.getPartnerLicenses(partner.id)).map((l) => l.licenseNumber), ["GPhC-2", "GPhC-1", "GPhC-3"]);
+        assert.deepEqual(await storage.getPartnerLicense(renewed.id), renewed);
+
+        const cutoff = new Date("2030-02-01");
+        assert.deepEqual((await storage.getPartnerLicensesExpiringBefore(cutoff)).map((l) => l.id), [lapsing.id]);
+        await storage.updatePartnerLicense(lapsing.id, { expiryNotifiedAt: new Date("2029-12-15") });
+        assert.deepEqual(await storage.getPartnerLicensesExpiringBefore(cutoff), []);
+        await assert.rejects(storage.updatePartnerLicense("missing", { revokedAt: new Date() }), /Partner license not found/);
+
+        await storage.deleteTradingPartner(partner.id);
+        assert.deepEqual(await storage.getPartnerLicenses(partner.id), []);
+      });
+    });
+
+    describe("Notifications", () => {
+      it("Should list a user's unread notifications, most recent first", async () => {
+        const notify = (userId: string, message: string) =>
+          storage.createNotification({ userId, kind: "license_expiring", message, partnerId: "partner-1" });
+        const first = await notify("user-1", "GPhC-1 lapses on 2030-01-10");
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const second = await notify("user-1", "GPhC-2 lapses on 2030-02-10");
+        await notify("user-2", "WDA-1 lapses on 2030-03-10");
+
+        assert.equal(first.readAt, null);
+        assert.equal(first.licenseId, null);
+        assert.deepEqual((await storage.getNotifications("user-1")).map((n) => n.id), [second.id, first.id]);
+
+        const read = await storage.updateNotification(first.id, { readAt: new Date() });
+        assert.deepEqual(await storage.getNotification(first.id), read);
+        assert.deepEqual((await storage.getNotifications("user-1")).map((n) => n.id), [second.id]);
+        assert.equal((await storage.getNotifications("user-1", true)).length, 2);
+        await assert.rejects(storage.updateNotification("missing", { readAt: new Date() }), /Notification not found/);
+      });
+    });
+
+    describe("Indexer State", () => {
+      it("Should save and overwrite the cursor", async () => {
+        assert.equal(await storage.getIndexerState("0xcontract"), undefined);
+
+        await storage.saveIndexerState({ id: "0xcontract", lastProcessedBlock: 5, lastProcessedBlockHash: "0x05" });
+        const saved = await storage.saveIndexerState({ id: "0xcontract", lastProcessedBlock: 9, lastProcessedBlockHash: "0x09" });
+
+        assert.equal(saved.lastProcessedBlock, 9);
+        assert.deepEqual(await storage.getIndexerState("0xcontract"), saved);
+      });
+    });
+
+    describe("Dashboard Stats", () => {
+      it("Should count batches by status", async () => {
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-1" });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-2", status: "in_transit" });
+        await storage.createDrugBatch({ ...drugData, batchId: "BTC-3", status: "expired" });
+
+        const stats = await storage.getDashboardStats();
+        assert.equal(stats.totalBatches, 3);
+        assert.equal(stats.activeTransfers, 1);
+        assert.equal(stats.verifiedDrugs, 2);
+      });
+    });
+  });
+}
+
+storageContract("MemStorage", async () => new MemStorage());
+storageContract("DbStorage", createDbStorage);
@@ -0,0 +1,150 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { canBranch, canShip, getEventIcon, getStatusBadgeVariant, isInStock, shipmentEventTypesFrom, statusAfterEvent } from "@shared/supply-chain";
+import { receivedStatus } from "../server/transfers";
+import { storage } from "../server/storage";
+import { startTestServer, registerBatch, signedInAs, licensed, type TestServer } from "./helpers";
+
+describe("Supply chain state machine", () => {
+  it("Should only ship a batch onwards from where it is in the chain", () => {
+    assert.deepEqual(shipmentEventTypesFrom("manufactured"), ["transfer", "distribute", "deliver"]);
+    assert.deepEqual(shipmentEventTypesFrom("delivered"), ["sell"]);
+    assert.deepEqual(shipmentEventTypesFrom("in_transit"), []);
+    assert.deepEqual(shipmentEventTypesFrom("recalled"), []);
+    assert.equal(canShip("received", "deliver"), true);
+    assert.equal(canShip("manufactured", "sell"), false);
+    assert.equal(canShip("manufactured", "teleport"), false);
+  });
+
+  it("Should give each event type the status it leaves a batch in", () => {
+    assert.equal(statusAfterEvent("manufacture"), "manufactured");
+    assert.equal(statusAfterEvent("distribute"), "received");
+    assert.equal(statusAfterEvent("sell"), "dispensed");
+    assert.equal(statusAfterEvent("destroy"), "destroyed");
+    assert.equal(statusAfterEvent("verify"), null);
+    assert.equal(receivedStatus("deliver"), "delivered");
+    assert.equal(receivedStatus("custom"), "received");
+  });
+
+  it("Should only allow the branches that make sense for a status", () => {
+    assert.equal(canBranch("dispensed", "recall"), true);
+    assert.equal(canBranch("recalled", "recall"), false);
+    assert.equal(canBranch("recalled", "destroy"), true);
+    assert.equal(canBranch("in_transit", "destroy"), false);
+    assert.equal(canBranch("destroyed", "expire"), false);
+    assert.equal(isInStock("delivered"), true);
+    assert.equal(isInStock("dispensed"), false);
+  });
+
+  it("Should show statuses and events the same way everywhere", () => {
+    assert.equal(getStatusBadgeVariant("In_Transit"), "secondary");
+    assert.equal(getStatusBadgeVariant("destroyed"), "destructive");
+    assert.equal(getStatusBadgeVariant("unknown"), "outline");
+    assert.equal(getEventIcon("Sell"), "fas fa-prescription-bottle-medical");
+    assert.equal(getEventIcon("unknown"), "fas fa-arrow-right");
+  });
+});
+
+describe("Supply chain state machine API", () => {
+  let server: TestServer;
+
+  const shipment = async (batchId: string, eventType: string) => ({
+    batchId,
+    newOwner: "MedDistributor Inc.",
+    newOwnerAddress: await licensed(Wallet.createRandom().address),
+    eventType,
+  });
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should register every batch as manufactured, whatever status is sent", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const batchId = await registerBatch(manufacturer, { status: "dispensed" });
+    assert.equal((await storage.getDrugBatchByBatchId(batchId))?.status, "manufactured");
+  });
+
+  it("Should refuse shipments the batch's status doesn't allow", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const batchId = await registerBatch(manufacturer);
+
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", await shipment(batchId, "teleport"))).status, 400);
+
+    const sold = await manufacturer.request("POST", "/api/drug-batches/transfer", await shipment(batchId, "sell"));
+    assert.equal(sold.status, 409);
+    assert.deepEqual((await sold.json()).details, {
+      status: "manufactured",
+      eventType: "sell",
+      allowed: ["transfer", "distribute", "deliver"],
+    });
+
+    const delivered = await manufacturer.request("POST", "/api/drug-batches/transfer", await shipment(batchId, "deliver"));
+    assert.equal(delivered.status, 201);
+  });
+
+  it("Should let only a licensed pharmacy sell a delivered batch to a patient", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const pharmacy = await signedInAs(server, "pharmacist");
+    const patient = await signedInAs(server, "customer");
+    const batchId = await registerBatch(manufacturer);
+
+    const delivered = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "Corner Pharmacy",
+      newOwnerAddress: await licensed(pharmacy.wallet.address),
+      eventType: "deliver",
+    });
+    const { transfer: delivery } = await delivered.json();
+    assert.equal((await pharmacy.request("POST", `/api/drug-batches/transfers/${delivery.id}/accept`)).status, 200);
+
+    const sale = { batchId, newOwner: "Patient", newOwnerAddress: patient.wallet.address, eventType: "sell" };
+    const sold = await pharmacy.request("POST", "/api/drug-batches/transfer", sale);
+    assert.equal(sold.status, 201);
+    const { transfer } = await sold.json();
+    const accepted = await patient.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(accepted.status, 200);
+    assert.equal((await accepted.json()).drugBatch.status, "dispensed");
+
+    // An unlicensed holder can't dispense
+    const otherBatchId = await registerBatch(manufacturer);
+    const unlicensed = await signedInAs(server, "pharmacist");
+    const handover = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId: otherBatchId,
+      newOwner: "Back Street Pharmacy",
+      newOwnerAddress: await licensed(unlicensed.wallet.address),
+      eventType: "deliver",
+    });
+    const { transfer: handoverTransfer } = await handover.json();
+    await unlicensed.request("POST", `/api/drug-batches/transfers/${handoverTransfer.id}/accept`);
+    const partner = await storage.getTradingPartnerByWalletAddress(unlicensed.wallet.address);
+    for (const license of await storage.getPartnerLicenses(partner!.id)) {
+      await storage.updatePartnerLicense(license.id, { revokedAt: new Date() });
+    }
+    const refused = await unlicensed.request("POST", "/api/drug-batches/transfer", { ...sale, batchId: otherBatchId });
+    assert.equal(refused.status, 422);
+    assert.equal((await refused.json()).code, "seller_unlicensed");
+  });
+
+  it("Should let a batch's holder destroy it once, and not ship it afterwards", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const outsider = await signedInAs(server, "distributor");
+    const batchId = await registerBatch(manufacturer);
+
+    assert.equal((await outsider.request("POST", "/api/drug-batches/destroy", { batchId })).status, 403);
+
+    const destroyed = await manufacturer.request("POST", "/api/drug-batches/destroy", { batchId });
+    assert.equal(destroyed.status, 200);
+    const { drugBatch, event } = await destroyed.json();
+    assert.equal(drugBatch.status, "destroyed");
+    assert.equal(event.eventType, "destroy");
+
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/destroy", { batchId })).status, 409);
+    assert.equal((await manufacturer.request("POST", "/api/drug-batches/transfer", await shipment(batchId, "transfer"))).status, 409);
+  });
+});
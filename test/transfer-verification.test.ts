@@ -0,0 +1,273 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { DrugAuth__factory, type DrugAuth } from "@shared/contracts";
+import { drugAuthInterface, TOKEN_TRANSFER_EVENT, TRANSFER_INITIATED_EVENT, verifyMergeTransaction, verifyRecallTransaction, verifySplitTransaction, verifyTransferTransaction } from "../server/blockchain";
+import { storage as appStorage } from "../server/storage";
+import { startTestServer, createClient, signInWithWallet, type TestServer } from "./helpers";
+
+const contractAddress = ethers.Wallet.createRandom().address;
+const from = ethers.Wallet.createRandom().address;
+const to = ethers.Wallet.createRandom().address;
+const transactionHash = ethers.hexlify(ethers.randomBytes(32));
+
+function transferLog(tokenId: number, logFrom = from, logTo = to, address = contractAddress) {
+  const fragment = drugAuthInterface.getEvent(TOKEN_TRANSFER_EVENT);
+  return { address, ...drugAuthInterface.encodeEventLog(fragment, [tokenId, logFrom, logTo, "transfer"]) };
+}
+
+// Stands in for a JSON-RPC provider that has already mined `receipt`
+function providerWith(receipt: unknown) {
+  return { getTransactionReceipt: async () => receipt as ethers.TransactionReceipt | null };
+}
+
+describe("verifyTransferTransaction", () => {
+  const expected = { transactionHash, contractAddress, tokenId: 1, from, to };
+
+  it("Should accept a matching OwnershipTransferred event", async () => {
+    const result = await verifyTransferTransaction(
+      providerWith({ status: 1, blockNumber: 42, logs: [transferLog(1)] }),
+      expected,
+    );
+    assert.deepEqual(result, { verified: true, blockNumber: 42 });
+  });
+
+  it("Should look for the requested handshake event", async () => {
+    const initiated = {
+      address: contractAddress,
+      ...drugAuthInterface.encodeEventLog(drugAuthInterface.getEvent(TRANSFER_INITIATED_EVENT), [1, from, to, "transfer", 1_800_000_000]),
+    };
+    const provider = providerWith({ status: 1, blockNumber: 9, logs: [initiated] });
+
+    assert.deepEqual(
+      await verifyTransferTransaction(provider, { ...expected, event: TRANSFER_INITIATED_EVENT }),
+      { verified: true, blockNumber: 9 },
+    );
+    assert.deepEqual(
+      await verifyTransferTransaction(provider, expected),
+      { verified: false, reason: "No OwnershipTransferred event for token 1 in transaction" },
+    );
+  });
+
+  it("Should reject unknown and reverted transactions", async () => {
+    assert.equal((await verifyTransferTransaction(providerWith(null), expected)).verified, false);
+    assert.deepEqual(
+      await verifyTransferTransaction(providerWith({ status: 0, blockNumber: 1, logs: [transferLog(1)] }), expected),
+      { verified: false, reason: "Transaction reverted" },
+    );
+    assert.equal((await verifyTransferTransaction(providerWith(null), { ...expected, transactionHash: "0x1234" })).verified, false);
+  });
+
+  it("Should reject events for another token, contract, sender or recipient", async () => {
+    const cases = [
+      transferLog(2),
+      transferLog(1, from, to, ethers.Wallet.createRandom().address),
+      transferLog(1, ethers.Wallet.createRandom().address, to),
+      transferLog(1, from, ethers.Wallet.createRandom().address),
+    ];
+
+    for (const log of cases) {
+      const result = await verifyTransferTransaction(providerWith({ status: 1, blockNumber: 1, logs: [log] }), expected);
+      assert.equal(result.verified, false);
+    }
+  });
+});
+
+describe("verifyRecallTransaction", () => {
+  const recallLog = (tokenId: number) =>
+    ({ address: contractAddress, ...drugAuthInterface.encodeEventLog(drugAuthInterface.getEvent("DrugRecalled"), [tokenId, from, "Contamination"]) });
+
+  it("Should need a DrugRecalled event for every token", async () => {
+    const provider = providerWith({ status: 1, blockNumber: 7, logs: [recallLog(1), recallLog(2), transferLog(3)] });
+
+    assert.deepEqual(
+      await verifyRecallTransaction(provider, { transactionHash, contractAddress, tokenIds: [1, 2] }),
+      { verified: true, blockNumber: 7 },
+    );
+    assert.deepEqual(
+      await verifyRecallTransaction(provider, { transactionHash, contractAddress, tokenIds: [1, 3] }),
+      { verified: false, reason: "No DrugRecalled event for token 3 in transaction" },
+    );
+  });
+});
+
+describe("verifySplitTransaction and verifyMergeTransaction", () => {
+  const splitLog = (childTokenId: number, childBatchId: string, quantity: number) =>
+    ({ address: contractAddress, ...drugAuthInterface.encodeEventLog(drugAuthInterface.getEvent("DrugSplit"), [1, childTokenId, childBatchId, quantity]) });
+  const mergeLog = { address: contractAddress, ...drugAuthInterface.encodeEventLog(drugAuthInterface.getEvent("DrugsMerged"), [5, [3, 2], "LOT-M", 70]) };
+
+  it("Should return the sub-lots' tokens in request order", async () => {
+    const provider = providerWith({ status: 1, blockNumber: 8, logs: [splitLog(2, "LOT-A", 30), splitLog(3, "LOT-B", 40)] });
+    const expected = { transactionHash, contractAddress, parentTokenId: 1, lots: [{ batchId: "LOT-B", quantity: 40 }, { batchId: "LOT-A", quantity: 30 }] };
+
+    assert.deepEqual(await verifySplitTransaction(provider, expected), { verified: true, blockNumber: 8, tokenIds: [3, 2] });
+    assert.deepEqual(
+      await verifySplitTransaction(provider, { ...expected, lots: [{ batchId: "LOT-A", quantity: 31 }] }),
+      { verified: false, reason: "On-chain split of LOT-A is 30, expected 31" },
+    );
+    assert.equal((await verifySplitTransaction(provider, { ...expected, parentTokenId: 9 })).verified, false);
+  });
+
+  it("Should need the merge of exactly the given tokens", async () => {
+    const provider = providerWith({ status: 1, blockNumber: 11, logs: [mergeLog] });
+    const expected = { transactionHash, contractAddress, sourceTokenIds: [2, 3], batchId: "LOT-M" };
+
+    assert.deepEqual(await verifyMergeTransaction(provider, expected), { verified: true, blockNumber: 11, tokenId: 5, quantity: 70 });
+    assert.equal((await verifyMergeTransaction(provider, { ...expected, sourceTokenIds: [2, 4] })).verified, false);
+    assert.deepEqual(
+      await verifyMergeTransaction(provider, { ...expected, batchId: "LOT-N" }),
+      { verified: false, reason: "No DrugsMerged event for LOT-N in transaction" },
+    );
+  });
+});
+
+// End-to-end against `npx hardhat node`; skipped when no node is running
+const rpcUrl = process.env.HARDHAT_RPC_URL || "http://127.0.0.1:8545";
+
+async function hardhatAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: [] }),
+      signal: AbortSignal.timeout(2000),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+describe("POST /api/drug-batches/transfer against a Hardhat node", { skip: !(await hardhatAvailable()) }, () => {
+  // Well-known Hardhat development accounts #0 and #1
+  const manufacturerKey = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+  const distributorKey = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+  let server: TestServer;
+  let drugAuth: DrugAuth;
+  let manufacturer: ethers.Wallet;
+  let distributor: ethers.Wallet;
+
+  before(async () => {
+    process.env.RPC_URL = rpcUrl;
+    // No request caching, or back-to-back transactions reuse a stale nonce
+    const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
+    manufacturer = new ethers.Wallet(manufacturerKey, provider);
+    distributor = new ethers.Wallet(distributorKey, provider);
+
+    drugAuth = await new DrugAuth__factory(manufacturer).deploy();
+    await drugAuth.waitForDeployment();
+    // Only licensed parties can be shipped drugs
+    const licenseExpiry = Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60;
+    await (await drugAuth.issueLicense(distributor.address, "WDA-HH-1", licenseExpiry)).wait();
+
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env.RPC_URL;
+  });
+
+  it("Should accept only shipments and receipts that happened on-chain", async () => {
+    const batchId = `HH-${Date.now()}`;
+    const expiryDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    await (await drugAuth.registerDrug(batchId, "Paracetamol 500mg", "PharmaCorp Ltd.", Math.floor(expiryDate.getTime() / 1000), "", 0)).wait();
+    const tokenId = Number(await drugAuth.batchIdToTokenId(batchId));
+    const domain = new URL(server.baseUrl).host;
+
+    const request = createClient(server.baseUrl);
+    const registered = await request("POST", "/api/auth/register", { username: `hh-${batchId}`, password: "password123" });
+    await appStorage.updateUser((await registered.json()).id, { role: "manufacturer" });
+    await signInWithWallet(request, manufacturer, domain);
+    const created = await request("POST", "/api/drug-batches", {
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: expiryDate.toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.address,
+      contractAddress: await drugAuth.getAddress(),
+      tokenId,
+    });
+    assert.equal(created.status, 201);
+
+    const transfer = { batchId, newOwner: "Central Distributor", newOwnerAddress: distributor.address, eventType: "transfer" };
+
+    // No transaction yet
+    const missing = await request("POST", "/api/drug-batches/transfer", {
+      ...transfer,
+      transactionHash: ethers.hexlify(ethers.randomBytes(32)),
+    });
+    assert.equal(missing.status, 422);
+
+    const shipment = (await (await drugAuth.initiateTransfer(tokenId, distributor.address, "transfer")).wait())!;
+
+    // Claiming a different recipient than the chain recorded
+    const mismatched = await request("POST", "/api/drug-batches/transfer", {
+      ...transfer,
+      newOwnerAddress: ethers.Wallet.createRandom().address,
+      transactionHash: shipment.hash,
+    });
+    assert.equal(mismatched.status, 422);
+    assert.equal((await mismatched.json()).code, "transfer_not_verified");
+
+    const shipped = await request("POST", "/api/drug-batches/transfer", { ...transfer, transactionHash: shipment.hash });
+    assert.equal(shipped.status, 201);
+    const { transfer: pending } = await shipped.json();
+
+    const recipient = createClient(server.baseUrl);
+    const recipientUser = await recipient("POST", "/api/auth/register", { username: `hh-recipient-${batchId}`, password: "password123" });
+    await appStorage.updateUser((await recipientUser.json()).id, { role: "distributor" });
+    await signInWithWallet(recipient, distributor, domain);
+
+    // The shipment transaction is not a receipt
+    const early = await recipient("POST", `/api/drug-batches/transfers/${pending.id}/accept`, { transactionHash: shipment.hash });
+    assert.equal(early.status, 422);
+
+    const receipt = (await (await drugAuth.connect(distributor).acceptTransfer(tokenId)).wait())!;
+    const accepted = await recipient("POST", `/api/drug-batches/transfers/${pending.id}/accept`, { transactionHash: receipt.hash });
+    assert.equal(accepted.status, 200);
+    const { event } = await accepted.json();
+    assert.equal(event.blockNumber, receipt.blockNumber);
+  });
+
+  it("Should ship part of a batch split off on-chain in the same transaction", async () => {
+    const batchId = `HH-PART-${Date.now()}`;
+    const expiryDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    await (await drugAuth.registerDrug(batchId, "Paracetamol 500mg", "PharmaCorp Ltd.", Math.floor(expiryDate.getTime() / 1000), "", 100)).wait();
+    const tokenId = Number(await drugAuth.batchIdToTokenId(batchId));
+
+    // The wallet is already linked to the manufacturer account from the test above
+    const request = createClient(server.baseUrl);
+    await signInWithWallet(request, manufacturer, new URL(server.baseUrl).host);
+    const created = await request("POST", "/api/drug-batches", {
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date().toISOString(),
+      expiryDate: expiryDate.toISOString(),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: manufacturer.address,
+      contractAddress: await drugAuth.getAddress(),
+      tokenId,
+      quantity: 100,
+    });
+    assert.equal(created.status, 201);
+
+    const transfer = { batchId, newOwner: "Central Distributor", newOwnerAddress: distributor.address, eventType: "transfer", lotBatchId: `${batchId}-A` };
+    const shipment = (await (await drugAuth.initiatePartialTransfer(tokenId, `${batchId}-A`, 30, distributor.address, "transfer")).wait())!;
+
+    // Claiming a different quantity than was split off
+    const mismatched = await request("POST", "/api/drug-batches/transfer", { ...transfer, quantity: 40, transactionHash: shipment.hash });
+    assert.equal(mismatched.status, 422);
+    assert.equal((await mismatched.json()).code, "transfer_not_verified");
+
+    const shipped = await request("POST", "/api/drug-batches/transfer", { ...transfer, quantity: 30, transactionHash: shipment.hash });
+    assert.equal(shipped.status, 201);
+    const { drugBatch, sourceBatch } = await shipped.json();
+    assert.equal(drugBatch.tokenId, Number(await drugAuth.batchIdToTokenId(`${batchId}-A`)));
+    assert.equal(sourceBatch.quantity, 70);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { MemStorage } from "../server/storage";
+import { acceptTransfer, closeTransfer, expireTransfers, initiateTransfer } from "../server/transfers";
+import { startTestServer, registerBatch, createClient, signedInAs, licensed, type TestServer, type TestUser } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2030-06-01T00:00:00Z");
+const sender = Wallet.createRandom().address;
+const recipient = Wallet.createRandom().address;
+
+describe("Transfer handshake", () => {
+  let storage: MemStorage;
+
+  async function createBatch(batchId: string, status = "manufactured") {
+    return storage.createDrugBatch({
+      batchId,
+      drugName: "Paracetamol 500mg",
+      manufacturer: "PharmaCorp Ltd.",
+      manufacturingDate: new Date("2030-01-01"),
+      expiryDate: new Date("2032-01-01"),
+      currentOwner: "PharmaCorp Ltd.",
+      currentOwnerAddress: sender,
+      status,
+    });
+  }
+
+  const shipment = (eventType = "transfer") => ({ toOwner: "MedDistributor", toOwnerAddress: recipient, eventType, initiatedAt: now });
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("Should keep the batch with the sender, in transit, until the recipient accepts", async () => {
+    const batch = await createBatch("TRF-1");
+    const { drugBatch, transfer } = (await initiateTransfer(batch, shipment("deliver"), storage))!;
+
+    assert.equal(drugBatch.status, "in_transit");
+    assert.equal(drugBatch.currentOwnerAddress, sender);
+    assert.equal(transfer.previousStatus, "manufactured");
+    assert.equal(transfer.deadline.getTime(), now.getTime() + 14 * DAY_MS);
+    assert.deepEqual(await storage.getSupplyChainEventsByBatchId("TRF-1"), []);
+
+    const accepted = (await acceptTransfer(transfer, drugBatch, { transactionHash: "0xabc" }, storage))!;
+    assert.equal(accepted.drugBatch.currentOwnerAddress, recipient);
+    assert.equal(accepted.drugBatch.status, "delivered");
+    assert.equal(accepted.transfer.status, "accepted");
+    assert.equal(accepted.event.eventType, "deliver");
+    assert.equal(accepted.event.fromOwnerAddress, sender);
+    assert.equal(accepted.t3Document.eventId, accepted.event.id);
+  });
+
+  it("Should restore the batch's status when the recipient rejects", async () => {
+    const batch = await createBatch("TRF-2", "received");
+    const { drugBatch, transfer } = (await initiateTransfer(batch, shipment(), storage))!;
+
+    const rejected = (await closeTransfer(transfer, drugBatch, { status: "rejected", reason: "Damaged in transit" }, storage))!;
+    assert.equal(rejected.drugBatch.status, "received");
+    assert.equal(rejected.drugBatch.currentOwnerAddress, sender);
+    assert.equal(rejected.transfer.rejectionReason, "Damaged in transit");
+    assert.ok(rejected.transfer.resolvedAt);
+  });
+
+  it("Should time out unacknowledged transfers without undoing a recall", async () => {
+    const first = (await initiateTransfer(await createBatch("TRF-3"), shipment(), storage))!;
+    const second = (await initiateTransfer(await createBatch("TRF-4"), shipment(), storage))!;
+    await storage.updateDrugBatch(second.drugBatch.id, { status: "recalled" });
+    await initiateTransfer(await createBatch("TRF-5"), { ...shipment(), initiatedAt: new Date(now.getTime() + 10 * DAY_MS) }, storage);
+
+    const expired = await expireTransfers(new Date(now.getTime() + 15 * DAY_MS), storage);
+    assert.deepEqual(expired.map((transfer) => transfer.id).sort(), [first.transfer.id, second.transfer.id].sort());
+    assert.equal((await storage.getDrugBatchByBatchId("TRF-3"))?.status, "manufactured");
+    assert.equal((await storage.getDrugBatchByBatchId("TRF-4"))?.status, "recalled");
+    assert.equal((await storage.getDrugBatchByBatchId("TRF-5"))?.status, "in_transit");
+  });
+
+  it("Should ship and resolve a transfer only once when requests race", async () => {
+    const batch = await createBatch("TRF-6");
+    const shipped = await Promise.all([initiateTransfer(batch, shipment(), storage), initiateTransfer(batch, shipment(), storage)]);
+    assert.equal(shipped.filter(Boolean).length, 1);
+
+    const { drugBatch, transfer } = shipped.find(Boolean)!;
+    const [accepted, rejected] = await Promise.all([
+      acceptTransfer(transfer, drugBatch, {}, storage),
+      closeTransfer(transfer, drugBatch, { status: "rejected", reason: "Too late" }, storage),
+    ]);
+    assert.equal(accepted?.transfer.status, "accepted");
+    assert.equal(rejected, null);
+    assert.equal(await acceptTransfer(transfer, drugBatch, {}, storage), null);
+    assert.equal((await storage.getSupplyChainEventsByBatchId("TRF-6")).length, 1);
+    assert.equal((await storage.getDrugBatchByBatchId("TRF-6"))?.currentOwnerAddress, recipient);
+  });
+});
+
+describe("Transfer API", () => {
+  let server: TestServer;
+  // Registers a batch to `manufacturer` and ships it to `to`
+  async function ship(manufacturer: TestUser, to: Wallet) {
+    const batchId = await registerBatch(manufacturer);
+
+    const res = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "MedDistributor",
+      newOwnerAddress: await licensed(to.address),
+      eventType: "transfer",
+    });
+    assert.equal(res.status, 201);
+    return { batchId, ...(await res.json()) };
+  }
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("Should list incoming shipments and flip ownership only on receipt", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    const { batchId, drugBatch, transfer } = await ship(manufacturer, distributor.wallet);
+    assert.equal(drugBatch.status, "in_transit");
+    assert.equal(drugBatch.currentOwnerAddress, manufacturer.wallet.address);
+
+    const duplicate = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "Elsewhere",
+      newOwnerAddress: await licensed(Wallet.createRandom().address),
+      eventType: "transfer",
+    });
+    assert.equal(duplicate.status, 409);
+
+    const incoming = await (await distributor.request("GET", "/api/drug-batches/transfers?status=pending")).json();
+    assert.deepEqual(incoming.map((t: { id: string }) => t.id), [transfer.id]);
+    const outgoing = await (await manufacturer.request("GET", "/api/drug-batches/transfers?direction=outgoing")).json();
+    assert.deepEqual(outgoing.map((t: { id: string }) => t.id), [transfer.id]);
+    assert.equal((await distributor.request("GET", "/api/drug-batches/transfers?status=lost")).status, 400);
+
+    const accepted = await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(accepted.status, 200);
+    const body = await accepted.json();
+    assert.equal(body.drugBatch.status, "received");
+    assert.equal(body.drugBatch.currentOwnerAddress, distributor.wallet.address);
+
+    assert.equal((await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`)).status, 409);
+    const history = await (await createClient(server.baseUrl)("GET", `/api/drug-batches/history/${batchId}`)).json();
+    assert.deepEqual(history.map((e: { eventType: string }) => e.eventType), ["manufacture", "transfer"]);
+  });
+
+  it("Should accept a shipment once when the recipient confirms twice at the same time", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    const { batchId, transfer } = await ship(manufacturer, distributor.wallet);
+
+    const responses = await Promise.all([
+      distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`),
+      distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`),
+    ]);
+    assert.deepEqual(responses.map((res) => res.status).sort(), [200, 409]);
+
+    const history = await (await createClient(server.baseUrl)("GET", `/api/drug-batches/history/${batchId}`)).json();
+    assert.deepEqual(history.map((e: { eventType: string }) => e.eventType), ["manufacture", "transfer"]);
+  });
+
+  it("Should let the recipient reject with a reason", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    const { batchId, transfer } = await ship(manufacturer, distributor.wallet);
+
+    const outsider = await signedInAs(server, "pharmacist");
+    const denied = await outsider.request("POST", `/api/drug-batches/transfers/${transfer.id}/reject`, { reason: "Not mine" });
+    assert.equal(denied.status, 403);
+    assert.equal((await denied.json()).code, "not_transfer_recipient");
+
+    assert.equal((await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/reject`, { reason: "" })).status, 400);
+    const rejected = await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/reject`, { reason: "Seal broken" });
+    assert.equal(rejected.status, 200);
+    const body = await rejected.json();
+    assert.equal(body.transfer.status, "rejected");
+    assert.equal(body.transfer.rejectionReason, "Seal broken");
+    assert.equal(body.drugBatch.status, "manufactured");
+    assert.equal(body.drugBatch.currentOwnerAddress, manufacturer.wallet.address);
+
+    // The sender can ship it again
+    const retry = await manufacturer.request("POST", "/api/drug-batches/transfer", {
+      batchId,
+      newOwner: "Another Distributor",
+      newOwnerAddress: await licensed(Wallet.createRandom().address),
+      eventType: "transfer",
+    });
+    assert.equal(retry.status, 201);
+  });
+
+  it("Should not let a recipient accept a batch recalled in transit", async () => {
+    const manufacturer = await signedInAs(server, "manufacturer");
+    const distributor = await signedInAs(server, "distributor");
+    const { batchId, transfer } = await ship(manufacturer, distributor.wallet);
+    await manufacturer.request("POST", "/api/drug-batches/recall", { batchId, reason: "Contamination" });
+
+    const res = await distributor.request("POST", `/api/drug-batches/transfers/${transfer.id}/accept`);
+    assert.equal(res.status, 409);
+    assert.equal((await createClient(server.baseUrl)("POST", `/api/drug-batches/transfers/${transfer.id}/accept`)).status, 401);
+    assert.equal((await distributor.request("POST", "/api/drug-batches/transfers/missing/accept")).status, 404);
+  });
+});